@@ -1,81 +1,98 @@
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import type { Inputs, Results } from './types';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import type { AiModel, Inputs, Results, AnalysisSettings, AnalysisMode, LabelledTable, PersonTimeInputs, IntervalEstimate } from './types';
 import { InputControl } from './components/InputControl';
 import { Tooltip } from './components/Tooltip';
 import { HowToUsePage } from './components/HowToUsePage';
 import { LanguageSwitcher } from './components/LanguageSwitcher';
-import { translations, getTooltips, studyDesignLabels, studyGoalLabels, languageName, type Language, type StudyGoal, type StudyDesign } from './i18n';
-
-
-// Standard Normal cumulative distribution function using Abramowitz and Stegun approximation for erf
-const normalCDF = (x: number): number => {
-    // Constants for the approximation
-    const p = 0.3275911;
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-
-    // The relationship is CDF(x) = 0.5 * (1 + erf(x / sqrt(2)))
-    const z = x / Math.sqrt(2);
-    const sign = z >= 0 ? 1 : -1;
-    const t = 1.0 / (1.0 + p * Math.abs(z));
-    const erf = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
-    const cdf = 0.5 * (1.0 + sign * erf);
-
-    return cdf;
+import { AnalysisSettingsPanel } from './components/AnalysisSettingsPanel';
+import { SampleSizePlannerPage } from './components/SampleSizePlannerPage';
+import { TableListInput, createEmptyTable } from './components/TableListInput';
+import { MetaAnalysisResults } from './components/MetaAnalysisResults';
+import { PersonTimeInput, createEmptyPersonTimeInputs } from './components/PersonTimeInput';
+import { IncidenceRateResults } from './components/IncidenceRateResults';
+import { DiagnosticAccuracyResults } from './components/DiagnosticAccuracyResults';
+import { MatchedPairsResults } from './components/MatchedPairsResults';
+import { EValueRows } from './components/EValueRows';
+import { BayesianPanel } from './components/BayesianPanel';
+import { ResultCharts } from './components/ResultCharts';
+import { IconArray } from './components/IconArray';
+import { ExportMenu } from './components/ExportMenu';
+import type { ResultsExport } from './resultsExport';
+import { PrintReportPage } from './components/PrintReportPage';
+import { encodeShareLink, readShareLink, type SharedAnalysis } from './shareLink';
+import { AnalysisLibraryPage } from './components/AnalysisLibraryPage';
+import { ComparisonPage } from './components/ComparisonPage';
+import { BatchPage } from './components/BatchPage';
+import { IndividualDataImport } from './components/IndividualDataImport';
+import { createConfiguredProvider, type AiModelOption } from './aiProviders';
+import { calculateResults, poolStrata, withExposurePrevalence, withTargetPrevalence } from './calculation';
+import type { SavedAnalysis } from './analysisLibrary';
+import { translations, getTooltips, studyDesignLabels, studyGoalLabels, languageName, ciMethodLabels, type Language, type StudyGoal, type StudyDesign } from './i18n';
+import { calculateRequiredSampleSize, formatConfidenceLevel } from './statistics';
+
+
+const defaultAnalysisSettings: AnalysisSettings = {
+  alpha: 0.05,
+  sidedness: 'two-sided',
+  confidenceLevel: 0.95,
+  ciMethods: { riskDifference: 'wald', relativeRisk: 'wald', oddsRatio: 'wald' },
 };
 
-// Calculates a two-tailed p-value from a Z-statistic using the corrected normalCDF
-const calculatePValueFromZ = (z: number): string => {
-  const absZ = Math.abs(z);
-  const p = 2 * (1 - normalCDF(absZ));
-  return p < 0.0001 ? '<0.0001' : p.toFixed(4);
-};
-
-// Calculates the required sample size per group to achieve 80% power
-const calculateRequiredSampleSize = (p1: number, p2: number): number | null => {
-    if (p1 === p2 || isNaN(p1) || isNaN(p2)) return null;
+// Designs that follow participants over time, so events can be related to person-time
+const personTimeDesigns: StudyDesign[] = ['cohort-prospective', 'cohort-retrospective'];
+// Designs whose 2x2 grid has its own meaning, so they only support the single-table analysis
+const singleTableDesigns: StudyDesign[] = ['diagnostic-accuracy', 'matched-case-control'];
 
-    const powerTarget = 0.80;
-    const alpha = 0.05;
-    const z_alpha_half = 1.96; 
-    const z_beta = 0.8416; // for 80% power
+const aiProvider = createConfiguredProvider();
 
-    const p_pooled = (p1 + p2) / 2;
+const htmlEscapes: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
 
-    const term1 = z_alpha_half * Math.sqrt(2 * p_pooled * (1 - p_pooled));
-    const term2 = z_beta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
-    const numerator = Math.pow(term1 + term2, 2);
-    const denominator = Math.pow(p1 - p2, 2);
+// AI text can come from an imported library file, so it is escaped before the only markup it may carry, **bold**, is turned into HTML
+const aiTextToHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => htmlEscapes[char]).replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
 
-    if (denominator === 0) return null;
-    
-    return Math.ceil(numerator / denominator);
+// Keeps the chosen model when the provider offers it, otherwise falls back to the provider's default or its first model
+const pickAiModel = (models: AiModelOption[], wanted: AiModel): AiModel => {
+  if (models.some(model => model.id === wanted)) return wanted;
+  return models.some(model => model.id === aiProvider.defaultModel) ? aiProvider.defaultModel : models[0]?.id ?? wanted;
 };
 
-type AiModel = 'gemini-2.5-flash' | 'gemini-2.5-pro';
-
 const App: React.FC = () => {
   const initialInputs: Inputs = { a: '', b: '', c: '', d: '' };
-  const [inputs, setInputs] = useState<Inputs>(initialInputs);
-  const [studyGoal, setStudyGoal] = useState<StudyGoal | null>(null);
-  const [studyDesign, setStudyDesign] = useState<StudyDesign | null>(null);
-  const [aiModel, setAiModel] = useState<AiModel>('gemini-2.5-flash');
+  // An analysis opened from a shared link seeds the initial state and is recalculated on load
+  const [sharedLink] = useState(() => readShareLink(window.location.hash));
+  const sharedAnalysis = sharedLink && 'analysis' in sharedLink ? sharedLink.analysis : null;
+  const [inputs, setInputs] = useState<Inputs>(sharedAnalysis?.inputs ?? initialInputs);
+  const [studyGoal, setStudyGoal] = useState<StudyGoal | null>(sharedAnalysis?.studyGoal ?? null);
+  const [studyDesign, setStudyDesign] = useState<StudyDesign | null>(sharedAnalysis?.studyDesign ?? null);
+  const [aiModel, setAiModel] = useState<AiModel>(sharedAnalysis?.aiModel ?? aiProvider.defaultModel);
+  // The models offered by the active provider; null while they are loading
+  const [aiModels, setAiModels] = useState<AiModelOption[] | null>(null);
+  const [aiModelsError, setAiModelsError] = useState(false);
   const [results, setResults] = useState<Results | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
   const [isInterpreting, setIsInterpreting] = useState<boolean>(false);
   const [aiInterpretation, setAiInterpretation] = useState<string | null>(null);
   const [aiNarrativeSummary, setAiNarrativeSummary] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState<'calculator' | 'interpretation' | 'narrativeSummary' | 'howToUse'>('calculator');
-  const [language, setLanguage] = useState<Language>('en');
+  const [currentPage, setCurrentPage] = useState<'calculator' | 'interpretation' | 'narrativeSummary' | 'report' | 'library' | 'comparison' | 'batch' | 'howToUse' | 'samplePlanner'>('calculator');
+  const [language, setLanguage] = useState<Language>(sharedAnalysis?.language ?? 'en');
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(sharedAnalysis?.analysisSettings ?? defaultAnalysisSettings);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(sharedAnalysis?.analysisMode ?? 'single');
+  const [strata, setStrata] = useState<LabelledTable[]>(() => sharedAnalysis?.strata ?? [createEmptyTable(), createEmptyTable()]);
+  // Note on the file the counts were tallied from; kept with the mode it filled in and cleared when the counts are edited
+  const [dataProvenance, setDataProvenance] = useState<{ analysisMode: AnalysisMode; text: string } | null>(null);
+  const [studies, setStudies] = useState<LabelledTable[]>(() => sharedAnalysis?.studies ?? [createEmptyTable(), createEmptyTable()]);
+  const [personTimeInputs, setPersonTimeInputs] = useState<PersonTimeInputs>(() => sharedAnalysis?.personTimeInputs ?? createEmptyPersonTimeInputs());
+  const [targetPrevalence, setTargetPrevalence] = useState<string>(sharedAnalysis?.targetPrevalence ?? '');
+  const [exposurePrevalence, setExposurePrevalence] = useState<string>(sharedAnalysis?.exposurePrevalence ?? '');
+  const [isLinkCopied, setIsLinkCopied] = useState<boolean>(false);
 
   const T = translations[language];
   const tooltips = getTooltips(language);
+  // The table the crude results (and the AI prompts) are based on
+  const analysisInputs = useMemo(() => (analysisMode === 'stratified' ? poolStrata(strata) : inputs), [analysisMode, strata, inputs]);
 
   const handleLanguageChange = useCallback((lang: Language) => {
     setLanguage(lang);
@@ -86,13 +103,60 @@ const App: React.FC = () => {
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setInputs(prev => ({ ...prev, [name]: value }));
+    setDataProvenance(null);
+  }, []);
+
+  const handleStrataChange = useCallback((tables: LabelledTable[]) => {
+    setStrata(tables);
+    setDataProvenance(null);
+  }, []);
+
+  // Counts tallied from an individual-level file replace the single table, or the strata when a stratification column was chosen
+  const handleApplyIndividualData = useCallback((data: { inputs: Inputs; strata: LabelledTable[]; provenance: string }) => {
+    const mode: AnalysisMode = data.strata.length > 0 ? 'stratified' : 'single';
+    setInputs(data.inputs);
+    if (mode === 'stratified') setStrata(data.strata);
+    setAnalysisMode(mode);
+    setDataProvenance({ analysisMode: mode, text: data.provenance });
+  }, []);
+
+  const handleStudyDesignChange = useCallback((design: StudyDesign) => {
+    setStudyDesign(design);
+    // Person-time data are only offered for cohort designs, and some designs only use a single table
+    if (singleTableDesigns.includes(design)) {
+      setAnalysisMode('single');
+    } else if (!personTimeDesigns.includes(design)) {
+      setAnalysisMode(prev => (prev === 'incidenceRate' ? 'single' : prev));
+    }
+  }, []);
+
+  const handleTargetPrevalenceChange = useCallback((value: string) => {
+    setTargetPrevalence(value);
+    setResults(prev => (prev?.diagnosticAccuracy ? { ...prev, diagnosticAccuracy: withTargetPrevalence(prev.diagnosticAccuracy, value) } : prev));
+    // Reports describe the predictive values, so they have to be regenerated
+    setAiInterpretation(null);
+    setAiNarrativeSummary(null);
+  }, []);
+
+  const handleExposurePrevalenceChange = useCallback((value: string) => {
+    setExposurePrevalence(value);
+    setResults(prev => (prev?.attributableFractions ? { ...prev, attributableFractions: withExposurePrevalence(prev.attributableFractions, value) } : prev));
+    setAiInterpretation(null);
+    setAiNarrativeSummary(null);
   }, []);
 
   const handleReset = useCallback(() => {
     setInputs(initialInputs);
+    setDataProvenance(null);
+    setAnalysisMode('single');
+    setStrata([createEmptyTable(), createEmptyTable()]);
+    setStudies([createEmptyTable(), createEmptyTable()]);
+    setPersonTimeInputs(createEmptyPersonTimeInputs());
+    setTargetPrevalence('');
+    setExposurePrevalence('');
     setStudyGoal(null);
     setStudyDesign(null);
-    setAiModel('gemini-2.5-flash');
+    if (aiModels) setAiModel(pickAiModel(aiModels, aiProvider.defaultModel));
     setResults(null);
     setError(null);
     setAiInterpretation(null);
@@ -100,15 +164,14 @@ const App: React.FC = () => {
     setIsCalculating(false);
     setIsInterpreting(false);
     setCurrentPage('calculator');
-  }, [initialInputs]);
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  }, [initialInputs, aiModels]);
 
   const fetchAiNarrativeSummary = useCallback(async (currentResults: Results, currentInputs: Inputs, goal: StudyGoal, design: StudyDesign, model: AiModel, lang: Language) => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      setAiNarrativeSummary("Error: API key not configured. Please set GEMINI_API_KEY in your .env.local file.");
+    if (aiProvider.configurationError) {
+      setAiNarrativeSummary(`Error: ${aiProvider.configurationError}`);
       return;
     }
-    const ai = new GoogleGenAI({ apiKey });
 
     const formatValue = (val: number | string | undefined | null, precision = 2) => {
       if (typeof val === 'number' && isFinite(val)) return val.toFixed(precision);
@@ -125,9 +188,11 @@ const App: React.FC = () => {
     let findingsOnRiskPrompt = '';
 
     const or_result = formatValue(currentResults.oddsRatio?.value);
+    const ciLevel = formatConfidenceLevel(currentResults.analysisSettings.confidenceLevel);
+    const or_ci_result = currentResults.oddsRatio ? ` (${ciLevel}% CI: ${formatValue(currentResults.oddsRatio.lower)} to ${formatValue(currentResults.oddsRatio.upper)})` : '';
     
     if (design === 'case-control') {
-        keyMetricsPrompt = `- Odds Ratio (OR): ${or_result}`;
+        keyMetricsPrompt = `- Odds Ratio (OR): ${or_result}${or_ci_result}`;
         findingsOnRiskPrompt = `(In 2-3 paragraphs, explain the primary measure of association.
 - As this is a Case-Control study, the key measure of association is the Odds Ratio (OR). Define it as the odds of prior exposure in the case group compared to the odds of prior exposure in the control group. For example: "An Odds Ratio of ${or_result} indicates that the group with the outcome had ${or_result} times the odds of having been exposed compared to the control group.")`;
         individualImpactPrompt = `(In 1-2 paragraphs, explain that Case-Control studies are not designed to calculate absolute risk or measures like NNT/NNH. Briefly state that the Odds Ratio provides an estimate of the strength of the association between the exposure and the outcome.)`;
@@ -136,6 +201,7 @@ const App: React.FC = () => {
         const are_result = formatValue(currentResults.absoluteRiskExposed?.value, 4);
         const arc_result = formatValue(currentResults.absoluteRiskControl?.value, 4);
         const rr_result = formatValue(currentResults.relativeRisk?.value);
+        const rr_ci_result = currentResults.relativeRisk ? ` (${ciLevel}% CI: ${formatValue(currentResults.relativeRisk.lower)} to ${formatValue(currentResults.relativeRisk.upper)})` : '';
         const rd_result = formatValue(currentResults.riskDifference?.value, 4);
 
         let nnt_result_for_ai = 'Not applicable';
@@ -152,8 +218,8 @@ const App: React.FC = () => {
 
         keyMetricsPrompt = `- Risk in Exposed Group: ${are_result}
 - Risk in Control Group: ${arc_result}
-- Relative Risk (RR): ${rr_result}
-- Odds Ratio (OR): ${or_result}
+- Relative Risk (RR): ${rr_result}${rr_ci_result}
+- Odds Ratio (OR): ${or_result}${or_ci_result}
 - Risk Difference (RD): ${rd_result}
 - ${nnt_result_for_ai}`;
         
@@ -166,14 +232,119 @@ const App: React.FC = () => {
 - Explain the Number Needed to Treat (NNT) or Harm (NNH). Define it as the number of people who must receive the treatment (or exposure) for one person to experience the benefit (or harm). ${nnt_narrative_example})`;
     }
 
+    if (currentResults.stratified) {
+        const isCaseControl = design === 'case-control';
+        const adjusted = isCaseControl ? currentResults.stratified.adjusted.oddsRatio : currentResults.stratified.adjusted.relativeRisk;
+        if (adjusted) {
+            keyMetricsPrompt += `\n- ${isCaseControl ? 'Odds Ratio (OR)' : 'Relative Risk (RR)'} adjusted for the stratification variable (Mantel–Haenszel, ${currentResults.stratified.strata.length} strata): ${formatValue(adjusted.value)} (${ciLevel}% CI: ${formatValue(adjusted.lower)} to ${formatValue(adjusted.upper)}). The other metrics are crude estimates from the pooled table; when the adjusted and crude estimates differ, present the adjusted one as the main finding.`;
+        }
+    }
 
-    const prompt = `You are an expert science writer and epidemiologist. Your task is to produce a clear, professional summary of a health study's findings for an educated, non-specialist audience. The style should be academic yet accessible, similar to a university public health report. **The entire response must be written in ${langNameForPrompt}**.
+    const fractions = currentResults.attributableFractions;
+    if (fractions) {
+        const formatFraction = (estimate: IntervalEstimate) => `${formatValue(estimate.value * 100, 1)}% (${ciLevel}% CI: ${formatValue(estimate.lower * 100, 1)}% to ${formatValue(estimate.upper * 100, 1)}%)`;
+        const basis = fractions.measure === 'oddsRatio' ? 'Odds Ratio' : 'Relative Risk';
+        const prevalence = `${formatValue(fractions.exposurePrevalence * 100, 1)}%${fractions.exposurePrevalenceSource === 'input' ? ', as entered by the user' : design === 'case-control' ? ', estimated from the controls' : ', estimated from the study sample'}`;
+        if (fractions.type === 'attributable') {
+            keyMetricsPrompt += `
+- Attributable Fraction among the Exposed (from the ${basis}): ${formatFraction(fractions.exposed)}
+- Population Attributable Fraction (Levin's formula, exposure prevalence ${prevalence}): ${formatFraction(fractions.population)}${fractions.caseBased ? `
+- Population Attributable Fraction (Miettinen's case-based formula): ${formatFraction(fractions.caseBased)}` : ''}`;
+            individualImpactPrompt += `
+(In 1 paragraph, explain the attributable fractions: the share of outcomes among exposed people that is due to the exposure, and the share of all outcomes in the population that would be avoided if the exposure were removed. Stress that this assumes the association is causal and free of confounding${fractions.exposurePrevalenceSource === 'sample' && design !== 'case-control' ? ', and that the population figure uses the exposure prevalence of the study sample, which may not match the target population' : ''}.)`;
+        } else {
+            keyMetricsPrompt += `
+- Prevented Fraction among the Exposed (from the ${basis}): ${formatFraction(fractions.exposed)}
+- Population Prevented Fraction (exposure prevalence ${prevalence}): ${formatFraction(fractions.population)}`;
+            individualImpactPrompt += `
+(In 1 paragraph, explain the prevented fractions: the share of the outcomes that exposed people would otherwise have had which was prevented by the exposure, and the share of potential outcomes in the whole population prevented at the given exposure prevalence. Stress that this assumes the association is causal and free of confounding.)`;
+        }
+    }
 
-The user has specified this is a **${studyDesignLabel}** analyzing a **${goalLabel} outcome**. They have provided the following data from a 2x2 contingency table:
+    let dataPrompt = `They have provided the following data from a 2x2 contingency table:
 - Exposed Group, With Outcome (a): ${currentInputs.a}
 - Exposed Group, Without Outcome (b): ${currentInputs.b}
 - Control Group, With Outcome (c): ${currentInputs.c}
-- Control Group, Without Outcome (d): ${currentInputs.d}
+- Control Group, Without Outcome (d): ${currentInputs.d}`;
+
+    // Person-time data describe rates rather than risks, so the data and all three metric sections are replaced
+    const incidenceRate = currentResults.incidenceRate;
+    if (incidenceRate) {
+        const unit = `person-${incidenceRate.timeUnit}`;
+        const { counts, rateRatio, rateDifference, nnt } = incidenceRate;
+        const irr_result = formatValue(rateRatio?.value);
+        dataPrompt = `They have provided the following data on events observed over follow-up time (person-time):
+- Exposed Group: ${counts.eventsExposed} events over ${counts.personTimeExposed} ${unit}
+- Control Group: ${counts.eventsControl} events over ${counts.personTimeControl} ${unit}`;
+        keyMetricsPrompt = `- Incidence Rate (Exposed): ${formatValue(incidenceRate.rateExposed * 1000, 3)} per 1,000 ${unit}
+- Incidence Rate (Control): ${formatValue(incidenceRate.rateControl * 1000, 3)} per 1,000 ${unit}
+- Incidence Rate Ratio (IRR): ${irr_result}${rateRatio ? ` (${ciLevel}% CI: ${formatValue(rateRatio.lower)} to ${formatValue(rateRatio.upper)})` : ''}
+- Incidence Rate Difference: ${rateDifference ? `${formatValue(rateDifference.value * 1000, 3)} per 1,000 ${unit} (${ciLevel}% CI: ${formatValue(rateDifference.lower * 1000, 3)} to ${formatValue(rateDifference.upper * 1000, 3)})` : 'N/A'}
+- ${nnt ? `${nnt.type === 'Benefit' ? 'Number Needed to Treat (NNT)' : 'Number Needed to Harm (NNH)'}: ${formatValue(nnt.value, 1)} ${unit}` : 'NNT/NNH: Not applicable'}`;
+        findingsOnRiskPrompt = `(In 2-3 paragraphs, explain the primary measures of association.
+- First, explain the Incidence Rate Ratio (IRR). Define it as the ratio of the rate at which new events occurred in the exposed group to the rate in the control group, where each rate is the number of events divided by the total follow-up time. For example: "An Incidence Rate Ratio of ${irr_result} indicates that events occurred ${irr_result} times as often per unit of follow-up time in the exposed group as in the control group."
+- Explain why rates over person-time are used when participants are followed for different lengths of time.)`;
+        individualImpactPrompt = `(In 2-3 paragraphs, translate the findings to an individual or population level.
+- Explain the incidence rate in each group as the number of events expected per 1,000 ${unit} of follow-up, and the rate difference as the number of additional or prevented events per 1,000 ${unit}.
+- Explain the NNT/NNH as an amount of follow-up time: the number of ${unit} of exposure after which one additional event is prevented (or caused).${nnt ? ` For example, ${formatValue(nnt.value, 1)} ${unit} could mean ${formatValue(nnt.value, 1)} people each followed for one ${incidenceRate.timeUnit.slice(0, -1)}.` : ''})`;
+    }
+
+    let overviewPrompt = `(In 1-2 paragraphs, describe the study's design as a **${studyDesignLabel}**. Explain that it compares an 'exposed' group to a 'control' (unexposed) group to assess the effect of the exposure on a specific, **${goalLabel}** health outcome.)`;
+
+    // A diagnostic accuracy study evaluates a test rather than an exposure, so every section is replaced
+    const diagnostic = currentResults.diagnosticAccuracy;
+    if (diagnostic) {
+        const formatPercent = (estimate: { value: number; lower: number; upper: number } | null) =>
+            estimate ? `${formatValue(estimate.value * 100, 1)}% (${ciLevel}% CI: ${formatValue(estimate.lower * 100, 1)}% to ${formatValue(estimate.upper * 100, 1)}%)` : 'N/A';
+        const formatRatio = (estimate: { value: number; lower: number; upper: number } | null) =>
+            estimate ? `${formatValue(estimate.value)} (${ciLevel}% CI: ${formatValue(estimate.lower)} to ${formatValue(estimate.upper)})` : 'N/A';
+        const adjusted = diagnostic.adjustedPredictiveValues;
+        const studyPrevalence = formatValue(diagnostic.studyPrevalence * 100, 1);
+
+        dataPrompt = `They have provided the following data from a 2x2 table of test result by disease status:
+- Test Positive, Disease Present (a, true positives): ${currentInputs.a}
+- Test Positive, Disease Absent (b, false positives): ${currentInputs.b}
+- Test Negative, Disease Present (c, false negatives): ${currentInputs.c}
+- Test Negative, Disease Absent (d, true negatives): ${currentInputs.d}`;
+        keyMetricsPrompt = `- Sensitivity: ${formatPercent(diagnostic.sensitivity)}
+- Specificity: ${formatPercent(diagnostic.specificity)}
+- Positive Likelihood Ratio (LR+): ${formatRatio(diagnostic.lrPositive)}
+- Negative Likelihood Ratio (LR−): ${formatRatio(diagnostic.lrNegative)}
+- Positive Predictive Value (PPV) at the study prevalence of ${studyPrevalence}%: ${formatPercent(diagnostic.ppv)}
+- Negative Predictive Value (NPV) at the study prevalence of ${studyPrevalence}%: ${formatPercent(diagnostic.npv)}${adjusted && diagnostic.targetPrevalence !== null ? `
+- PPV at a prevalence of ${formatValue(diagnostic.targetPrevalence * 100, 1)}%: ${formatPercent(adjusted.ppv)}
+- NPV at a prevalence of ${formatValue(diagnostic.targetPrevalence * 100, 1)}%: ${formatPercent(adjusted.npv)}` : ''}`;
+        overviewPrompt = `(In 1-2 paragraphs, describe the study as a **diagnostic accuracy study**: a test was applied to people with and without the disease, and its results were compared with the true disease status established by a reference standard.)`;
+        findingsOnRiskPrompt = `(In 2-3 paragraphs, explain how well the test performed.
+- Explain sensitivity (the share of people with the disease whom the test correctly identifies) and specificity (the share of people without the disease whom the test correctly clears), using the values above.
+- Explain the likelihood ratios as how much a positive or negative result changes the odds of disease.)`;
+        individualImpactPrompt = `(In 2-3 paragraphs, explain what a test result means for an individual.
+- Explain the predictive values: the chance that a person who tests positive really has the disease (PPV), and that a person who tests negative is really disease-free (NPV).
+- Emphasise that predictive values depend on how common the disease is, so they differ between, for example, screening in the general population and testing in a specialist clinic.${adjusted ? ' Compare the predictive values at the study prevalence with those at the other prevalence provided.' : ''})`;
+    }
+
+    // A matched case-control study is summarised from its pairs: only the discordant pairs inform the OR
+    const matched = currentResults.matchedPairs;
+    if (matched) {
+        const cor = matched.conditionalOddsRatio;
+        const cor_result = formatValue(cor?.value);
+        dataPrompt = `They have provided the following data on ${matched.pairs} matched case-control pairs:
+- Case Exposed, Control Exposed (a): ${currentInputs.a}
+- Case Exposed, Control Unexposed (b): ${currentInputs.b}
+- Case Unexposed, Control Exposed (c): ${currentInputs.c}
+- Case Unexposed, Control Unexposed (d): ${currentInputs.d}`;
+        keyMetricsPrompt = `- Conditional (matched) Odds Ratio: ${cor ? `${cor_result} (${ciLevel}% CI: ${formatValue(cor.lower)} to ${formatValue(cor.upper)})` : 'Not calculable'}
+- Difference in the proportion exposed, cases minus controls: ${matched.riskDifference ? `${formatValue(matched.riskDifference.value, 4)} (${ciLevel}% CI: ${formatValue(matched.riskDifference.lower, 4)} to ${formatValue(matched.riskDifference.upper, 4)})` : 'N/A'}
+- McNemar's exact test: ${matched.mcnemar ? `P = ${matched.mcnemar.exact.pValue}` : 'N/A'}`;
+        overviewPrompt = `(In 1-2 paragraphs, describe the study as a **${studyDesignLabel}**: each person with the outcome (case) was paired with a similar person without it (control), and their past exposures were compared within each pair. Explain that matching makes cases and controls comparable on the matching factors.)`;
+        findingsOnRiskPrompt = `(In 2-3 paragraphs, explain the primary measure of association.
+- Explain that only the pairs in which the case and the control differ in exposure (discordant pairs) tell us about the association, and that the matched Odds Ratio compares pairs where only the case was exposed with pairs where only the control was exposed. For example: "A matched Odds Ratio of ${cor_result} indicates that people with the outcome had ${cor_result} times the odds of having been exposed compared with their matched controls.")`;
+        individualImpactPrompt = `(In 1-2 paragraphs, explain that case-control studies, matched or not, cannot calculate absolute risk or measures like NNT/NNH. Describe the difference in the proportion exposed between cases and controls as a descriptive comparison, not a risk.)`;
+    }
+
+    const prompt = `You are an expert science writer and epidemiologist. Your task is to produce a clear, professional summary of a health study's findings for an educated, non-specialist audience. The style should be academic yet accessible, similar to a university public health report. **The entire response must be written in ${langNameForPrompt}**.
+
+The user has specified this is a **${studyDesignLabel}** analyzing a **${goalLabel} outcome**. ${dataPrompt}
 
 Here are the key calculated metrics:
 ${keyMetricsPrompt}
@@ -184,7 +355,7 @@ Please write a summary in **${langNameForPrompt}** organized under the following
 1.  Use markdown bolding (\`**text**\`) for the four main headers and the final disclaimer header ONLY.
 2.  The headers you MUST use are (in this exact order): **"${currentTranslations.narrativeHeaders.overview}"**, **"${currentTranslations.narrativeHeaders.findings}"**, **"${currentTranslations.narrativeHeaders.impact}"**, and **"${currentTranslations.narrativeHeaders.conclusion}"**.
 3.  Separate every header and every paragraph with a double newline (\`\\n\\n\`) to create a blank line.
-4.  Explain key statistical terms (e.g., Relative Risk, Absolute Risk) clearly and concisely upon first use.
+4.  Explain key statistical terms (e.g., Relative Risk, Absolute Risk) clearly and concisely upon first use. When you mention uncertainty, describe the confidence intervals as **${ciLevel}%** intervals (a range of plausible values for the true effect).
 5.  Maintain an objective, neutral, and professional tone throughout. Do not give medical advice.
 6.  End the summary with the provided disclaimer header and text.
 
@@ -192,7 +363,7 @@ Please write a summary in **${langNameForPrompt}** organized under the following
 
 **${currentTranslations.narrativeHeaders.overview}**
 
-(In 1-2 paragraphs, describe the study's design as a **${studyDesignLabel}**. Explain that it compares an 'exposed' group to a 'control' (unexposed) group to assess the effect of the exposure on a specific, **${goalLabel}** health outcome.)
+${overviewPrompt}
 
 **${currentTranslations.narrativeHeaders.findings}**
 
@@ -209,11 +380,8 @@ ${individualImpactPrompt}
 **${currentTranslations.narrativeHeaders.disclaimer}:** This summary is for educational purposes only and is not a substitute for professional medical advice. Always consult with a qualified healthcare provider for any health concerns or before making any decisions related to your health or treatment.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: prompt,
-        });
-        const unescapedText = response.text.replace(/\\n/g, '\n');
+        const text = await aiProvider.generateText(model, prompt);
+        const unescapedText = text.replace(/\\n/g, '\n');
         setAiNarrativeSummary(unescapedText.trim());
     } catch (e) {
         console.error("Error fetching AI Narrative Summary:", e);
@@ -223,12 +391,10 @@ ${individualImpactPrompt}
   }, []);
 
   const fetchAiInterpretation = useCallback(async (currentResults: Results, currentInputs: Inputs, goal: StudyGoal, design: StudyDesign, model: AiModel, lang: Language) => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      setAiInterpretation("Error: API key not configured. Please set GEMINI_API_KEY in your .env.local file.");
+    if (aiProvider.configurationError) {
+      setAiInterpretation(`Error: ${aiProvider.configurationError}`);
       return;
     }
-    const ai = new GoogleGenAI({ apiKey });
 
     const formatValue = (val: number | string | undefined | null, precision = 2) => {
       if (typeof val === 'number' && isFinite(val)) return val.toFixed(precision);
@@ -241,17 +407,73 @@ ${individualImpactPrompt}
     const goalLabel = studyGoalLabels[lang][goal];
 
     const or_result = formatValue(currentResults.oddsRatio?.value);
-    const or_ci_result = currentResults.oddsRatio ? `${formatValue(currentResults.oddsRatio.lower)} to ${formatValue(currentResults.oddsRatio.upper)}` : 'N/A';
+    const { alpha, sidedness, confidenceLevel } = currentResults.analysisSettings;
+    const ciLevel = formatConfidenceLevel(confidenceLevel);
+    // A one-sided test at alpha is equivalent to comparing the two-sided p-value with 2·alpha
+    const pThreshold = sidedness === 'one-sided' ? Number((2 * alpha).toFixed(4)) : alpha;
+    const settingsPrompt = `- Analysis Settings: ${sidedness} significance level α = ${alpha}; ${ciLevel}% confidence intervals${sidedness === 'one-sided' ? ` (a one-sided test at α = ${alpha} corresponds to a two-sided p-value threshold of ${pThreshold})` : ''}`;
+    const ciLabels = ciMethodLabels[lang];
+    const or_ci_result = currentResults.oddsRatio ? `${formatValue(currentResults.oddsRatio.lower)} to ${formatValue(currentResults.oddsRatio.upper)}; method: ${ciLabels.oddsRatio[currentResults.oddsRatio.ciMethod]}` : 'N/A';
+    const or_cmle_result = currentResults.oddsRatio?.conditionalMle != null ? `\n- Conditional MLE Odds Ratio: ${formatValue(currentResults.oddsRatio.conditionalMle)}` : '';
     const p_value_result_raw = currentResults.oddsRatio?.pValue || currentResults.relativeRisk?.pValue;
     const p_value_result = p_value_result_raw ? (p_value_result_raw.startsWith('<') ? '0.0001' : p_value_result_raw) : 'N/A';
+    const fisher_p_result = currentResults.fisherExact?.pValue ?? 'N/A';
+    const fisher_mid_p_result = currentResults.fisherExact?.midPValue ?? 'N/A';
+    const chi = currentResults.chiSquare;
+    const chi_square_result = chi ? `- Pearson Chi-square: χ² = ${formatValue(chi.pearson.statistic, 3)}, P = ${chi.pearson.pValue}
+- Yates-corrected Chi-square: χ² = ${formatValue(chi.yates.statistic, 3)}, P = ${chi.yates.pValue}
+- Likelihood-ratio G test: G = ${formatValue(chi.likelihoodRatio.statistic, 3)}, P = ${chi.likelihoodRatio.pValue}
+- Expected cell counts (a, b, c, d): ${formatValue(chi.expected.a)}, ${formatValue(chi.expected.b)}, ${formatValue(chi.expected.c)}, ${formatValue(chi.expected.d)}${chi.hasSmallExpected ? ' (at least one expected count is below 5; chi-square approximations are unreliable)' : ''}
+- Recommended test for this table: ${{ fisher: "Fisher's exact test", yates: 'Yates-corrected chi-square', pearson: 'Pearson chi-square' }[chi.recommendedTest]}` : '- Chi-square tests: Not calculable';
+
+    const stratified = currentResults.stratified;
+    let stratifiedPrompt = '';
+    let stratifiedInstructions = '';
+    if (stratified) {
+        const measureLabels = { relativeRisk: 'Relative Risk (RR)', oddsRatio: 'Odds Ratio (OR)', riskDifference: 'Risk Difference (RD)' } as const;
+        const crudeValues = { relativeRisk: currentResults.relativeRisk?.value, oddsRatio: currentResults.oddsRatio?.value, riskDifference: currentResults.riskDifference?.value };
+        const strataLines = stratified.strata.map(stratum => {
+            const estimates = [
+                design !== 'case-control' ? `RR ${formatValue(stratum.relativeRisk)}` : null,
+                `OR ${formatValue(stratum.oddsRatio)}`,
+                design !== 'case-control' ? `RD ${formatValue(stratum.riskDifference, 4)}` : null,
+            ].filter(Boolean).join(', ');
+            return `- Stratum "${stratum.label}" (a=${stratum.counts.a}, b=${stratum.counts.b}, c=${stratum.counts.c}, d=${stratum.counts.d}): ${estimates}`;
+        }).join('\n');
+        const adjustedLines = (Object.keys(measureLabels) as (keyof typeof measureLabels)[])
+            .filter(measure => stratified.adjusted[measure])
+            .map(measure => {
+                const adjusted = stratified.adjusted[measure]!;
+                const precision = measure === 'riskDifference' ? 4 : 2;
+                return `- Mantel–Haenszel adjusted ${measureLabels[measure]}: ${formatValue(adjusted.value, precision)} (${ciLevel}% CI: ${formatValue(adjusted.lower, precision)} to ${formatValue(adjusted.upper, precision)}); crude: ${formatValue(crudeValues[measure], precision)}`;
+            }).join('\n');
+        const confounding = stratified.confounding;
+        const homogeneity = stratified.homogeneity;
+        stratifiedPrompt = `
+
+STRATIFIED ANALYSIS (${stratified.strata.length} strata; the data and metrics above are CRUDE estimates from the table pooled across strata):
+${strataLines}
+${adjustedLines}
+- Change from crude to adjusted ${confounding ? `${measureLabels[confounding.measure]}: ${confounding.percentChange > 0 ? '+' : ''}${confounding.percentChange.toFixed(1)}% (${confounding.isConfounded ? 'more than 10%, suggesting confounding' : 'within 10%, little evidence of confounding'})` : 'estimate: N/A'}
+- Mantel–Haenszel chi-square test of association: ${stratified.mantelHaenszelTest ? `χ² = ${formatValue(stratified.mantelHaenszelTest.statistic, 3)}, P = ${stratified.mantelHaenszelTest.pValue}` : 'N/A'}
+- Breslow–Day test of homogeneity of the OR: ${homogeneity ? `χ² = ${formatValue(homogeneity.breslowDay.statistic, 3)} (df = ${homogeneity.df}), P = ${homogeneity.breslowDay.pValue}` : 'N/A'}
+- Tarone-corrected Breslow–Day test: ${homogeneity ? `χ² = ${formatValue(homogeneity.tarone.statistic, 3)} (df = ${homogeneity.df}), P = ${homogeneity.tarone.pValue}${homogeneity.isHeterogeneous ? ` (significant at α = ${alpha}: the OR differs across strata)` : ''}` : 'N/A'}`;
+        stratifiedInstructions = `
+    - **Stratified Analysis:** The data were stratified, so under header 1 you MUST compare the crude and Mantel–Haenszel adjusted estimates and explicitly distinguish **confounding** from **effect modification**. If the homogeneity (Breslow–Day/Tarone) test is significant or the stratum-specific estimates clearly differ, describe this as **effect modification**: report the stratum-specific estimates and explain that a single pooled estimate can be misleading. Otherwise, if the adjusted estimate differs from the crude estimate by more than 10%, describe this as **confounding** by the stratification variable and base your conclusions on the adjusted estimate. Note that homogeneity tests have low power when there are few or small strata.`;
+    }
 
     let metricsPrompt = '';
     let p1_for_calc = NaN;
     let p2_for_calc = NaN;
     
     if (design === 'case-control') {
-      metricsPrompt = `- Odds Ratio (OR): ${or_result} (95% CI: ${or_ci_result})
-- P-value: ${p_value_result}`;
+      metricsPrompt = `- Odds Ratio (OR): ${or_result} (${ciLevel}% CI: ${or_ci_result})${or_cmle_result}
+- P-value (Wald z-test, approximate): ${p_value_result}
+- Fisher's Exact Test P-value (two-sided): ${fisher_p_result}
+- Fisher's Exact Test Mid-P Value: ${fisher_mid_p_result}
+${chi_square_result}
+- Statistical Power (based on the observed OR and the exposure prevalence in controls): ${currentResults.power ? `${(currentResults.power.value * 100).toFixed(1)}%` : 'N/A'}
+- Type II Error (β): ${currentResults.type2Error ? `${(currentResults.type2Error.value * 100).toFixed(1)}%` : 'N/A'}`;
     } else {
       const are_result = formatValue(currentResults.absoluteRiskExposed?.value, 4);
       p1_for_calc = currentResults.absoluteRiskExposed?.value ?? NaN;
@@ -259,7 +481,7 @@ ${individualImpactPrompt}
       p2_for_calc = currentResults.absoluteRiskControl?.value ?? NaN;
 
       const rd_result = formatValue(currentResults.riskDifference?.value, 4);
-      const rd_ci_result = currentResults.riskDifference ? `${formatValue(currentResults.riskDifference.lower, 4)} to ${formatValue(currentResults.riskDifference.upper, 4)}` : 'N/A';
+      const rd_ci_result = currentResults.riskDifference ? `${formatValue(currentResults.riskDifference.lower, 4)} to ${formatValue(currentResults.riskDifference.upper, 4)}; method: ${ciLabels.riskDifference[currentResults.riskDifference.ciMethod]}` : 'N/A';
       
       const impact_absolute_label = currentResults.impactMeasures?.absolute.label || 'Absolute Impact';
       const impact_absolute_value = formatValue(currentResults.impactMeasures?.absolute.value, 4);
@@ -267,7 +489,7 @@ ${individualImpactPrompt}
       const impact_relative_value = currentResults.impactMeasures ? `${formatValue(currentResults.impactMeasures.relative.value * 100)}%` : 'N/A';
 
       const rr_result = formatValue(currentResults.relativeRisk?.value);
-      const rr_ci_result = currentResults.relativeRisk ? `${formatValue(currentResults.relativeRisk.lower)} to ${formatValue(currentResults.relativeRisk.upper)}` : 'N/A';
+      const rr_ci_result = currentResults.relativeRisk ? `${formatValue(currentResults.relativeRisk.lower)} to ${formatValue(currentResults.relativeRisk.upper)}; method: ${ciLabels.relativeRisk[currentResults.relativeRisk.ciMethod]}` : 'N/A';
       
       let nnt_result_for_ai = 'Not applicable';
       if (currentResults.nnt) {
@@ -303,22 +525,74 @@ ${individualImpactPrompt}
 
       metricsPrompt = `- Absolute Risk (Exposed): ${are_result}
 - Absolute Risk (Control): ${arc_result}
-- Risk Difference (RD): ${rd_result} (95% CI: ${rd_ci_result})
+- Risk Difference (RD): ${rd_result} (${ciLevel}% CI: ${rd_ci_result})
 - ${impact_absolute_label}: ${impact_absolute_value}
 - ${impact_relative_label}: ${impact_relative_value}
-- Relative Risk (RR): ${rr_result} (95% CI: ${rr_ci_result})
-- Odds Ratio (OR): ${or_result} (95% CI: ${or_ci_result})
-- P-value: ${p_value_result}
-- ${nnt_result_for_ai} (95% CI: ${nnt_ci_result})
+- Relative Risk (RR): ${rr_result} (${ciLevel}% CI: ${rr_ci_result})
+- Odds Ratio (OR): ${or_result} (${ciLevel}% CI: ${or_ci_result})${or_cmle_result}
+- P-value (Wald z-test, approximate): ${p_value_result}
+- Fisher's Exact Test P-value (two-sided): ${fisher_p_result}
+- Fisher's Exact Test Mid-P Value: ${fisher_mid_p_result}
+${chi_square_result}
+- ${nnt_result_for_ai} (${ciLevel}% CI: ${nnt_ci_result})
 - Statistical Power: ${power_result}
 - Type II Error (β): ${beta_result}`;
     }
+
+    const eValueInstructions = currentResults.eValues ? `
+    - **Sensitivity to Unmeasured Confounding:** In Part A of header 3, when discussing confounding, you MUST cite the E-values listed above. Explain that the E-value is the minimum strength of association (on the risk ratio scale) that an unmeasured confounder would need with both the exposure and the outcome, above and beyond the measured covariates, to fully explain away the observed association, and that the E-value for the confidence limit is the strength needed to shift the interval to include the null. Judge whether confounders of that strength are plausible for this topic (an E-value close to 1 means little confounding could explain the result). Mention the rare- or common-outcome approximation when an OR was used.` : '';
+    let eValueMetrics = '';
+    if (currentResults.eValues) {
+        const approximationNotes = {
+            'none': '',
+            'rare-outcome': ', OR taken as RR (rare outcome)',
+            'common-outcome': ', RR approximated as √OR (common outcome)',
+        };
+        const measureNames = {
+            relativeRisk: 'Relative Risk',
+            oddsRatio: 'Odds Ratio',
+            conditionalOddsRatio: 'Conditional (matched) Odds Ratio',
+            rateRatio: 'Incidence Rate Ratio',
+        };
+        eValueMetrics = currentResults.eValues.map(entry => `
+- E-value for the ${measureNames[entry.measure]}${entry.isAdjusted ? ' (Mantel–Haenszel adjusted)' : ''}${approximationNotes[entry.approximation]}: ${formatValue(entry.point)} for the point estimate; ${formatValue(entry.confidenceLimit)} for the ${ciLevel}% CI limit closest to the null`).join('');
+    }
+    metricsPrompt += eValueMetrics;
+
+    const fragility = currentResults.fragility;
+    if (fragility) {
+        const fragilityLabel = fragility.type === 'fragility' ? 'Fragility Index' : 'Reverse Fragility Index';
+        const groupLabel = fragility.group === 'exposed' ? 'exposed group' : 'control group';
+        metricsPrompt += fragility.index !== null && fragility.quotient !== null
+            ? `\n- ${fragilityLabel} (Fisher's exact test, two-sided p-value threshold ${fragility.alpha}): ${fragility.index} (changing the outcome of ${fragility.index} patient(s) in the ${groupLabel} would make the result ${fragility.type === 'fragility' ? 'non-significant' : 'significant'}); Fragility Quotient: ${formatValue(fragility.quotient, 4)}`
+            : `\n- ${fragilityLabel} (Fisher's exact test, two-sided p-value threshold ${fragility.alpha}): not reachable (no number of outcome changes in one group would make the result ${fragility.type === 'fragility' ? 'non-significant' : 'significant'})`;
+    }
+
+    const fractions = currentResults.attributableFractions;
+    if (fractions) {
+        const formatFraction = (estimate: IntervalEstimate) => `${formatValue(estimate.value * 100, 1)}% (${ciLevel}% CI: ${formatValue(estimate.lower * 100, 1)}% to ${formatValue(estimate.upper * 100, 1)}%)`;
+        const basis = fractions.measure === 'oddsRatio' ? 'OR' : 'RR';
+        const prevalence = `${formatValue(fractions.exposurePrevalence * 100, 1)}%; ${fractions.exposurePrevalenceSource === 'input' ? 'entered by the user' : design === 'case-control' ? 'estimated from the controls' : 'estimated from the study sample'}`;
+        metricsPrompt += fractions.type === 'attributable' ? `
+- Attributable Fraction among the Exposed, (${basis} − 1)/${basis}: ${formatFraction(fractions.exposed)}
+- Population Attributable Fraction (Levin's formula; exposure prevalence ${prevalence}): ${formatFraction(fractions.population)}${fractions.caseBased ? `
+- Population Attributable Fraction (Miettinen's case-based formula): ${formatFraction(fractions.caseBased)}` : ''}` : `
+- Prevented Fraction among the Exposed, 1 − ${basis}: ${formatFraction(fractions.exposed)}
+- Population Prevented Fraction (exposure prevalence ${prevalence}): ${formatFraction(fractions.population)}`;
+    }
     
     let sampleSizeRecommendationPrompt = '';
-    if (currentResults.power && currentResults.power.value < 0.80) {
-        const requiredN = calculateRequiredSampleSize(p1_for_calc, p2_for_calc);
+    const caseControlPower = currentResults.caseControlPower;
+    if (design === 'case-control' && currentResults.power && currentResults.power.value < 0.80) {
+        if (caseControlPower) {
+            sampleSizeRecommendationPrompt = `The calculated statistical power is low (${(currentResults.power.value * 100).toFixed(1)}%). Assuming an exposure prevalence in controls of ${(caseControlPower.exposureInControls * 100).toFixed(1)}% and keeping ${formatValue(caseControlPower.controlsPerCase)} controls per case, a future study would require approximately **${caseControlPower.requiredCases} cases and ${caseControlPower.requiredControls} controls** to detect the observed odds ratio with 80% power at a ${sidedness} α of ${alpha}.`;
+        } else {
+            sampleSizeRecommendationPrompt = `The calculated statistical power is low, but a sample size recommendation could not be determined from the provided data.`;
+        }
+    } else if (currentResults.power && currentResults.power.value < 0.80) {
+        const requiredN = calculateRequiredSampleSize(p1_for_calc, p2_for_calc, alpha, sidedness);
         if (requiredN) {
-            sampleSizeRecommendationPrompt = `The calculated statistical power is low (${(currentResults.power.value * 100).toFixed(1)}%). To achieve 80% power, a future study would require approximately **${requiredN}** participants in each group.`;
+            sampleSizeRecommendationPrompt = `The calculated statistical power is low (${(currentResults.power.value * 100).toFixed(1)}%). To achieve 80% power at a ${sidedness} α of ${alpha}, a future study would require approximately **${requiredN}** participants in each group.`;
         } else {
             sampleSizeRecommendationPrompt = `The calculated statistical power is low, but a sample size recommendation could not be determined from the provided data.`;
         }
@@ -326,7 +600,209 @@ ${individualImpactPrompt}
         sampleSizeRecommendationPrompt = `The study was adequately powered at **${(currentResults.power.value * 100).toFixed(1)}%**. The current sample size was sufficient to detect an effect of the observed magnitude.`;
     }
 
-    const prompt = `You are an expert epidemiologist and biostatistician. A healthcare professional is analyzing a **${studyDesignLabel}** with a **${goalLabel} outcome**. **The entire response must be written in ${langNameForPrompt}**. They have provided the following data:
+    const formattingRulesPrompt = `**MANDATORY FORMATTING RULES (Your response will be rejected if you do not follow these):**
+
+1.  **Paragraph Separation:** Every distinct paragraph, header, sub-header, or list block MUST be separated by a double newline (\`\\n\\n\`). This creates a blank line between elements.
+2.  **Bolding:** Use markdown bolding (\`**text**\`) ONLY for the three main headers, the limitation titles and the recommendations sub-header in Section 3, and for critical numerical values within the text. Do not bold anything else.
+3.  **Headers:** You MUST use these exact headers, in this exact order: **"${currentTranslations.reportHeaders.interpretation}"**, **"${currentTranslations.reportHeaders.significance}"**, and **"${currentTranslations.reportHeaders.limitations}"**.`;
+    const contextFramingPrompt = `Because the outcome is **${goalLabel}**, frame your entire analysis accordingly. **If the outcome is undesirable**, interpret the findings in the context of harm, risk factors, and adverse events. **If the outcome is desirable**, interpret the findings in the context of benefit, treatment efficacy, and protective factors.`;
+
+    // A meta-analysis gets its own prompt, since the single-study prompt below is built around one 2x2 table
+    const meta = currentResults.metaAnalysis;
+    let metaAnalysisPrompt: string | null = null;
+    if (meta) {
+        const measureLabels = { relativeRisk: 'Relative Risk (RR)', oddsRatio: 'Odds Ratio (OR)', riskDifference: 'Risk Difference (RD)' } as const;
+        const measures = (Object.keys(measureLabels) as (keyof typeof measureLabels)[]).filter(measure => meta[measure]);
+        const precisionFor = (measure: keyof typeof measureLabels) => (measure === 'riskDifference' ? 4 : 2);
+        const formatEstimate = (estimate: { value: number; lower: number; upper: number } | null, precision: number) =>
+            estimate ? `${formatValue(estimate.value, precision)} (${ciLevel}% CI: ${formatValue(estimate.lower, precision)} to ${formatValue(estimate.upper, precision)})` : 'not estimable';
+
+        const studyLines = meta.studyLabels.map((label, i) => {
+            const counts = meta.studyCounts[i];
+            const estimates = measures.map(measure => `${measure === 'relativeRisk' ? 'RR' : measure === 'oddsRatio' ? 'OR' : 'RD'} ${formatEstimate(meta[measure]!.studies[i], precisionFor(measure))}`).join('; ');
+            return `- Study "${label}" (a=${counts.a}, b=${counts.b}, c=${counts.c}, d=${counts.d}): ${estimates}`;
+        }).join('\n');
+        const pooledLines = measures.map(measure => {
+            const result = meta[measure]!;
+            const precision = precisionFor(measure);
+            const heterogeneity = result.heterogeneity;
+            return `- ${measureLabels[measure]}:
+    - Fixed effect (inverse variance): ${formatEstimate(result.fixedInverseVariance, precision)}, P = ${result.fixedInverseVariance.pValue}
+    - Fixed effect (Mantel–Haenszel): ${result.fixedMantelHaenszel ? `${formatEstimate(result.fixedMantelHaenszel, precision)}, P = ${result.fixedMantelHaenszel.pValue}` : 'N/A'}
+    - Random effects (DerSimonian–Laird): ${formatEstimate(result.randomEffects, precision)}, P = ${result.randomEffects.pValue}
+    - Heterogeneity: Q = ${formatValue(heterogeneity.q, 3)} (df = ${heterogeneity.df}), P = ${heterogeneity.pValue}; I² = ${formatValue(heterogeneity.iSquared * 100, 1)}%; τ² = ${formatValue(heterogeneity.tauSquared, 4)}`;
+        }).join('\n');
+
+        metaAnalysisPrompt = `You are an expert epidemiologist and biostatistician experienced in systematic reviews. A healthcare professional has pooled **${meta.studyLabels.length} studies** (design: **${studyDesignLabel}**) with a **${goalLabel} outcome** in a meta-analysis. **The entire response must be written in ${langNameForPrompt}**. They have provided the following study data (a/b = exposed with/without outcome, c/d = control with/without outcome; study-level estimates add 0.5 to every cell of tables with a zero cell):
+
+${studyLines}
+
+The following pooled estimates were calculated:
+${settingsPrompt}
+${pooledLines}
+
+Please provide a structured interpretation in **${langNameForPrompt}** organized under the following three headers.
+
+${formattingRulesPrompt}
+4.  **Content Instructions:**
+    - **Context Framing:** ${contextFramingPrompt}
+    - **1. Interpretation of Findings:** Under this header, interpret the pooled estimates. Explain what each pooled measure means and how the fixed-effect models (which assume one common true effect) differ from the random-effects model (which allows the true effect to vary between studies). State which model should be emphasised: prefer the **random-effects** estimate when there is meaningful heterogeneity, and note when the fixed- and random-effects estimates agree. If the studies are Case-Control, focus ONLY on the Odds Ratio.
+    - **2. Statistical Significance, Power, and Clinical Relevance:** Under this header, assess the pooled conclusions in three parts.
+        - **Part A (Significance):** Interpret the p-values and the **${ciLevel}% Confidence Intervals** of the pooled estimates. Explicitly state whether the CIs for RR/OR include 1.0 or the CI for RD includes 0, using a p-value threshold of ${pThreshold}. Comment on how much more precise the pooled estimates are than the individual studies.
+        - **Part B (Heterogeneity - CRITICAL ANALYSIS):** Interpret Cochran's Q, I² and τ². Use the conventional I² thresholds (around 25% low, 50% moderate, 75% high) and explain that Q has low power when there are few studies. Point out any studies whose estimates clearly stand apart from the others and suggest plausible clinical or methodological sources of heterogeneity.
+        - **Part C (Clinical Relevance):** If available, use the pooled Risk Difference to describe the absolute impact, and discuss whether the pooled effect is large enough to matter in practice.
+    - **3. Limitations and Recommendations:** This section has a specific multi-part structure.
+        - **Part A (Evidence Base):** Your first paragraph MUST discuss what the design of the included studies (**${studyDesignLabel}**) implies for the strength of the pooled evidence, and that a meta-analysis cannot be more reliable than the studies it combines.
+        - **Part B (Limitations):** After that paragraph, write additional paragraphs, each focusing on a single limitation of this meta-analysis (e.g., publication bias and small-study effects, which cannot be assessed reliably with fewer than about 10 studies; the imprecision of the DerSimonian–Laird τ² estimate with few studies; sparse data and continuity corrections). Each of these paragraphs MUST begin with a bolded title followed by a colon.
+        - **Part C (Sub-header):** After the limitation paragraphs, you MUST include the sub-header \`**${currentTranslations.reportHeaders.recommendations}**\` on its own line.
+        - **Part D (Recommendations):** AFTER THE SUB-HEADER, YOU MUST ADD A DOUBLE NEWLINE (\\n\\n). Then, provide a single numbered list of recommendations. **Your first recommendation MUST address heterogeneity** (e.g., sensitivity or subgroup analyses), followed by any other recommendations you see fit.
+
+Start your response directly with "**${currentTranslations.reportHeaders.interpretation}**".`;
+    }
+
+    // Person-time data likewise get their own prompt: they describe rates, not risks from a 2x2 table
+    const incidenceRate = currentResults.incidenceRate;
+    let incidenceRatePrompt: string | null = null;
+    if (incidenceRate) {
+        const unit = `person-${incidenceRate.timeUnit}`;
+        const { counts, rateRatio, rateDifference, nnt } = incidenceRate;
+        const per1000 = (rate: number) => formatValue(rate * 1000, 3);
+        let nnt_result = 'NNT/NNH: Not applicable';
+        if (nnt && rateDifference) {
+            const nntLabel = nnt.type === 'Benefit' ? 'Number Needed to Treat (NNT)' : 'Number Needed to Harm (NNH)';
+            const nnt_ci_result = rateDifference.lower < 0 && rateDifference.upper > 0
+                ? `${formatValue(Math.abs(1 / rateDifference.lower), 1)} (${currentTranslations.nntCIbenefit}) to ${formatValue(1 / rateDifference.upper, 1)} (${currentTranslations.nntCIharm})`
+                : [Math.abs(nnt.lower), Math.abs(nnt.upper)].sort((x, y) => x - y).map(v => formatValue(v, 1)).join(' to ');
+            nnt_result = `${nntLabel}: ${formatValue(nnt.value, 1)} ${unit} of exposure per additional event (${ciLevel}% CI: ${nnt_ci_result})`;
+        }
+
+        incidenceRatePrompt = `You are an expert epidemiologist and biostatistician. A healthcare professional is analyzing a **${studyDesignLabel}** with a **${goalLabel} outcome**, reported as events over person-time. **The entire response must be written in ${langNameForPrompt}**. They have provided the following data:
+
+- Exposed Group: ${counts.eventsExposed} events over ${counts.personTimeExposed} ${unit}
+- Control Group: ${counts.eventsControl} events over ${counts.personTimeControl} ${unit}
+
+Based on this data, the following metrics were calculated:
+${settingsPrompt}
+- Incidence Rate (Exposed): ${per1000(incidenceRate.rateExposed)} per 1,000 ${unit}
+- Incidence Rate (Control): ${per1000(incidenceRate.rateControl)} per 1,000 ${unit}
+- Incidence Rate Ratio (IRR): ${rateRatio ? `${formatValue(rateRatio.value)} (${ciLevel}% CI: ${formatValue(rateRatio.lower)} to ${formatValue(rateRatio.upper)}; method: exact, conditional on the total number of events)` : 'Not calculable (no events in the control group)'}
+- Exact test of IRR = 1 (two-sided): ${rateRatio ? `P = ${rateRatio.pValue}; mid-P = ${rateRatio.midPValue}` : 'N/A'}
+- Incidence Rate Difference: ${rateDifference ? `${per1000(rateDifference.value)} per 1,000 ${unit} (${ciLevel}% CI: ${per1000(rateDifference.lower)} to ${per1000(rateDifference.upper)}; method: Poisson/Wald)` : 'N/A'}
+- Rate Difference z-test: ${rateDifference ? `z = ${formatValue(rateDifference.zStat, 3)}, P = ${rateDifference.pValue}` : 'N/A'}
+- ${nnt_result}${eValueMetrics}
+
+Please provide a structured interpretation in **${langNameForPrompt}** organized under the following three headers.
+
+${formattingRulesPrompt}
+4.  **Content Instructions:**
+    - **Context Framing:** ${contextFramingPrompt}${eValueInstructions}
+    - **1. Interpretation of Findings:** Under this header, explain each incidence rate as events per unit of follow-up time and why rates over person-time are used when participants are followed for different lengths of time. Interpret the Incidence Rate Ratio as the relative measure of association and the Rate Difference as the absolute measure, and explain why both are needed for clinical context.
+    - **2. Statistical Significance, Power, and Clinical Relevance:** Under this header, assess the study's conclusions in two parts (post-hoc power is not calculated for rate data).
+        - **Part A (Significance):** Interpret the **${ciLevel}% Confidence Intervals** and the p-values using a p-value threshold of ${pThreshold}. Explicitly state whether the CI for the IRR includes 1.0 or the CI for the rate difference includes 0. Base your statement of significance on the exact test, mentioning the mid-P value as a less conservative alternative, and comment on the precision of the estimates given the number of events (the precision of a rate depends on the number of events, not on the amount of person-time).
+        - **Part B (Clinical Relevance):** Use the rate difference and the NNT/NNH, which is expressed in **${unit}** of exposure rather than in people, to evaluate the real-world impact. Explain how to read it (e.g., as a number of people each followed for one time unit).
+    - **3. Limitations and Recommendations:** This section has a specific multi-part structure.
+        - **Part A (Study Design Context):** Your first paragraph MUST address the strengths and weaknesses of a **${studyDesignLabel}**: it can establish temporality and shows evidence of **association**, but is exposed to **confounding variables** and **selection bias**.
+        - **Part B (Limitations):** After that paragraph, write additional paragraphs, each focusing on a single limitation. Each of these paragraphs MUST begin with a bolded title followed by a colon. Include the assumption of a constant rate over follow-up (which person-time analysis requires), loss to follow-up and informative censoring, and overdispersion when events cluster in some individuals.
+        - **Part C (Sub-header):** After the limitation paragraphs, you MUST include the sub-header \`**${currentTranslations.reportHeaders.recommendations}**\` on its own line.
+        - **Part D (Recommendations):** AFTER THE SUB-HEADER, YOU MUST ADD A DOUBLE NEWLINE (\\n\\n). Then, provide a single numbered list of recommendations. **Your first recommendation MUST address the number of events and length of follow-up** needed for more precise estimates, followed by any other recommendations you see fit.
+
+Start your response directly with "**${currentTranslations.reportHeaders.interpretation}**".`;
+    }
+
+    // A diagnostic accuracy study evaluates a test instead of an exposure, so it also gets its own prompt
+    const diagnostic = currentResults.diagnosticAccuracy;
+    let diagnosticPrompt: string | null = null;
+    if (diagnostic) {
+        const formatPercent = (estimate: { value: number; lower: number; upper: number } | null) =>
+            estimate ? `${formatValue(estimate.value * 100, 1)}% (${ciLevel}% CI: ${formatValue(estimate.lower * 100, 1)}% to ${formatValue(estimate.upper * 100, 1)}%)` : 'Not calculable';
+        const formatRatio = (estimate: { value: number; lower: number; upper: number } | null, precision = 2) =>
+            estimate ? `${formatValue(estimate.value, precision)} (${ciLevel}% CI: ${formatValue(estimate.lower, precision)} to ${formatValue(estimate.upper, precision)})` : 'Not calculable';
+        const adjusted = diagnostic.adjustedPredictiveValues;
+        const studyPrevalence = formatValue(diagnostic.studyPrevalence * 100, 1);
+        const targetPrevalence = diagnostic.targetPrevalence !== null ? formatValue(diagnostic.targetPrevalence * 100, 1) : null;
+
+        diagnosticPrompt = `You are an expert epidemiologist and biostatistician specialising in the evaluation of diagnostic and screening tests. A healthcare professional is analyzing a **diagnostic accuracy study**. **The entire response must be written in ${langNameForPrompt}**. They have provided the following 2x2 table of test result by disease status (as established by the reference standard):
+
+- Test Positive, Disease Present (a, true positives): ${currentInputs.a}
+- Test Positive, Disease Absent (b, false positives): ${currentInputs.b}
+- Test Negative, Disease Present (c, false negatives): ${currentInputs.c}
+- Test Negative, Disease Absent (d, true negatives): ${currentInputs.d}
+
+Based on this data, the following metrics were calculated:
+${settingsPrompt}
+- Sensitivity: ${formatPercent(diagnostic.sensitivity)}; method: Wilson score
+- Specificity: ${formatPercent(diagnostic.specificity)}; method: Wilson score
+- Youden's Index (J): ${formatRatio(diagnostic.youden, 3)}; method: Newcombe hybrid score
+- Positive Likelihood Ratio (LR+): ${formatRatio(diagnostic.lrPositive)}; method: log scale
+- Negative Likelihood Ratio (LR−): ${formatRatio(diagnostic.lrNegative)}; method: log scale
+- Diagnostic Odds Ratio (DOR): ${formatRatio(diagnostic.diagnosticOddsRatio)}; method: log scale
+- Disease prevalence in the study sample: ${studyPrevalence}%
+- Positive Predictive Value (PPV) at the study prevalence: ${formatPercent(diagnostic.ppv)}; method: Wilson score
+- Negative Predictive Value (NPV) at the study prevalence: ${formatPercent(diagnostic.npv)}; method: Wilson score${adjusted && targetPrevalence ? `
+- PPV recalculated for a prevalence of ${targetPrevalence}% (Bayes' theorem from LR+): ${formatPercent(adjusted.ppv)}
+- NPV recalculated for a prevalence of ${targetPrevalence}% (Bayes' theorem from LR−): ${formatPercent(adjusted.npv)}` : ''}
+
+Please provide a structured interpretation in **${langNameForPrompt}** organized under the following three headers.
+
+${formattingRulesPrompt}
+4.  **Content Instructions:**
+    - **Context Framing:** Frame your entire analysis around how useful the test is for ruling disease in or out. Do not describe the results in terms of exposures, risk factors or treatment effects.
+    - **1. Interpretation of Findings:** Under this header, interpret sensitivity and specificity and what they imply about false negatives and false positives (e.g., "SnNout" and "SpPin"). Interpret the likelihood ratios with the usual rules of thumb (LR+ above 10 or LR− below 0.1 give large, often conclusive shifts in probability; 5–10 and 0.1–0.2 moderate; 1–2 and 0.5–1 rarely important), then Youden's index and the diagnostic odds ratio as single summaries of discrimination.
+    - **2. Statistical Significance, Power, and Clinical Relevance:** Under this header, assess the study's conclusions in two parts.
+        - **Part A (Precision):** Discuss the width of the **${ciLevel}% Confidence Intervals**, noting that the precision of sensitivity depends on the number of diseased participants and that of specificity on the number of non-diseased participants. State whether the CIs for the likelihood ratios and the DOR exclude 1.0.
+        - **Part B (Clinical Relevance):** Explain that predictive values depend on prevalence. ${adjusted && targetPrevalence ? `Compare the predictive values at the study prevalence (${studyPrevalence}%) with those at ${targetPrevalence}%, and explain what this means for using the test in a setting with that prevalence.` : `Explain that the PPV and NPV shown apply only to a population with the study prevalence of ${studyPrevalence}%, and how they would change in lower- or higher-prevalence settings.`} Discuss whether the test would be better suited to ruling disease in or out.
+    - **3. Limitations and Recommendations:** This section has a specific multi-part structure.
+        - **Part A (Study Design Context):** Your first paragraph MUST address the design of diagnostic accuracy studies: the validity of the reference standard, and whether the participants represent the population in which the test will be used (spectrum bias).
+        - **Part B (Limitations):** After that paragraph, write additional paragraphs, each focusing on a single limitation. Each of these paragraphs MUST begin with a bolded title followed by a colon. Consider verification (work-up) bias, incorporation bias, lack of blinding of test readers, and indeterminate results.
+        - **Part C (Sub-header):** After the limitation paragraphs, you MUST include the sub-header \`**${currentTranslations.reportHeaders.recommendations}**\` on its own line.
+        - **Part D (Recommendations):** AFTER THE SUB-HEADER, YOU MUST ADD A DOUBLE NEWLINE (\\n\\n). Then, provide a single numbered list of recommendations. **Your first recommendation MUST address the number of diseased and non-diseased participants** needed for more precise estimates of sensitivity and specificity, followed by any other recommendations you see fit (e.g., reporting according to STARD).
+
+Start your response directly with "**${currentTranslations.reportHeaders.interpretation}**".`;
+    }
+
+    // Matched pairs need their own analysis, so they also get their own prompt
+    const matched = currentResults.matchedPairs;
+    let matchedPairsPrompt: string | null = null;
+    if (matched) {
+        const cor = matched.conditionalOddsRatio;
+        const mcnemar = matched.mcnemar;
+        const rd = matched.riskDifference;
+
+        matchedPairsPrompt = `You are an expert epidemiologist and biostatistician. A healthcare professional is analyzing a **${studyDesignLabel}** with a **${goalLabel} outcome**, in which every case was individually matched to one control. **The entire response must be written in ${langNameForPrompt}**. They have provided the following table of ${matched.pairs} matched pairs:
+
+- Case Exposed, Control Exposed (a, concordant): ${currentInputs.a}
+- Case Exposed, Control Unexposed (b, discordant): ${currentInputs.b}
+- Case Unexposed, Control Exposed (c, discordant): ${currentInputs.c}
+- Case Unexposed, Control Unexposed (d, concordant): ${currentInputs.d}
+
+Based on this data, the following metrics were calculated:
+${settingsPrompt}
+- Discordant pairs: ${matched.discordantPairs}
+- Conditional (matched) Odds Ratio b/c: ${cor ? `${formatValue(cor.value)} (${ciLevel}% CI: ${formatValue(cor.lower)} to ${formatValue(cor.upper)}; method: exact, conditional on the number of discordant pairs)` : 'Not calculable (c = 0)'}
+- Paired difference in the proportion exposed (cases − controls): ${rd ? `${formatValue(rd.value, 4)} (${ciLevel}% CI: ${formatValue(rd.lower, 4)} to ${formatValue(rd.upper, 4)}; method: Wald for paired proportions)` : 'N/A'}
+- McNemar's exact test (two-sided): ${mcnemar ? `P = ${mcnemar.exact.pValue}; mid-P = ${mcnemar.exact.midPValue}` : 'N/A (no discordant pairs)'}
+- McNemar's chi-square test: ${mcnemar ? `χ² = ${formatValue(mcnemar.chiSquare.statistic, 3)}, P = ${mcnemar.chiSquare.pValue}` : 'N/A'}
+- McNemar's chi-square test with continuity correction: ${mcnemar ? `χ² = ${formatValue(mcnemar.correctedChiSquare.statistic, 3)}, P = ${mcnemar.correctedChiSquare.pValue}` : 'N/A'}${eValueMetrics}
+
+Please provide a structured interpretation in **${langNameForPrompt}** organized under the following three headers.
+
+${formattingRulesPrompt}
+4.  **Content Instructions:**
+    - **Context Framing:** ${contextFramingPrompt}${eValueInstructions}
+    - **1. Interpretation of Findings:** Under this header, explain that in a matched design only the **discordant pairs** carry information about the association, and interpret the conditional Odds Ratio as the ratio of pairs where only the case was exposed to pairs where only the control was exposed. Explain why analysing the matched data as an ordinary unmatched 2x2 table would be wrong (it generally biases the OR towards 1). Describe the paired difference in the proportion exposed as a descriptive comparison; Relative Risk, absolute risks and NNT/NNH cannot be calculated in a case-control design.
+    - **2. Statistical Significance, Power, and Clinical Relevance:** Under this header, assess the study's conclusions in two parts.
+        - **Part A (Significance):** Interpret the **${ciLevel}% Confidence Interval** of the conditional OR and McNemar's test using a p-value threshold of ${pThreshold}. Base the conclusion on the **exact** McNemar test when there are fewer than about 25 discordant pairs, otherwise the chi-square versions are adequate. Comment on the precision of the estimate, which depends on the number of discordant pairs rather than on the total number of pairs.
+        - **Part B (Clinical Relevance):** Discuss whether the strength of the association is large enough to matter in practice.
+    - **3. Limitations and Recommendations:** This section has a specific multi-part structure.
+        - **Part A (Study Design Context):** Your first paragraph MUST address the matched case-control design: it is efficient for rare outcomes and controls confounding by the matching factors, but the effect of the matching factors themselves cannot be estimated, and it remains susceptible to **recall bias** and **selection bias**.
+        - **Part B (Limitations):** After that paragraph, write additional paragraphs, each focusing on a single limitation. Each of these paragraphs MUST begin with a bolded title followed by a colon. Consider overmatching, residual confounding by factors that were not matched on, and the loss of information from concordant pairs.
+        - **Part C (Sub-header):** After the limitation paragraphs, you MUST include the sub-header \`**${currentTranslations.reportHeaders.recommendations}**\` on its own line.
+        - **Part D (Recommendations):** AFTER THE SUB-HEADER, YOU MUST ADD A DOUBLE NEWLINE (\\n\\n). Then, provide a single numbered list of recommendations. **Your first recommendation MUST address the number of discordant pairs** needed for a more precise estimate (e.g., more pairs, or several controls per case), followed by any other recommendations you see fit (e.g., conditional logistic regression to adjust for further confounders).
+
+Start your response directly with "**${currentTranslations.reportHeaders.interpretation}**".`;
+    }
+
+    const singleStudyPrompt = `You are an expert epidemiologist and biostatistician. A healthcare professional is analyzing a **${studyDesignLabel}** with a **${goalLabel} outcome**. **The entire response must be written in ${langNameForPrompt}**. They have provided the following data:
 
 - Exposed Group, With Outcome (a): ${currentInputs.a}
 - Exposed Group, Without Outcome (b): ${currentInputs.b}
@@ -334,28 +810,25 @@ ${individualImpactPrompt}
 - Control Group, Without Outcome (d): ${currentInputs.d}
 
 Based on this data, the following metrics were calculated:
-${metricsPrompt}
+${settingsPrompt}
+${metricsPrompt}${stratifiedPrompt}
 
 ADDITIONAL CONTEXT FOR RECOMMENDATIONS:
 - Sample Size Analysis: ${sampleSizeRecommendationPrompt}
 
 Please provide a structured interpretation in **${langNameForPrompt}** organized under the following three headers.
 
-**MANDATORY FORMATTING RULES (Your response will be rejected if you do not follow these):**
-
-1.  **Paragraph Separation:** Every distinct paragraph, header, sub-header, or list block MUST be separated by a double newline (\`\\n\\n\`). This creates a blank line between elements.
-2.  **Bolding:** Use markdown bolding (\`**text**\`) ONLY for the three main headers, the limitation titles and the recommendations sub-header in Section 3, and for critical numerical values within the text. Do not bold anything else.
-3.  **Headers:** You MUST use these exact headers, in this exact order: **"${currentTranslations.reportHeaders.interpretation}"**, **"${currentTranslations.reportHeaders.significance}"**, and **"${currentTranslations.reportHeaders.limitations}"**.
+${formattingRulesPrompt}
 4.  **Content Instructions:**
-    - **Context Framing:** Because the outcome is **${goalLabel}**, frame your entire analysis accordingly. **If the outcome is undesirable**, interpret the findings in the context of harm, risk factors, and adverse events. **If the outcome is desirable**, interpret the findings in the context of benefit, treatment efficacy, and protective factors.
+    - **Context Framing:** ${contextFramingPrompt}${stratifiedInstructions}${eValueInstructions}
     - **1. Interpretation of Findings:** Under this header, interpret the key metrics. Explain the Relative Risk (RR) and Odds Ratio (OR) as measures of association. Then, explain the measures of impact: describe the Absolute Impact as the actual difference in risk, and contrast it with the Relative Impact. Explain why both are important for clinical context (e.g., a relative measure can sound impressive, but the absolute measure provides the real-world impact). If the study is Case-Control, focus ONLY on the Odds Ratio.
     - **2. Statistical Significance, Power, and Clinical Relevance:** Under this header, assess the study's conclusions in three parts.
-        - **Part A (Significance):** First, discuss statistical significance by interpreting the p-value and the **95% Confidence Intervals (CIs)** for the OR, and if applicable, RR and Risk Difference. Explicitly state whether the CIs for RR/OR include 1.0 or the CI for RD includes 0, and what this means for significance. Comment on the precision of the estimates based on the width of the CIs.
+        - **Part A (Significance):** First, discuss statistical significance by interpreting the p-value and the **${ciLevel}% Confidence Intervals (CIs)** for the OR, and if applicable, RR and Risk Difference. Explicitly state whether the CIs for RR/OR include 1.0 or the CI for RD includes 0, and what this means for significance. Comment on the precision of the estimates based on the width of the CIs, and name the interval method reported next to each CI (e.g., Wald, Newcombe, Koopman, exact conditional) when you cite it. Base your statement of statistical significance on the test named in the **"Recommended test for this table"** line, and briefly explain why it is appropriate (expected cell counts). Whenever any expected count is below 5, rely on **Fisher's exact test p-value** (mentioning the mid-p value as a less conservative alternative). The Wald z-test p-value is a large-sample approximation that is unreliable for small samples or tables with sparse cells; do NOT quote it as the primary p-value, and if it disagrees with Fisher's exact test, say that the exact result should be preferred. If a Fragility Index or Reverse Fragility Index is listed, use it to comment on the robustness of the conclusion: explain how many patients' outcomes would have to change to reverse it, and compare this with the sample size (a small index, e.g. fewer patients than were lost to follow-up in a typical trial, means the conclusion is fragile).
         - **Part B (Statistical Power - CRITICAL ANALYSIS):** Your interpretation MUST incorporate the study's **Statistical Power**.
-            - **IF the result is NOT statistically significant (p-value > 0.05) AND Power is LOW (<80%):** Explain that the study was likely **underpowered**. State that this means the study had a high chance of missing a true effect if one existed. Explicitly mention the **Type II Error Rate (β)** as the probability of a false negative. Conclude that this non-significant finding should be interpreted with **extreme caution**.
-            - **IF the result is NOT statistically significant (p-value > 0.05) AND Power is HIGH (≥80%):** Explain that the study was **adequately powered**. State that this provides stronger, more confident evidence that there is likely no meaningful association between the exposure and outcome.
-            - **IF the result IS statistically significant (p-value ≤ 0.05):** State that the finding is robust. Explain that the calculated power indicates the study had a sufficient sample size to detect an effect of this magnitude, lending more confidence to the result. Mention that a Type I error (false positive) is always a possibility, with a 5% chance as defined by alpha.
-        - **Part C (Clinical Relevance):** Second, discuss clinical relevance. If applicable, use the Absolute Impact and NNT/NNH to evaluate the real-world impact of the findings. For example, is the effect size large enough to change clinical practice?
+            - **IF the result is NOT statistically significant (p-value > ${pThreshold}) AND Power is LOW (<80%):** Explain that the study was likely **underpowered**. State that this means the study had a high chance of missing a true effect if one existed. Explicitly mention the **Type II Error Rate (β)** as the probability of a false negative. Conclude that this non-significant finding should be interpreted with **extreme caution**.
+            - **IF the result is NOT statistically significant (p-value > ${pThreshold}) AND Power is HIGH (≥80%):** Explain that the study was **adequately powered**. State that this provides stronger, more confident evidence that there is likely no meaningful association between the exposure and outcome.
+            - **IF the result IS statistically significant (p-value ≤ ${pThreshold}):** State that the finding is robust. Explain that the calculated power indicates the study had a sufficient sample size to detect an effect of this magnitude, lending more confidence to the result. Mention that a Type I error (false positive) is always a possibility, with a ${Number((alpha * 100).toFixed(2))}% chance as defined by alpha (${sidedness}).
+        - **Part C (Clinical Relevance):** Second, discuss clinical relevance. If applicable, use the Absolute Impact and NNT/NNH to evaluate the real-world impact of the findings. For example, is the effect size large enough to change clinical practice? If attributable or prevented fractions are listed, explain the public-health burden they describe, noting that they assume a causal, unconfounded association and depend on the exposure prevalence used.
     - **3. Limitations and Recommendations:** This section has a specific multi-part structure.
         - **Part A (Study Design Context):** Your first paragraph MUST explicitly address the specified study design. Based on the specified design of **${studyDesignLabel}**, you MUST tailor your analysis to reflect the inherent strengths and weaknesses of that methodology.
             - If the design is an **RCT**, emphasize the strong evidence for **causality**. Discuss the importance of randomization in minimizing confounding. Your limitations should focus on generalizability (external validity), potential for attrition bias, and the idealized nature of the trial.
@@ -369,13 +842,12 @@ Please provide a structured interpretation in **${langNameForPrompt}** organized
 
 Start your response directly with "**${currentTranslations.reportHeaders.interpretation}**".`;
 
+    const prompt = metaAnalysisPrompt ?? incidenceRatePrompt ?? diagnosticPrompt ?? matchedPairsPrompt ?? singleStudyPrompt;
+
     try {
-        const response = await ai.models.generateContent({
-          model: model,
-          contents: prompt,
-        });
+        const text = await aiProvider.generateText(model, prompt);
         
-        const unescapedText = response.text.replace(/\\n/g, '\n');
+        const unescapedText = text.replace(/\\n/g, '\n');
         const cleanedText = unescapedText.replace(/###\s*/g, '').trim();
         setAiInterpretation(cleanedText);
 
@@ -386,6 +858,13 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
     }
   }, []);
   
+  // Free-form request for pages that build their own prompt, such as the comparison page
+  const generateAiText = useCallback(async (prompt: string) => {
+    if (aiProvider.configurationError) throw new Error(aiProvider.configurationError);
+    const text = await aiProvider.generateText(aiModel, prompt);
+    return text.replace(/\\n/g, '\n').trim();
+  }, [aiModel]);
+
   const handleRequestSummary = useCallback(async () => {
     if (!results || !studyGoal || !studyDesign) return;
     
@@ -394,14 +873,14 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
     if (!aiNarrativeSummary) {
         setIsInterpreting(true);
         try {
-            await fetchAiNarrativeSummary(results, inputs, studyGoal, studyDesign, aiModel, language);
+            await fetchAiNarrativeSummary(results, analysisInputs, studyGoal, studyDesign, aiModel, language);
         } catch (e) {
             setAiNarrativeSummary("Failed to generate summary. Please go back and try again.");
         } finally {
             setIsInterpreting(false);
         }
     }
-  }, [results, inputs, studyGoal, studyDesign, aiModel, language, aiNarrativeSummary, fetchAiNarrativeSummary]);
+  }, [results, analysisInputs, studyGoal, studyDesign, aiModel, language, aiNarrativeSummary, fetchAiNarrativeSummary]);
 
   const handleRequestReport = useCallback(async () => {
       if (!results || !studyGoal || !studyDesign) return;
@@ -411,231 +890,118 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
       if (!aiInterpretation) {
           setIsInterpreting(true);
           try {
-              await fetchAiInterpretation(results, inputs, studyGoal, studyDesign, aiModel, language);
+              await fetchAiInterpretation(results, analysisInputs, studyGoal, studyDesign, aiModel, language);
           } catch (e) {
               setAiInterpretation("Failed to generate report. Please go back and try again.");
           } finally {
               setIsInterpreting(false);
           }
       }
-  }, [results, inputs, studyGoal, studyDesign, aiModel, language, aiInterpretation, fetchAiInterpretation]);
+  }, [results, analysisInputs, studyGoal, studyDesign, aiModel, language, aiInterpretation, fetchAiInterpretation]);
 
   const handleCalculate = useCallback(() => {
     setError(null);
     setResults(null);
     setAiInterpretation(null);
     setAiNarrativeSummary(null);
-    
-    if (!studyGoal) {
-      setError(T.errorStudyGoal);
-      return;
-    }
-    if (!studyDesign) {
-      setError(T.errorStudyDesign);
-      return;
-    }
-    
     setIsCalculating(true);
-
-    const values = {
-      a: parseInt(inputs.a, 10),
-      b: parseInt(inputs.b, 10),
-      c: parseInt(inputs.c, 10),
-      d: parseInt(inputs.d, 10),
-    };
-
-    for (const key in values) {
-      const val = values[key as keyof typeof values];
-      if (isNaN(val) || val < 0) {
-        setError(T.errorInvalidNumber(key));
-        setIsCalculating(false);
-        return;
-      }
+    const calculation = calculateResults({ inputs, analysisMode, strata, studies, personTimeInputs, targetPrevalence, exposurePrevalence, studyGoal, studyDesign, analysisSettings, language });
+    if ('error' in calculation) {
+      setError(calculation.error);
+    } else {
+      setResults(calculation.results);
     }
+    setIsCalculating(false);
+  }, [inputs, analysisMode, strata, studies, personTimeInputs, targetPrevalence, exposurePrevalence, studyGoal, studyDesign, analysisSettings, language]);
 
-    const corrected = {
-        a: values.a === 0 ? 0.5 : values.a,
-        b: values.b === 0 ? 0.5 : values.b,
-        c: values.c === 0 ? 0.5 : values.c,
-        d: values.d === 0 ? 0.5 : values.d,
-    };
+  useEffect(() => {
+    if (!sharedLink) return;
+    if ('analysis' in sharedLink) {
+      handleCalculate();
+    } else {
+      setError(sharedLink.error === 'unsupported-version' ? T.errorShareLinkVersion : T.errorShareLinkInvalid);
+    }
+  }, []);
 
-    const { a, b, c, d } = values;
-    const { a: ca, b: cb, c: cc, d: cd } = corrected;
-    
-    const exposedTotal = a + b;
-    const controlTotal = c + d;
-    const exposedTotal_c = ca + cb;
-    const controlTotal_c = cc + cd;
-
-    let newResults: Results = {
-      absoluteRiskExposed: null,
-      absoluteRiskControl: null,
-      riskDifference: null,
-      relativeRisk: null,
-      oddsRatio: null,
-      impactMeasures: null,
-      nnt: null,
-      power: null,
-      type1Error: null,
-      type2Error: null,
-    };
-    
-    // Risk, RD, RR, and Impact Measures are only valid for designs where incidence can be calculated.
-    if (studyDesign !== 'case-control') {
-      if (exposedTotal > 0 && controlTotal > 0) {
-          const riskExposed = a / exposedTotal;
-          const riskControl = c / controlTotal;
-          
-          newResults.absoluteRiskExposed = { value: riskExposed };
-          newResults.absoluteRiskControl = { value: riskControl };
-          
-          const riskExposed_c = ca / exposedTotal_c;
-          const riskControl_c = cc / controlTotal_c;
-          
-          const rd = riskExposed - riskControl;
-          const se_rd = Math.sqrt((riskExposed_c * (1 - riskExposed_c) / exposedTotal_c) + (riskControl_c * (1 - riskControl_c) / controlTotal_c));
-          newResults.riskDifference = { value: rd, lower: rd - 1.96 * se_rd, upper: rd + 1.96 * se_rd };
-          
-          if (riskControl > 0 && rd !== 0) {
-              const absoluteValue = Math.abs(rd);
-              const relativeValue = absoluteValue / riskControl;
-              let absoluteLabel = '';
-              let relativeLabel = '';
-
-              if (studyGoal === 'undesirable') {
-                  if (rd > 0) { // Harmful exposure increases undesirable outcome
-                      absoluteLabel = 'Absolute Risk Increase (ARI)';
-                      relativeLabel = 'Relative Risk Increase (RRI)';
-                  } else { // Protective exposure reduces undesirable outcome
-                      absoluteLabel = 'Absolute Risk Reduction (ARR)';
-                      relativeLabel = 'Relative Risk Reduction (RRR)';
-                  }
-              } else { // desirable
-                  if (rd > 0) { // Beneficial exposure increases desirable outcome
-                      absoluteLabel = 'Absolute Benefit Increase (ABI)';
-                      relativeLabel = 'Relative Benefit Increase (RBI)';
-                  } else { // Harmful exposure reduces desirable outcome
-                      absoluteLabel = 'Absolute Benefit Reduction (ABR)';
-                      relativeLabel = 'Relative Benefit Reduction (RBR)';
-                  }
-              }
-              newResults.impactMeasures = {
-                  absolute: { label: absoluteLabel, value: absoluteValue },
-                  relative: { label: relativeLabel, value: relativeValue },
-              };
-          }
-          
-          if (riskControl > 0 && riskExposed >= 0) { // Allow riskExposed to be 0
-              const rr = riskExposed === 0 ? 0 : riskExposed / riskControl;
-              const ln_rr = Math.log(rr);
-              const se_ln_rr = Math.sqrt( (1-riskExposed_c)/ca + (1-riskControl_c)/cc );
-              const zStat = ln_rr / se_ln_rr;
-              newResults.relativeRisk = {
-                  value: rr,
-                  lower: Math.exp(ln_rr - 1.96 * se_ln_rr),
-                  upper: Math.exp(ln_rr + 1.96 * se_ln_rr),
-                  pValue: calculatePValueFromZ(zStat),
-                  zStat: zStat,
-              };
-          }
-          
-          if (rd !== 0) {
-              let nntType: 'Benefit' | 'Harm';
-
-              // A "benefit" (NNT) occurs when an intervention reduces an undesirable outcome (rd < 0)
-              // or increases a desirable one (rd > 0).
-              // A "harm" (NNH) occurs when an intervention increases an undesirable outcome (rd > 0)
-              // or reduces a desirable one (rd < 0).
-              if ((studyGoal === 'undesirable' && rd < 0) || (studyGoal === 'desirable' && rd > 0)) {
-                  nntType = 'Benefit';
-              } else {
-                  nntType = 'Harm';
-              }
-              
-              newResults.nnt = {
-                  value: 1 / Math.abs(rd),
-                  type: nntType,
-                  lower: 1 / newResults.riskDifference.upper,
-                  upper: 1 / newResults.riskDifference.lower,
-              }
-          }
+  useEffect(() => {
+    let isCurrent = true;
+    aiProvider.listModels()
+      .then(models => {
+        if (!isCurrent) return;
+        setAiModels(models);
+        setAiModel(prev => pickAiModel(models, prev));
+      })
+      .catch(e => {
+        console.error("Error listing AI models:", e);
+        if (isCurrent) setAiModelsError(true);
+      });
+    return () => { isCurrent = false; };
+  }, []);
 
-          // Post-hoc Power Calculation
-          const alpha = 0.05;
-          if (riskExposed !== riskControl) {
-              const z_alpha_half = 1.96; // For two-tailed test
-              const p_pooled = (a + c) / (exposedTotal + controlTotal);
-
-              if (p_pooled > 0 && p_pooled < 1) {
-                  const se_null = Math.sqrt(p_pooled * (1 - p_pooled) * (1 / exposedTotal + 1 / controlTotal));
-                  const critical_diff = z_alpha_half * se_null;
-                  
-                  const se_alt_variance = (riskExposed * (1 - riskExposed) / exposedTotal) + (riskControl * (1 - riskControl) / controlTotal);
-                  
-                  if (se_alt_variance > 0) {
-                      const se_alt = Math.sqrt(se_alt_variance);
-                      const observed_diff = riskExposed - riskControl;
-                      
-                      // Standardize the critical values under the alternative hypothesis
-                      const z_for_upper_tail = (critical_diff - observed_diff) / se_alt;
-                      const z_for_lower_tail = (-critical_diff - observed_diff) / se_alt;
-
-                      // Power is the probability of being in the rejection region under H1
-                      // This is P(Z > z_for_upper_tail) + P(Z < z_for_lower_tail)
-                      const power = (1 - normalCDF(z_for_upper_tail)) + normalCDF(z_for_lower_tail);
-                      const beta = 1 - power;
-
-                      newResults.power = { value: power };
-                      newResults.type1Error = { value: alpha };
-                      newResults.type2Error = { value: beta };
-                  } else {
-                       // Undefined SE, cannot calculate power
-                       newResults.power = null;
-                       newResults.type1Error = { value: alpha };
-                       newResults.type2Error = null;
-                  }
-              } else {
-                  // Pooled proportion is 0 or 1, cannot calculate power
-                  newResults.power = null;
-                  newResults.type1Error = { value: alpha };
-                  newResults.type2Error = null;
-              }
-          } else { 
-               // If there's no difference, power is the Type I error rate (alpha).
-              newResults.power = { value: alpha };
-              newResults.type1Error = { value: alpha };
-              newResults.type2Error = { value: 1 - alpha };
-          }
-      }
-    }
-    
-    // Odds Ratio is valid for all designs.
-    if (a >= 0 && b > 0 && c > 0 && d >= 0) {
-        const or = (ca * cd) / (cb * cc);
-        const ln_or = Math.log(or);
-        const se_ln_or = Math.sqrt(1/ca + 1/cb + 1/cc + 1/cd);
-        const zStat = ln_or / se_ln_or;
-        newResults.oddsRatio = {
-            value: or,
-            lower: Math.exp(ln_or - 1.96 * se_ln_or),
-            upper: Math.exp(ln_or + 1.96 * se_ln_or),
-            pValue: calculatePValueFromZ(zStat),
-            zStat: zStat,
-        };
+  const currentAnalysis: SharedAnalysis = { inputs, studyGoal, studyDesign, aiModel, language, analysisSettings, analysisMode, strata, studies, personTimeInputs, targetPrevalence, exposurePrevalence };
+
+  // Keep the address bar pointing at the analysis behind the results on screen, so it can be bookmarked or copied
+  useEffect(() => {
+    if (!results) return;
+    window.history.replaceState(null, '', `#${encodeShareLink(currentAnalysis)}`);
+  }, [results]);
+
+  const handleOpenSavedAnalysis = useCallback((saved: SavedAnalysis) => {
+    const { analysis } = saved;
+    setInputs(analysis.inputs);
+    setDataProvenance(null);
+    setStudyGoal(analysis.studyGoal);
+    setStudyDesign(analysis.studyDesign);
+    setAiModel(aiModels ? pickAiModel(aiModels, analysis.aiModel) : analysis.aiModel);
+    setLanguage(analysis.language);
+    setAnalysisSettings(analysis.analysisSettings);
+    setAnalysisMode(analysis.analysisMode);
+    setStrata(analysis.strata);
+    setStudies(analysis.studies);
+    setPersonTimeInputs(analysis.personTimeInputs);
+    setTargetPrevalence(analysis.targetPrevalence);
+    setExposurePrevalence(analysis.exposurePrevalence);
+    // Results are recalculated from the saved set-up; the saved AI text describes them, so it is shown rather than regenerated
+    const calculation = calculateResults(analysis);
+    if ('error' in calculation) {
+      setResults(null);
+      setAiInterpretation(null);
+      setAiNarrativeSummary(null);
+      setError(calculation.error);
+    } else {
+      setResults(calculation.results);
+      setAiInterpretation(saved.aiInterpretation);
+      setAiNarrativeSummary(saved.aiNarrativeSummary);
+      setError(null);
     }
+    setCurrentPage('calculator');
+  }, [aiModels]);
 
-    setResults(newResults);
-    setIsCalculating(false);
-  }, [inputs, studyGoal, studyDesign, T]);
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch {
+      setError(T.errorCopyLink);
+    }
+  }, [T]);
   
 
   const exposedTotal = (parseInt(inputs.a) || 0) + (parseInt(inputs.b) || 0);
   const controlTotal = (parseInt(inputs.c) || 0) + (parseInt(inputs.d) || 0);
+
+  // Diagnostic accuracy studies relabel the grid as test result (steps 4/5) by disease status, and matched
+  // case-control studies as case exposure (steps 4/5) by control exposure, counting pairs
+  const gridText = studyDesign === 'diagnostic-accuracy' ? T.diagnosticGrid
+    : studyDesign === 'matched-case-control' ? T.matchedPairsGrid
+    : { step4Title: T.step4Title, step5Title: T.step5Title, a: T.withOutcomeA, b: T.withoutOutcomeB, c: T.withOutcomeC, d: T.withoutOutcomeD };
+  const gridTooltips = studyDesign === 'diagnostic-accuracy' ? tooltips.diagnosticGrid
+    : studyDesign === 'matched-case-control' ? tooltips.matchedPairsGrid
+    : { step4: tooltips.exposedGroup, step5: tooltips.controlGroup, a: tooltips.positiveOutcomeA, b: tooltips.negativeOutcomeB, c: tooltips.positiveOutcomeC, d: tooltips.negativeOutcomeD };
   
   const formattedInterpretation = aiInterpretation
-    ? aiInterpretation
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    ? aiTextToHtml(aiInterpretation)
         .split('\n\n')
         .map(block => {
             const trimmedBlock = block.trim();
@@ -686,8 +1052,7 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
     : '';
 
   const formattedNarrative = aiNarrativeSummary
-    ? aiNarrativeSummary
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    ? aiTextToHtml(aiNarrativeSummary)
         .split('\n\n')
         .map(block => {
             const trimmedBlock = block.trim();
@@ -720,10 +1085,76 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
     </footer>
   );
   
+  const dataSource = dataProvenance?.analysisMode === analysisMode ? dataProvenance.text : null;
+  const exportData: ResultsExport | null = results ? {
+    results,
+    analysisMode,
+    inputs: analysisMode === 'stratified' ? strata : analysisMode === 'meta' ? studies : analysisMode === 'incidenceRate' ? personTimeInputs : inputs,
+    studyDesign,
+    studyGoal,
+    language,
+    dataSource,
+  } : null;
+  const aiModelName = aiModels?.find(model => model.id === aiModel)?.name ?? aiModel;
+
   if (currentPage === 'howToUse') {
     return <HowToUsePage language={language} onBack={() => setCurrentPage('calculator')} />;
   }
 
+  if (currentPage === 'library') {
+    return (
+      <AnalysisLibraryPage
+        currentAnalysis={results ? { analysis: currentAnalysis, aiInterpretation, aiNarrativeSummary } : null}
+        onOpen={handleOpenSavedAnalysis}
+        onBack={() => setCurrentPage('calculator')}
+        language={language}
+      />
+    );
+  }
+
+  if (currentPage === 'comparison') {
+    return (
+      <ComparisonPage
+        currentAnalysis={results ? { analysis: currentAnalysis, results } : null}
+        aiModelName={aiModelName}
+        onGenerateAiText={generateAiText}
+        onBack={() => setCurrentPage('calculator')}
+        language={language}
+      />
+    );
+  }
+
+  if (currentPage === 'batch') {
+    return (
+      <BatchPage
+        studyDesign={studyDesign}
+        studyGoal={studyGoal}
+        analysisSettings={analysisSettings}
+        aiModelName={aiModelName}
+        onGenerateAiText={generateAiText}
+        onBack={() => setCurrentPage('calculator')}
+        language={language}
+      />
+    );
+  }
+
+  if (currentPage === 'samplePlanner') {
+    return <SampleSizePlannerPage language={language} analysisSettings={analysisSettings} onBack={() => setCurrentPage('calculator')} />;
+  }
+
+  if (currentPage === 'report' && exportData) {
+    return (
+      <PrintReportPage
+        data={exportData}
+        aiModelName={aiModelName}
+        interpretationHtml={formattedInterpretation}
+        narrativeHtml={formattedNarrative}
+        onBack={() => setCurrentPage('calculator')}
+        language={language}
+      />
+    );
+  }
+
   if (currentPage === 'narrativeSummary') {
     return (
        <div className="min-h-screen flex flex-col bg-slate-50 antialiased text-slate-800 font-sans">
@@ -733,13 +1164,20 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                         <h1 className="text-3xl font-bold text-slate-800">{T.aiSummaryTitle}</h1>
                         <p className="text-slate-500 mt-2">{T.aiSummarySubtitle}</p>
                     </div>
-                    <div className="mt-6">
+                    <div className="mt-6 flex flex-wrap gap-3">
                          <button
                             onClick={() => setCurrentPage('calculator')}
                             className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                         >
                             {T.backToCalculatorButton}
                         </button>
+                         <button
+                            onClick={() => setCurrentPage('report')}
+                            disabled={isInterpreting}
+                            className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-slate-300 shadow-sm text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400 transition-colors"
+                        >
+                            {T.printReportButton}
+                        </button>
                     </div>
                     <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200 min-h-[300px] flex flex-col">
                         {isInterpreting && !aiNarrativeSummary && (
@@ -759,6 +1197,9 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                             />
                         )}
                     </div>
+                    {results?.absoluteRiskExposed && results.absoluteRiskControl && (
+                        <IconArray riskExposed={results.absoluteRiskExposed.value} riskControl={results.absoluteRiskControl.value} nnt={results.nnt} language={language} />
+                    )}
                 </div>
             </main>
             <Footer />
@@ -775,13 +1216,20 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                         <h1 className="text-3xl font-bold text-slate-800">{T.aiFullReportTitle}</h1>
                         <p className="text-slate-500 mt-2">{T.aiFullReportSubtitle}</p>
                     </div>
-                    <div className="mt-6">
+                    <div className="mt-6 flex flex-wrap gap-3">
                          <button
                             onClick={() => setCurrentPage('calculator')}
                             className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                         >
                             {T.backToCalculatorButton}
                         </button>
+                         <button
+                            onClick={() => setCurrentPage('report')}
+                            disabled={isInterpreting}
+                            className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-slate-300 shadow-sm text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400 transition-colors"
+                        >
+                            {T.printReportButton}
+                        </button>
                     </div>
                     <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200 min-h-[300px] flex flex-col">
                         {isInterpreting && !aiInterpretation && (
@@ -818,8 +1266,32 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
             </h1>
             <p className="text-slate-500 text-sm">{T.headerSubtitle}</p>
           </div>
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center justify-end gap-3">
             <LanguageSwitcher currentLanguage={language} onLanguageChange={handleLanguageChange} />
+            <button
+              onClick={() => setCurrentPage('library')}
+              className="hidden sm:inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.libraryButton}
+            </button>
+            <button
+              onClick={() => setCurrentPage('comparison')}
+              className="hidden sm:inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.comparisonButton}
+            </button>
+            <button
+              onClick={() => setCurrentPage('batch')}
+              className="hidden sm:inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.batchButton}
+            </button>
+            <button
+              onClick={() => setCurrentPage('samplePlanner')}
+              className="hidden sm:inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.plannerButton}
+            </button>
             <button
               onClick={() => setCurrentPage('howToUse')}
               className="hidden sm:inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
@@ -869,7 +1341,7 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                             id="studyDesign"
                             name="studyDesign"
                             value={studyDesign || ''}
-                            onChange={(e) => setStudyDesign(e.target.value as StudyDesign)}
+                            onChange={(e) => handleStudyDesignChange(e.target.value as StudyDesign)}
                             className="w-full pl-3 pr-10 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
                                        focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
                                        transition duration-150 ease-in-out appearance-none"
@@ -892,71 +1364,120 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                       <h3 className="font-semibold text-lg text-slate-700">{T.step3Title}</h3>
                       <Tooltip text={tooltips.aiModelSelection} />
                   </div>
-                  <p className="text-sm text-slate-600 mb-4">{T.step3Description}</p>
-                  <fieldset className="flex flex-col sm:flex-row gap-x-6 gap-y-3">
-                      <legend className="sr-only">AI Model</legend>
-                      <div className="flex items-center">
-                          <input type="radio" id="gemini-flash" name="aiModel" value="gemini-2.5-flash" checked={aiModel === 'gemini-2.5-flash'} onChange={(e) => setAiModel(e.target.value as AiModel)} className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
-                          <label htmlFor="gemini-flash" className="ml-2 block text-sm font-medium text-slate-700">{T.geminiFlash} <span className="text-slate-500 font-normal">{T.geminiFlashDesc}</span></label>
-                      </div>
-                      <div className="flex items-center">
-                          <input type="radio" id="gemini-pro" name="aiModel" value="gemini-2.5-pro" checked={aiModel === 'gemini-2.5-pro'} onChange={(e) => setAiModel(e.target.value as AiModel)} className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
-                          <label htmlFor="gemini-pro" className="ml-2 block text-sm font-medium text-slate-700">{T.geminiPro} <span className="text-slate-500 font-normal">{T.geminiProDesc}</span></label>
-                      </div>
-                  </fieldset>
+                  <p className="text-sm text-slate-600 mb-1">{T.step3Description}</p>
+                  <p className="text-xs text-slate-500 mb-4">{T.aiProviderLabel}: {T.aiProviderNames[aiProvider.id]}</p>
+                  {aiProvider.configurationError && <p className="text-sm text-red-600 mb-3">{aiProvider.configurationError}</p>}
+                  {aiModels ? (
+                    <fieldset className="flex flex-col sm:flex-row sm:flex-wrap gap-x-6 gap-y-3">
+                        <legend className="sr-only">AI Model</legend>
+                        {aiModels.map(model => (
+                            <div key={model.id} className="flex items-center">
+                                <input type="radio" id={`aiModel-${model.id}`} name="aiModel" value={model.id} checked={aiModel === model.id} onChange={(e) => setAiModel(e.target.value)} className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
+                                <label htmlFor={`aiModel-${model.id}`} className="ml-2 block text-sm font-medium text-slate-700">{model.name} {model.description && <span className="text-slate-500 font-normal">{model.description[language]}</span>}</label>
+                            </div>
+                        ))}
+                    </fieldset>
+                  ) : (
+                    <p className={`text-sm ${aiModelsError ? 'text-red-600' : 'text-slate-500'}`}>{aiModelsError ? T.aiModelsError : T.aiModelsLoading}</p>
+                  )}
               </div>
 
 
-              <div className="p-4 border rounded-lg bg-slate-50">
-                <div className="flex justify-between items-center mb-4">
-                    <div className="flex items-center">
-                      <h3 className="font-semibold text-lg text-slate-700">{T.step4Title}</h3>
-                      <Tooltip text={tooltips.exposedGroup} />
+              {!(studyDesign && singleTableDesigns.includes(studyDesign)) && (
+                <div className="p-4 border rounded-lg bg-slate-50">
+                    <div className="flex items-center mb-2">
+                        <h3 className="font-semibold text-lg text-slate-700">{T.analysisModeTitle}</h3>
+                        <Tooltip text={tooltips.analysisMode} />
                     </div>
-                    <span className="text-sm font-medium text-slate-500 bg-slate-200 px-2 py-1 rounded">{T.total}: {exposedTotal}</span>
+                    <fieldset className="flex flex-col gap-y-3">
+                        <legend className="sr-only">{T.analysisModeTitle}</legend>
+                        {(['single', 'stratified', 'meta', 'incidenceRate'] as AnalysisMode[]).filter(mode => mode !== 'incidenceRate' || (studyDesign && personTimeDesigns.includes(studyDesign))).map(mode => (
+                            <div key={mode} className="flex items-center">
+                                <input type="radio" id={`analysisMode-${mode}`} name="analysisMode" value={mode} checked={analysisMode === mode} onChange={(e) => setAnalysisMode(e.target.value as AnalysisMode)} className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500" />
+                                <label htmlFor={`analysisMode-${mode}`} className="ml-2 block text-sm font-medium text-slate-700">{T.analysisModeOptions[mode]} <span className="text-slate-500 font-normal">{T.analysisModeExamples[mode]}</span></label>
+                            </div>
+                        ))}
+                    </fieldset>
                 </div>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div>
-                    <div className="flex items-center mb-1">
-                      <label htmlFor="a" className="block text-sm font-medium text-slate-700">{T.withOutcomeA}</label>
-                      <Tooltip text={tooltips.positiveOutcomeA} />
-                    </div>
-                    <InputControl id="a" value={inputs.a} onChange={handleInputChange} placeholder="e.g., 20" />
-                  </div>
-                  <div>
-                    <div className="flex items-center mb-1">
-                      <label htmlFor="b" className="block text-sm font-medium text-slate-700">{T.withoutOutcomeB}</label>
-                      <Tooltip text={tooltips.negativeOutcomeB} />
-                    </div>
-                    <InputControl id="b" value={inputs.b} onChange={handleInputChange} placeholder="e.g., 80" />
-                  </div>
+              )}
+
+              {/* A matched table counts pairs, which cannot be tallied from one row per participant */}
+              {(analysisMode === 'single' || analysisMode === 'stratified') && studyDesign !== 'matched-case-control' && (
+                <IndividualDataImport
+                  allowStrata={!(studyDesign && singleTableDesigns.includes(studyDesign))}
+                  onApply={handleApplyIndividualData}
+                  language={language}
+                />
+              )}
+
+              {dataSource && (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-slate-700">
+                  <span className="font-semibold">{T.individualProvenanceTitle}:</span> {dataSource}
                 </div>
-              </div>
-              <div className="p-4 border rounded-lg bg-slate-50">
-                <div className="flex justify-between items-center mb-4">
-                    <div className="flex items-center">
-                      <h3 className="font-semibold text-lg text-slate-700">{T.step5Title}</h3>
-                      <Tooltip text={tooltips.controlGroup} />
+              )}
+
+              {analysisMode === 'stratified' ? (
+                <TableListInput kind="strata" tables={strata} onTablesChange={handleStrataChange} language={language} />
+              ) : analysisMode === 'meta' ? (
+                <TableListInput kind="studies" tables={studies} onTablesChange={setStudies} language={language} />
+              ) : analysisMode === 'incidenceRate' ? (
+                <PersonTimeInput inputs={personTimeInputs} onInputsChange={setPersonTimeInputs} language={language} />
+              ) : (
+                <>
+                  <div className="p-4 border rounded-lg bg-slate-50">
+                    <div className="flex justify-between items-center mb-4">
+                        <div className="flex items-center">
+                          <h3 className="font-semibold text-lg text-slate-700">{gridText.step4Title}</h3>
+                          <Tooltip text={gridTooltips.step4} />
+                        </div>
+                        <span className="text-sm font-medium text-slate-500 bg-slate-200 px-2 py-1 rounded">{T.total}: {exposedTotal}</span>
                     </div>
-                    <span className="text-sm font-medium text-slate-500 bg-slate-200 px-2 py-1 rounded">{T.total}: {controlTotal}</span>
-                </div>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div>
-                    <div className="flex items-center mb-1">
-                      <label htmlFor="c" className="block text-sm font-medium text-slate-700">{T.withOutcomeC}</label>
-                      <Tooltip text={tooltips.positiveOutcomeC} />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <div className="flex items-center mb-1">
+                          <label htmlFor="a" className="block text-sm font-medium text-slate-700">{gridText.a}</label>
+                          <Tooltip text={gridTooltips.a} />
+                        </div>
+                        <InputControl id="a" value={inputs.a} onChange={handleInputChange} placeholder="e.g., 20" />
+                      </div>
+                      <div>
+                        <div className="flex items-center mb-1">
+                          <label htmlFor="b" className="block text-sm font-medium text-slate-700">{gridText.b}</label>
+                          <Tooltip text={gridTooltips.b} />
+                        </div>
+                        <InputControl id="b" value={inputs.b} onChange={handleInputChange} placeholder="e.g., 80" />
+                      </div>
                     </div>
-                    <InputControl id="c" value={inputs.c} onChange={handleInputChange} placeholder="e.g., 5" />
                   </div>
-                  <div>
-                    <div className="flex items-center mb-1">
-                      <label htmlFor="d" className="block text-sm font-medium text-slate-700">{T.withoutOutcomeD}</label>
-                      <Tooltip text={tooltips.negativeOutcomeD} />
+                  <div className="p-4 border rounded-lg bg-slate-50">
+                    <div className="flex justify-between items-center mb-4">
+                        <div className="flex items-center">
+                          <h3 className="font-semibold text-lg text-slate-700">{gridText.step5Title}</h3>
+                          <Tooltip text={gridTooltips.step5} />
+                        </div>
+                        <span className="text-sm font-medium text-slate-500 bg-slate-200 px-2 py-1 rounded">{T.total}: {controlTotal}</span>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <div className="flex items-center mb-1">
+                          <label htmlFor="c" className="block text-sm font-medium text-slate-700">{gridText.c}</label>
+                          <Tooltip text={gridTooltips.c} />
+                        </div>
+                        <InputControl id="c" value={inputs.c} onChange={handleInputChange} placeholder="e.g., 5" />
+                      </div>
+                      <div>
+                        <div className="flex items-center mb-1">
+                          <label htmlFor="d" className="block text-sm font-medium text-slate-700">{gridText.d}</label>
+                          <Tooltip text={gridTooltips.d} />
+                        </div>
+                        <InputControl id="d" value={inputs.d} onChange={handleInputChange} placeholder="e.g., 95" />
+                      </div>
                     </div>
-                    <InputControl id="d" value={inputs.d} onChange={handleInputChange} placeholder="e.g., 95" />
                   </div>
-                </div>
-              </div>
+                </>
+              )}
+
+              <AnalysisSettingsPanel settings={analysisSettings} onSettingsChange={setAnalysisSettings} language={language} />
             </div>
             {error && <div className="mt-4 text-red-600 bg-red-100 p-3 rounded-md text-sm">{error}</div>}
             <div className="mt-8 flex items-center gap-4">
@@ -980,18 +1501,33 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                           <div className="text-xs text-slate-500 mt-1 space-y-0.5">
                              <p><span className="font-semibold">{T.resultsGoal}:</span> {studyGoal === 'desirable' ? T.resultsGoalDesirable : T.resultsGoalUndesirable}</p>
                              <p><span className="font-semibold">{T.resultsDesign}:</span> {studyDesignLabels[language][studyDesign]}</p>
-                             <p><span className="font-semibold">{T.resultsAiModel}:</span> {aiModel === 'gemini-2.5-flash' ? T.geminiFlash : T.geminiPro}</p>
+                             <p><span className="font-semibold">{T.resultsAiModel}:</span> {aiModelName}</p>
                           </div>
                         )}
                       </div>
                       {results && (
                           <div className="flex items-center gap-2">
+                              {exportData && <ExportMenu data={exportData} />}
+                              <button
+                                  onClick={handleCopyLink}
+                                  className="inline-flex items-center justify-center px-3 py-2 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                              >
+                                  {isLinkCopied ? T.linkCopied : T.copyLinkButton}
+                              </button>
                               <button
-                                  onClick={handleRequestSummary}
-                                  className="inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
+                                  onClick={() => setCurrentPage('report')}
+                                  className="inline-flex items-center justify-center px-3 py-2 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                               >
-                                  {T.aiSummaryButton}
+                                  {T.printReportButton}
                               </button>
+                              {!results.metaAnalysis && (
+                                  <button
+                                      onClick={handleRequestSummary}
+                                      className="inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
+                                  >
+                                      {T.aiSummaryButton}
+                                  </button>
+                              )}
                               <button
                                   onClick={handleRequestReport}
                                   className="inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
@@ -1013,125 +1549,283 @@ Start your response directly with "**${currentTranslations.reportHeaders.interpr
                             </p>
                           </div>
                         )}
-                        <div>
-                            <div className="overflow-x-auto">
-                                <table className="w-full text-sm text-left text-slate-600">
-                                    <thead className="text-xs text-slate-700 uppercase bg-slate-100">
-                                        <tr>
-                                            <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
-                                            <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
-                                        </tr>
-                                    </thead>
+                        {results.metaAnalysis ? (
+                            <MetaAnalysisResults metaAnalysis={results.metaAnalysis} confidenceLevel={results.analysisSettings.confidenceLevel} language={language} />
+                        ) : results.incidenceRate ? (
+                            <IncidenceRateResults incidenceRate={results.incidenceRate} eValues={results.eValues} confidenceLevel={results.analysisSettings.confidenceLevel} language={language} />
+                        ) : results.matchedPairs ? (
+                            <MatchedPairsResults matchedPairs={results.matchedPairs} eValues={results.eValues} confidenceLevel={results.analysisSettings.confidenceLevel} language={language} />
+                        ) : results.diagnosticAccuracy ? (
+                            <DiagnosticAccuracyResults diagnosticAccuracy={results.diagnosticAccuracy} confidenceLevel={results.analysisSettings.confidenceLevel} targetPrevalence={targetPrevalence} onTargetPrevalenceChange={handleTargetPrevalenceChange} language={language} />
+                        ) : (
+                            <div>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm text-left text-slate-600">
+                                        <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+                                            <tr>
+                                                <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+                                                <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+                                            </tr>
+                                        </thead>
                                     
-                                    {studyDesign !== 'case-control' && (
-                                      <tbody className="bg-white">
-                                          <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.incidenceHeader}</span><Tooltip text={tooltips.incidence} /></div></td></tr>
-                                          {results.absoluteRiskExposed && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.absRiskExposed}</span><Tooltip text={tooltips.absoluteRiskExposed} /></div></th><td className="px-4 py-3 font-mono">{results.absoluteRiskExposed.value.toFixed(4)}</td></tr>}
-                                          {results.absoluteRiskControl && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.absRiskControl}</span><Tooltip text={tooltips.absoluteRiskControl} /></div></th><td className="px-4 py-3 font-mono">{results.absoluteRiskControl.value.toFixed(4)}</td></tr>}
-                                      </tbody>
-                                    )}
-
-                                    <tbody className="bg-white">
-                                        <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.assocMeasuresHeader}</span><Tooltip text={tooltips.measuresOfAssociation} /></div></td></tr>
                                         {studyDesign !== 'case-control' && (
-                                          results.relativeRisk ? (
-                                              <>
-                                                  <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.relativeRisk}</span><Tooltip text={tooltips.relativeRisk} /></div></th><td className="px-4 py-3 font-mono">{results.relativeRisk.value.toFixed(4)}</td></tr>
-                                                  <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ci95}</span><Tooltip text={tooltips.rr95CI} /></div></th><td className="px-4 py-3 font-mono">{`${results.relativeRisk.lower.toFixed(4)} to ${results.relativeRisk.upper.toFixed(4)}`}</td></tr>
-                                                  <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.zStatistic}</span><Tooltip text={tooltips.rrZStat} /></div></th><td className="px-4 py-3 font-mono">{results.relativeRisk.zStat.toFixed(3)}</td></tr>
-                                                  <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.significanceLevel}</span><Tooltip text={tooltips.rrSignificance} /></div></th><td className="px-4 py-3 font-mono">P = {results.relativeRisk.pValue}</td></tr>
-                                              </>
-                                          ) : <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium">{T.relativeRisk}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>
+                                          <tbody className="bg-white">
+                                              <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.incidenceHeader}</span><Tooltip text={tooltips.incidence} /></div></td></tr>
+                                              {results.absoluteRiskExposed && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.absRiskExposed}</span><Tooltip text={tooltips.absoluteRiskExposed} /></div></th><td className="px-4 py-3 font-mono">{results.absoluteRiskExposed.value.toFixed(4)}</td></tr>}
+                                              {results.absoluteRiskControl && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.absRiskControl}</span><Tooltip text={tooltips.absoluteRiskControl} /></div></th><td className="px-4 py-3 font-mono">{results.absoluteRiskControl.value.toFixed(4)}</td></tr>}
+                                          </tbody>
                                         )}
 
-                                        {results.oddsRatio ? (
-                                            <>
-                                                <tr className="border-t-2 border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.oddsRatio}</span><Tooltip text={tooltips.oddsRatio} /></div></th><td className="px-4 py-3 font-mono">{results.oddsRatio.value.toFixed(4)}</td></tr>
-                                                <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ci95}</span><Tooltip text={tooltips.or95CI} /></div></th><td className="px-4 py-3 font-mono">{`${results.oddsRatio.lower.toFixed(4)} to ${results.oddsRatio.upper.toFixed(4)}`}</td></tr>
-                                                <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.zStatistic}</span><Tooltip text={tooltips.orZStat} /></div></th><td className="px-4 py-3 font-mono">{results.oddsRatio.zStat.toFixed(3)}</td></tr>
-                                                <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.significanceLevel}</span><Tooltip text={tooltips.orSignificance} /></div></th><td className="px-4 py-3 font-mono">P = {results.oddsRatio.pValue}</td></tr>
-                                            </>
-                                        ) : <tr className="border-t-2 border-slate-300 border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium">{T.oddsRatio}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>}
-                                    </tbody>
-
-                                    {studyDesign !== 'case-control' && (
-                                      <tbody className="bg-white">
-                                          <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.impactMeasuresHeader}</span><Tooltip text={tooltips.measuresOfImpact} /></div></td></tr>
-                                          {results.riskDifference && (
-                                              <>
-                                                  <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.riskDifference}</span><Tooltip text={tooltips.riskDifference} /></div></th><td className="px-4 py-3 font-mono">{results.riskDifference.value.toFixed(4)}</td></tr>
-                                                  <tr className="border-t border-slate-200 border-b"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ci95}</span><Tooltip text={tooltips.rd95CI} /></div></th><td className="px-4 py-3 font-mono">{`${results.riskDifference.lower.toFixed(4)} to ${results.riskDifference.upper.toFixed(4)}`}</td></tr>
-                                              </>
-                                          )}
-                                          {results.impactMeasures && (
-                                              <>
+                                        <tbody className="bg-white">
+                                            <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.assocMeasuresHeader}</span><Tooltip text={tooltips.measuresOfAssociation} /></div></td></tr>
+                                            {studyDesign !== 'case-control' && (
+                                              results.relativeRisk ? (
+                                                  <>
+                                                      <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.relativeRisk}</span><Tooltip text={tooltips.relativeRisk} /></div></th><td className="px-4 py-3 font-mono">{results.relativeRisk.value.toFixed(4)}</td></tr>
+                                                      <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel))}</span><Tooltip text={tooltips.rr95CI} /></div><div className="text-xs font-normal text-slate-500">{T.ciMethod}: {ciMethodLabels[language].relativeRisk[results.relativeRisk.ciMethod]}</div></th><td className="px-4 py-3 font-mono">{`${results.relativeRisk.lower.toFixed(4)} to ${results.relativeRisk.upper.toFixed(4)}`}</td></tr>
+                                                      <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.zStatistic}</span><Tooltip text={tooltips.rrZStat} /></div></th><td className="px-4 py-3 font-mono">{results.relativeRisk.zStat.toFixed(3)}</td></tr>
+                                                      <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.significanceLevel}</span><Tooltip text={tooltips.rrSignificance} /></div></th><td className="px-4 py-3 font-mono">P = {results.relativeRisk.pValue}</td></tr>
+                                                  </>
+                                              ) : <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium">{T.relativeRisk}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>
+                                            )}
+
+                                            {results.oddsRatio ? (
+                                                <>
+                                                    <tr className="border-t-2 border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.oddsRatio}</span><Tooltip text={tooltips.oddsRatio} /></div></th><td className="px-4 py-3 font-mono">{results.oddsRatio.value.toFixed(4)}</td></tr>
+                                                    <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel))}</span><Tooltip text={tooltips.or95CI} /></div><div className="text-xs font-normal text-slate-500">{T.ciMethod}: {ciMethodLabels[language].oddsRatio[results.oddsRatio.ciMethod]}</div></th><td className="px-4 py-3 font-mono">{`${results.oddsRatio.lower.toFixed(4)} to ${results.oddsRatio.upper.toFixed(4)}`}</td></tr>
+                                                    {results.oddsRatio.conditionalMle !== null && <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.conditionalMleOr}</span><Tooltip text={tooltips.conditionalMle} /></div></th><td className="px-4 py-3 font-mono">{results.oddsRatio.conditionalMle.toFixed(4)}</td></tr>}
+                                                    <tr className="border-t border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.zStatistic}</span><Tooltip text={tooltips.orZStat} /></div></th><td className="px-4 py-3 font-mono">{results.oddsRatio.zStat.toFixed(3)}</td></tr>
+                                                    <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.significanceLevel}</span><Tooltip text={tooltips.orSignificance} /></div></th><td className="px-4 py-3 font-mono">P = {results.oddsRatio.pValue}</td></tr>
+                                                </>
+                                            ) : <tr className="border-t-2 border-slate-300 border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium">{T.oddsRatio}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>}
+                                        </tbody>
+
+                                        {(results.fisherExact || results.chiSquare) && (
+                                          <tbody className="bg-white">
+                                              <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.significanceTestsHeader}</span><Tooltip text={tooltips.significanceTests} /></div></td></tr>
+                                              {results.fisherExact && (
+                                                  <>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.fisherExactTwoSided}</span><Tooltip text={tooltips.fisherExact} /></div></th><td className="px-4 py-3 font-mono">P = {results.fisherExact.pValue}</td></tr>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.fisherExactMidP}</span><Tooltip text={tooltips.fisherMidP} /></div></th><td className="px-4 py-3 font-mono">P = {results.fisherExact.midPValue}</td></tr>
+                                                  </>
+                                              )}
+                                              {results.fragility && (
                                                   <tr className="border-b border-slate-200">
-                                                      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{results.impactMeasures.absolute.label}</span><Tooltip text={tooltips.absoluteImpact} /></div></th>
-                                                      <td className="px-4 py-3 font-mono">{results.impactMeasures.absolute.value.toFixed(4)}</td>
+                                                      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{results.fragility.type === 'fragility' ? T.fragilityIndex : T.reverseFragilityIndex}</span><Tooltip text={results.fragility.type === 'fragility' ? tooltips.fragilityIndex : tooltips.reverseFragilityIndex} /></div></th>
+                                                      <td className="px-4 py-3 font-mono">
+                                                          {results.fragility.index !== null && results.fragility.quotient !== null && results.fragility.group !== null ? (
+                                                              <>
+                                                                  {results.fragility.index}
+                                                                  <div className="text-xs text-slate-500">{T.fragilityDetail(results.fragility.group, results.fragility.quotient.toFixed(4))}</div>
+                                                              </>
+                                                          ) : T.fragilityNotReachable}
+                                                      </td>
                                                   </tr>
-                                                  { results.impactMeasures.relative &&
+                                              )}
+                                              {results.chiSquare && (
+                                                  <>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.pearsonChiSquare}</span><Tooltip text={tooltips.pearsonChiSquare} /></div></th><td className="px-4 py-3 font-mono">χ² = {results.chiSquare.pearson.statistic.toFixed(3)}, P = {results.chiSquare.pearson.pValue}</td></tr>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.yatesChiSquare}</span><Tooltip text={tooltips.yatesChiSquare} /></div></th><td className="px-4 py-3 font-mono">χ² = {results.chiSquare.yates.statistic.toFixed(3)}, P = {results.chiSquare.yates.pValue}</td></tr>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.likelihoodRatioG}</span><Tooltip text={tooltips.likelihoodRatioG} /></div></th><td className="px-4 py-3 font-mono">G = {results.chiSquare.likelihoodRatio.statistic.toFixed(3)}, P = {results.chiSquare.likelihoodRatio.pValue}</td></tr>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.expectedCounts}</span><Tooltip text={tooltips.expectedCounts} /></div></th><td className="px-4 py-3 font-mono">{(['a', 'b', 'c', 'd'] as const).map(cell => `${cell} = ${results.chiSquare!.expected[cell].toFixed(2)}`).join(', ')}</td></tr>
                                                       <tr className="border-b border-slate-200">
-                                                          <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{results.impactMeasures.relative.label}</span><Tooltip text={tooltips.relativeImpact} /></div></th>
-                                                          <td className="px-4 py-3 font-mono">{`${(results.impactMeasures.relative.value * 100).toFixed(2)}%`}</td>
+                                                          <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.recommendedTest}</span><Tooltip text={tooltips.recommendedTest} /></div></th>
+                                                          <td className="px-4 py-3 font-semibold text-blue-700">{T.recommendedTestOptions[results.chiSquare.recommendedTest]}</td>
                                                       </tr>
-                                                  }
-                                              </>
-                                          )}
-                                          
-                                          {results.nnt && results.riskDifference ? (
-                                              (() => {
-                                                  const isBenefit = results.nnt!.type === 'Benefit';
-                                                  const label = isBenefit ? T.nntBenefit : T.nntHarm;
-                                                  const colorClass = isBenefit ? 'text-green-700 font-semibold' : 'text-amber-700 font-semibold';
+                                                      {results.chiSquare.hasSmallExpected && (
+                                                          <tr className="border-b border-slate-200"><td colSpan={2} className="px-4 py-3"><div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm" role="alert">{T.smallExpectedWarning}</div></td></tr>
+                                                      )}
+                                                  </>
+                                              )}
+                                          </tbody>
+                                        )}
 
+                                        {results.stratified && (
+                                          <tbody className="bg-white">
+                                              <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.stratifiedHeader}</span><Tooltip text={tooltips.stratifiedAnalysis} /></div></td></tr>
+                                              {results.stratified.strata.map((stratum, index) => (
+                                                  <tr key={index} className="border-b border-slate-200">
+                                                      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{stratum.label}</span>{index === 0 && <Tooltip text={tooltips.stratumEstimates} />}</div><div className="text-xs font-normal text-slate-500">{(['a', 'b', 'c', 'd'] as const).map(cell => `${cell} = ${stratum.counts[cell]}`).join(', ')}</div></th>
+                                                      <td className="px-4 py-3 font-mono">
+                                                          {[
+                                                              studyDesign !== 'case-control' ? `RR ${stratum.relativeRisk !== null ? stratum.relativeRisk.toFixed(4) : T.notCalculable}` : null,
+                                                              `OR ${stratum.oddsRatio !== null ? stratum.oddsRatio.toFixed(4) : T.notCalculable}`,
+                                                              studyDesign !== 'case-control' ? `RD ${stratum.riskDifference !== null ? stratum.riskDifference.toFixed(4) : T.notCalculable}` : null,
+                                                          ].filter(Boolean).join(' · ')}
+                                                      </td>
+                                                  </tr>
+                                              ))}
+                                              {([
+                                                  ['relativeRisk', T.mhRelativeRisk, results.relativeRisk?.value],
+                                                  ['oddsRatio', T.mhOddsRatio, results.oddsRatio?.value],
+                                                  ['riskDifference', T.mhRiskDifference, results.riskDifference?.value],
+                                              ] as const).map(([measure, label, crude]) => {
+                                                  const adjusted = results.stratified!.adjusted[measure];
+                                                  if (!adjusted) return null;
                                                   return (
-                                                      <>
-                                                          <tr className="border-t border-slate-300">
-                                                              <th scope="row" className="px-4 py-3 font-medium">
-                                                                  <div className="flex items-center">
-                                                                      <span className={colorClass}>{label}</span>
-                                                                      <Tooltip text={tooltips.nnt} />
-                                                                  </div>
-                                                              </th>
-                                                              <td className={`px-4 py-3 font-mono ${colorClass}`}>
-                                                                  {results.nnt!.value.toFixed(3)}
-                                                              </td>
-                                                          </tr>
-                                                          <tr className="border-t border-slate-200">
-                                                            <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ci95}</span><Tooltip text={tooltips.nnt95CI} /></div></th>
-                                                            <td className="px-4 py-3 font-mono">
-                                                                {(() => {
-                                                                    const rd_ci_lower = results.riskDifference!.lower;
-                                                                    const rd_ci_upper = results.riskDifference!.upper;
-                                                                    if (rd_ci_lower < 0 && rd_ci_upper > 0) {
-                                                                        const nnh_ci_val = (1 / rd_ci_upper).toFixed(3);
-                                                                        const nnt_ci_val = Math.abs(1 / rd_ci_lower).toFixed(3);
-                                                                        return `${nnt_ci_val} (${T.nntCIbenefit}) to ${nnh_ci_val} (${T.nntCIharm})`;
-                                                                    } else {
-                                                                        let lower = results.nnt!.lower as number;
-                                                                        let upper = results.nnt!.upper as number;
-                                                                        if (lower > upper) [lower, upper] = [upper, lower];
-                                                                        return `${Math.abs(lower).toFixed(3)} to ${Math.abs(upper).toFixed(3)}`;
-                                                                    }
-                                                                })()}
-                                                            </td>
-                                                          </tr>
-                                                      </>
+                                                      <tr key={measure} className="border-b border-slate-200">
+                                                          <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltips.mhAdjusted} /></div>{crude !== undefined && <div className="text-xs font-normal text-slate-500">{T.crudeEstimate}: {crude.toFixed(4)}</div>}</th>
+                                                          <td className="px-4 py-3 font-mono">{adjusted.value.toFixed(4)}<div className="text-xs text-slate-500">{T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel))}: {`${adjusted.lower.toFixed(4)} to ${adjusted.upper.toFixed(4)}`}</div></td>
+                                                      </tr>
                                                   );
-                                              })()
-                                          ) : <tr><th scope="row" className="px-4 py-3 font-medium">{T.nntHeader}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>}
-                                      </tbody>
-                                    )}
-
-                                    <tbody className="bg-white">
-                                        <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.reliabilityHeader}</span><Tooltip text={tooltips.analysisReliability} /></div></td></tr>
-                                        {results.type1Error && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.type1Error}</span><Tooltip text={tooltips.type1Error} /></div></th><td className="px-4 py-3 font-mono">{(results.type1Error.value * 100).toFixed(1)}%</td></tr>}
-                                        {results.power && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.statPower}</span><Tooltip text={tooltips.statisticalPower} /></div></th><td className="px-4 py-3 font-mono">{(results.power.value * 100).toFixed(1)}%</td></tr>}
-                                        {results.type2Error && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.type2Error}</span><Tooltip text={tooltips.type2Error} /></div></th><td className="px-4 py-3 font-mono">{(results.type2Error.value * 100).toFixed(1)}%</td></tr>}
-                                    </tbody>
-                                </table>
+                                              })}
+                                              {results.stratified.confounding && (
+                                                  <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.crudeVsAdjusted}</span><Tooltip text={tooltips.crudeVsAdjusted} /></div></th><td className="px-4 py-3 font-mono">{results.stratified.confounding.percentChange > 0 ? '+' : ''}{results.stratified.confounding.percentChange.toFixed(1)}%</td></tr>
+                                              )}
+                                              {results.stratified.mantelHaenszelTest && (
+                                                  <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.mantelHaenszelTest}</span><Tooltip text={tooltips.mantelHaenszelTest} /></div></th><td className="px-4 py-3 font-mono">χ² = {results.stratified.mantelHaenszelTest.statistic.toFixed(3)}, P = {results.stratified.mantelHaenszelTest.pValue}</td></tr>
+                                              )}
+                                              {results.stratified.homogeneity && (
+                                                  <>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.breslowDayTest}</span><Tooltip text={tooltips.breslowDayTest} /></div></th><td className="px-4 py-3 font-mono">χ²({results.stratified.homogeneity.df}) = {results.stratified.homogeneity.breslowDay.statistic.toFixed(3)}, P = {results.stratified.homogeneity.breslowDay.pValue}</td></tr>
+                                                      <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.taroneTest}</span><Tooltip text={tooltips.taroneTest} /></div></th><td className="px-4 py-3 font-mono">χ²({results.stratified.homogeneity.df}) = {results.stratified.homogeneity.tarone.statistic.toFixed(3)}, P = {results.stratified.homogeneity.tarone.pValue}</td></tr>
+                                                  </>
+                                              )}
+                                              {results.stratified.homogeneity?.isHeterogeneous ? (
+                                                  <tr className="border-b border-slate-200"><td colSpan={2} className="px-4 py-3"><div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm" role="alert">{T.effectModificationWarning}</div></td></tr>
+                                              ) : results.stratified.confounding?.isConfounded && (
+                                                  <tr className="border-b border-slate-200"><td colSpan={2} className="px-4 py-3"><div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm" role="alert">{T.confoundingWarning}</div></td></tr>
+                                              )}
+                                          </tbody>
+                                        )}
+
+                                        {studyDesign !== 'case-control' && (
+                                          <tbody className="bg-white">
+                                              <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.impactMeasuresHeader}</span><Tooltip text={tooltips.measuresOfImpact} /></div></td></tr>
+                                              {results.riskDifference && (
+                                                  <>
+                                                      <tr className="border-t border-slate-300"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.riskDifference}</span><Tooltip text={tooltips.riskDifference} /></div></th><td className="px-4 py-3 font-mono">{results.riskDifference.value.toFixed(4)}</td></tr>
+                                                      <tr className="border-t border-slate-200 border-b"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel))}</span><Tooltip text={tooltips.rd95CI} /></div><div className="text-xs font-normal text-slate-500">{T.ciMethod}: {ciMethodLabels[language].riskDifference[results.riskDifference.ciMethod]}</div></th><td className="px-4 py-3 font-mono">{`${results.riskDifference.lower.toFixed(4)} to ${results.riskDifference.upper.toFixed(4)}`}</td></tr>
+                                                  </>
+                                              )}
+                                              {results.impactMeasures && (
+                                                  <>
+                                                      <tr className="border-b border-slate-200">
+                                                          <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{results.impactMeasures.absolute.label}</span><Tooltip text={tooltips.absoluteImpact} /></div></th>
+                                                          <td className="px-4 py-3 font-mono">{results.impactMeasures.absolute.value.toFixed(4)}</td>
+                                                      </tr>
+                                                      { results.impactMeasures.relative &&
+                                                          <tr className="border-b border-slate-200">
+                                                              <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{results.impactMeasures.relative.label}</span><Tooltip text={tooltips.relativeImpact} /></div></th>
+                                                              <td className="px-4 py-3 font-mono">{`${(results.impactMeasures.relative.value * 100).toFixed(2)}%`}</td>
+                                                          </tr>
+                                                      }
+                                                  </>
+                                              )}
+                                          
+                                              {results.nnt && results.riskDifference ? (
+                                                  (() => {
+                                                      const isBenefit = results.nnt!.type === 'Benefit';
+                                                      const label = isBenefit ? T.nntBenefit : T.nntHarm;
+                                                      const colorClass = isBenefit ? 'text-green-700 font-semibold' : 'text-amber-700 font-semibold';
+
+                                                      return (
+                                                          <>
+                                                              <tr className="border-t border-slate-300">
+                                                                  <th scope="row" className="px-4 py-3 font-medium">
+                                                                      <div className="flex items-center">
+                                                                          <span className={colorClass}>{label}</span>
+                                                                          <Tooltip text={tooltips.nnt} />
+                                                                      </div>
+                                                                  </th>
+                                                                  <td className={`px-4 py-3 font-mono ${colorClass}`}>
+                                                                      {results.nnt!.value.toFixed(3)}
+                                                                  </td>
+                                                              </tr>
+                                                              <tr className="border-t border-slate-200">
+                                                                <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel))}</span><Tooltip text={tooltips.nnt95CI} /></div></th>
+                                                                <td className="px-4 py-3 font-mono">
+                                                                    {(() => {
+                                                                        const rd_ci_lower = results.riskDifference!.lower;
+                                                                        const rd_ci_upper = results.riskDifference!.upper;
+                                                                        if (rd_ci_lower < 0 && rd_ci_upper > 0) {
+                                                                            const nnh_ci_val = (1 / rd_ci_upper).toFixed(3);
+                                                                            const nnt_ci_val = Math.abs(1 / rd_ci_lower).toFixed(3);
+                                                                            return `${nnt_ci_val} (${T.nntCIbenefit}) to ${nnh_ci_val} (${T.nntCIharm})`;
+                                                                        } else {
+                                                                            let lower = results.nnt!.lower as number;
+                                                                            let upper = results.nnt!.upper as number;
+                                                                            if (lower > upper) [lower, upper] = [upper, lower];
+                                                                            return `${Math.abs(lower).toFixed(3)} to ${Math.abs(upper).toFixed(3)}`;
+                                                                        }
+                                                                    })()}
+                                                                </td>
+                                                              </tr>
+                                                          </>
+                                                      );
+                                                  })()
+                                              ) : <tr><th scope="row" className="px-4 py-3 font-medium">{T.nntHeader}</th><td className="px-4 py-3 font-mono">{T.notCalculable}</td></tr>}
+                                          </tbody>
+                                        )}
+
+                                        {results.attributableFractions && (() => {
+                                            const fractions = results.attributableFractions;
+                                            const isAttributable = fractions.type === 'attributable';
+                                            const ciLabel = T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel));
+                                            const formatFraction = (estimate: IntervalEstimate) =>
+                                                `${(estimate.value * 100).toFixed(1)}% (${ciLabel}: ${(estimate.lower * 100).toFixed(1)}% to ${(estimate.upper * 100).toFixed(1)}%)`;
+                                            return (
+                                              <tbody className="bg-white">
+                                                  <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{isAttributable ? T.attributableFractionsHeader : T.preventedFractionsHeader}</span><Tooltip text={isAttributable ? tooltips.attributableFractions : tooltips.preventedFractions} /></div></td></tr>
+                                                  <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{isAttributable ? T.attributableFractionExposed : T.preventedFractionExposed}</span><Tooltip text={isAttributable ? tooltips.attributableFractionExposed : tooltips.preventedFractionExposed} /></div><div className="text-xs font-normal text-slate-500">{T.fractionBasedOn(fractions.measure === 'oddsRatio' ? T.oddsRatio : T.relativeRisk)}</div></th><td className="px-4 py-3 font-mono">{formatFraction(fractions.exposed)}</td></tr>
+                                                  <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{isAttributable ? T.populationAttributableFraction : T.populationPreventedFraction}</span><Tooltip text={isAttributable ? tooltips.populationAttributableFraction : tooltips.populationPreventedFraction} /></div><div className="text-xs font-normal text-slate-500">{T.exposurePrevalenceUsed((fractions.exposurePrevalence * 100).toFixed(1), fractions.exposurePrevalenceSource)}</div></th><td className="px-4 py-3 font-mono">{formatFraction(fractions.population)}</td></tr>
+                                                  {fractions.caseBased && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.caseBasedAttributableFraction}</span><Tooltip text={tooltips.caseBasedAttributableFraction} /></div></th><td className="px-4 py-3 font-mono">{formatFraction(fractions.caseBased)}</td></tr>}
+                                              </tbody>
+                                            );
+                                        })()}
+
+                                        {results.eValues && <EValueRows eValues={results.eValues} language={language} />}
+
+                                        <tbody className="bg-white">
+                                            <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.reliabilityHeader}</span><Tooltip text={tooltips.analysisReliability} /></div></td></tr>
+                                            {results.type1Error && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.type1Error}</span><Tooltip text={tooltips.type1Error} /></div></th><td className="px-4 py-3 font-mono">{(results.type1Error.value * 100).toFixed(1)}%</td></tr>}
+                                            {results.power && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.statPower}</span><Tooltip text={tooltips.statisticalPower} /></div></th><td className="px-4 py-3 font-mono">{(results.power.value * 100).toFixed(1)}%</td></tr>}
+                                            {results.type2Error && <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.type2Error}</span><Tooltip text={tooltips.type2Error} /></div></th><td className="px-4 py-3 font-mono">{(results.type2Error.value * 100).toFixed(1)}%</td></tr>}
+                                            {results.caseControlPower && (
+                                              <>
+                                                <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.exposureInControls}</span><Tooltip text={tooltips.exposureInControls} /></div></th><td className="px-4 py-3 font-mono">{(results.caseControlPower.exposureInControls * 100).toFixed(1)}%</td></tr>
+                                                <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.controlsPerCase}</span><Tooltip text={tooltips.controlsPerCase} /></div></th><td className="px-4 py-3 font-mono">{results.caseControlPower.controlsPerCase.toFixed(2)}</td></tr>
+                                                <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.caseControlSampleSize}</span><Tooltip text={tooltips.caseControlSampleSize} /></div></th><td className="px-4 py-3 font-mono">{T.casesAndControls(results.caseControlPower.requiredCases, results.caseControlPower.requiredControls)}</td></tr>
+                                              </>
+                                            )}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                {results.attributableFractions && (
+                                    <div className="mt-6 p-4 border rounded-lg bg-slate-50">
+                                        <div className="flex items-center mb-1">
+                                            <label htmlFor="exposurePrevalence" className="block text-sm font-medium text-slate-700">{T.exposurePrevalenceLabel}</label>
+                                            <Tooltip text={tooltips.exposurePrevalence} />
+                                        </div>
+                                        <input
+                                            type="number"
+                                            id="exposurePrevalence"
+                                            min="0"
+                                            max="100"
+                                            step="any"
+                                            value={exposurePrevalence}
+                                            onChange={(e) => handleExposurePrevalenceChange(e.target.value)}
+                                            placeholder={(results.attributableFractions.sampleExposurePrevalence * 100).toFixed(1)}
+                                            className="w-full sm:w-1/2 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
+                                                       focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                        />
+                                        <p className="text-xs text-slate-500 mt-2">{T.exposurePrevalenceNote}</p>
+                                    </div>
+                                )}
+                                <ResultCharts results={results} isCaseControl={studyDesign === 'case-control'} language={language} />
+                                {results.absoluteRiskExposed && results.absoluteRiskControl && (
+                                    <IconArray riskExposed={results.absoluteRiskExposed.value} riskControl={results.absoluteRiskControl.value} nnt={results.nnt} language={language} />
+                                )}
+                                {results.counts && results.absoluteRiskExposed && results.absoluteRiskControl && (
+                                    <BayesianPanel
+                                        counts={results.counts}
+                                        benefitDirection={studyGoal === 'desirable' ? 'increase' : 'decrease'}
+                                        credibleLevel={results.analysisSettings.confidenceLevel}
+                                        language={language}
+                                    />
+                                )}
                             </div>
-                        </div>
+                        )}
                     </div>
                  </>
             ) : (
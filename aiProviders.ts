@@ -0,0 +1,150 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AiModel } from './types';
+import type { Language } from './i18n';
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock' | 'invalid';
+
+export interface AiModelOption {
+  id: AiModel;
+  name: string;
+  // Shown next to the name in the model selector, in each interface language
+  description?: Record<Language, string>;
+}
+
+// A backend that turns a prompt into text. Reports, summaries and the comparison and batch pages all go through the active provider.
+export interface AiProvider {
+  id: AiProviderId;
+  defaultModel: AiModel;
+  // Why the provider cannot be used as configured, e.g. a missing API key; null when it is ready
+  configurationError: string | null;
+  listModels: () => Promise<AiModelOption[]>;
+  generateText: (model: AiModel, prompt: string) => Promise<string>;
+}
+
+const geminiModels: AiModelOption[] = [
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    description: { en: "(Faster, for general use)", uk: "(Швидше, для загального використання)", ru: "(Быстрее, для общего использования)" },
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    description: { en: "(Advanced, for deeper analysis)", uk: "(Просунута, для глибшого аналізу)", ru: "(Продвинутая, для более глубокого анализа)" },
+  },
+];
+
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => ({
+  id: 'gemini',
+  defaultModel: 'gemini-2.5-flash',
+  configurationError: apiKey ? null : "API key not configured. Please set GEMINI_API_KEY in your .env.local file.",
+  listModels: async () => geminiModels,
+  generateText: async (model, prompt) => {
+    if (!apiKey) throw new Error("API key not configured. Please set GEMINI_API_KEY in your .env.local file.");
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({ model, contents: prompt });
+    return response.text ?? '';
+  },
+});
+
+// Any server implementing the OpenAI chat completions API, such as vLLM, Ollama or LM Studio running on-premises
+export const createOpenAiCompatibleProvider = (config: { baseUrl: string | undefined; apiKey?: string; model?: string }): AiProvider => {
+  const baseUrl = config.baseUrl?.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const request = async (path: string, init?: RequestInit) => {
+    if (!baseUrl) throw new Error("Server not configured. Please set OPENAI_BASE_URL in your .env.local file.");
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    if (!response.ok) throw new Error(`The AI server answered ${path} with HTTP ${response.status}.`);
+    return response.json();
+  };
+
+  return {
+    id: 'openai-compatible',
+    defaultModel: config.model ?? '',
+    configurationError: baseUrl ? null : "Server not configured. Please set OPENAI_BASE_URL in your .env.local file.",
+    listModels: async () => {
+      try {
+        const body = await request('/models');
+        const models: AiModelOption[] = (Array.isArray(body?.data) ? body.data : [])
+          .filter((model: unknown): model is { id: string } => typeof (model as { id?: unknown })?.id === 'string')
+          .map((model: { id: string }) => ({ id: model.id, name: model.id }));
+        if (models.length > 0) return models;
+      } catch (e) {
+        // Some servers do not implement the model list; the configured model is then the only choice
+        if (!config.model) throw e;
+        console.warn("Could not list the AI server's models:", e);
+      }
+      if (!config.model) throw new Error("The AI server did not list any models. Please set OPENAI_MODEL in your .env.local file.");
+      return [{ id: config.model, name: config.model }];
+    },
+    generateText: async (model, prompt) => {
+      const body = await request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }] }),
+      });
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error("The AI server returned no text.");
+      return text;
+    },
+  };
+};
+
+// FNV-1a, so the mock's answer changes whenever the prompt does
+const fingerprint = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Answers without any network access and always with the same text for the same prompt, for offline use and testing
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+  defaultModel: 'mock',
+  configurationError: null,
+  listModels: async () => [{
+    id: 'mock',
+    name: 'Mock',
+    description: { en: "(Offline, fixed placeholder text)", uk: "(Офлайн, фіксований текст-заглушка)", ru: "(Офлайн, фиксированный текст-заглушка)" },
+  }],
+  generateText: async (model, prompt) => [
+    `**Mock response**`,
+    `This text was produced by the offline mock provider (model "${model}") instead of a language model.`,
+    `The prompt had ${prompt.length} characters and fingerprint ${fingerprint(prompt)}. It began:`,
+    `> ${prompt.trim().split('\n')[0].slice(0, 200)}`,
+  ].join('\n\n'),
+});
+
+// Stands in for a misconfigured provider: it reports the problem and never contacts any backend
+const createInvalidProvider = (error: string): AiProvider => ({
+  id: 'invalid',
+  defaultModel: '',
+  configurationError: error,
+  listModels: async () => { throw new Error(error); },
+  generateText: async () => { throw new Error(error); },
+});
+
+// The provider is chosen when the app is built, so a deployment can rule out sending data to an external service.
+// Gemini is only the default when AI_PROVIDER is unset; a misspelt value must not fall back to it.
+export const createConfiguredProvider = (): AiProvider => {
+  switch (process.env.AI_PROVIDER) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL,
+      });
+    case 'mock':
+      return createMockProvider();
+    case undefined:
+    case '':
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY);
+    default:
+      return createInvalidProvider(`Unknown AI provider "${process.env.AI_PROVIDER}". Please set AI_PROVIDER in your .env.local file to gemini, openai-compatible or mock.`);
+  }
+};
@@ -0,0 +1,89 @@
+import { parseVersionedAnalysis, versionAnalysis, type SharedAnalysis } from './shareLink';
+import { downloadBlob, replaceNonFinite } from './resultsExport';
+
+// A named snapshot of an analysis: the set-up and any AI text generated for its results.
+// Results are not stored; they are recalculated from the set-up when the analysis is opened or compared.
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  savedAt: string; // ISO 8601
+  analysis: SharedAnalysis;
+  aiInterpretation: string | null;
+  aiNarrativeSummary: string | null;
+}
+
+const storageKey = 'health-outcomes-navigator.analysis-library';
+const libraryFileVersion = 1;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOptionalString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+
+// Reverses replaceNonFinite
+const reviveNonFinite = (_key: string, value: unknown) =>
+  isRecord(value) && Object.keys(value).length === 1 && typeof value.$number === 'string' ? Number(value.$number) : value;
+
+const serializeLibrary = (entries: SavedAnalysis[]): string => JSON.stringify({
+  version: libraryFileVersion,
+  analyses: entries.map(entry => ({ ...entry, analysis: versionAnalysis(entry.analysis) })),
+}, replaceNonFinite, 2);
+
+// Entries that fail validation are dropped rather than rejecting the whole library; null when the text is not a library at all
+const parseLibrary = (text: string): SavedAnalysis[] | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text, reviveNonFinite);
+  } catch {
+    return null;
+  }
+  if (!isRecord(payload) || payload.version !== libraryFileVersion || !Array.isArray(payload.analyses)) return null;
+
+  return payload.analyses.flatMap((entry): SavedAnalysis[] => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || typeof entry.savedAt !== 'string') return [];
+    if (!isOptionalString(entry.aiInterpretation) || !isOptionalString(entry.aiNarrativeSummary)) return [];
+    const parsed = parseVersionedAnalysis(entry.analysis);
+    if (!('analysis' in parsed)) return [];
+    return [{
+      id: entry.id,
+      name: entry.name,
+      savedAt: entry.savedAt,
+      analysis: parsed.analysis,
+      aiInterpretation: entry.aiInterpretation,
+      aiNarrativeSummary: entry.aiNarrativeSummary,
+    }];
+  });
+};
+
+// Storage can be disabled (e.g. in some private windows), which leaves the library empty
+export const loadLibrary = (): SavedAnalysis[] => {
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    return stored ? parseLibrary(stored) ?? [] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Throws when the browser refuses to store the library (storage full or disabled)
+export const storeLibrary = (entries: SavedAnalysis[]) => {
+  window.localStorage.setItem(storageKey, serializeLibrary(entries));
+};
+
+export const createSavedAnalysis = (name: string, snapshot: Omit<SavedAnalysis, 'id' | 'name' | 'savedAt'>): SavedAnalysis => ({
+  ...snapshot,
+  id: crypto.randomUUID(),
+  name,
+  savedAt: new Date().toISOString(),
+});
+
+export const downloadLibrary = (entries: SavedAnalysis[]) => {
+  downloadBlob(new Blob([serializeLibrary(entries)], { type: 'application/json;charset=utf-8' }), 'analysis-library.json');
+};
+
+// Adds the analyses from an exported library file, skipping any that are already in the library; null when the file is not a library
+export const importLibrary = (entries: SavedAnalysis[], text: string): { entries: SavedAnalysis[]; added: number } | null => {
+  const imported = parseLibrary(text);
+  if (!imported) return null;
+  const existingIds = new Set(entries.map(entry => entry.id));
+  const added = imported.filter(entry => !existingIds.has(entry.id));
+  return { entries: [...added, ...entries], added: added.length };
+};
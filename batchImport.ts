@@ -0,0 +1,176 @@
+import type { AnalysisSettings, Inputs, Results } from './types';
+import { translations, studyDesignLabels, studyGoalLabels, type Language, type StudyDesign, type StudyGoal } from './i18n';
+import { calculateResults } from './calculation';
+import { createEmptyPersonTimeInputs } from './components/PersonTimeInput';
+import { downloadBlob, escapeCsv, formatNumber, replaceNonFinite } from './resultsExport';
+import { parseDelimitedText } from './delimitedText';
+
+// One data row of an imported file. Design and goal are null when the file leaves them to the page defaults.
+export interface BatchRow {
+  line: number;
+  label: string;
+  inputs: Inputs;
+  studyDesign: StudyDesign | null;
+  studyGoal: StudyGoal | null;
+  // Problems found while reading the row; such rows are reported but not calculated
+  error: string | null;
+}
+
+export interface BatchResult {
+  row: BatchRow;
+  studyDesign: StudyDesign | null;
+  studyGoal: StudyGoal | null;
+  results: Results | null;
+  error: string | null;
+}
+
+export type BatchExportFormat = 'csv' | 'json';
+
+const requiredColumns = ['label', 'a', 'b', 'c', 'd'] as const;
+const countColumns = ['a', 'b', 'c', 'd'] as const;
+
+const normalize = (value: string) => value.trim().toLocaleLowerCase();
+
+// Diagnostic accuracy and matched case-control tables do not hold exposure by outcome counts, so the batch table,
+// export and AI interpretation would describe them wrongly
+const unsupportedDesigns: StudyDesign[] = ['diagnostic-accuracy', 'matched-case-control'];
+
+export const isBatchDesign = (design: StudyDesign) => !unsupportedDesigns.includes(design);
+
+// Designs and goals may be given by their key (e.g. "cohort-prospective") or by their label in any interface language
+const findOption = <T extends string>(value: string, labels: Record<Language, Record<T, string>>): T | undefined => {
+  const wanted = normalize(value);
+  const keys = Object.keys(labels.en) as T[];
+  return keys.find(key => key === wanted || Object.values(labels).some(languageLabels => normalize(languageLabels[key]) === wanted));
+};
+
+export const parseBatchFile = (text: string, language: Language): { rows: BatchRow[] } | { error: string } => {
+  const T = translations[language];
+  const [header, ...records] = parseDelimitedText(text);
+  if (!header) return { error: T.batchErrorEmptyFile };
+
+  const columns = header.cells.map(normalize);
+  const missing = requiredColumns.filter(column => !columns.includes(column));
+  if (missing.length > 0) return { error: T.batchErrorMissingColumns(missing.join(', ')) };
+  if (records.length === 0) return { error: T.batchErrorEmptyFile };
+
+  const cellOf = (cells: string[], column: string) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? '' : (cells[index] ?? '').trim();
+  };
+
+  const rows = records.map(({ line, cells }): BatchRow => {
+    const inputs = { a: cellOf(cells, 'a'), b: cellOf(cells, 'b'), c: cellOf(cells, 'c'), d: cellOf(cells, 'd') };
+    const designCell = cellOf(cells, 'design');
+    const goalCell = cellOf(cells, 'goal');
+    const studyDesign = designCell ? findOption(designCell, studyDesignLabels) ?? null : null;
+    const studyGoal = goalCell ? findOption(goalCell, studyGoalLabels) ?? null : null;
+
+    const invalidCount = countColumns.find(column => !/^\d+$/.test(inputs[column]));
+    const error = invalidCount
+      ? T.batchErrorCount(invalidCount, inputs[invalidCount])
+      : designCell && !studyDesign
+        ? T.batchErrorDesign(designCell)
+        : studyDesign && !isBatchDesign(studyDesign)
+          ? T.batchErrorUnsupportedDesign(studyDesignLabels[language][studyDesign])
+          : goalCell && !studyGoal
+            ? T.batchErrorGoal(goalCell)
+            : null;
+
+    return { line, label: cellOf(cells, 'label') || T.batchDefaultLabel(line), inputs, studyDesign, studyGoal, error };
+  });
+  return { rows };
+};
+
+// Runs the same calculation as the calculator page on each row, as a single 2x2 table
+export const runBatch = (
+  rows: BatchRow[],
+  defaults: { studyDesign: StudyDesign | null; studyGoal: StudyGoal | null },
+  analysisSettings: AnalysisSettings,
+  language: Language
+): BatchResult[] => rows.map(row => {
+  const studyDesign = row.studyDesign ?? defaults.studyDesign;
+  const studyGoal = row.studyGoal ?? defaults.studyGoal;
+  if (row.error) return { row, studyDesign, studyGoal, results: null, error: row.error };
+
+  const calculation = calculateResults({
+    inputs: row.inputs,
+    analysisMode: 'single',
+    strata: [],
+    studies: [],
+    personTimeInputs: createEmptyPersonTimeInputs(),
+    targetPrevalence: '',
+    exposurePrevalence: '',
+    studyGoal,
+    studyDesign,
+    analysisSettings,
+    language,
+  });
+  return 'error' in calculation
+    ? { row, studyDesign, studyGoal, results: null, error: calculation.error }
+    : { row, studyDesign, studyGoal, results: calculation.results, error: null };
+});
+
+// One flat row per table with stable column names, so the file can be processed further or re-imported
+const csvHeaders = [
+  'line', 'label', 'design', 'goal', 'a', 'b', 'c', 'd', 'risk_exposed', 'risk_control',
+  'rr', 'rr_lower', 'rr_upper', 'rr_p', 'or', 'or_lower', 'or_upper', 'or_p', 'rd', 'rd_lower', 'rd_upper',
+  'nnt_type', 'nnt', 'fisher_p', 'error', 'ai_interpretation',
+];
+
+const csvCells = ({ row, studyDesign, studyGoal, results, error }: BatchResult, aiText: string | undefined): string[] => [
+  String(row.line),
+  row.label,
+  studyDesign ?? '',
+  studyGoal ?? '',
+  row.inputs.a,
+  row.inputs.b,
+  row.inputs.c,
+  row.inputs.d,
+  formatNumber(results?.absoluteRiskExposed?.value),
+  formatNumber(results?.absoluteRiskControl?.value),
+  formatNumber(results?.relativeRisk?.value),
+  formatNumber(results?.relativeRisk?.lower),
+  formatNumber(results?.relativeRisk?.upper),
+  results?.relativeRisk?.pValue ?? '',
+  formatNumber(results?.oddsRatio?.value),
+  formatNumber(results?.oddsRatio?.lower),
+  formatNumber(results?.oddsRatio?.upper),
+  results?.oddsRatio?.pValue ?? '',
+  formatNumber(results?.riskDifference?.value),
+  formatNumber(results?.riskDifference?.lower),
+  formatNumber(results?.riskDifference?.upper),
+  results?.nnt ? (results.nnt.type === 'Benefit' ? 'NNT' : 'NNH') : '',
+  formatNumber(results?.nnt?.value),
+  results?.fisherExact?.pValue ?? '',
+  error ?? '',
+  aiText ?? '',
+];
+
+export const batchToCsv = (results: BatchResult[], aiTexts: Record<number, string>): string =>
+  [csvHeaders, ...results.map(result => csvCells(result, aiTexts[result.row.line]))]
+    .map(cells => cells.map(escapeCsv).join(','))
+    .join('\r\n');
+
+// The complete results of every row, including those the CSV summary leaves out (e.g. diagnostic accuracy)
+export const batchToJson = (results: BatchResult[], aiTexts: Record<number, string>, analysisSettings: AnalysisSettings): string =>
+  JSON.stringify({
+    analysisSettings,
+    rows: results.map(({ row, studyDesign, studyGoal, results: rowResults, error }) => ({
+      line: row.line,
+      label: row.label,
+      inputs: row.inputs,
+      studyDesign,
+      studyGoal,
+      results: rowResults,
+      error,
+      aiInterpretation: aiTexts[row.line] ?? null,
+    })),
+  }, replaceNonFinite, 2);
+
+export const downloadBatch = (results: BatchResult[], aiTexts: Record<number, string>, analysisSettings: AnalysisSettings, format: BatchExportFormat) => {
+  const blob = format === 'csv'
+    ? new Blob([`\uFEFF${batchToCsv(results, aiTexts)}`], { type: 'text/csv;charset=utf-8' })
+    : new Blob([batchToJson(results, aiTexts, analysisSettings)], { type: 'application/json;charset=utf-8' });
+  downloadBlob(blob, `batch-results.${format}`);
+};
@@ -0,0 +1,607 @@
+import type { Inputs, Results, AnalysisSettings, AnalysisMode, LabelledTable, TableCounts, EffectMeasure, MetaAnalysisMeasure, PersonTimeInputs } from './types';
+import { translations, type Language, type StudyGoal, type StudyDesign } from './i18n';
+import { normalCDF, calculatePValueFromZ, calculatePValueFromChiSquare, calculateCaseControlPower, calculateCaseControlSampleSize, fisherExactTest, chiSquareTests, formatPValue, zForConfidence, zForAlpha, newcombeRiskDifferenceCI, miettinenNurminenRiskDifferenceCI, koopmanRelativeRiskCI, exactConditionalOddsRatio, mantelHaenszelAnalysis, breslowDayTest, chiSquareUpperTail, metaAnalysis, incidenceRateAnalysis, diagnosticAccuracy, predictiveValuesAtPrevalence, matchedPairsAnalysis, attributableFractions, caseBasedAttributableFraction, fragilityIndex, eValueAnalysis } from './statistics';
+
+// Everything the calculation depends on; the language is only used for error messages and default table labels
+export interface CalculationInput {
+  inputs: Inputs;
+  analysisMode: AnalysisMode;
+  strata: LabelledTable[];
+  studies: LabelledTable[];
+  personTimeInputs: PersonTimeInputs;
+  targetPrevalence: string;
+  exposurePrevalence: string;
+  studyGoal: StudyGoal | null;
+  studyDesign: StudyDesign | null;
+  analysisSettings: AnalysisSettings;
+  language: Language;
+}
+
+export const createEmptyResults = (analysisSettings: AnalysisSettings): Results => ({
+  counts: null,
+  absoluteRiskExposed: null,
+  absoluteRiskControl: null,
+  riskDifference: null,
+  relativeRisk: null,
+  oddsRatio: null,
+  fisherExact: null,
+  fragility: null,
+  chiSquare: null,
+  impactMeasures: null,
+  nnt: null,
+  power: null,
+  type1Error: null,
+  type2Error: null,
+  caseControlPower: null,
+  stratified: null,
+  metaAnalysis: null,
+  incidenceRate: null,
+  diagnosticAccuracy: null,
+  matchedPairs: null,
+  attributableFractions: null,
+  eValues: null,
+  analysisSettings,
+});
+
+// Recalculates the attributable or prevented fractions for the exposure prevalence entered by the user (as a
+// percentage); a blank or out-of-range entry falls back to the prevalence observed in the sample
+export const withExposurePrevalence = (fractions: NonNullable<Results['attributableFractions']>, prevalenceInput: string): NonNullable<Results['attributableFractions']> => {
+  const percent = parseFloat(prevalenceInput);
+  const isEntered = percent >= 0 && percent <= 100;
+  const exposurePrevalence = isEntered ? percent / 100 : fractions.sampleExposurePrevalence;
+  return {
+    ...fractions,
+    ...attributableFractions(fractions.ratio, exposurePrevalence),
+    exposurePrevalence,
+    exposurePrevalenceSource: isEntered ? 'input' : 'sample',
+  };
+};
+
+// Recalculates the predictive values for the prevalence entered by the user (as a percentage);
+// a blank or out-of-range entry leaves only the study's own predictive values
+export const withTargetPrevalence = (diagnostic: NonNullable<Results['diagnosticAccuracy']>, prevalenceInput: string): NonNullable<Results['diagnosticAccuracy']> => {
+  const percent = parseFloat(prevalenceInput);
+  const targetPrevalence = percent > 0 && percent < 100 ? percent / 100 : null;
+  return {
+    ...diagnostic,
+    targetPrevalence,
+    adjustedPredictiveValues: targetPrevalence !== null && diagnostic.lrPositive && diagnostic.lrNegative
+      ? predictiveValuesAtPrevalence(targetPrevalence, diagnostic.lrPositive, diagnostic.lrNegative)
+      : null,
+  };
+};
+
+// Designs without randomization, where unmeasured confounding can explain an association
+const observationalDesigns: StudyDesign[] = ['non-rct', 'cohort-prospective', 'cohort-retrospective', 'case-control', 'matched-case-control'];
+
+// Sums the stratum tables into the crude (pooled) table
+export const poolStrata = (strata: LabelledTable[]): Inputs => {
+  const sum = (key: keyof Inputs) => String(strata.reduce((total, stratum) => total + (parseInt(stratum.inputs[key], 10) || 0), 0));
+  return { a: sum('a'), b: sum('b'), c: sum('c'), d: sum('d') };
+};
+
+// Runs every calculation that applies to the analysis type and design; returns the first validation error instead
+// when the input cannot be analysed
+export const calculateResults = (input: CalculationInput): { results: Results } | { error: string } => {
+  const { inputs, analysisMode, strata, studies, personTimeInputs, targetPrevalence, exposurePrevalence, studyGoal, studyDesign, analysisSettings } = input;
+  const T = translations[input.language];
+
+  if (!studyGoal) {
+    return { error: T.errorStudyGoal };
+  }
+  if (!studyDesign) {
+    return { error: T.errorStudyDesign };
+  }
+  
+  // Person-time data replace the 2x2 table entirely: rates are compared instead of risks
+  if (analysisMode === 'incidenceRate') {
+    const counts = {
+      eventsExposed: Number(personTimeInputs.eventsExposed),
+      personTimeExposed: Number(personTimeInputs.personTimeExposed),
+      eventsControl: Number(personTimeInputs.eventsControl),
+      personTimeControl: Number(personTimeInputs.personTimeControl),
+    };
+    for (const key of ['eventsExposed', 'eventsControl'] as const) {
+      if (personTimeInputs[key].trim() === '' || !Number.isInteger(counts[key]) || counts[key] < 0) {
+        return { error: T.errorEventsInvalid };
+      }
+    }
+    for (const key of ['personTimeExposed', 'personTimeControl'] as const) {
+      if (!isFinite(counts[key]) || counts[key] <= 0) {
+        return { error: T.errorPersonTimeInvalid };
+      }
+    }
+
+    const analysis = incidenceRateAnalysis(counts.eventsExposed, counts.personTimeExposed, counts.eventsControl, counts.personTimeControl, zForConfidence(analysisSettings.confidenceLevel), 1 - analysisSettings.confidenceLevel);
+    const { rateRatio } = analysis;
+    const rateDifference = analysis.rateDifference;
+    let nnt: NonNullable<Results['incidenceRate']>['nnt'] = null;
+    if (rateDifference && rateDifference.value !== 0) {
+      // Same convention as the risk-based NNT: a benefit lowers an undesirable outcome or raises a desirable one
+      const isBenefit = (studyGoal === 'undesirable') === (rateDifference.value < 0);
+      nnt = {
+        value: 1 / Math.abs(rateDifference.value),
+        type: isBenefit ? 'Benefit' : 'Harm',
+        lower: 1 / rateDifference.upper,
+        upper: 1 / rateDifference.lower,
+      };
+    }
+
+    return {
+      results: {
+        ...createEmptyResults(analysisSettings),
+        incidenceRate: {
+          counts,
+          timeUnit: personTimeInputs.timeUnit,
+          rateExposed: analysis.rateExposed,
+          rateControl: analysis.rateControl,
+          rateRatio: rateRatio ? {
+            ...rateRatio,
+            pValue: formatPValue(rateRatio.pValue),
+            midPValue: formatPValue(rateRatio.midPValue),
+          } : null,
+          rateDifference: rateDifference ? { ...rateDifference, pValue: calculatePValueFromZ(rateDifference.zStat) } : null,
+          nnt,
+        },
+        // The rate ratio is used as a risk ratio, as VanderWeele and Ding do for rate and hazard ratios
+        eValues: observationalDesigns.includes(studyDesign) && rateRatio && rateRatio.value > 0 && Number.isFinite(rateRatio.value)
+          ? [{ measure: 'rateRatio', approximation: 'none', isAdjusted: false, ...eValueAnalysis(rateRatio, 'none') }]
+          : null,
+      },
+    };
+  }
+
+  // Stratified analyses and meta-analyses take a list of labelled tables instead of a single one
+  const tableList = analysisMode === 'stratified' ? strata : analysisMode === 'meta' ? studies : [];
+  const defaultTableName = analysisMode === 'meta' ? T.studyDefaultName : T.stratumDefaultName;
+  const tableLabels = tableList.map((table, index) => table.label.trim() || defaultTableName(index + 1));
+  const tableCounts: TableCounts[] = [];
+  if (analysisMode !== 'single') {
+    if (tableList.length < 2) {
+      return { error: analysisMode === 'meta' ? T.errorStudiesCount : T.errorStrataCount };
+    }
+    for (const [index, table] of tableList.entries()) {
+      const counts: TableCounts = {
+        a: parseInt(table.inputs.a, 10),
+        b: parseInt(table.inputs.b, 10),
+        c: parseInt(table.inputs.c, 10),
+        d: parseInt(table.inputs.d, 10),
+      };
+      const invalidKey = (Object.keys(counts) as (keyof TableCounts)[]).find(key => isNaN(counts[key]) || counts[key] < 0);
+      if (invalidKey) {
+        return { error: T.errorTableCellInvalid(tableLabels[index], invalidKey) };
+      }
+      tableCounts.push(counts);
+    }
+  }
+
+  // A meta-analysis pools the study-level estimates; summing the studies into one table would ignore
+  // between-study differences, so none of the single-table results are calculated.
+  if (analysisMode === 'meta') {
+    const z = zForConfidence(analysisSettings.confidenceLevel);
+    const mh = mantelHaenszelAnalysis(tableCounts, z);
+    const mhPValue = mh.chiSquare !== null ? formatPValue(chiSquareUpperTail(mh.chiSquare, 1)) : null;
+    const pool = (measure: EffectMeasure, mhEstimate: { value: number; lower: number; upper: number } | null): MetaAnalysisMeasure | null => {
+      const pooled = metaAnalysis(tableCounts, measure, z);
+      if (!pooled) return null;
+      return {
+        studies: pooled.studies,
+        fixedInverseVariance: { ...pooled.fixedInverseVariance, pValue: formatPValue(pooled.fixedInverseVariance.pValue) },
+        fixedMantelHaenszel: mhEstimate && mhPValue ? { ...mhEstimate, pValue: mhPValue } : null,
+        randomEffects: { ...pooled.randomEffects, pValue: formatPValue(pooled.randomEffects.pValue) },
+        heterogeneity: { ...pooled.heterogeneity, pValue: formatPValue(pooled.heterogeneity.pValue) },
+      };
+    };
+    const isCaseControl = studyDesign === 'case-control';
+
+    return {
+      results: {
+        ...createEmptyResults(analysisSettings),
+        metaAnalysis: {
+          studyLabels: tableLabels,
+          studyCounts: tableCounts,
+          relativeRisk: isCaseControl ? null : pool('rr', mh.relativeRisk),
+          oddsRatio: pool('or', mh.oddsRatio),
+          riskDifference: isCaseControl ? null : pool('rd', mh.riskDifference),
+        },
+      },
+    };
+  }
+
+  // A stratified analysis runs the usual calculations on the crude (pooled) table and adds
+  // the Mantel–Haenszel estimates across the individual strata at the end.
+  const sourceInputs = analysisMode === 'stratified' ? poolStrata(strata) : inputs;
+  const values = {
+    a: parseInt(sourceInputs.a, 10),
+    b: parseInt(sourceInputs.b, 10),
+    c: parseInt(sourceInputs.c, 10),
+    d: parseInt(sourceInputs.d, 10),
+  };
+
+  for (const key in values) {
+    const val = values[key as keyof typeof values];
+    if (isNaN(val) || val < 0) {
+      return { error: T.errorInvalidNumber(key) };
+    }
+  }
+
+  // A matched case-control study tabulates pairs, so the unmatched OR would be biased towards 1
+  // and only the discordant pairs are analysed.
+  if (studyDesign === 'matched-case-control') {
+    const { confidenceLevel } = analysisSettings;
+    const analysis = matchedPairsAnalysis(values.a, values.b, values.c, values.d, zForConfidence(confidenceLevel), 1 - confidenceLevel);
+    const { conditionalOddsRatio, mcnemar } = analysis;
+    return {
+      results: {
+        ...createEmptyResults(analysisSettings),
+        matchedPairs: {
+          counts: values,
+          pairs: analysis.pairs,
+          discordantPairs: analysis.discordant,
+          conditionalOddsRatio: conditionalOddsRatio && { value: conditionalOddsRatio.value, lower: conditionalOddsRatio.lower, upper: conditionalOddsRatio.upper },
+          mcnemar: mcnemar && {
+            chiSquare: { statistic: mcnemar.chiSquare, pValue: calculatePValueFromChiSquare(mcnemar.chiSquare) },
+            correctedChiSquare: { statistic: mcnemar.correctedChiSquare, pValue: calculatePValueFromChiSquare(mcnemar.correctedChiSquare) },
+            exact: { pValue: formatPValue(mcnemar.exactPValue), midPValue: formatPValue(mcnemar.exactMidPValue) },
+          },
+          riskDifference: analysis.riskDifference,
+        },
+        // Like an unmatched case-control OR, the conditional OR is taken as a risk ratio under the rare-disease assumption
+        eValues: conditionalOddsRatio && conditionalOddsRatio.value > 0 && Number.isFinite(conditionalOddsRatio.value)
+          ? [{ measure: 'conditionalOddsRatio', approximation: 'rare-outcome', isAdjusted: false, ...eValueAnalysis(conditionalOddsRatio, 'rare-outcome') }]
+          : null,
+      },
+    };
+  }
+
+  // A diagnostic accuracy study reads the same table as test result by disease status, so none of
+  // the exposure–outcome measures apply.
+  if (studyDesign === 'diagnostic-accuracy') {
+    const accuracy = diagnosticAccuracy(values.a, values.b, values.c, values.d, zForConfidence(analysisSettings.confidenceLevel));
+    const { prevalence, ...estimates } = accuracy;
+    return {
+      results: {
+        ...createEmptyResults(analysisSettings),
+        diagnosticAccuracy: withTargetPrevalence({
+          counts: values,
+          ...estimates,
+          studyPrevalence: prevalence,
+          targetPrevalence: null,
+          adjustedPredictiveValues: null,
+        }, targetPrevalence),
+      },
+    };
+  }
+
+  const corrected = {
+      a: values.a === 0 ? 0.5 : values.a,
+      b: values.b === 0 ? 0.5 : values.b,
+      c: values.c === 0 ? 0.5 : values.c,
+      d: values.d === 0 ? 0.5 : values.d,
+  };
+
+  const { a, b, c, d } = values;
+  const { a: ca, b: cb, c: cc, d: cd } = corrected;
+  const { alpha, sidedness, confidenceLevel } = analysisSettings;
+  const zCI = zForConfidence(confidenceLevel);
+  
+  const exposedTotal = a + b;
+  const controlTotal = c + d;
+  const exposedTotal_c = ca + cb;
+  const controlTotal_c = cc + cd;
+
+  let newResults: Results = createEmptyResults(analysisSettings);
+  newResults.counts = values;
+  
+  // Risk, RD, RR, and Impact Measures are only valid for designs where incidence can be calculated.
+  if (studyDesign !== 'case-control') {
+    if (exposedTotal > 0 && controlTotal > 0) {
+        const riskExposed = a / exposedTotal;
+        const riskControl = c / controlTotal;
+        
+        newResults.absoluteRiskExposed = { value: riskExposed };
+        newResults.absoluteRiskControl = { value: riskControl };
+        
+        const riskExposed_c = ca / exposedTotal_c;
+        const riskControl_c = cc / controlTotal_c;
+        
+        const rd = riskExposed - riskControl;
+        const se_rd = Math.sqrt((riskExposed_c * (1 - riskExposed_c) / exposedTotal_c) + (riskControl_c * (1 - riskControl_c) / controlTotal_c));
+        const rdMethod = analysisSettings.ciMethods.riskDifference;
+        let rdInterval = { lower: rd - zCI * se_rd, upper: rd + zCI * se_rd };
+        if (rdMethod === 'newcombe') {
+            rdInterval = newcombeRiskDifferenceCI(a, exposedTotal, c, controlTotal, zCI);
+        } else if (rdMethod === 'miettinen-nurminen') {
+            rdInterval = miettinenNurminenRiskDifferenceCI(a, exposedTotal, c, controlTotal, zCI);
+        }
+        newResults.riskDifference = { value: rd, ...rdInterval, ciMethod: rdMethod };
+        
+        if (riskControl > 0 && rd !== 0) {
+            const absoluteValue = Math.abs(rd);
+            const relativeValue = absoluteValue / riskControl;
+            let absoluteLabel = '';
+            let relativeLabel = '';
+
+            if (studyGoal === 'undesirable') {
+                if (rd > 0) { // Harmful exposure increases undesirable outcome
+                    absoluteLabel = 'Absolute Risk Increase (ARI)';
+                    relativeLabel = 'Relative Risk Increase (RRI)';
+                } else { // Protective exposure reduces undesirable outcome
+                    absoluteLabel = 'Absolute Risk Reduction (ARR)';
+                    relativeLabel = 'Relative Risk Reduction (RRR)';
+                }
+            } else { // desirable
+                if (rd > 0) { // Beneficial exposure increases desirable outcome
+                    absoluteLabel = 'Absolute Benefit Increase (ABI)';
+                    relativeLabel = 'Relative Benefit Increase (RBI)';
+                } else { // Harmful exposure reduces desirable outcome
+                    absoluteLabel = 'Absolute Benefit Reduction (ABR)';
+                    relativeLabel = 'Relative Benefit Reduction (RBR)';
+                }
+            }
+            newResults.impactMeasures = {
+                absolute: { label: absoluteLabel, value: absoluteValue },
+                relative: { label: relativeLabel, value: relativeValue },
+            };
+        }
+        
+        if (riskControl > 0 && riskExposed >= 0) { // Allow riskExposed to be 0
+            const rr = riskExposed === 0 ? 0 : riskExposed / riskControl;
+            const ln_rr = Math.log(rr);
+            const se_ln_rr = Math.sqrt( (1-riskExposed_c)/ca + (1-riskControl_c)/cc );
+            const zStat = ln_rr / se_ln_rr;
+            const rrMethod = analysisSettings.ciMethods.relativeRisk;
+            const rrInterval = rrMethod === 'koopman'
+                ? koopmanRelativeRiskCI(a, exposedTotal, c, controlTotal, zCI)
+                : { lower: Math.exp(ln_rr - zCI * se_ln_rr), upper: Math.exp(ln_rr + zCI * se_ln_rr) };
+            newResults.relativeRisk = {
+                value: rr,
+                ...rrInterval,
+                pValue: calculatePValueFromZ(zStat),
+                zStat: zStat,
+                ciMethod: rrMethod,
+            };
+        }
+        
+        if (rd !== 0) {
+            let nntType: 'Benefit' | 'Harm';
+
+            // A "benefit" (NNT) occurs when an intervention reduces an undesirable outcome (rd < 0)
+            // or increases a desirable one (rd > 0).
+            // A "harm" (NNH) occurs when an intervention increases an undesirable outcome (rd > 0)
+            // or reduces a desirable one (rd < 0).
+            if ((studyGoal === 'undesirable' && rd < 0) || (studyGoal === 'desirable' && rd > 0)) {
+                nntType = 'Benefit';
+            } else {
+                nntType = 'Harm';
+            }
+            
+            newResults.nnt = {
+                value: 1 / Math.abs(rd),
+                type: nntType,
+                lower: 1 / newResults.riskDifference.upper,
+                upper: 1 / newResults.riskDifference.lower,
+            }
+        }
+
+        // Post-hoc Power Calculation
+        if (riskExposed !== riskControl) {
+            const z_alpha = zForAlpha(alpha, sidedness);
+            const p_pooled = (a + c) / (exposedTotal + controlTotal);
+
+            if (p_pooled > 0 && p_pooled < 1) {
+                const se_null = Math.sqrt(p_pooled * (1 - p_pooled) * (1 / exposedTotal + 1 / controlTotal));
+                const critical_diff = z_alpha * se_null;
+                
+                const se_alt_variance = (riskExposed * (1 - riskExposed) / exposedTotal) + (riskControl * (1 - riskControl) / controlTotal);
+                
+                if (se_alt_variance > 0) {
+                    const se_alt = Math.sqrt(se_alt_variance);
+                    const observed_diff = riskExposed - riskControl;
+                    
+                    // Standardize the critical values under the alternative hypothesis
+                    const z_for_upper_tail = (critical_diff - observed_diff) / se_alt;
+                    const z_for_lower_tail = (-critical_diff - observed_diff) / se_alt;
+
+                    // Power is the probability of being in the rejection region under H1
+                    // This is P(Z > z_for_upper_tail) + P(Z < z_for_lower_tail). A one-sided test only
+                    // rejects in the direction of the observed effect, so only that tail counts.
+                    const power = sidedness === 'two-sided'
+                        ? (1 - normalCDF(z_for_upper_tail)) + normalCDF(z_for_lower_tail)
+                        : 1 - normalCDF((critical_diff - Math.abs(observed_diff)) / se_alt);
+                    const beta = 1 - power;
+
+                    newResults.power = { value: power };
+                    newResults.type1Error = { value: alpha };
+                    newResults.type2Error = { value: beta };
+                } else {
+                     // Undefined SE, cannot calculate power
+                     newResults.power = null;
+                     newResults.type1Error = { value: alpha };
+                     newResults.type2Error = null;
+                }
+            } else {
+                // Pooled proportion is 0 or 1, cannot calculate power
+                newResults.power = null;
+                newResults.type1Error = { value: alpha };
+                newResults.type2Error = null;
+            }
+        } else { 
+             // If there's no difference, power is the Type I error rate (alpha).
+            newResults.power = { value: alpha };
+            newResults.type1Error = { value: alpha };
+            newResults.type2Error = { value: 1 - alpha };
+        }
+    }
+  }
+  
+  // Odds Ratio is valid for all designs.
+  if (a >= 0 && b > 0 && c > 0 && d >= 0) {
+      const or = (ca * cd) / (cb * cc);
+      const ln_or = Math.log(or);
+      const se_ln_or = Math.sqrt(1/ca + 1/cb + 1/cc + 1/cd);
+      const zStat = ln_or / se_ln_or;
+      const orMethod = analysisSettings.ciMethods.oddsRatio;
+      // The exact interval is computed from the uncorrected counts and comes with its own conditional MLE.
+      const exactOr = orMethod === 'exact' ? exactConditionalOddsRatio(a, b, c, d, 1 - confidenceLevel) : null;
+      newResults.oddsRatio = {
+          value: or,
+          lower: exactOr ? exactOr.lower : Math.exp(ln_or - zCI * se_ln_or),
+          upper: exactOr ? exactOr.upper : Math.exp(ln_or + zCI * se_ln_or),
+          pValue: calculatePValueFromZ(zStat),
+          zStat: zStat,
+          ciMethod: orMethod,
+          conditionalMle: exactOr ? exactOr.estimate : null,
+      };
+
+      // Risks are not estimable in a case-control study, so its power is based on the exposure
+      // prevalence in controls, the case:control ratio and the observed OR instead.
+      if (studyDesign === 'case-control') {
+          const cases = a + c;
+          const controls = b + d;
+          const exposureInControls = cb / (cb + cd);
+          const controlsPerCase = controls / cases;
+
+          if (cases > 0 && controls > 0) {
+              // If the observed OR is 1, power is the Type I error rate (alpha).
+              const power = or === 1 ? alpha : calculateCaseControlPower(exposureInControls, or, cases, controls, alpha, sidedness);
+              newResults.power = { value: power };
+              newResults.type1Error = { value: alpha };
+              newResults.type2Error = { value: 1 - power };
+
+              const required = calculateCaseControlSampleSize(exposureInControls, or, controlsPerCase, alpha, sidedness);
+              if (required) {
+                  newResults.caseControlPower = {
+                      exposureInControls,
+                      controlsPerCase,
+                      requiredCases: required.cases,
+                      requiredControls: required.controls,
+                  };
+              }
+          }
+      }
+  }
+
+  // Fisher's exact test uses the uncorrected counts and is valid for all designs, including sparse tables.
+  if (exposedTotal > 0 && controlTotal > 0) {
+      const fisher = fisherExactTest(a, b, c, d);
+      newResults.fisherExact = {
+          pValue: formatPValue(fisher.pValue),
+          midPValue: formatPValue(fisher.midPValue),
+      };
+      // Fragility describes changes in outcome events, which a case-control table does not have
+      if (studyDesign !== 'case-control') {
+          // Fisher's p-value is two-sided, so a one-sided test at alpha compares it with 2·alpha
+          const fisherThreshold = sidedness === 'one-sided' ? Number((2 * alpha).toFixed(4)) : alpha;
+          const fragility = fragilityIndex(a, b, c, d, fisherThreshold);
+          newResults.fragility = fragility ? { ...fragility, alpha: fisherThreshold } : null;
+      }
+  }
+
+  const chiSquare = chiSquareTests(a, b, c, d);
+  if (chiSquare) {
+      const minExpected = Math.min(chiSquare.expected.a, chiSquare.expected.b, chiSquare.expected.c, chiSquare.expected.d);
+      // Cochran's rule: with any expected count below 5 the chi-square approximation is unreliable and
+      // Fisher's exact test should be used. Between 5 and 10 the continuity-corrected statistic is safer.
+      const recommendedTest = minExpected < 5 ? 'fisher' : minExpected < 10 ? 'yates' : 'pearson';
+      newResults.chiSquare = {
+          expected: chiSquare.expected,
+          pearson: { statistic: chiSquare.pearson, pValue: calculatePValueFromChiSquare(chiSquare.pearson) },
+          yates: { statistic: chiSquare.yates, pValue: calculatePValueFromChiSquare(chiSquare.yates) },
+          likelihoodRatio: { statistic: chiSquare.likelihoodRatio, pValue: calculatePValueFromChiSquare(chiSquare.likelihoodRatio) },
+          hasSmallExpected: minExpected < 5,
+          recommendedTest,
+      };
+  }
+
+  // Attributable and prevented fractions rest on the RR, or on the OR as its estimate in a case-control study
+  // (where the controls also give the exposure prevalence of the source population)
+  const isCaseControlDesign = studyDesign === 'case-control';
+  const ratio = isCaseControlDesign ? newResults.oddsRatio : newResults.relativeRisk;
+  if (ratio && ratio.value > 0 && Number.isFinite(ratio.value)) {
+      const sampleExposurePrevalence = isCaseControlDesign ? b / (b + d) : exposedTotal / (exposedTotal + controlTotal);
+      const fractions = attributableFractions(ratio, sampleExposurePrevalence);
+      newResults.attributableFractions = withExposurePrevalence({
+          ...fractions,
+          measure: isCaseControlDesign ? 'oddsRatio' : 'relativeRisk',
+          ratio: { value: ratio.value, lower: ratio.lower, upper: ratio.upper },
+          exposurePrevalence: sampleExposurePrevalence,
+          exposurePrevalenceSource: 'sample',
+          sampleExposurePrevalence,
+          caseBased: isCaseControlDesign && fractions.type === 'attributable' ? caseBasedAttributableFraction(a, b, c, d, zCI) : null,
+      }, exposurePrevalence);
+  }
+
+  if (analysisMode === 'stratified') {
+      const isCaseControl = studyDesign === 'case-control';
+      const mh = mantelHaenszelAnalysis(tableCounts, zCI);
+      const homogeneity = mh.oddsRatio ? breslowDayTest(tableCounts, mh.oddsRatio.value) : null;
+
+      // Change-in-estimate criterion: an adjusted estimate more than 10% away from the crude one
+      // indicates confounding by the stratification variable.
+      const crude = isCaseControl ? newResults.oddsRatio?.value : newResults.relativeRisk?.value;
+      const adjusted = isCaseControl ? mh.oddsRatio?.value : mh.relativeRisk?.value;
+      let confounding = null;
+      if (crude !== undefined && adjusted !== undefined && crude > 0) {
+          const percentChange = (adjusted - crude) / crude * 100;
+          confounding = {
+              measure: isCaseControl ? 'oddsRatio' as const : 'relativeRisk' as const,
+              crude,
+              adjusted,
+              percentChange,
+              isConfounded: Math.abs(percentChange) > 10,
+          };
+      }
+
+      newResults.stratified = {
+          strata: tableCounts.map((counts, index) => {
+              const n1 = counts.a + counts.b;
+              const n0 = counts.c + counts.d;
+              const hasBothGroups = n1 > 0 && n0 > 0;
+              return {
+                  label: tableLabels[index],
+                  counts,
+                  relativeRisk: !isCaseControl && hasBothGroups && counts.c > 0 ? (counts.a / n1) / (counts.c / n0) : null,
+                  oddsRatio: counts.b > 0 && counts.c > 0 ? (counts.a * counts.d) / (counts.b * counts.c) : null,
+                  riskDifference: !isCaseControl && hasBothGroups ? counts.a / n1 - counts.c / n0 : null,
+              };
+          }),
+          adjusted: {
+              relativeRisk: isCaseControl ? null : mh.relativeRisk,
+              oddsRatio: mh.oddsRatio,
+              riskDifference: isCaseControl ? null : mh.riskDifference,
+          },
+          mantelHaenszelTest: mh.chiSquare !== null
+              ? { statistic: mh.chiSquare, pValue: formatPValue(chiSquareUpperTail(mh.chiSquare, 1)) }
+              : null,
+          homogeneity: homogeneity ? {
+              breslowDay: { statistic: homogeneity.breslowDay, pValue: formatPValue(chiSquareUpperTail(homogeneity.breslowDay, homogeneity.df)) },
+              tarone: { statistic: homogeneity.tarone, pValue: formatPValue(chiSquareUpperTail(homogeneity.tarone, homogeneity.df)) },
+              df: homogeneity.df,
+              isHeterogeneous: chiSquareUpperTail(homogeneity.tarone, homogeneity.df) < alpha,
+          } : null,
+          confounding,
+      };
+  }
+
+  // E-values use the Mantel–Haenszel estimates when available, as the stratification variable is already controlled.
+  // A case-control OR is taken as a risk ratio under the rare-disease assumption; a cohort OR is square-rooted
+  // when the outcome is common.
+  if (studyDesign && observationalDesigns.includes(studyDesign)) {
+      const adjusted = newResults.stratified?.adjusted;
+      const eValues: NonNullable<Results['eValues']> = [];
+      const relativeRisk = adjusted?.relativeRisk ?? newResults.relativeRisk;
+      if (relativeRisk && relativeRisk.value > 0) {
+          eValues.push({ measure: 'relativeRisk', approximation: 'none', isAdjusted: !!adjusted?.relativeRisk, ...eValueAnalysis(relativeRisk, 'none') });
+      }
+      const oddsRatio = adjusted?.oddsRatio ?? newResults.oddsRatio;
+      if (oddsRatio && oddsRatio.value > 0 && Number.isFinite(oddsRatio.value)) {
+          const isCommonOutcome = studyDesign !== 'case-control' && (a + c) / (a + b + c + d) > 0.15;
+          const approximation = isCommonOutcome ? 'common-outcome' : 'rare-outcome';
+          eValues.push({ measure: 'oddsRatio', approximation, isAdjusted: !!adjusted?.oddsRatio, ...eValueAnalysis(oddsRatio, approximation) });
+      }
+      newResults.eValues = eValues.length > 0 ? eValues : null;
+  }
+
+  return { results: newResults };
+};
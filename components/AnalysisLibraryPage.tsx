@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { translations, studyDesignLabels, dateLocales, type Language } from '../i18n';
+import { createSavedAnalysis, downloadLibrary, importLibrary, loadLibrary, storeLibrary, type SavedAnalysis } from '../analysisLibrary';
+
+interface AnalysisLibraryPageProps {
+  // The analysis currently on the calculator page; null when there are no results to save
+  currentAnalysis: Omit<SavedAnalysis, 'id' | 'name' | 'savedAt'> | null;
+  onOpen: (saved: SavedAnalysis) => void;
+  onBack: () => void;
+  language: Language;
+}
+
+const secondaryButtonClassName = 'inline-flex items-center justify-center px-3 py-2 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors';
+
+export const AnalysisLibraryPage: React.FC<AnalysisLibraryPageProps> = ({ currentAnalysis, onOpen, onBack, language }) => {
+  const T = translations[language];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [library, setLibrary] = useState<SavedAnalysis[]>(loadLibrary);
+  const [name, setName] = useState(() => {
+    if (!currentAnalysis) return '';
+    const { studyDesign, analysisMode } = currentAnalysis.analysis;
+    const label = studyDesign ? studyDesignLabels[language][studyDesign] : T.analysisModeOptions[analysisMode];
+    return `${label} – ${new Date().toLocaleDateString(dateLocales[language])}`;
+  });
+  const [search, setSearch] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const updateLibrary = (entries: SavedAnalysis[], successMessage: string) => {
+    try {
+      storeLibrary(entries);
+      setLibrary(entries);
+      setMessage({ text: successMessage, isError: false });
+    } catch {
+      setMessage({ text: T.libraryStorageError, isError: true });
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentAnalysis || !name.trim()) return;
+    updateLibrary([createSavedAnalysis(name.trim(), currentAnalysis), ...library], T.librarySaved(name.trim()));
+  };
+
+  const handleDuplicate = (saved: SavedAnalysis) => {
+    const { id: _id, name: _name, savedAt: _savedAt, ...snapshot } = saved;
+    const copyName = T.libraryDuplicateName(saved.name);
+    updateLibrary([createSavedAnalysis(copyName, snapshot), ...library], T.librarySaved(copyName));
+  };
+
+  const handleDelete = (saved: SavedAnalysis) => {
+    if (!window.confirm(T.libraryDeleteConfirm(saved.name))) return;
+    updateLibrary(library.filter(entry => entry.id !== saved.id), T.libraryDeleted(saved.name));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = importLibrary(library, await file.text());
+    if (!imported) {
+      setMessage({ text: T.libraryImportError, isError: true });
+      return;
+    }
+    updateLibrary(imported.entries, T.libraryImported(imported.added));
+  };
+
+  // Searches the name together with the labels shown for each entry
+  const query = search.trim().toLocaleLowerCase();
+  const describe = (saved: SavedAnalysis) => {
+    const { studyDesign, analysisMode } = saved.analysis;
+    return [studyDesign ? studyDesignLabels[language][studyDesign] : null, T.analysisModeOptions[analysisMode]].filter(Boolean).join(' · ');
+  };
+  const visible = query
+    ? library.filter(saved => `${saved.name} ${describe(saved)}`.toLocaleLowerCase().includes(query))
+    : library;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 antialiased text-slate-800 font-sans">
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-800">{T.libraryTitle}</h1>
+            <p className="text-slate-500 mt-2">{T.librarySubtitle}</p>
+          </div>
+          <div className="mt-6">
+            <button
+              onClick={onBack}
+              className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.backToCalculatorButton}
+            </button>
+          </div>
+
+          <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-800">{T.librarySaveTitle}</h2>
+            {currentAnalysis ? (
+              <form onSubmit={handleSave} className="mt-3 flex flex-col sm:flex-row gap-3">
+                <label htmlFor="analysisName" className="sr-only">{T.libraryNameLabel}</label>
+                <input
+                  id="analysisName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={T.libraryNameLabel}
+                  className="flex-grow px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                  {T.librarySaveButton}
+                </button>
+              </form>
+            ) : (
+              <p className="mt-2 text-sm text-slate-500">{T.libraryNothingToSave}</p>
+            )}
+            {message && <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`} role="status">{message.text}</p>}
+          </div>
+
+          <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={T.librarySearchPlaceholder}
+                aria-label={T.librarySearchPlaceholder}
+                className="flex-grow px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <div className="flex gap-2">
+                <button type="button" onClick={() => downloadLibrary(library)} disabled={library.length === 0} className={`${secondaryButtonClassName} disabled:opacity-50 disabled:cursor-not-allowed`}>
+                  {T.libraryExportButton}
+                </button>
+                <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>
+                  {T.libraryImportButton}
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">{T.libraryStorageNote}</p>
+
+            {visible.length === 0 ? (
+              <p className="mt-6 text-sm text-slate-500 text-center">{library.length === 0 ? T.libraryEmpty : T.libraryNoMatches}</p>
+            ) : (
+              <ul className="mt-4 divide-y divide-slate-200">
+                {visible.map(saved => (
+                  <li key={saved.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium text-slate-800 truncate">{saved.name}</p>
+                      <p className="text-xs text-slate-500">{describe(saved)}</p>
+                      <p className="text-xs text-slate-400">
+                        {T.librarySavedAt(new Date(saved.savedAt).toLocaleString(dateLocales[language]))}
+                        {(saved.aiInterpretation || saved.aiNarrativeSummary) && ` · ${T.libraryHasAiText}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button type="button" onClick={() => onOpen(saved)} className="inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                        {T.libraryOpenButton}
+                      </button>
+                      <button type="button" onClick={() => handleDuplicate(saved)} className={secondaryButtonClassName}>
+                        {T.libraryDuplicateButton}
+                      </button>
+                      <button type="button" onClick={() => handleDelete(saved)} className="inline-flex items-center justify-center px-3 py-2 border border-red-200 text-xs font-medium rounded-md shadow-sm text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors">
+                        {T.libraryDeleteButton}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
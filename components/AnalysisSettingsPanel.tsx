@@ -0,0 +1,136 @@
+import React from 'react';
+import type { AnalysisSettings, RiskDifferenceCiMethod, RelativeRiskCiMethod, OddsRatioCiMethod, TestSidedness } from '../types';
+import { translations, getTooltips, ciMethodLabels, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { formatConfidenceLevel } from '../statistics';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
+  language: Language;
+}
+
+const alphaOptions = [0.1, 0.05, 0.025, 0.01, 0.005, 0.001];
+const confidenceLevelOptions = [0.8, 0.9, 0.95, 0.98, 0.99, 0.999];
+const sidednessOptions: TestSidedness[] = ['two-sided', 'one-sided'];
+
+const selectClassName = `w-full pl-3 pr-10 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                         transition duration-150 ease-in-out`;
+
+export const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onSettingsChange, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const labels = ciMethodLabels[language];
+
+  const setCiMethod = <K extends keyof AnalysisSettings['ciMethods']>(measure: K, method: AnalysisSettings['ciMethods'][K]) => {
+    onSettingsChange({ ...settings, ciMethods: { ...settings.ciMethods, [measure]: method } });
+  };
+
+  return (
+    <details className="p-4 border rounded-lg bg-slate-50">
+      <summary className="cursor-pointer font-semibold text-lg text-slate-700">{T.settingsTitle}</summary>
+      <p className="text-sm text-slate-600 mt-2 mb-4">{T.settingsDescription}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="alphaLevel" className="block text-sm font-medium text-slate-700">{T.alphaLevel}</label>
+            <Tooltip text={tooltips.alphaLevel} />
+          </div>
+          <select
+            id="alphaLevel"
+            value={settings.alpha}
+            onChange={(e) => onSettingsChange({ ...settings, alpha: parseFloat(e.target.value) })}
+            className={selectClassName}
+          >
+            {alphaOptions.map(alpha => (
+              <option key={alpha} value={alpha}>{alpha}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="testSidedness" className="block text-sm font-medium text-slate-700">{T.testSidedness}</label>
+            <Tooltip text={tooltips.testSidedness} />
+          </div>
+          <select
+            id="testSidedness"
+            value={settings.sidedness}
+            onChange={(e) => onSettingsChange({ ...settings, sidedness: e.target.value as TestSidedness })}
+            className={selectClassName}
+          >
+            {sidednessOptions.map(sidedness => (
+              <option key={sidedness} value={sidedness}>{T.sidednessOptions[sidedness]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="confidenceLevel" className="block text-sm font-medium text-slate-700">{T.confidenceLevel}</label>
+            <Tooltip text={tooltips.confidenceLevel} />
+          </div>
+          <select
+            id="confidenceLevel"
+            value={settings.confidenceLevel}
+            onChange={(e) => onSettingsChange({ ...settings, confidenceLevel: parseFloat(e.target.value) })}
+            className={selectClassName}
+          >
+            {confidenceLevelOptions.map(level => (
+              <option key={level} value={level}>{formatConfidenceLevel(level)}%</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="ciMethodRiskDifference" className="block text-sm font-medium text-slate-700">{T.ciMethodRiskDifference}</label>
+            <Tooltip text={tooltips.ciMethodRiskDifference} />
+          </div>
+          <select
+            id="ciMethodRiskDifference"
+            value={settings.ciMethods.riskDifference}
+            onChange={(e) => setCiMethod('riskDifference', e.target.value as RiskDifferenceCiMethod)}
+            className={selectClassName}
+          >
+            {(Object.keys(labels.riskDifference) as RiskDifferenceCiMethod[]).map(method => (
+              <option key={method} value={method}>{labels.riskDifference[method]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="ciMethodRelativeRisk" className="block text-sm font-medium text-slate-700">{T.ciMethodRelativeRisk}</label>
+            <Tooltip text={tooltips.ciMethodRelativeRisk} />
+          </div>
+          <select
+            id="ciMethodRelativeRisk"
+            value={settings.ciMethods.relativeRisk}
+            onChange={(e) => setCiMethod('relativeRisk', e.target.value as RelativeRiskCiMethod)}
+            className={selectClassName}
+          >
+            {(Object.keys(labels.relativeRisk) as RelativeRiskCiMethod[]).map(method => (
+              <option key={method} value={method}>{labels.relativeRisk[method]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="ciMethodOddsRatio" className="block text-sm font-medium text-slate-700">{T.ciMethodOddsRatio}</label>
+            <Tooltip text={tooltips.ciMethodOddsRatio} />
+          </div>
+          <select
+            id="ciMethodOddsRatio"
+            value={settings.ciMethods.oddsRatio}
+            onChange={(e) => setCiMethod('oddsRatio', e.target.value as OddsRatioCiMethod)}
+            className={selectClassName}
+          >
+            {(Object.keys(labels.oddsRatio) as OddsRatioCiMethod[]).map(method => (
+              <option key={method} value={method}>{labels.oddsRatio[method]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { AnalysisSettings, IntervalEstimate } from '../types';
+import { translations, studyDesignLabels, studyGoalLabels, languageName, type Language, type StudyDesign, type StudyGoal } from '../i18n';
+import { downloadBatch, isBatchDesign, parseBatchFile, runBatch, type BatchExportFormat, type BatchResult, type BatchRow } from '../batchImport';
+import { formatConfidenceLevel } from '../statistics';
+
+interface BatchPageProps {
+  // The calculator's current choices, used for rows that do not give their own design or goal
+  studyDesign: StudyDesign | null;
+  studyGoal: StudyGoal | null;
+  analysisSettings: AnalysisSettings;
+  aiModelName: string;
+  onGenerateAiText: (prompt: string) => Promise<string>;
+  onBack: () => void;
+  language: Language;
+}
+
+type SortKey = 'line' | 'label' | 'relativeRisk' | 'oddsRatio' | 'riskDifference' | 'nnt' | 'fisher' | 'status';
+
+const selectClassName = `w-full pl-3 pr-10 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                         transition duration-150 ease-in-out`;
+
+const secondaryButtonClassName = 'inline-flex items-center justify-center px-3 py-2 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const exportFormats: BatchExportFormat[] = ['csv', 'json'];
+
+// Sort values; rows without a value (errors, or measures that do not apply) always go last
+const sortValue = ({ row, results, error }: BatchResult, key: SortKey): number | string | null => {
+  switch (key) {
+    case 'line': return row.line;
+    case 'label': return row.label.toLocaleLowerCase();
+    case 'relativeRisk': return results?.relativeRisk?.value ?? null;
+    case 'oddsRatio': return results?.oddsRatio?.value ?? null;
+    case 'riskDifference': return results?.riskDifference?.value ?? null;
+    case 'nnt': return results?.nnt?.value ?? null;
+    case 'fisher': return results?.fisherExact ? parseFloat(results.fisherExact.pValue.replace('<', '')) : null;
+    case 'status': return error ? 1 : 0;
+  }
+};
+
+const formatEstimate = (estimate: IntervalEstimate | null | undefined) =>
+  estimate ? `${estimate.value.toFixed(2)} (${estimate.lower.toFixed(2)} to ${estimate.upper.toFixed(2)})` : '—';
+
+export const BatchPage: React.FC<BatchPageProps> = ({ studyDesign, studyGoal, analysisSettings, aiModelName, onGenerateAiText, onBack, language }) => {
+  const T = translations[language];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [defaultDesign, setDefaultDesign] = useState<StudyDesign | null>(studyDesign && isBatchDesign(studyDesign) ? studyDesign : null);
+  const [defaultGoal, setDefaultGoal] = useState<StudyGoal | null>(studyGoal);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'line', ascending: true });
+  // AI text is requested only for the rows ticked by the user, and is keyed by the row's line in the file
+  const [aiSelected, setAiSelected] = useState<Set<number>>(new Set());
+  const [aiTexts, setAiTexts] = useState<Record<number, string>>({});
+  const [aiFailed, setAiFailed] = useState<Set<number>>(new Set());
+  const [aiProgress, setAiProgress] = useState<{ done: number; total: number } | null>(null);
+  // Identifies the current generation run, so answers from a run started before the results changed are dropped
+  const aiRunRef = useRef(0);
+
+  const batchResults = useMemo(
+    () => runBatch(rows, { studyDesign: defaultDesign, studyGoal: defaultGoal }, analysisSettings, language),
+    [rows, defaultDesign, defaultGoal, analysisSettings, language]
+  );
+  const sortedResults = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...batchResults].sort((first, second) => {
+      const a = sortValue(first, sort.key);
+      const b = sortValue(second, sort.key);
+      if (a === null || b === null) return a === b ? first.row.line - second.row.line : a === null ? 1 : -1;
+      return (a < b ? -1 : a > b ? 1 : first.row.line - second.row.line) * direction;
+    });
+  }, [batchResults, sort]);
+  const errorCount = batchResults.filter(result => result.error).length;
+
+  // Results change with the defaults, so any AI text written for the previous results is discarded
+  const clearAiText = () => {
+    aiRunRef.current++;
+    setAiTexts({});
+    setAiFailed(new Set());
+    setAiProgress(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseBatchFile(await file.text(), language);
+    setFileName(file.name);
+    setAiSelected(new Set());
+    clearAiText();
+    if ('error' in parsed) {
+      setRows([]);
+      setFileError(parsed.error);
+    } else {
+      setRows(parsed.rows);
+      setFileError(null);
+    }
+  };
+
+  const handleSort = (key: SortKey) => setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+
+  const toggleAi = (line: number) => setAiSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(line)) next.delete(line); else next.add(line);
+    return next;
+  });
+
+  const buildPrompt = ({ row, studyDesign: design, studyGoal: goal, results }: BatchResult) => {
+    const ciLevel = formatConfidenceLevel(analysisSettings.confidenceLevel);
+    const estimate = (label: string, value: IntervalEstimate | null | undefined) =>
+      `- ${label}: ${value ? `${value.value.toFixed(4)} (${ciLevel}% CI: ${value.lower.toFixed(4)} to ${value.upper.toFixed(4)})` : 'Not applicable'}`;
+    return `You are an expert epidemiologist writing for a surveillance report. In ${languageName[language]}, write a brief interpretation (two short paragraphs, no headings, no lists) of the following 2x2 table.
+
+Table "${row.label}": exposed with outcome a = ${row.inputs.a}, exposed without outcome b = ${row.inputs.b}, unexposed with outcome c = ${row.inputs.c}, unexposed without outcome d = ${row.inputs.d}.
+Study design: ${design ? studyDesignLabels.en[design] : 'N/A'}. The outcome is ${goal === 'desirable' ? 'desirable' : 'undesirable'}.
+${estimate('Relative Risk', results?.relativeRisk)}
+${estimate('Odds Ratio', results?.oddsRatio)}
+${estimate('Risk Difference', results?.riskDifference)}
+- ${results?.nnt ? `${results.nnt.type === 'Benefit' ? 'NNT' : 'NNH'}: ${results.nnt.value.toFixed(2)}` : 'NNT/NNH: Not applicable'}
+- Fisher's exact test: ${results?.fisherExact ? `P = ${results.fisherExact.pValue}` : 'Not applicable'}
+
+Explain the direction, size and precision of the association and what it means in absolute terms, with the caution appropriate to the design.`;
+  };
+
+  // Requests run one at a time so a long batch does not flood the AI service
+  const handleGenerateAi = async () => {
+    const targets = batchResults.filter(result => result.results && aiSelected.has(result.row.line) && !aiTexts[result.row.line]);
+    const run = ++aiRunRef.current;
+    setAiProgress({ done: 0, total: targets.length });
+    for (const [index, target] of targets.entries()) {
+      const { line } = target.row;
+      try {
+        const text = await onGenerateAiText(buildPrompt(target));
+        if (aiRunRef.current !== run) return;
+        setAiTexts(prev => ({ ...prev, [line]: text }));
+        setAiFailed(prev => { const next = new Set(prev); next.delete(line); return next; });
+      } catch (e) {
+        console.error("Error fetching AI interpretation for batch row:", e);
+        if (aiRunRef.current !== run) return;
+        setAiFailed(prev => new Set(prev).add(line));
+      }
+      setAiProgress({ done: index + 1, total: targets.length });
+    }
+    setAiProgress(null);
+  };
+
+  const pendingAi = batchResults.filter(result => result.results && aiSelected.has(result.row.line) && !aiTexts[result.row.line]).length;
+  const ciLabel = T.ciLabel(formatConfidenceLevel(analysisSettings.confidenceLevel));
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'line', label: T.batchLine },
+    { key: 'label', label: T.batchLabel },
+    { key: 'relativeRisk', label: T.relativeRisk },
+    { key: 'oddsRatio', label: T.oddsRatio },
+    { key: 'riskDifference', label: T.riskDifference },
+    { key: 'nnt', label: T.nntHeader },
+    { key: 'fisher', label: T.batchFisher },
+    { key: 'status', label: T.batchStatus },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 antialiased text-slate-800 font-sans">
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-800">{T.batchTitle}</h1>
+            <p className="text-slate-500 mt-2">{T.batchSubtitle}</p>
+          </div>
+          <div className="mt-6">
+            <button
+              onClick={onBack}
+              className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.backToCalculatorButton}
+            </button>
+          </div>
+
+          <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">{T.batchFileTitle}</h2>
+              <p className="text-sm text-slate-500 mt-1">{T.batchFormatHint}</p>
+              <pre className="mt-2 p-2 bg-slate-100 rounded text-xs text-slate-700 overflow-x-auto">{'label,a,b,c,d,design,goal\nRegion A,12,188,25,175,cohort-prospective,undesirable\nRegion B,8,92,15,85,,'}</pre>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <button type="button" onClick={() => fileInputRef.current?.click()} className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                {T.batchChooseFile}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+              {fileName && <span className="text-sm text-slate-600">{fileName}</span>}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="batchDesign" className="block text-sm font-medium text-slate-700 mb-1">{T.batchDefaultDesign}</label>
+                <select id="batchDesign" value={defaultDesign ?? ''} onChange={(e) => { setDefaultDesign((e.target.value || null) as StudyDesign | null); clearAiText(); }} className={selectClassName}>
+                  <option value="">{T.studyDesignPlaceholder}</option>
+                  {(Object.keys(studyDesignLabels[language]) as StudyDesign[]).filter(isBatchDesign).map(design => (
+                    <option key={design} value={design}>{studyDesignLabels[language][design]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="batchGoal" className="block text-sm font-medium text-slate-700 mb-1">{T.batchDefaultGoal}</label>
+                <select id="batchGoal" value={defaultGoal ?? ''} onChange={(e) => { setDefaultGoal((e.target.value || null) as StudyGoal | null); clearAiText(); }} className={selectClassName}>
+                  <option value="">{T.batchGoalPlaceholder}</option>
+                  {(Object.keys(studyGoalLabels[language]) as StudyGoal[]).map(goal => (
+                    <option key={goal} value={goal}>{studyGoalLabels[language][goal]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {fileError && <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm" role="alert">{fileError}</div>}
+          </div>
+
+          {batchResults.length > 0 && (
+            <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-slate-700">{T.batchSummary(batchResults.length - errorCount, errorCount)}</p>
+                <div className="flex flex-wrap gap-2">
+                  {exportFormats.map(format => (
+                    <button key={format} type="button" onClick={() => downloadBatch(batchResults, aiTexts, analysisSettings, format)} className={secondaryButtonClassName}>
+                      {T.exportFormats[format]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mt-4 flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-md border border-slate-200">
+                <p className="text-xs text-slate-600 flex-grow">{T.batchAiHint} {T.resultsAiModel}: {aiModelName}</p>
+                <button
+                  type="button"
+                  onClick={handleGenerateAi}
+                  disabled={pendingAi === 0 || aiProgress !== null}
+                  className="inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                  {aiProgress ? T.batchAiProgress(aiProgress.done, aiProgress.total) : T.batchAiGenerate(pendingAi)}
+                </button>
+              </div>
+
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-700">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      {columns.map(column => (
+                        <th key={column.key} scope="col" className="px-3 py-2 font-semibold whitespace-nowrap" aria-sort={sort.key === column.key ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+                          <button type="button" onClick={() => handleSort(column.key)} className="inline-flex items-center gap-1 hover:text-blue-700">
+                            {column.label}
+                            <span aria-hidden="true" className="text-slate-400">{sort.key === column.key ? (sort.ascending ? '▲' : '▼') : '↕'}</span>
+                          </button>
+                        </th>
+                      ))}
+                      <th scope="col" className="px-3 py-2 font-semibold">{T.batchAiColumn}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedResults.map(result => {
+                      const { row, results, error } = result;
+                      return (
+                        <tr key={row.line} className={`border-t border-slate-200 align-top ${error ? 'bg-red-50' : ''}`}>
+                          <td className="px-3 py-2 font-mono text-slate-500">{row.line}</td>
+                          <td className="px-3 py-2">
+                            <div className="font-medium">{row.label}</div>
+                            <div className="text-xs text-slate-500 font-mono">{`${row.inputs.a} / ${row.inputs.b} / ${row.inputs.c} / ${row.inputs.d}`}</div>
+                            {result.studyDesign && <div className="text-xs text-slate-500">{studyDesignLabels[language][result.studyDesign]}</div>}
+                          </td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{formatEstimate(results?.relativeRisk)}</td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{formatEstimate(results?.oddsRatio)}</td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{formatEstimate(results?.riskDifference)}</td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{results?.nnt ? `${results.nnt.value.toFixed(1)} (${results.nnt.type === 'Benefit' ? T.nntCIbenefit : T.nntCIharm})` : '—'}</td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{results?.fisherExact ? `P = ${results.fisherExact.pValue}` : '—'}</td>
+                          <td className="px-3 py-2">{error ? <span className="text-red-700">{error}</span> : <span className="text-green-700">{T.batchOk}</span>}</td>
+                          <td className="px-3 py-2 min-w-[12rem]">
+                            {results && (
+                              <label className="inline-flex items-center gap-2 text-xs text-slate-600">
+                                <input type="checkbox" checked={aiSelected.has(row.line)} onChange={() => toggleAi(row.line)} className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+                                {T.batchAiRequest}
+                              </label>
+                            )}
+                            {aiFailed.has(row.line) && <p className="mt-1 text-xs text-red-700">{T.batchAiError}</p>}
+                            {aiTexts[row.line] && (
+                              <details className="mt-1">
+                                <summary className="cursor-pointer text-xs text-blue-700">{T.batchAiShow}</summary>
+                                <p className="mt-1 text-xs text-slate-700 whitespace-pre-line">{aiTexts[row.line]}</p>
+                              </details>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-3 text-xs text-slate-500">{T.batchTableNote(ciLabel)}</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import type { BayesianPriorPreset, BenefitDirection, BetaDistribution, TableCounts } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { PosteriorDensityPlot } from './PosteriorDensityPlot';
+import { bayesianRiskComparison, formatConfidenceLevel, presetBetaPriors } from '../statistics';
+
+interface BayesianPanelProps {
+  counts: TableCounts;
+  benefitDirection: BenefitDirection;
+  credibleLevel: number;
+  language: Language;
+}
+
+const priorPresets: BayesianPriorPreset[] = ['uniform', 'skeptical', 'enthusiastic', 'custom'];
+
+const inputClassName = `w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
+                        focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`;
+
+export const BayesianPanel: React.FC<BayesianPanelProps> = ({ counts, benefitDirection, credibleLevel, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const [preset, setPreset] = useState<BayesianPriorPreset>('uniform');
+  const [customPriors, setCustomPriors] = useState({ exposedAlpha: '1', exposedBeta: '1', controlAlpha: '1', controlBeta: '1' });
+  // The risk difference threshold is entered in percentage points
+  const [rdThreshold, setRdThreshold] = useState<string>('5');
+  const [rrThreshold, setRrThreshold] = useState<string>('1.25');
+
+  const riskDifferenceThreshold = Math.max(0, parseFloat(rdThreshold) || 0) / 100;
+  const parsedRrThreshold = parseFloat(rrThreshold);
+  const relativeRiskThreshold = parsedRrThreshold >= 1 ? parsedRrThreshold : 1;
+
+  const priors = useMemo((): { exposed: BetaDistribution; control: BetaDistribution } | null => {
+    if (preset !== 'custom') return presetBetaPriors(preset, counts, riskDifferenceThreshold, benefitDirection);
+    const [exposedAlpha, exposedBeta, controlAlpha, controlBeta] = [customPriors.exposedAlpha, customPriors.exposedBeta, customPriors.controlAlpha, customPriors.controlBeta].map(parseFloat);
+    if (![exposedAlpha, exposedBeta, controlAlpha, controlBeta].every(v => v > 0)) return null;
+    return { exposed: { alpha: exposedAlpha, beta: exposedBeta }, control: { alpha: controlAlpha, beta: controlBeta } };
+  }, [preset, customPriors, counts, riskDifferenceThreshold, benefitDirection]);
+
+  const analysis = useMemo(
+    () => (priors ? bayesianRiskComparison(counts, priors, { credibleLevel, riskDifferenceThreshold, relativeRiskThreshold, benefitDirection }) : null),
+    [counts, priors, credibleLevel, riskDifferenceThreshold, relativeRiskThreshold, benefitDirection],
+  );
+
+  const criLabel = T.credibleIntervalLabel(formatConfidenceLevel(credibleLevel));
+  const formatBeta = (distribution: BetaDistribution) => `Beta(${Number(distribution.alpha.toFixed(2))}, ${Number(distribution.beta.toFixed(2))})`;
+  const formatProbability = (p: number) => `${(p * 100).toFixed(1)}%`;
+  const rdThresholds = benefitDirection === 'decrease'
+    ? { benefit: -riskDifferenceThreshold, harm: riskDifferenceThreshold }
+    : { benefit: riskDifferenceThreshold, harm: -riskDifferenceThreshold };
+  const rrThresholds = benefitDirection === 'decrease'
+    ? { benefit: 1 / relativeRiskThreshold, harm: relativeRiskThreshold }
+    : { benefit: relativeRiskThreshold, harm: 1 / relativeRiskThreshold };
+
+  const row = (label: string, tooltip: string, value: React.ReactNode) => (
+    <tr className="border-b border-slate-200">
+      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></th>
+      <td className="px-4 py-3 font-mono">{value}</td>
+    </tr>
+  );
+  const header = (label: string, tooltip: string) => (
+    <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></td></tr>
+  );
+  const customInput = (key: keyof typeof customPriors, label: string) => (
+    <div key={key}>
+      <label htmlFor={key} className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <input
+        type="number"
+        id={key}
+        min="0"
+        step="any"
+        value={customPriors[key]}
+        onChange={(e) => setCustomPriors({ ...customPriors, [key]: e.target.value })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <details className="mt-6 p-4 border rounded-lg bg-slate-50">
+      <summary className="cursor-pointer font-semibold text-lg text-slate-700">{T.bayesianTitle}</summary>
+      <p className="text-sm text-slate-600 mt-2 mb-4">{T.bayesianDescription}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="priorPreset" className="block text-sm font-medium text-slate-700">{T.priorLabel}</label>
+            <Tooltip text={tooltips.bayesianPrior} />
+          </div>
+          <select
+            id="priorPreset"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as BayesianPriorPreset)}
+            className={inputClassName}
+          >
+            {priorPresets.map(option => (
+              <option key={option} value={option} title={tooltips.priorPresets[option]}>{T.priorPresets[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="rdThreshold" className="block text-sm font-medium text-slate-700">{T.rdThresholdLabel}</label>
+            <Tooltip text={tooltips.rdThreshold} />
+          </div>
+          <input type="number" id="rdThreshold" min="0" step="any" value={rdThreshold} onChange={(e) => setRdThreshold(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <div className="flex items-center mb-1">
+            <label htmlFor="rrThreshold" className="block text-sm font-medium text-slate-700">{T.rrThresholdLabel}</label>
+            <Tooltip text={tooltips.rrThreshold} />
+          </div>
+          <input type="number" id="rrThreshold" min="1" step="any" value={rrThreshold} onChange={(e) => setRrThreshold(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+      {preset === 'custom' && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+          {customInput('exposedAlpha', T.priorParameter(T.groupNames.exposed, 'α'))}
+          {customInput('exposedBeta', T.priorParameter(T.groupNames.exposed, 'β'))}
+          {customInput('controlAlpha', T.priorParameter(T.groupNames.control, 'α'))}
+          {customInput('controlBeta', T.priorParameter(T.groupNames.control, 'β'))}
+        </div>
+      )}
+      {priors && analysis ? (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+                <tr>
+                  <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+                  <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white">
+                {header(T.priorsAndPosteriorsHeader, tooltips.betaPosterior)}
+                {row(T.groupNames.exposed, tooltips.betaPosterior, `${formatBeta(priors.exposed)} → ${formatBeta(analysis.posteriorExposed)}`)}
+                {row(T.groupNames.control, tooltips.betaPosterior, `${formatBeta(priors.control)} → ${formatBeta(analysis.posteriorControl)}`)}
+              </tbody>
+              <tbody className="bg-white">
+                {header(T.riskDifference, tooltips.posteriorRiskDifference)}
+                {row(T.posteriorMedian, tooltips.posteriorMedian, analysis.riskDifference.median.toFixed(4))}
+                {row(criLabel, tooltips.credibleInterval, `${analysis.riskDifference.lower.toFixed(4)} to ${analysis.riskDifference.upper.toFixed(4)}`)}
+                {row(T.probabilityOfBenefit, tooltips.probabilityOfBenefit, formatProbability(analysis.riskDifference.probabilityBenefit))}
+                {row(T.probabilityOfHarm, tooltips.probabilityOfHarm, formatProbability(analysis.riskDifference.probabilityHarm))}
+                {row(T.probabilityBenefitBeyond(`RD ${rdThresholds.benefit.toFixed(3)}`), tooltips.probabilityBeyondThreshold, formatProbability(analysis.riskDifference.probabilityBenefitBeyondThreshold))}
+                {row(T.probabilityHarmBeyond(`RD ${rdThresholds.harm.toFixed(3)}`), tooltips.probabilityBeyondThreshold, formatProbability(analysis.riskDifference.probabilityHarmBeyondThreshold))}
+              </tbody>
+              <tbody className="bg-white">
+                {header(T.relativeRisk, tooltips.posteriorRelativeRisk)}
+                {row(T.posteriorMedian, tooltips.posteriorMedian, analysis.relativeRisk.median.toFixed(4))}
+                {row(criLabel, tooltips.credibleInterval, `${analysis.relativeRisk.lower.toFixed(4)} to ${analysis.relativeRisk.upper.toFixed(4)}`)}
+                {row(T.probabilityOfBenefit, tooltips.probabilityOfBenefit, formatProbability(analysis.relativeRisk.probabilityBenefit))}
+                {row(T.probabilityOfHarm, tooltips.probabilityOfHarm, formatProbability(analysis.relativeRisk.probabilityHarm))}
+                {row(T.probabilityBenefitBeyond(`RR ${rrThresholds.benefit.toFixed(2)}`), tooltips.probabilityBeyondThreshold, formatProbability(analysis.relativeRisk.probabilityBenefitBeyondThreshold))}
+                {row(T.probabilityHarmBeyond(`RR ${rrThresholds.harm.toFixed(2)}`), tooltips.probabilityBeyondThreshold, formatProbability(analysis.relativeRisk.probabilityHarmBeyondThreshold))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <div className="flex items-center mb-2">
+              <h4 className="font-semibold text-slate-700">{T.posteriorDensityTitle(T.riskDifference)}</h4>
+              <Tooltip text={tooltips.posteriorDensity} />
+            </div>
+            <PosteriorDensityPlot
+              density={analysis.riskDifference.density}
+              median={analysis.riskDifference.median}
+              lower={analysis.riskDifference.lower}
+              upper={analysis.riskDifference.upper}
+              isRatio={false}
+              thresholds={riskDifferenceThreshold > 0 ? [-riskDifferenceThreshold, riskDifferenceThreshold] : []}
+              axisLabel={T.riskDifference}
+            />
+          </div>
+          <div>
+            <div className="flex items-center mb-2">
+              <h4 className="font-semibold text-slate-700">{T.posteriorDensityTitle(T.relativeRisk)}</h4>
+              <Tooltip text={tooltips.posteriorDensity} />
+            </div>
+            <PosteriorDensityPlot
+              density={analysis.relativeRisk.density}
+              median={analysis.relativeRisk.median}
+              lower={analysis.relativeRisk.lower}
+              upper={analysis.relativeRisk.upper}
+              isRatio
+              thresholds={relativeRiskThreshold > 1 ? [1 / relativeRiskThreshold, relativeRiskThreshold] : []}
+              axisLabel={`${T.relativeRisk} (${T.logScale})`}
+            />
+          </div>
+          <p className="text-xs text-slate-500">{T.bayesianSamplingNote}</p>
+        </div>
+      ) : (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm" role="alert">{T.errorPriorInvalid}</div>
+      )}
+    </details>
+  );
+};
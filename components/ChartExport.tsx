@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { translations, type Language } from '../i18n';
+import { downloadBlob } from '../resultsExport';
+
+interface ChartExportProps {
+  title: string;
+  // Base name of the downloaded file, without extension
+  fileName: string;
+  language: Language;
+  children: React.ReactNode;
+}
+
+// PNG exports are rendered at twice the chart's own size so they stay sharp on slides
+const pngScale = 2;
+
+const buttonClassName = `inline-flex items-center justify-center px-3 py-1 border border-slate-300 text-xs font-medium rounded-md shadow-sm
+                         text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors`;
+
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('font-family', 'sans-serif');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+// Wraps an SVG chart with a title and buttons to download it as SVG or PNG
+export const ChartExport: React.FC<ChartExportProps> = ({ title, fileName, language, children }) => {
+  const T = translations[language];
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pngError, setPngError] = useState(false);
+  const getSvg = () => containerRef.current?.querySelector('svg') ?? null;
+
+  const handleExportSvg = () => {
+    const svg = getSvg();
+    if (!svg) return;
+    downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+  };
+
+  const handleExportPng = () => {
+    const svg = getSvg();
+    if (!svg) return;
+    const { width, height } = svg.viewBox.baseVal;
+    setPngError(false);
+    const svgUrl = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * pngScale;
+      canvas.height = height * pngScale;
+      const context = canvas.getContext('2d');
+      if (context) {
+        // The charts have a transparent background, which most viewers show as black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(blob => {
+          if (blob) downloadBlob(blob, `${fileName}.png`); else setPngError(true);
+        }, 'image/png');
+      } else {
+        setPngError(true);
+      }
+      URL.revokeObjectURL(svgUrl);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(svgUrl);
+      setPngError(true);
+    };
+    image.src = svgUrl;
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-white break-inside-avoid">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="font-semibold text-slate-700">{title}</h4>
+        <div className="no-print flex gap-2">
+          <button type="button" onClick={handleExportSvg} className={buttonClassName}>{T.exportSvg}</button>
+          <button type="button" onClick={handleExportPng} className={buttonClassName}>{T.exportPng}</button>
+        </div>
+      </div>
+      {pngError && <p className="no-print mb-2 text-sm text-red-600" role="alert">{T.exportPngError}</p>}
+      <div ref={containerRef}>{children}</div>
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import type { IntervalEstimate, Results } from '../types';
+import { translations, getTooltips, studyDesignLabels, languageName, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { loadLibrary } from '../analysisLibrary';
+import { calculateResults } from '../calculation';
+import type { SharedAnalysis } from '../shareLink';
+import { compareIndependentEstimates, formatConfidenceLevel } from '../statistics';
+
+interface ComparisonPageProps {
+  // The analysis currently on the calculator page; null when there are no results
+  currentAnalysis: { analysis: SharedAnalysis; results: Results } | null;
+  aiModelName: string;
+  onGenerateAiText: (prompt: string) => Promise<string>;
+  onBack: () => void;
+  language: Language;
+}
+
+interface ComparedAnalysis {
+  id: string;
+  name: string;
+  analysis: SharedAnalysis;
+  results: Results;
+}
+
+type EffectKey = 'relativeRisk' | 'oddsRatio' | 'riskDifference';
+
+const effectKeys: EffectKey[] = ['relativeRisk', 'oddsRatio', 'riskDifference'];
+
+const comparisonLabelKeys = {
+  relativeRisk: 'comparisonRatioOfRelativeRisks',
+  oddsRatio: 'comparisonRatioOfOddsRatios',
+  riskDifference: 'comparisonDifferenceOfRiskDifferences',
+} as const;
+
+const currentId = 'current';
+
+// The estimate each analysis is summarised by: pooled for a meta-analysis, adjusted for a stratified one and crude
+// otherwise. Risk-based measures are not estimable when sampling is on the outcome.
+const headlineEstimate = ({ analysis, results }: ComparedAnalysis, key: EffectKey): IntervalEstimate | null => {
+  if (analysis.studyDesign === 'case-control' && key !== 'oddsRatio') return null;
+  return results.metaAnalysis?.[key]?.randomEffects ?? results.stratified?.adjusted[key] ?? results[key];
+};
+
+const estimateSourceKey = ({ results }: ComparedAnalysis) =>
+  results.metaAnalysis ? 'metaRandomEffectsShort' as const : results.stratified ? 'mantelHaenszelEstimate' as const : 'crudeEstimate' as const;
+
+// The interval and significance threshold follow the reference analysis's settings
+const compareWithReference = (reference: ComparedAnalysis, compared: ComparedAnalysis, key: EffectKey) => {
+  const first = headlineEstimate(compared, key);
+  const second = headlineEstimate(reference, key);
+  if (!first || !second) return null;
+  const { alpha, sidedness, confidenceLevel } = reference.results.analysisSettings;
+  return compareIndependentEstimates(
+    { ...first, confidenceLevel: compared.results.analysisSettings.confidenceLevel },
+    { ...second, confidenceLevel: reference.results.analysisSettings.confidenceLevel },
+    key === 'riskDifference' ? 'difference' : 'ratio',
+    confidenceLevel,
+    alpha,
+    sidedness
+  );
+};
+
+const formatEstimate = (estimate: IntervalEstimate | null) =>
+  estimate ? `${estimate.value.toFixed(4)} (${estimate.lower.toFixed(4)} to ${estimate.upper.toFixed(4)})` : '—';
+
+// Bold markers and paragraph breaks are the only formatting the comparative interpretation is asked to use
+const renderAiText = (text: string) => text.split(/\n{2,}/).map((block, index) => (
+  <p key={index} className="whitespace-pre-line">
+    {block.split(/\*\*(.+?)\*\*/g).map((part, partIndex) => (partIndex % 2 === 1 ? <strong key={partIndex}>{part}</strong> : part))}
+  </p>
+));
+
+// Side-by-side view of two or more analyses, with tests of whether their effect estimates differ
+export const ComparisonPage: React.FC<ComparisonPageProps> = ({ currentAnalysis, aiModelName, onGenerateAiText, onBack, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const [available] = useState<ComparedAnalysis[]>(() => [
+    ...(currentAnalysis ? [{ id: currentId, name: T.comparisonCurrentAnalysis, ...currentAnalysis }] : []),
+    // Saved analyses are recalculated from their set-up; any that no longer calculate are left out
+    ...loadLibrary().flatMap(({ id, name, analysis }) => {
+      const calculation = calculateResults(analysis);
+      return 'results' in calculation ? [{ id, name, analysis, results: calculation.results }] : [];
+    }),
+  ]);
+  // In selection order; the first selected analysis is the reference the others are compared with
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => available.slice(0, 2).map(entry => entry.id));
+  const [aiText, setAiText] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [aiError, setAiError] = useState(false);
+
+  const selected = selectedIds.map(id => available.find(entry => entry.id === id)).filter((entry): entry is ComparedAnalysis => entry !== undefined);
+  const [reference, ...others] = selected;
+
+  const updateSelection = (ids: string[]) => {
+    setSelectedIds(ids);
+    setAiText(null);
+    setAiError(false);
+  };
+  const toggleSelected = (id: string) =>
+    updateSelection(selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+  const makeReference = (id: string) => updateSelection([id, ...selectedIds.filter(selectedId => selectedId !== id)]);
+
+  const effectLabels: Record<EffectKey, string> = { relativeRisk: T.relativeRisk, oddsRatio: T.oddsRatio, riskDifference: T.riskDifference };
+  const ciLabel = reference ? T.ciLabel(formatConfidenceLevel(reference.results.analysisSettings.confidenceLevel)) : '';
+
+  const estimateSource = (entry: ComparedAnalysis) => T[estimateSourceKey(entry)];
+  const totalParticipants = ({ results }: ComparedAnalysis) =>
+    results.counts ? String(results.counts.a + results.counts.b + results.counts.c + results.counts.d) : '—';
+  const formatNnt = ({ results }: ComparedAnalysis) =>
+    results.nnt ? `${results.nnt.value.toFixed(2)} (${results.nnt.type === 'Benefit' ? T.nntCIbenefit : T.nntCIharm})` : '—';
+
+  const comparisons = reference
+    ? others.map(compared => ({ compared, tests: effectKeys.map(key => ({ key, test: compareWithReference(reference, compared, key) })) }))
+    : [];
+
+  const buildPrompt = () => {
+    const describe = (entry: ComparedAnalysis, index: number) => {
+      const { analysis, results } = entry;
+      return `Analysis ${index + 1}${index === 0 ? ' (reference)' : ''}: "${entry.name}"
+- Study design: ${analysis.studyDesign ? studyDesignLabels.en[analysis.studyDesign] : 'N/A'}
+- Outcome: ${analysis.studyGoal === 'desirable' ? 'desirable' : 'undesirable'}
+- Estimates (${translations.en[estimateSourceKey(entry)]}, ${formatConfidenceLevel(results.analysisSettings.confidenceLevel)}% CI): ${effectKeys.map(key => `${translations.en[key]} ${formatEstimate(headlineEstimate(entry, key))}`).join('; ')}
+- Risk in exposed group: ${results.absoluteRiskExposed ? results.absoluteRiskExposed.value.toFixed(4) : 'N/A'}; risk in control group: ${results.absoluteRiskControl ? results.absoluteRiskControl.value.toFixed(4) : 'N/A'}
+- ${results.nnt ? `${results.nnt.type === 'Benefit' ? 'NNT' : 'NNH'}: ${results.nnt.value.toFixed(2)}` : 'NNT/NNH: Not applicable'}`;
+    };
+    const tests = comparisons.flatMap(({ compared, tests: compareTests }) => compareTests
+      .filter((entry): entry is { key: EffectKey; test: NonNullable<typeof entry.test> } => entry.test !== null)
+      .map(({ key, test }) => `- ${translations.en[comparisonLabelKeys[key]]}, "${compared.name}" vs reference: ${formatEstimate(test)}, P = ${test.pValue}`));
+
+    return `You are an expert epidemiologist. Compare the following analyses for a clinical audience. The entire response must be in ${languageName[language]}.
+
+${selected.map(describe).join('\n\n')}
+
+Tests of interaction against the reference (Altman and Bland; standard errors recovered from each confidence interval):
+${tests.length > 0 ? tests.join('\n') : '- Not available'}
+
+Structure the response as short paragraphs separated by blank lines, each starting with a bold heading (**Heading**), covering:
+1. What each analysis shows on its own.
+2. How the relative and absolute effects differ, noting that a similar relative effect can mean a different absolute benefit or harm when baseline risks differ.
+3. Whether the differences are statistically supported by the tests of interaction, without over-interpreting non-significant differences.
+4. Plausible explanations (study design, populations, baseline risk, chance) and the main cautions.
+Do not use Markdown headings (#) or tables. End with a one-sentence educational disclaimer.`;
+  };
+
+  const handleGenerateAi = async () => {
+    if (!reference || others.length === 0) return;
+    setIsGenerating(true);
+    setAiError(false);
+    try {
+      setAiText(await onGenerateAiText(buildPrompt()));
+    } catch (e) {
+      console.error("Error fetching AI comparison:", e);
+      setAiError(true);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 antialiased text-slate-800 font-sans">
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-800">{T.comparisonTitle}</h1>
+            <p className="text-slate-500 mt-2">{T.comparisonSubtitle}</p>
+          </div>
+          <div className="mt-6">
+            <button
+              onClick={onBack}
+              className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.backToCalculatorButton}
+            </button>
+          </div>
+
+          <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-800">{T.comparisonSelectTitle}</h2>
+            <p className="text-sm text-slate-500 mt-1">{T.comparisonSelectHint}</p>
+            {available.length === 0 ? (
+              <p className="mt-4 text-sm text-slate-500">{T.comparisonNothingAvailable}</p>
+            ) : (
+              <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {available.map(entry => (
+                  <li key={entry.id}>
+                    <label className="flex items-start gap-2 p-2 rounded-md border border-slate-200 hover:bg-slate-50 cursor-pointer">
+                      <input type="checkbox" checked={selectedIds.includes(entry.id)} onChange={() => toggleSelected(entry.id)} className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+                      <span className="min-w-0">
+                        <span className="block text-sm font-medium text-slate-800 truncate">{entry.name}</span>
+                        <span className="block text-xs text-slate-500">{entry.analysis.studyDesign ? studyDesignLabels[language][entry.analysis.studyDesign] : ''} · {T.analysisModeOptions[entry.analysis.analysisMode]}</span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {reference && others.length > 0 && (
+            <>
+              <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left text-slate-700">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-semibold">{T.comparisonMetric}</th>
+                        {selected.map(entry => (
+                          <th key={entry.id} scope="col" className="px-4 py-3 font-semibold align-top min-w-[12rem]">
+                            <div>{entry.name}</div>
+                            {entry === reference ? (
+                              <span className="inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-800">{T.comparisonReference}</span>
+                            ) : (
+                              <button type="button" onClick={() => makeReference(entry.id)} className="mt-1 text-xs font-normal text-blue-600 hover:underline">{T.comparisonMakeReference}</button>
+                            )}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {([
+                        [T.resultsDesign, (entry: ComparedAnalysis) => (entry.analysis.studyDesign ? studyDesignLabels[language][entry.analysis.studyDesign] : '—')],
+                        [T.resultsGoal, (entry: ComparedAnalysis) => (entry.analysis.studyGoal === 'desirable' ? T.resultsGoalDesirable : T.resultsGoalUndesirable)],
+                        [T.analysisModeTitle, (entry: ComparedAnalysis) => T.analysisModeOptions[entry.analysis.analysisMode]],
+                        [T.comparisonEstimateSource, estimateSource],
+                        [T.comparisonParticipants, totalParticipants],
+                        [`${T.absoluteRiskAxisLabel}: ${T.groupNames.exposed}`, (entry: ComparedAnalysis) => entry.results.absoluteRiskExposed?.value.toFixed(4) ?? '—'],
+                        [`${T.absoluteRiskAxisLabel}: ${T.groupNames.control}`, (entry: ComparedAnalysis) => entry.results.absoluteRiskControl?.value.toFixed(4) ?? '—'],
+                      ] as const).map(([label, value]) => (
+                        <tr key={label} className="border-t border-slate-200">
+                          <th scope="row" className="px-4 py-2 font-medium">{label}</th>
+                          {selected.map(entry => <td key={entry.id} className="px-4 py-2">{value(entry)}</td>)}
+                        </tr>
+                      ))}
+                      {effectKeys.map(key => (
+                        <tr key={key} className="border-t border-slate-200">
+                          <th scope="row" className="px-4 py-2 font-medium">{effectLabels[key]}<div className="text-xs font-normal text-slate-500">{ciLabel}</div></th>
+                          {selected.map(entry => {
+                            const differs = entry !== reference && compareWithReference(reference, entry, key)?.isSignificant;
+                            return <td key={entry.id} className={`px-4 py-2 font-mono ${differs ? 'bg-amber-100 text-amber-900 font-semibold' : ''}`}>{formatEstimate(headlineEstimate(entry, key))}</td>;
+                          })}
+                        </tr>
+                      ))}
+                      <tr className="border-t border-slate-200">
+                        <th scope="row" className="px-4 py-2 font-medium">{T.nntHeader}</th>
+                        {selected.map(entry => {
+                          const differs = entry !== reference && !!entry.results.nnt && !!reference.results.nnt && entry.results.nnt.type !== reference.results.nnt.type;
+                          return <td key={entry.id} className={`px-4 py-2 font-mono ${differs ? 'bg-amber-100 text-amber-900 font-semibold' : ''}`}>{formatNnt(entry)}</td>;
+                        })}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-3 text-xs text-slate-500">{T.comparisonHighlightNote}</p>
+              </div>
+
+              <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+                <div className="flex items-center">
+                  <h2 className="text-lg font-semibold text-slate-800">{T.comparisonTestsTitle}</h2>
+                  <Tooltip text={tooltips.comparisonTests} />
+                </div>
+                <div className="overflow-x-auto mt-3">
+                  <table className="w-full text-sm text-left text-slate-700">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-semibold">{T.comparisonMetric}</th>
+                        <th scope="col" className="px-4 py-3 font-semibold">{T.comparisonEstimate} ({ciLabel})</th>
+                        <th scope="col" className="px-4 py-3 font-semibold">{T.comparisonPValue}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparisons.flatMap(({ compared, tests }) => tests.map(({ key, test }) => (
+                        <tr key={`${compared.id}-${key}`} className={`border-t border-slate-200 ${test?.isSignificant ? 'bg-amber-50' : ''}`}>
+                          <th scope="row" className="px-4 py-2 font-medium">
+                            {T[comparisonLabelKeys[key]]}
+                            <div className="text-xs font-normal text-slate-500">{T.comparisonVersus(compared.name, reference.name)}</div>
+                          </th>
+                          <td className="px-4 py-2 font-mono">{formatEstimate(test)}</td>
+                          <td className="px-4 py-2 font-mono">{test ? `P = ${test.pValue}` : '—'}</td>
+                        </tr>
+                      )))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-3 text-xs text-slate-500">{T.comparisonTestNote}</p>
+              </div>
+
+              <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-slate-800">{T.comparisonAiTitle}</h2>
+                    <p className="text-xs text-slate-500">{T.resultsAiModel}: {aiModelName}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleGenerateAi}
+                    disabled={isGenerating}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                  >
+                    {isGenerating ? T.comparisonAiLoading : T.comparisonAiButton}
+                  </button>
+                </div>
+                {aiError && <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md text-sm" role="alert">{T.comparisonAiError}</div>}
+                {aiText && <div className="mt-4 prose prose-slate max-w-none space-y-4 text-sm text-slate-700">{renderAiText(aiText)}</div>}
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
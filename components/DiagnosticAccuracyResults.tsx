@@ -0,0 +1,93 @@
+import React from 'react';
+import type { Results, IntervalEstimate } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { formatConfidenceLevel } from '../statistics';
+
+interface DiagnosticAccuracyResultsProps {
+  diagnosticAccuracy: NonNullable<Results['diagnosticAccuracy']>;
+  confidenceLevel: number;
+  targetPrevalence: string;
+  onTargetPrevalenceChange: (value: string) => void;
+  language: Language;
+}
+
+export const DiagnosticAccuracyResults: React.FC<DiagnosticAccuracyResultsProps> = ({ diagnosticAccuracy, confidenceLevel, targetPrevalence, onTargetPrevalenceChange, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const ciLabel = T.ciLabel(formatConfidenceLevel(confidenceLevel));
+  const adjusted = diagnosticAccuracy.adjustedPredictiveValues;
+
+  const formatPercent = (estimate: IntervalEstimate) =>
+    `${(estimate.value * 100).toFixed(1)}% (${ciLabel}: ${(estimate.lower * 100).toFixed(1)}% to ${(estimate.upper * 100).toFixed(1)}%)`;
+  const formatRatio = (estimate: IntervalEstimate) =>
+    `${estimate.value.toFixed(3)} (${ciLabel}: ${estimate.lower.toFixed(3)} to ${estimate.upper.toFixed(3)})`;
+
+  const row = (label: string, tooltip: string, estimate: IntervalEstimate | null, format: (estimate: IntervalEstimate) => string) => (
+    <tr className="border-b border-slate-200">
+      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></th>
+      <td className="px-4 py-3 font-mono">{estimate ? format(estimate) : T.notCalculable}</td>
+    </tr>
+  );
+  const header = (label: string, tooltip: string) => (
+    <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></td></tr>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+              <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {header(T.diagnosticTestCharacteristicsHeader, tooltips.diagnosticTestCharacteristics)}
+            {row(T.sensitivity, tooltips.sensitivity, diagnosticAccuracy.sensitivity, formatPercent)}
+            {row(T.specificity, tooltips.specificity, diagnosticAccuracy.specificity, formatPercent)}
+            {row(T.youdenIndex, tooltips.youdenIndex, diagnosticAccuracy.youden, formatRatio)}
+          </tbody>
+          <tbody className="bg-white">
+            {header(T.likelihoodRatiosHeader, tooltips.likelihoodRatios)}
+            {row(T.lrPositive, tooltips.lrPositive, diagnosticAccuracy.lrPositive, formatRatio)}
+            {row(T.lrNegative, tooltips.lrNegative, diagnosticAccuracy.lrNegative, formatRatio)}
+            {row(T.diagnosticOddsRatio, tooltips.diagnosticOddsRatio, diagnosticAccuracy.diagnosticOddsRatio, formatRatio)}
+          </tbody>
+          <tbody className="bg-white">
+            {header(T.predictiveValuesHeader((diagnosticAccuracy.studyPrevalence * 100).toFixed(1)), tooltips.predictiveValues)}
+            {row(T.ppv, tooltips.ppv, diagnosticAccuracy.ppv, formatPercent)}
+            {row(T.npv, tooltips.npv, diagnosticAccuracy.npv, formatPercent)}
+          </tbody>
+          {adjusted && diagnosticAccuracy.targetPrevalence !== null && (
+            <tbody className="bg-white">
+              {header(T.predictiveValuesHeader((diagnosticAccuracy.targetPrevalence * 100).toFixed(1)), tooltips.adjustedPredictiveValues)}
+              {row(T.ppv, tooltips.ppv, adjusted.ppv, formatPercent)}
+              {row(T.npv, tooltips.npv, adjusted.npv, formatPercent)}
+            </tbody>
+          )}
+        </table>
+      </div>
+      <div className="p-4 border rounded-lg bg-slate-50">
+        <div className="flex items-center mb-1">
+          <label htmlFor="targetPrevalence" className="block text-sm font-medium text-slate-700">{T.targetPrevalenceLabel}</label>
+          <Tooltip text={tooltips.targetPrevalence} />
+        </div>
+        <input
+          type="number"
+          id="targetPrevalence"
+          min="0"
+          max="100"
+          step="any"
+          value={targetPrevalence}
+          onChange={(e) => onTargetPrevalenceChange(e.target.value)}
+          placeholder={(diagnosticAccuracy.studyPrevalence * 100).toFixed(1)}
+          className="w-full sm:w-1/2 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="text-xs text-slate-500 mt-2">{T.targetPrevalenceNote}</p>
+      </div>
+    </div>
+  );
+};
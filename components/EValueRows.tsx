@@ -0,0 +1,33 @@
+import React from 'react';
+import type { Results } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+
+interface EValueRowsProps {
+  eValues: NonNullable<Results['eValues']>;
+  language: Language;
+}
+
+// The sensitivity-to-confounding section of a results table, shared by every analysis that reports E-values
+export const EValueRows: React.FC<EValueRowsProps> = ({ eValues, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+
+  return (
+    <tbody className="bg-white">
+      <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.confoundingSensitivityHeader}</span><Tooltip text={tooltips.confoundingSensitivity} /></div></td></tr>
+      {eValues.map(entry => (
+        <React.Fragment key={entry.measure}>
+          <tr className="border-t border-slate-300">
+            <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.eValuePoint(T[entry.measure])}</span><Tooltip text={tooltips.eValuePoint} /></div>{(entry.isAdjusted || entry.approximation !== 'none') && <div className="text-xs font-normal text-slate-500">{[entry.isAdjusted ? T.eValueAdjusted : null, entry.approximation !== 'none' ? T.eValueApproximations[entry.approximation] : null].filter(Boolean).join(' · ')}</div>}</th>
+            <td className="px-4 py-3 font-mono">{entry.point.toFixed(2)}</td>
+          </tr>
+          <tr className="border-b border-slate-200">
+            <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.eValueLimit}</span><Tooltip text={tooltips.eValueLimit} /></div></th>
+            <td className="px-4 py-3 font-mono">{entry.confidenceLimit.toFixed(2)}</td>
+          </tr>
+        </React.Fragment>
+      ))}
+    </tbody>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { IntervalEstimate } from '../types';
+
+interface EffectEstimateRow {
+  label: string;
+  estimate: IntervalEstimate;
+}
+
+interface EffectEstimateChartProps {
+  // Ratio measures share a log-scale panel around 1, differences a linear panel around 0
+  ratios: EffectEstimateRow[];
+  differences: EffectEstimateRow[];
+  ratioAxisLabel: string;
+  differenceAxisLabel: string;
+}
+
+// Chart geometry
+const chartWidth = 680;
+const rowHeight = 28;
+const labelWidth = 220;
+const valueWidth = 165;
+const plotLeft = labelWidth;
+const plotWidth = chartWidth - labelWidth - valueWidth;
+const panelTop = 10;
+const axisHeight = 44;
+
+const ratioTicks = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100];
+
+const panelHeight = (rows: number) => panelTop + rows * rowHeight + 8 + axisHeight;
+
+const Panel: React.FC<{ rows: EffectEstimateRow[]; isRatio: boolean; axisLabel: string; offset: number }> = ({ rows, isRatio, axisLabel, offset }) => {
+  const nullValue = isRatio ? 1 : 0;
+
+  // Extreme intervals (e.g. from sparse tables) are clipped so they don't squash the rest of the panel
+  const [minBound, maxBound] = isRatio ? [0.01, 100] : [-1, 1];
+  const clip = (v: number) => Math.min(maxBound, Math.max(minBound, v));
+  let domainMin = clip(Math.min(nullValue, ...rows.map(row => row.estimate.lower)));
+  let domainMax = clip(Math.max(nullValue, ...rows.map(row => row.estimate.upper)));
+  if (domainMin === domainMax) {
+    domainMin = isRatio ? domainMin / 2 : domainMin - 0.1;
+    domainMax = isRatio ? domainMax * 2 : domainMax + 0.1;
+  }
+
+  const scale = (v: number) => (isRatio ? Math.log(v) : v);
+  const x = (v: number) => plotLeft + ((scale(clip(v)) - scale(domainMin)) / (scale(domainMax) - scale(domainMin))) * plotWidth;
+  // Narrow ratio ranges fall between the round ticks, so they get evenly spaced ones on the log scale instead
+  const roundRatioTicks = ratioTicks.filter(tick => tick >= domainMin && tick <= domainMax);
+  const ticks = isRatio && roundRatioTicks.length >= 3
+    ? roundRatioTicks
+    : [0, 0.25, 0.5, 0.75, 1].map(f => (isRatio
+      ? Math.exp(Math.log(domainMin) + f * (Math.log(domainMax) - Math.log(domainMin)))
+      : domainMin + f * (domainMax - domainMin)));
+
+  const plotBottom = panelTop + rows.length * rowHeight + 8;
+  const precision = isRatio ? 2 : 3;
+
+  return (
+    <g transform={`translate(0, ${offset})`}>
+      <line x1={x(nullValue)} x2={x(nullValue)} y1={panelTop} y2={plotBottom} stroke="#94a3b8" strokeDasharray="4 3" />
+      {rows.map((row, i) => {
+        const cy = panelTop + i * rowHeight + rowHeight / 2;
+        const { value, lower, upper } = row.estimate;
+        return (
+          <g key={row.label}>
+            <text x={4} y={cy + 4} fontSize="11" fill="#334155">{row.label}</text>
+            <line x1={x(lower)} x2={x(upper)} y1={cy} y2={cy} stroke="#334155" strokeWidth={1.5} />
+            <line x1={x(lower)} x2={x(lower)} y1={cy - 5} y2={cy + 5} stroke="#334155" strokeWidth={1.5} />
+            <line x1={x(upper)} x2={x(upper)} y1={cy - 5} y2={cy + 5} stroke="#334155" strokeWidth={1.5} />
+            <rect x={x(value) - 5} y={cy - 5} width={10} height={10} fill="#2563eb" />
+            <text x={plotLeft + plotWidth + 10} y={cy + 4} fontSize="11" fill="#334155" fontFamily="monospace">
+              {`${value.toFixed(precision)} (${lower.toFixed(precision)}, ${upper.toFixed(precision)})`}
+            </text>
+          </g>
+        );
+      })}
+      <line x1={plotLeft} x2={plotLeft + plotWidth} y1={plotBottom} y2={plotBottom} stroke="#64748b" />
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={plotBottom} y2={plotBottom + 4} stroke="#64748b" />
+          <text x={x(tick)} y={plotBottom + 16} textAnchor="middle" fontSize="11" fill="#64748b">{Number(tick.toFixed(isRatio ? 2 : 3))}</text>
+        </g>
+      ))}
+      <text x={plotLeft + plotWidth / 2} y={plotBottom + axisHeight - 6} textAnchor="middle" fontSize="12" fill="#334155">{axisLabel}</text>
+    </g>
+  );
+};
+
+// Point estimates with confidence intervals for the ratio and difference measures
+export const EffectEstimateChart: React.FC<EffectEstimateChartProps> = ({ ratios, differences, ratioAxisLabel, differenceAxisLabel }) => {
+  const ratioHeight = ratios.length > 0 ? panelHeight(ratios.length) : 0;
+  const chartHeight = ratioHeight + (differences.length > 0 ? panelHeight(differences.length) : 0);
+
+  return (
+    <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" role="img" aria-label={[ratioAxisLabel, differenceAxisLabel].join(', ')}>
+      {ratios.length > 0 && <Panel rows={ratios} isRatio axisLabel={ratioAxisLabel} offset={0} />}
+      {differences.length > 0 && <Panel rows={differences} isRatio={false} axisLabel={differenceAxisLabel} offset={ratioHeight} />}
+    </svg>
+  );
+};
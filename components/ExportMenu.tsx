@@ -0,0 +1,39 @@
+import React, { useRef } from 'react';
+import { translations } from '../i18n';
+import { downloadResults, type ExportFormat, type ResultsExport } from '../resultsExport';
+
+interface ExportMenuProps {
+  data: ResultsExport;
+}
+
+const exportFormats: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ data }) => {
+  const T = translations[data.language];
+  const menuRef = useRef<HTMLDetailsElement>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadResults(data, format);
+    menuRef.current?.removeAttribute('open');
+  };
+
+  return (
+    <details ref={menuRef} className="relative">
+      <summary className="list-none cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+        {T.exportButton}
+      </summary>
+      <div className="absolute right-0 z-10 mt-1 w-44 bg-white border border-slate-200 rounded-md shadow-lg py-1">
+        {exportFormats.map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            className="block w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-slate-50"
+          >
+            {T.exportFormats[format]}
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+
+interface ForestPlotRow {
+  label: string;
+  estimate: { value: number; lower: number; upper: number; } | null;
+  // Share of the total weight (0-1); sets the size of the study's square
+  weight?: number;
+}
+
+interface ForestPlotProps {
+  studies: ForestPlotRow[];
+  pooled: ForestPlotRow[];
+  // Ratio measures are drawn on a log scale around 1, differences on a linear scale around 0
+  isRatio: boolean;
+  axisLabel: string;
+  excludedLabel: string;
+}
+
+// Chart geometry
+const chartWidth = 680;
+const rowHeight = 24;
+const labelWidth = 150;
+const valueWidth = 230;
+const plotLeft = labelWidth;
+const plotWidth = chartWidth - labelWidth - valueWidth;
+const top = 12;
+const axisHeight = 44;
+
+const ratioTicks = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100];
+
+export const ForestPlot: React.FC<ForestPlotProps> = ({ studies, pooled, isRatio, axisLabel, excludedLabel }) => {
+  const estimates = [...studies, ...pooled].flatMap(row => (row.estimate ? [row.estimate] : []));
+  const nullValue = isRatio ? 1 : 0;
+
+  // Extreme intervals (e.g. from sparse studies) are clipped so they don't squash the rest of the plot
+  const [minBound, maxBound] = isRatio ? [0.01, 100] : [-1, 1];
+  const clip = (v: number) => Math.min(maxBound, Math.max(minBound, v));
+  let domainMin = clip(Math.min(nullValue, ...estimates.map(e => e.lower)));
+  let domainMax = clip(Math.max(nullValue, ...estimates.map(e => e.upper)));
+  if (domainMin === domainMax) {
+    domainMin = isRatio ? domainMin / 2 : domainMin - 0.1;
+    domainMax = isRatio ? domainMax * 2 : domainMax + 0.1;
+  }
+
+  const scale = (v: number) => (isRatio ? Math.log(v) : v);
+  const x = (v: number) => plotLeft + ((scale(clip(v)) - scale(domainMin)) / (scale(domainMax) - scale(domainMin))) * plotWidth;
+
+  const ticks = isRatio
+    ? ratioTicks.filter(tick => tick >= domainMin && tick <= domainMax)
+    : [0, 0.25, 0.5, 0.75, 1].map(f => domainMin + f * (domainMax - domainMin));
+
+  const rows = [...studies, ...pooled];
+  const plotBottom = top + rows.length * rowHeight + 8;
+  const chartHeight = plotBottom + axisHeight;
+  const maxWeight = Math.max(...studies.map(row => row.weight ?? 0), 0.0001);
+  const precision = isRatio ? 2 : 3;
+  const formatEstimate = (e: { value: number; lower: number; upper: number; }) =>
+    `${e.value.toFixed(precision)} (${e.lower.toFixed(precision)}, ${e.upper.toFixed(precision)})`;
+
+  return (
+    <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" role="img" aria-label={axisLabel}>
+      <line x1={x(nullValue)} x2={x(nullValue)} y1={top} y2={plotBottom} stroke="#94a3b8" />
+      {rows.map((row, i) => {
+        const cy = top + i * rowHeight + rowHeight / 2;
+        const isPooled = i >= studies.length;
+        return (
+          <g key={i}>
+            {isPooled && i === studies.length && <line x1={0} x2={chartWidth} y1={cy - rowHeight / 2} y2={cy - rowHeight / 2} stroke="#e2e8f0" />}
+            <text x={4} y={cy + 4} fontSize="11" fill="#334155" fontWeight={isPooled ? 600 : 400}>
+              {row.label.length > 24 ? `${row.label.slice(0, 23)}…` : row.label}
+            </text>
+            {row.estimate ? (
+              <>
+                {isPooled ? (
+                  <polygon
+                    points={`${x(row.estimate.lower)},${cy} ${x(row.estimate.value)},${cy - 6} ${x(row.estimate.upper)},${cy} ${x(row.estimate.value)},${cy + 6}`}
+                    fill="#1d4ed8"
+                  />
+                ) : (
+                  <>
+                    <line x1={x(row.estimate.lower)} x2={x(row.estimate.upper)} y1={cy} y2={cy} stroke="#334155" />
+                    {(() => {
+                      const size = 4 + 8 * Math.sqrt((row.weight ?? 0) / maxWeight);
+                      return <rect x={x(row.estimate.value) - size / 2} y={cy - size / 2} width={size} height={size} fill="#2563eb" />;
+                    })()}
+                  </>
+                )}
+                <text x={plotLeft + plotWidth + 8} y={cy + 4} fontSize="11" fill="#334155" fontFamily="monospace">{formatEstimate(row.estimate)}</text>
+                {row.weight !== undefined && (
+                  <text x={chartWidth - 4} y={cy + 4} textAnchor="end" fontSize="11" fill="#64748b" fontFamily="monospace">{`${(row.weight * 100).toFixed(1)}%`}</text>
+                )}
+              </>
+            ) : (
+              <text x={plotLeft + plotWidth + 8} y={cy + 4} fontSize="11" fill="#94a3b8">{excludedLabel}</text>
+            )}
+          </g>
+        );
+      })}
+      <line x1={plotLeft} x2={plotLeft + plotWidth} y1={plotBottom} y2={plotBottom} stroke="#64748b" />
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={plotBottom} y2={plotBottom + 4} stroke="#64748b" />
+          <text x={x(tick)} y={plotBottom + 16} textAnchor="middle" fontSize="11" fill="#64748b">{isRatio ? tick : Number(tick.toFixed(2))}</text>
+        </g>
+      ))}
+      <text x={plotLeft + plotWidth / 2} y={chartHeight - 6} textAnchor="middle" fontSize="12" fill="#334155">{axisLabel}</text>
+    </svg>
+  );
+};
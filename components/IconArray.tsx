@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import type { Results } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+
+interface IconArrayProps {
+  riskExposed: number;
+  riskControl: number;
+  nnt: Results['nnt'];
+  language: Language;
+}
+
+type IconArrayScale = 100 | 1000;
+
+// Grid layout per scale: 100 people as a 10x10 grid of figures, 1000 as a 40x25 grid of dots
+const gridLayouts = {
+  100: { columns: 10, cell: 20 },
+  1000: { columns: 40, cell: 8 },
+} as const;
+
+const colors = { outcome: '#475569', none: '#e2e8f0', Benefit: '#059669', Harm: '#dc2626' };
+
+// Added to <body> while printing so the print stylesheet shows only the icon array
+const printClassName = 'print-icon-array';
+
+// 100 people hide any risk difference under half a percentage point, so small risks switch to 1000
+const autoScale = (riskExposed: number, riskControl: number): IconArrayScale => {
+  const smallestRisk = Math.min(...[riskExposed, riskControl].filter(risk => risk > 0), 1);
+  const hiddenDifference = riskExposed !== riskControl && Math.round(riskExposed * 100) === Math.round(riskControl * 100);
+  return smallestRisk < 0.01 || hiddenDifference ? 1000 : 100;
+};
+
+type IconStyle = { fill: string; stroke?: string };
+
+const Icon: React.FC<{ x: number; y: number; cell: number; isFigure: boolean; style: IconStyle }> = ({ x, y, cell, isFigure, style }) => {
+  const strokeProps = style.stroke ? { stroke: style.stroke, strokeWidth: isFigure ? 1.5 : 1 } : {};
+  if (!isFigure) return <circle cx={x + cell / 2} cy={y + cell / 2} r={cell * 0.36} fill={style.fill} {...strokeProps} />;
+  return (
+    <g {...strokeProps} fill={style.fill}>
+      <circle cx={x + cell / 2} cy={y + cell * 0.26} r={cell * 0.17} />
+      <rect x={x + cell * 0.25} y={y + cell * 0.48} width={cell * 0.5} height={cell * 0.44} rx={cell * 0.2} />
+    </g>
+  );
+};
+
+const Grid: React.FC<{ scale: IconArrayScale; styleAt: (index: number) => IconStyle; label: string }> = ({ scale, styleAt, label }) => {
+  const { columns, cell } = gridLayouts[scale];
+  const rows = scale / columns;
+  return (
+    <svg viewBox={`0 0 ${columns * cell} ${rows * cell}`} className="w-full h-auto" role="img" aria-label={label}>
+      {Array.from({ length: scale }, (_, index) => (
+        <Icon key={index} x={(index % columns) * cell} y={Math.floor(index / columns) * cell} cell={cell} isFigure={scale === 100} style={styleAt(index)} />
+      ))}
+    </svg>
+  );
+};
+
+// Risk communication picture: the same number of people in each group, with the events that differ between them highlighted
+export const IconArray: React.FC<IconArrayProps> = ({ riskExposed, riskControl, nnt, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const [scaleOverride, setScaleOverride] = useState<IconArrayScale | null>(null);
+  const scale = scaleOverride ?? autoScale(riskExposed, riskControl);
+
+  useEffect(() => {
+    const handleAfterPrint = () => document.body.classList.remove(printClassName);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => window.removeEventListener('afterprint', handleAfterPrint);
+  }, []);
+
+  const handlePrint = () => {
+    document.body.classList.add(printClassName);
+    window.print();
+  };
+
+  // Everything is drawn from the rounded counts, so the captions always match the picture
+  const eventsExposed = Math.round(riskExposed * scale);
+  const eventsControl = Math.round(riskControl * scale);
+  const shared = Math.min(eventsExposed, eventsControl);
+  const difference = Math.abs(eventsExposed - eventsControl);
+  const highlight = nnt ? colors[nnt.type] : colors.outcome;
+
+  const exposedStyle = (index: number): IconStyle => {
+    if (index < shared) return { fill: colors.outcome };
+    if (index < shared + difference) return eventsExposed > eventsControl ? { fill: highlight } : { fill: '#ffffff', stroke: highlight };
+    return { fill: colors.none };
+  };
+  const controlStyle = (index: number): IconStyle => ({ fill: index < eventsControl ? colors.outcome : colors.none });
+
+  const legend: { label: string; style: IconStyle }[] = [
+    { label: T.iconArrayLegendOutcome, style: { fill: colors.outcome } },
+    ...(difference > 0
+      ? [eventsExposed > eventsControl
+        ? { label: T.iconArrayLegendExtra, style: { fill: highlight } }
+        : { label: T.iconArrayLegendAvoided, style: { fill: '#ffffff', stroke: highlight } }]
+      : []),
+    { label: T.iconArrayLegendNone, style: { fill: colors.none } },
+  ];
+
+  const scaleButtonClassName = (option: IconArrayScale) => `px-3 py-1 text-xs font-medium border transition-colors first:rounded-l-md last:rounded-r-md ${
+    option === scale ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+  }`;
+
+  return (
+    <div className="icon-array-print mt-6 p-4 border rounded-lg bg-white break-inside-avoid">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex items-center">
+          <h3 className="font-semibold text-lg text-slate-700">{T.iconArrayTitle(scale)}</h3>
+          <Tooltip text={tooltips.iconArray} />
+        </div>
+        <div className="no-print flex items-center gap-2">
+          <span className="text-xs text-slate-500">{T.iconArrayScaleLabel}</span>
+          <div className="inline-flex">
+            {([100, 1000] as const).map(option => (
+              <button key={option} type="button" onClick={() => setScaleOverride(option)} className={scaleButtonClassName(option)}>{option}</button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handlePrint}
+            className="inline-flex items-center justify-center px-3 py-1 border border-slate-300 text-xs font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+          >
+            {T.printButton}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">{T.iconArrayDescription}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 print:grid-cols-2 gap-6">
+        <figure>
+          <Grid scale={scale} styleAt={exposedStyle} label={T.iconArrayGroupCaption(T.groupNames.exposed, eventsExposed, scale)} />
+          <figcaption className="mt-2 text-sm text-center text-slate-700">{T.iconArrayGroupCaption(T.groupNames.exposed, eventsExposed, scale)}</figcaption>
+        </figure>
+        <figure>
+          <Grid scale={scale} styleAt={controlStyle} label={T.iconArrayGroupCaption(T.groupNames.control, eventsControl, scale)} />
+          <figcaption className="mt-2 text-sm text-center text-slate-700">{T.iconArrayGroupCaption(T.groupNames.control, eventsControl, scale)}</figcaption>
+        </figure>
+      </div>
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-slate-600">
+        {legend.map(item => (
+          <span key={item.label} className="inline-flex items-center gap-1">
+            <svg viewBox="0 0 12 12" className="w-3 h-3" aria-hidden="true"><circle cx="6" cy="6" r="5" fill={item.style.fill} stroke={item.style.stroke} strokeWidth={item.style.stroke ? 1.5 : 0} /></svg>
+            {item.label}
+          </span>
+        ))}
+      </div>
+      <div className="mt-4 space-y-1 text-sm text-slate-700">
+        <p className="font-medium">
+          {difference === 0
+            ? T.iconArrayNoDifference
+            : eventsExposed > eventsControl ? T.iconArrayMore(difference, scale) : T.iconArrayFewer(difference, scale)}
+        </p>
+        {nnt && <p>{nnt.type === 'Benefit' ? T.iconArrayNnt(Math.ceil(nnt.value)) : T.iconArrayNnh(Math.ceil(nnt.value))}</p>}
+      </div>
+      <p className="mt-3 text-xs text-slate-500">{T.iconArrayRoundingNote}</p>
+    </div>
+  );
+};
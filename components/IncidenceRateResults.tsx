@@ -0,0 +1,87 @@
+import React from 'react';
+import type { Results } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { formatConfidenceLevel } from '../statistics';
+import { EValueRows } from './EValueRows';
+
+interface IncidenceRateResultsProps {
+  incidenceRate: NonNullable<Results['incidenceRate']>;
+  eValues: Results['eValues'];
+  confidenceLevel: number;
+  language: Language;
+}
+
+// Rates are shown per 1,000 units of person-time so typical values stay readable
+const rateScale = 1000;
+
+export const IncidenceRateResults: React.FC<IncidenceRateResultsProps> = ({ incidenceRate, eValues, confidenceLevel, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const ciLabel = T.ciLabel(formatConfidenceLevel(confidenceLevel));
+  const unitLabel = T.personTimeUnits[incidenceRate.timeUnit];
+  const { rateRatio, rateDifference, nnt } = incidenceRate;
+
+  const row = (label: string, tooltip: string, value: React.ReactNode, className = 'border-b border-slate-200') => (
+    <tr className={className}>
+      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></th>
+      <td className="px-4 py-3 font-mono">{value}</td>
+    </tr>
+  );
+
+  const nntInterval = () => {
+    if (!nnt || !rateDifference) return '';
+    // An interval for the rate difference that spans zero maps onto NNT (benefit) to infinity to NNH (harm)
+    if (rateDifference.lower < 0 && rateDifference.upper > 0) {
+      return `${Math.abs(1 / rateDifference.lower).toFixed(1)} (${T.nntCIbenefit}) to ${(1 / rateDifference.upper).toFixed(1)} (${T.nntCIharm})`;
+    }
+    const [lower, upper] = [Math.abs(nnt.lower), Math.abs(nnt.upper)].sort((x, y) => x - y);
+    return `${lower.toFixed(1)} to ${upper.toFixed(1)}`;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left text-slate-600">
+        <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+          <tr>
+            <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+            <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white">
+          <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.incidenceRatesHeader(unitLabel)}</span><Tooltip text={tooltips.incidenceRate} /></div></td></tr>
+          {row(T.rateExposed, tooltips.incidenceRate, `${(incidenceRate.rateExposed * rateScale).toFixed(3)} (${incidenceRate.counts.eventsExposed} / ${incidenceRate.counts.personTimeExposed})`)}
+          {row(T.rateControl, tooltips.incidenceRate, `${(incidenceRate.rateControl * rateScale).toFixed(3)} (${incidenceRate.counts.eventsControl} / ${incidenceRate.counts.personTimeControl})`)}
+        </tbody>
+        <tbody className="bg-white">
+          <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.assocMeasuresHeader}</span><Tooltip text={tooltips.measuresOfAssociation} /></div></td></tr>
+          {rateRatio ? (
+            <>
+              {row(T.rateRatio, tooltips.rateRatio, rateRatio.value.toFixed(4), 'border-t border-slate-300')}
+              {row(ciLabel, tooltips.rateRatioCI, `${rateRatio.lower.toFixed(4)} to ${rateRatio.upper.toFixed(4)}`)}
+              {row(T.rateRatioExactTest, tooltips.rateRatioExactTest, `P = ${rateRatio.pValue}`)}
+              {row(T.rateRatioMidP, tooltips.rateRatioMidP, `P = ${rateRatio.midPValue}`)}
+            </>
+          ) : row(T.rateRatio, tooltips.rateRatio, T.notCalculable, 'border-t border-slate-300 border-b')}
+        </tbody>
+        <tbody className="bg-white">
+          <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.impactMeasuresHeader}</span><Tooltip text={tooltips.measuresOfImpact} /></div></td></tr>
+          {rateDifference ? (
+            <>
+              {row(T.rateDifference(unitLabel), tooltips.rateDifference, (rateDifference.value * rateScale).toFixed(3), 'border-t border-slate-300')}
+              {row(ciLabel, tooltips.rateDifferenceCI, `${(rateDifference.lower * rateScale).toFixed(3)} to ${(rateDifference.upper * rateScale).toFixed(3)}`)}
+              {row(T.zStatistic, tooltips.rateDifferenceTest, `${rateDifference.zStat.toFixed(3)} (P = ${rateDifference.pValue})`)}
+            </>
+          ) : row(T.rateDifference(unitLabel), tooltips.rateDifference, T.notCalculable, 'border-t border-slate-300 border-b')}
+          {nnt ? (
+            <>
+              {row(nnt.type === 'Benefit' ? T.nntBenefit : T.nntHarm, tooltips.nntPersonTime, T.nntPersonTime(nnt.value.toFixed(1), unitLabel), 'border-t border-slate-300')}
+              {row(ciLabel, tooltips.nnt95CI, nntInterval())}
+            </>
+          ) : row(T.nntHeader, tooltips.nntPersonTime, T.notCalculable)}
+        </tbody>
+        {eValues && <EValueRows eValues={eValues} language={language} />}
+      </table>
+    </div>
+  );
+};
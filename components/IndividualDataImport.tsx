@@ -0,0 +1,206 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { Inputs, LabelledTable } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import {
+  columnValues, defaultVariableMapping, individualDataInputs, readIndividualDataFile, tabulate,
+  type IndividualDataFile, type ValueRole, type VariableMapping,
+} from '../individualData';
+
+interface IndividualDataImportProps {
+  // Stratifying switches the calculator to the stratified analysis, which some designs do not support
+  allowStrata: boolean;
+  onApply: (data: { inputs: Inputs; strata: LabelledTable[]; provenance: string }) => void;
+  language: Language;
+}
+
+type Variable = 'exposure' | 'outcome';
+
+// Columns with many distinct values (e.g. identifiers) are not useful to map value by value
+const maxListedValues = 50;
+const valueRoles: ValueRole[] = ['positive', 'negative', 'unmapped'];
+
+const selectClassName = `w-full pl-3 pr-10 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                         transition duration-150 ease-in-out`;
+
+export const IndividualDataImport: React.FC<IndividualDataImportProps> = ({ allowStrata, onApply, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<IndividualDataFile | null>(null);
+  const [fileError, setFileError] = useState(false);
+  const [mappings, setMappings] = useState<Record<Variable, VariableMapping | null>>({ exposure: null, outcome: null });
+  const [stratumColumn, setStratumColumn] = useState<number | null>(null);
+
+  const activeStratumColumn = allowStrata ? stratumColumn : null;
+  const tabulation = useMemo(() => (
+    file && mappings.exposure && mappings.outcome
+      ? tabulate(file, { exposure: mappings.exposure, outcome: mappings.outcome, stratumColumn: activeStratumColumn })
+      : null
+  ), [file, mappings, activeStratumColumn]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    const parsed = readIndividualDataFile(selected.name, await selected.text());
+    setFile(parsed);
+    setFileError(!parsed);
+    setMappings({ exposure: null, outcome: null });
+    setStratumColumn(null);
+  };
+
+  const handleColumnChange = (variable: Variable, value: string) => {
+    if (!file) return;
+    setMappings(prev => ({ ...prev, [variable]: value === '' ? null : defaultVariableMapping(file, Number(value)) }));
+  };
+
+  const handleRoleChange = (variable: Variable, value: string, role: ValueRole) => {
+    setMappings(prev => {
+      const mapping = prev[variable];
+      return mapping ? { ...prev, [variable]: { ...mapping, roles: { ...mapping.roles, [value]: role } } } : prev;
+    });
+  };
+
+  const handleApply = () => {
+    if (!file || !mappings.exposure || !mappings.outcome || !tabulation) return;
+    onApply(individualDataInputs(file, { exposure: mappings.exposure, outcome: mappings.outcome, stratumColumn: activeStratumColumn }, tabulation, language));
+  };
+
+  const columnSelect = (id: string, label: string, value: number | null, onChange: (value: string) => void, emptyLabel: string) => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <select id={id} value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={selectClassName}>
+        <option value="">{emptyLabel}</option>
+        {file?.columns.map((column, index) => (
+          <option key={index} value={index}>{column || T.individualUnnamedColumn(index + 1)}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const valueMapping = (variable: Variable) => {
+    const mapping = mappings[variable];
+    if (!file || !mapping) return null;
+    const values = columnValues(file, mapping.column);
+    return (
+      <div className="p-3 bg-white border border-slate-200 rounded-md">
+        <h4 className="text-sm font-semibold text-slate-700">{T.individualValuesTitle(file.columns[mapping.column])}</h4>
+        <table className="mt-2 w-full text-sm text-left text-slate-700">
+          <thead>
+            <tr className="text-xs text-slate-500">
+              <th scope="col" className="py-1 pr-2 font-medium">{T.individualValueHeader}</th>
+              <th scope="col" className="py-1 pr-2 font-medium">{T.individualCountHeader}</th>
+              <th scope="col" className="py-1 font-medium">{T.individualRoleHeader}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {values.slice(0, maxListedValues).map(({ value, count }) => (
+              <tr key={value} className="border-t border-slate-100">
+                <td className="py-1 pr-2 font-mono break-all">{value}</td>
+                <td className="py-1 pr-2 font-mono">{count}</td>
+                <td className="py-1">
+                  <select
+                    value={mapping.roles[value] ?? 'unmapped'}
+                    onChange={(e) => handleRoleChange(variable, value, e.target.value as ValueRole)}
+                    aria-label={`${file.columns[mapping.column]} = ${value}`}
+                    className={selectClassName}
+                  >
+                    {valueRoles.map(role => (
+                      <option key={role} value={role}>{role === 'unmapped' ? T.individualRoleUnmapped : T.individualRoles[variable][role]}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {values.length > maxListedValues && <p className="mt-2 text-xs text-slate-500">{T.individualMoreValues(values.length - maxListedValues)}</p>}
+      </div>
+    );
+  };
+
+  const exposureColumn = mappings.exposure ? file?.columns[mappings.exposure.column] : undefined;
+  const outcomeColumn = mappings.outcome ? file?.columns[mappings.outcome.column] : undefined;
+
+  return (
+    <details className="p-4 border rounded-lg bg-slate-50">
+      <summary className="cursor-pointer font-semibold text-lg text-slate-700">{T.individualTitle}</summary>
+      <p className="text-sm text-slate-600 mt-2 mb-4">{T.individualDescription}</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="inline-flex items-center px-3 py-1.5 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+          {T.individualChooseFile}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+        {file && <span className="text-sm text-slate-600">{T.individualFileSummary(file.fileName, file.records.length, file.columns.length)}</span>}
+      </div>
+      {fileError && <p className="mt-3 text-sm text-red-600" role="alert">{T.individualErrorFile}</p>}
+
+      {file && (
+        <div className="mt-4 space-y-4">
+          <div className={`grid grid-cols-1 gap-4 ${allowStrata ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
+            {columnSelect('individualExposure', T.individualExposureColumn, mappings.exposure?.column ?? null, value => handleColumnChange('exposure', value), T.individualColumnPlaceholder)}
+            {columnSelect('individualOutcome', T.individualOutcomeColumn, mappings.outcome?.column ?? null, value => handleColumnChange('outcome', value), T.individualColumnPlaceholder)}
+            {allowStrata && columnSelect('individualStratum', T.individualStratumColumn, stratumColumn, value => setStratumColumn(value === '' ? null : Number(value)), T.individualNoStratum)}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {valueMapping('exposure')}
+            {valueMapping('outcome')}
+          </div>
+
+          {tabulation && (
+            <div className="p-3 bg-white border border-slate-200 rounded-md">
+              <div className="flex items-center">
+                <h4 className="text-sm font-semibold text-slate-700">{T.individualPreviewTitle}</h4>
+                <Tooltip text={tooltips.individualData} />
+              </div>
+              <table className="mt-2 text-sm text-slate-700">
+                <thead>
+                  <tr className="text-xs text-slate-500">
+                    <th scope="col" />
+                    <th scope="col" className="px-3 py-1 font-medium">{T.individualRoles.outcome.positive}</th>
+                    <th scope="col" className="px-3 py-1 font-medium">{T.individualRoles.outcome.negative}</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  <tr>
+                    <th scope="row" className="pr-3 py-1 text-xs text-slate-500 font-medium font-sans text-left">{T.individualRoles.exposure.positive}</th>
+                    <td className="px-3 py-1 text-center">a = {tabulation.counts.a}</td>
+                    <td className="px-3 py-1 text-center">b = {tabulation.counts.b}</td>
+                  </tr>
+                  <tr>
+                    <th scope="row" className="pr-3 py-1 text-xs text-slate-500 font-medium font-sans text-left">{T.individualRoles.exposure.negative}</th>
+                    <td className="px-3 py-1 text-center">c = {tabulation.counts.c}</td>
+                    <td className="px-3 py-1 text-center">d = {tabulation.counts.d}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <ul className="mt-2 text-xs text-slate-600 space-y-1">
+                <li>{T.individualRowsUsed(tabulation.usedRows, tabulation.totalRows)}</li>
+                {activeStratumColumn !== null && <li>{T.individualStrataCount(tabulation.strata.length)}</li>}
+                {exposureColumn !== undefined && tabulation.missing.exposure > 0 && <li className="text-amber-700">{T.individualMissingValues(exposureColumn, tabulation.missing.exposure)}</li>}
+                {outcomeColumn !== undefined && tabulation.missing.outcome > 0 && <li className="text-amber-700">{T.individualMissingValues(outcomeColumn, tabulation.missing.outcome)}</li>}
+                {activeStratumColumn !== null && tabulation.missing.stratum > 0 && <li className="text-amber-700">{T.individualMissingValues(file.columns[activeStratumColumn], tabulation.missing.stratum)}</li>}
+                {exposureColumn !== undefined && tabulation.unmapped.exposure.length > 0 && (
+                  <li className="text-amber-700">{T.individualUnmappedValues(exposureColumn, tabulation.unmapped.exposure.map(({ value, count }) => `${value} (${count})`).join(', '))}</li>
+                )}
+                {outcomeColumn !== undefined && tabulation.unmapped.outcome.length > 0 && (
+                  <li className="text-amber-700">{T.individualUnmappedValues(outcomeColumn, tabulation.unmapped.outcome.map(({ value, count }) => `${value} (${count})`).join(', '))}</li>
+                )}
+              </ul>
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={tabulation.usedRows === 0}
+                className="mt-3 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+              >
+                {T.individualApplyButton}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+};
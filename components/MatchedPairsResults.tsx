@@ -0,0 +1,75 @@
+import React from 'react';
+import type { Results } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { formatConfidenceLevel } from '../statistics';
+import { EValueRows } from './EValueRows';
+
+interface MatchedPairsResultsProps {
+  matchedPairs: NonNullable<Results['matchedPairs']>;
+  eValues: Results['eValues'];
+  confidenceLevel: number;
+  language: Language;
+}
+
+export const MatchedPairsResults: React.FC<MatchedPairsResultsProps> = ({ matchedPairs, eValues, confidenceLevel, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const ciLabel = T.ciLabel(formatConfidenceLevel(confidenceLevel));
+  const { conditionalOddsRatio, mcnemar, riskDifference } = matchedPairs;
+
+  const row = (label: string, tooltip: string, value: React.ReactNode, className = 'border-b border-slate-200') => (
+    <tr className={className}>
+      <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></th>
+      <td className="px-4 py-3 font-mono">{value}</td>
+    </tr>
+  );
+  const header = (label: string, tooltip: string) => (
+    <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></td></tr>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left text-slate-600">
+        <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+          <tr>
+            <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+            <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white">
+          {header(T.matchedPairsHeader, tooltips.matchedPairs)}
+          {row(T.totalPairs, tooltips.matchedPairs, matchedPairs.pairs)}
+          {row(T.discordantPairs, tooltips.discordantPairs, `${matchedPairs.discordantPairs} (b = ${matchedPairs.counts.b}, c = ${matchedPairs.counts.c})`)}
+        </tbody>
+        <tbody className="bg-white">
+          {header(T.assocMeasuresHeader, tooltips.measuresOfAssociation)}
+          {conditionalOddsRatio ? (
+            <>
+              {row(T.conditionalOddsRatio, tooltips.conditionalOddsRatio, conditionalOddsRatio.value.toFixed(4), 'border-t border-slate-300')}
+              {row(ciLabel, tooltips.conditionalOddsRatioCI, `${conditionalOddsRatio.lower.toFixed(4)} to ${conditionalOddsRatio.upper.toFixed(4)}`)}
+            </>
+          ) : row(T.conditionalOddsRatio, tooltips.conditionalOddsRatio, T.notCalculable, 'border-t border-slate-300 border-b')}
+          {riskDifference ? (
+            <>
+              {row(T.pairedRiskDifference, tooltips.pairedRiskDifference, riskDifference.value.toFixed(4), 'border-t-2 border-slate-300')}
+              {row(ciLabel, tooltips.pairedRiskDifferenceCI, `${riskDifference.lower.toFixed(4)} to ${riskDifference.upper.toFixed(4)}`)}
+            </>
+          ) : row(T.pairedRiskDifference, tooltips.pairedRiskDifference, T.notCalculable, 'border-t-2 border-slate-300 border-b')}
+        </tbody>
+        <tbody className="bg-white">
+          {header(T.significanceTestsHeader, tooltips.mcnemarTest)}
+          {mcnemar ? (
+            <>
+              {row(T.mcnemarExact, tooltips.mcnemarExact, `P = ${mcnemar.exact.pValue}`)}
+              {row(T.mcnemarExactMidP, tooltips.mcnemarExactMidP, `P = ${mcnemar.exact.midPValue}`)}
+              {row(T.mcnemarChiSquare, tooltips.mcnemarChiSquare, `χ² = ${mcnemar.chiSquare.statistic.toFixed(3)}, P = ${mcnemar.chiSquare.pValue}`)}
+              {row(T.mcnemarCorrected, tooltips.mcnemarCorrected, `χ² = ${mcnemar.correctedChiSquare.statistic.toFixed(3)}, P = ${mcnemar.correctedChiSquare.pValue}`)}
+            </>
+          ) : row(T.mcnemarTest, tooltips.mcnemarTest, T.notCalculable)}
+        </tbody>
+        {eValues && <EValueRows eValues={eValues} language={language} />}
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { Results, PooledEstimate } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { ForestPlot } from './ForestPlot';
+import { formatConfidenceLevel } from '../statistics';
+
+type MetaMeasure = 'relativeRisk' | 'oddsRatio' | 'riskDifference';
+
+interface MetaAnalysisResultsProps {
+  metaAnalysis: NonNullable<Results['metaAnalysis']>;
+  confidenceLevel: number;
+  language: Language;
+}
+
+const measures: MetaMeasure[] = ['relativeRisk', 'oddsRatio', 'riskDifference'];
+
+export const MetaAnalysisResults: React.FC<MetaAnalysisResultsProps> = ({ metaAnalysis, confidenceLevel, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const availableMeasures = measures.filter(measure => metaAnalysis[measure]);
+  const [selected, setSelected] = useState<MetaMeasure>(availableMeasures[0] ?? 'oddsRatio');
+
+  const measureLabels: Record<MetaMeasure, string> = {
+    relativeRisk: T.relativeRisk,
+    oddsRatio: T.oddsRatio,
+    riskDifference: T.riskDifference,
+  };
+
+  const measure = availableMeasures.includes(selected) ? selected : availableMeasures[0];
+  const result = measure ? metaAnalysis[measure] : null;
+  if (!measure || !result) {
+    return <div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm" role="alert">{T.metaNotEnoughStudies}</div>;
+  }
+
+  const ciLabel = T.ciLabel(formatConfidenceLevel(confidenceLevel));
+  const formatPooled = (estimate: PooledEstimate) =>
+    `${estimate.value.toFixed(4)} (${ciLabel}: ${estimate.lower.toFixed(4)} to ${estimate.upper.toFixed(4)})`;
+
+  const pooledRows: [string, string, PooledEstimate | null][] = [
+    [T.metaFixedInverseVariance, tooltips.metaFixedInverseVariance, result.fixedInverseVariance],
+    [T.metaFixedMantelHaenszel, tooltips.metaFixedMantelHaenszel, result.fixedMantelHaenszel],
+    [T.metaRandomEffects, tooltips.metaRandomEffects, result.randomEffects],
+  ];
+
+  return (
+    <div className="space-y-6">
+      {availableMeasures.length > 1 && (
+        <div className="flex flex-wrap gap-2" role="tablist">
+          {availableMeasures.map(m => (
+            <button
+              key={m}
+              type="button"
+              role="tab"
+              aria-selected={m === measure}
+              onClick={() => setSelected(m)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${m === measure ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'}`}
+            >
+              {measureLabels[m]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+              <th scope="col" className="px-4 py-2 rounded-r-lg">{T.resultHeader}</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.metaPooledHeader(measureLabels[measure])}</span><Tooltip text={tooltips.metaAnalysis} /></div></td></tr>
+            {pooledRows.map(([label, tooltip, estimate]) => estimate && (
+              <tr key={label} className="border-b border-slate-200">
+                <th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{label}</span><Tooltip text={tooltip} /></div></th>
+                <td className="px-4 py-3 font-mono">{formatPooled(estimate)}<div className="text-xs text-slate-500">P = {estimate.pValue}</div></td>
+              </tr>
+            ))}
+          </tbody>
+          <tbody className="bg-white">
+            <tr className="bg-slate-50 font-semibold text-slate-600"><td colSpan={2} className="px-4 py-2 text-sm"><div className="flex items-center"><span>{T.metaHeterogeneityHeader}</span><Tooltip text={tooltips.metaHeterogeneity} /></div></td></tr>
+            <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>{T.metaCochranQ}</span><Tooltip text={tooltips.metaCochranQ} /></div></th><td className="px-4 py-3 font-mono">Q({result.heterogeneity.df}) = {result.heterogeneity.q.toFixed(3)}, P = {result.heterogeneity.pValue}</td></tr>
+            <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>I²</span><Tooltip text={tooltips.metaISquared} /></div></th><td className="px-4 py-3 font-mono">{(result.heterogeneity.iSquared * 100).toFixed(1)}%</td></tr>
+            <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium"><div className="flex items-center"><span>τ²</span><Tooltip text={tooltips.metaTauSquared} /></div></th><td className="px-4 py-3 font-mono">{result.heterogeneity.tauSquared.toFixed(4)}</td></tr>
+            {result.heterogeneity.iSquared > 0.5 && (
+              <tr className="border-b border-slate-200"><td colSpan={2} className="px-4 py-3"><div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm" role="alert">{T.metaHeterogeneityWarning}</div></td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div>
+        <div className="flex items-center mb-2">
+          <h3 className="font-semibold text-slate-700">{T.forestPlotTitle}</h3>
+          <Tooltip text={tooltips.forestPlot} />
+        </div>
+        <ForestPlot
+          studies={metaAnalysis.studyLabels.map((label, i) => {
+            const study = result.studies[i];
+            return {
+              label,
+              estimate: study,
+              weight: study ? study.weightRandom : undefined,
+            };
+          })}
+          pooled={[
+            { label: T.metaFixedEffectShort, estimate: result.fixedInverseVariance },
+            { label: T.metaRandomEffectsShort, estimate: result.randomEffects },
+          ]}
+          isRatio={measure !== 'riskDifference'}
+          axisLabel={`${measureLabels[measure]} (${ciLabel})`}
+          excludedLabel={T.metaStudyExcluded}
+        />
+        <p className="text-xs text-slate-500 mt-2">{T.forestPlotNote}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { PersonTimeInputs, PersonTimeUnit } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { InputControl } from './InputControl';
+
+interface PersonTimeInputProps {
+  inputs: PersonTimeInputs;
+  onInputsChange: (inputs: PersonTimeInputs) => void;
+  language: Language;
+}
+
+const timeUnits: PersonTimeUnit[] = ['years', 'months', 'days'];
+
+export const createEmptyPersonTimeInputs = (): PersonTimeInputs => ({
+  eventsExposed: '',
+  personTimeExposed: '',
+  eventsControl: '',
+  personTimeControl: '',
+  timeUnit: 'years',
+});
+
+export const PersonTimeInput: React.FC<PersonTimeInputProps> = ({ inputs, onInputsChange, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onInputsChange({ ...inputs, [e.target.name]: e.target.value });
+  };
+
+  const groups = [
+    { title: T.step4Title, tooltip: tooltips.exposedGroup, events: 'eventsExposed', personTime: 'personTimeExposed', placeholders: ['e.g., 41', 'e.g., 28010'] },
+    { title: T.step5Title, tooltip: tooltips.controlGroup, events: 'eventsControl', personTime: 'personTimeControl', placeholders: ['e.g., 15', 'e.g., 19017'] },
+  ] as const;
+
+  return (
+    <>
+      <div className="p-4 border rounded-lg bg-slate-50">
+        <div className="flex items-center mb-2">
+          <h3 className="font-semibold text-lg text-slate-700">{T.personTimeTitle}</h3>
+          <Tooltip text={tooltips.incidenceRateMode} />
+        </div>
+        <p className="text-sm text-slate-600 mb-4">{T.personTimeDescription}</p>
+        <label htmlFor="timeUnit" className="block text-sm font-medium text-slate-700 mb-1">{T.personTimeUnitLabel}</label>
+        <select
+          id="timeUnit"
+          value={inputs.timeUnit}
+          onChange={(e) => onInputsChange({ ...inputs, timeUnit: e.target.value as PersonTimeUnit })}
+          className="w-full sm:w-1/2 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {timeUnits.map(unit => (
+            <option key={unit} value={unit}>{T.personTimeUnits[unit]}</option>
+          ))}
+        </select>
+      </div>
+      {groups.map(group => (
+        <div key={group.events} className="p-4 border rounded-lg bg-slate-50">
+          <div className="flex items-center mb-4">
+            <h3 className="font-semibold text-lg text-slate-700">{group.title}</h3>
+            <Tooltip text={group.tooltip} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center mb-1">
+                <label htmlFor={group.events} className="block text-sm font-medium text-slate-700">{T.eventsLabel}</label>
+                <Tooltip text={tooltips.personTimeEvents} />
+              </div>
+              <InputControl id={group.events} value={inputs[group.events]} onChange={handleChange} placeholder={group.placeholders[0]} />
+            </div>
+            <div>
+              <div className="flex items-center mb-1">
+                <label htmlFor={group.personTime} className="block text-sm font-medium text-slate-700">{T.personTimeLabel(T.personTimeUnits[inputs.timeUnit])}</label>
+                <Tooltip text={tooltips.personTime} />
+              </div>
+              <InputControl id={group.personTime} value={inputs[group.personTime]} onChange={handleChange} placeholder={group.placeholders[1]} />
+            </div>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
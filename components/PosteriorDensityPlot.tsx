@@ -0,0 +1,70 @@
+import React from 'react';
+
+interface PosteriorDensityPlotProps {
+  density: { x: number; y: number; }[];
+  median: number;
+  lower: number;
+  upper: number;
+  // Ratio measures are drawn on a log scale around 1, differences on a linear scale around 0
+  isRatio: boolean;
+  // Clinically meaningful thresholds, drawn as dashed lines
+  thresholds: number[];
+  axisLabel: string;
+}
+
+// Chart geometry
+const chartWidth = 680;
+const chartHeight = 220;
+const plotLeft = 16;
+const plotWidth = chartWidth - 2 * plotLeft;
+const top = 12;
+const plotBottom = 172;
+
+const ratioTicks = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100];
+
+export const PosteriorDensityPlot: React.FC<PosteriorDensityPlotProps> = ({ density, median, lower, upper, isRatio, thresholds, axisLabel }) => {
+  const nullValue = isRatio ? 1 : 0;
+  const scale = (v: number) => (isRatio ? Math.log(v) : v);
+
+  // The axis covers the density and the null value, so it is always clear which side of "no effect" the mass lies
+  const domainMin = Math.min(density[0].x, nullValue);
+  const domainMax = Math.max(density[density.length - 1].x, nullValue);
+  const x = (v: number) => plotLeft + ((scale(v) - scale(domainMin)) / (scale(domainMax) - scale(domainMin))) * plotWidth;
+  const maxDensity = Math.max(...density.map(point => point.y), 1e-12);
+  const y = (d: number) => plotBottom - (d / maxDensity) * (plotBottom - top);
+
+  const curve = density.map(point => `${x(point.x)},${y(point.y)}`).join(' ');
+  const interval = density.filter(point => point.x >= lower && point.x <= upper);
+  const intervalArea = interval.length > 1
+    ? `${x(interval[0].x)},${plotBottom} ${interval.map(point => `${x(point.x)},${y(point.y)}`).join(' ')} ${x(interval[interval.length - 1].x)},${plotBottom}`
+    : '';
+
+  // Narrow ratio ranges fall between the round ticks, so they get evenly spaced ones on the log scale instead
+  const roundRatioTicks = ratioTicks.filter(tick => tick >= domainMin && tick <= domainMax);
+  const ticks = isRatio && roundRatioTicks.length >= 3
+    ? roundRatioTicks
+    : [0, 0.25, 0.5, 0.75, 1].map(f => (isRatio
+      ? Math.exp(Math.log(domainMin) + f * (Math.log(domainMax) - Math.log(domainMin)))
+      : domainMin + f * (domainMax - domainMin)));
+  const inDomain = (v: number) => v >= domainMin && v <= domainMax;
+
+  return (
+    <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" role="img" aria-label={axisLabel}>
+      {intervalArea && <polygon points={intervalArea} fill="#bfdbfe" />}
+      <polyline points={curve} fill="none" stroke="#1d4ed8" strokeWidth={2} />
+      <line x1={x(nullValue)} x2={x(nullValue)} y1={top} y2={plotBottom} stroke="#94a3b8" />
+      {thresholds.filter(inDomain).map(threshold => (
+        <line key={threshold} x1={x(threshold)} x2={x(threshold)} y1={top} y2={plotBottom} stroke="#d97706" strokeDasharray="4 3" />
+      ))}
+      {inDomain(median) && <line x1={x(median)} x2={x(median)} y1={top} y2={plotBottom} stroke="#1d4ed8" strokeDasharray="2 2" />}
+      <line x1={plotLeft} x2={plotLeft + plotWidth} y1={plotBottom} y2={plotBottom} stroke="#64748b" />
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={plotBottom} y2={plotBottom + 4} stroke="#64748b" />
+          <text x={x(tick)} y={plotBottom + 16} textAnchor="middle" fontSize="11" fill="#64748b">{Number(tick.toFixed(isRatio ? 2 : 3))}</text>
+        </g>
+      ))}
+      <text x={plotLeft + plotWidth / 2} y={chartHeight - 6} textAnchor="middle" fontSize="12" fill="#334155">{axisLabel}</text>
+    </svg>
+  );
+};
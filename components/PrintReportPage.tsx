@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { translations, dateLocales, type Language } from '../i18n';
+import { resultsTableSections, type ResultsExport } from '../resultsExport';
+import { ResultCharts } from './ResultCharts';
+
+interface PrintReportPageProps {
+  data: ResultsExport;
+  aiModelName: string;
+  // Already formatted AI text, as shown on the interpretation and narrative summary pages; empty when not generated
+  interpretationHtml: string;
+  narrativeHtml: string;
+  onBack: () => void;
+  language: Language;
+}
+
+// The first two export sections describe the set-up (design, settings and input data); the rest are the results
+const setupSectionCount = 2;
+
+const ReportTable: React.FC<{ title: string; headers: string[]; rows: string[][] }> = ({ title, headers, rows }) => (
+  <div className="mt-4 break-inside-avoid">
+    <h3 className="font-semibold text-slate-700 mb-1">{title}</h3>
+    <table className="w-full text-xs text-left text-slate-700 border border-slate-200">
+      <thead className="bg-slate-100">
+        <tr>
+          {headers.map(header => <th key={header} scope="col" className="px-2 py-1 font-semibold">{header}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((cells, index) => (
+          <tr key={index} className="border-t border-slate-200 break-inside-avoid">
+            {cells.map((cell, cellIndex) => (
+              cellIndex === 0
+                ? <th key={cellIndex} scope="row" className="px-2 py-1 font-medium">{cell}</th>
+                : <td key={cellIndex} className={`px-2 py-1 ${cellIndex < 5 ? 'font-mono' : ''}`}>{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Print-optimised report combining the set-up, the full results, the charts and any AI text
+export const PrintReportPage: React.FC<PrintReportPageProps> = ({ data, aiModelName, interpretationHtml, narrativeHtml, onBack, language }) => {
+  const T = translations[language];
+  const [generatedAt] = useState(() => new Date());
+  const { headers, sections } = resultsTableSections(data);
+  // Set-up entries are text, so they only need the metric and value columns
+  const setupSections = sections.slice(0, setupSectionCount).map(section => ({ ...section, rows: section.rows.map(cells => cells.slice(0, 2)) }));
+  const resultSections = sections.slice(setupSectionCount);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 print:bg-white antialiased text-slate-800 font-sans">
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:px-8 print:p-0">
+        <div className="max-w-4xl mx-auto">
+          <div className="no-print flex flex-wrap gap-3 mb-6">
+            <button
+              onClick={onBack}
+              className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-slate-300 shadow-sm text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400 transition-colors"
+            >
+              {T.backToCalculatorButton}
+            </button>
+            <button
+              onClick={() => window.print()}
+              className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {T.savePdfButton}
+            </button>
+            <p className="w-full text-xs text-slate-500">{T.savePdfHint}</p>
+          </div>
+
+          <article className="bg-white p-8 rounded-xl shadow-lg border border-slate-200 print:p-0 print:shadow-none print:border-0 print:rounded-none">
+            <header className="border-b pb-4">
+              <h1 className="text-2xl font-bold text-slate-800">{T.printReportTitle}</h1>
+              <p className="text-sm text-slate-500 mt-1">{T.printReportGenerated(generatedAt.toLocaleString(dateLocales[language]))}</p>
+              <p className="text-sm text-slate-500">{T.resultsAiModel}: {aiModelName}</p>
+            </header>
+
+            <section className="mt-6">
+              <h2 className="text-xl font-semibold text-slate-800">{T.printReportSetup}</h2>
+              {setupSections.map(section => (
+                <ReportTable key={section.title} title={section.title} headers={headers.slice(0, 2)} rows={section.rows} />
+              ))}
+            </section>
+
+            <section className="mt-8 break-before-page">
+              <h2 className="text-xl font-semibold text-slate-800">{T.resultsTitle}</h2>
+              {resultSections.map(section => (
+                <ReportTable key={section.title} title={section.title} headers={headers} rows={section.rows} />
+              ))}
+            </section>
+
+            <section className="mt-4">
+              <ResultCharts results={data.results} isCaseControl={data.studyDesign === 'case-control'} language={language} />
+            </section>
+
+            {interpretationHtml && (
+              <section className="mt-8 break-before-page">
+                <h2 className="text-xl font-semibold text-slate-800 mb-4">{T.aiFullReportTitle}</h2>
+                <div className="prose prose-sm prose-slate max-w-none space-y-4" dangerouslySetInnerHTML={{ __html: interpretationHtml }} />
+              </section>
+            )}
+            {narrativeHtml && (
+              <section className="mt-8 break-before-page">
+                <h2 className="text-xl font-semibold text-slate-800 mb-4">{T.aiSummaryTitle}</h2>
+                <div className="prose prose-sm prose-slate max-w-none space-y-4" dangerouslySetInnerHTML={{ __html: narrativeHtml }} />
+              </section>
+            )}
+            {!interpretationHtml && !narrativeHtml && <p className="mt-8 text-sm text-slate-500">{T.printReportNoAiText}</p>}
+
+            <footer className="mt-8 pt-4 border-t text-xs text-slate-500 break-inside-avoid">
+              <p><strong>{T.footerDisclaimer.split(':')[0]}:</strong> {T.footerDisclaimer.split(':')[1]}</p>
+            </footer>
+          </article>
+        </div>
+      </main>
+    </div>
+  );
+};
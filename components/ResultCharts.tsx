@@ -0,0 +1,86 @@
+import React from 'react';
+import type { IntervalEstimate, Results, TableCounts } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { ChartExport } from './ChartExport';
+import { EffectEstimateChart } from './EffectEstimateChart';
+import { RiskBarChart } from './RiskBarChart';
+import { formatConfidenceLevel, wilsonInterval, zForConfidence } from '../statistics';
+
+interface ResultChartsProps {
+  results: Results;
+  isCaseControl: boolean;
+  language: Language;
+}
+
+const armRisk = (events: number, total: number, z: number): IntervalEstimate | null => {
+  if (total <= 0) return null;
+  return { value: events / total, ...wilsonInterval(events, total, z) };
+};
+
+const armRisks = (counts: TableCounts, z: number) => ({
+  exposed: armRisk(counts.a, counts.a + counts.b, z),
+  control: armRisk(counts.c, counts.c + counts.d, z),
+});
+
+export const ResultCharts: React.FC<ResultChartsProps> = ({ results, isCaseControl, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const { stratified } = results;
+  const adjusted = stratified?.adjusted;
+
+  // Crude estimates are labelled as such only when there are adjusted ones next to them
+  const crudeLabel = (label: string) => (stratified ? `${label} (${T.crudeEstimate})` : label);
+  const ratios = [
+    !isCaseControl && results.relativeRisk ? { label: crudeLabel(T.relativeRisk), estimate: results.relativeRisk } : null,
+    !isCaseControl && adjusted?.relativeRisk ? { label: T.mhRelativeRisk, estimate: adjusted.relativeRisk } : null,
+    results.oddsRatio ? { label: crudeLabel(T.oddsRatio), estimate: results.oddsRatio } : null,
+    adjusted?.oddsRatio ? { label: T.mhOddsRatio, estimate: adjusted.oddsRatio } : null,
+  ].filter(row => row !== null);
+  const differences = [
+    !isCaseControl && results.riskDifference ? { label: crudeLabel(T.riskDifference), estimate: results.riskDifference } : null,
+    !isCaseControl && adjusted?.riskDifference ? { label: T.mhRiskDifference, estimate: adjusted.riskDifference } : null,
+  ].filter(row => row !== null);
+
+  // Absolute risks per arm are not estimable when sampling is on the outcome
+  const z = zForConfidence(results.analysisSettings.confidenceLevel);
+  const riskGroups = !isCaseControl && results.counts
+    ? [
+      { label: stratified ? T.crudeEstimate : '', ...armRisks(results.counts, z) },
+      ...(stratified?.strata ?? []).map(stratum => ({ label: stratum.label, ...armRisks(stratum.counts, z) })),
+    ]
+    : [];
+
+  if (ratios.length === 0 && differences.length === 0 && riskGroups.length === 0) return null;
+
+  const ciLabel = T.ciLabel(formatConfidenceLevel(results.analysisSettings.confidenceLevel));
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center">
+        <h3 className="font-semibold text-lg text-slate-700">{T.chartsHeader}</h3>
+        <Tooltip text={tooltips.charts} />
+      </div>
+      {(ratios.length > 0 || differences.length > 0) && (
+        <ChartExport title={T.effectEstimateChartTitle(ciLabel)} fileName="effect-estimates" language={language}>
+          <EffectEstimateChart
+            ratios={ratios}
+            differences={differences}
+            ratioAxisLabel={`${T.ratioAxisLabel} (${T.logScale})`}
+            differenceAxisLabel={T.riskDifference}
+          />
+        </ChartExport>
+      )}
+      {riskGroups.length > 0 && (
+        <ChartExport title={T.riskBarChartTitle(ciLabel)} fileName="absolute-risks" language={language}>
+          <RiskBarChart
+            groups={riskGroups}
+            exposedLabel={T.groupNames.exposed}
+            controlLabel={T.groupNames.control}
+            axisLabel={T.absoluteRiskAxisLabel}
+          />
+        </ChartExport>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { IntervalEstimate } from '../types';
+
+interface RiskBarGroup {
+  label: string;
+  exposed: IntervalEstimate | null;
+  control: IntervalEstimate | null;
+}
+
+interface RiskBarChartProps {
+  groups: RiskBarGroup[];
+  exposedLabel: string;
+  controlLabel: string;
+  axisLabel: string;
+}
+
+// Chart geometry
+const chartWidth = 680;
+const chartHeight = 300;
+const plotLeft = 56;
+const plotRight = chartWidth - 16;
+const plotTop = 36;
+const plotBottom = chartHeight - 44;
+const plotHeight = plotBottom - plotTop;
+
+const colors = { exposed: '#2563eb', control: '#94a3b8' };
+
+// Absolute risk in each arm with confidence interval error bars, one group of bars per table (crude or stratum)
+export const RiskBarChart: React.FC<RiskBarChartProps> = ({ groups, exposedLabel, controlLabel, axisLabel }) => {
+  // The axis stops at the next 10% above the highest upper limit, so small risks aren't squashed against 0
+  const highest = Math.max(...groups.flatMap(group => [group.exposed?.upper ?? 0, group.control?.upper ?? 0]), 0.01);
+  const axisMax = Math.min(1, Math.ceil(highest * 10) / 10);
+  const y = (v: number) => plotBottom - (v / axisMax) * plotHeight;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => f * axisMax);
+
+  const groupWidth = (plotRight - plotLeft) / groups.length;
+  const barWidth = Math.min(60, groupWidth / 3);
+
+  const bar = (estimate: IntervalEstimate | null, cx: number, color: string) => {
+    if (!estimate) return null;
+    return (
+      <g>
+        <rect x={cx - barWidth / 2} y={y(estimate.value)} width={barWidth} height={plotBottom - y(estimate.value)} fill={color} />
+        <line x1={cx} x2={cx} y1={y(estimate.lower)} y2={y(estimate.upper)} stroke="#0f172a" strokeWidth={1.5} />
+        <line x1={cx - 6} x2={cx + 6} y1={y(estimate.lower)} y2={y(estimate.lower)} stroke="#0f172a" strokeWidth={1.5} />
+        <line x1={cx - 6} x2={cx + 6} y1={y(estimate.upper)} y2={y(estimate.upper)} stroke="#0f172a" strokeWidth={1.5} />
+        <text x={cx} y={y(estimate.upper) - 6} textAnchor="middle" fontSize="11" fill="#334155">{`${(estimate.value * 100).toFixed(1)}%`}</text>
+      </g>
+    );
+  };
+
+  return (
+    <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" role="img" aria-label={axisLabel}>
+      <g>
+        <rect x={plotLeft} y={8} width={12} height={12} fill={colors.exposed} />
+        <text x={plotLeft + 18} y={18} fontSize="12" fill="#334155">{exposedLabel}</text>
+        <rect x={plotLeft + 180} y={8} width={12} height={12} fill={colors.control} />
+        <text x={plotLeft + 198} y={18} fontSize="12" fill="#334155">{controlLabel}</text>
+      </g>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={plotLeft} x2={plotRight} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+          <text x={plotLeft - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#64748b">{`${Number((tick * 100).toFixed(1))}%`}</text>
+        </g>
+      ))}
+      {groups.map((group, i) => {
+        const center = plotLeft + groupWidth * (i + 0.5);
+        return (
+          <g key={i}>
+            {bar(group.exposed, center - barWidth * 0.6, colors.exposed)}
+            {bar(group.control, center + barWidth * 0.6, colors.control)}
+            <text x={center} y={plotBottom + 16} textAnchor="middle" fontSize="12" fill="#334155">
+              {group.label.length > 20 ? `${group.label.slice(0, 19)}…` : group.label}
+            </text>
+          </g>
+        );
+      })}
+      <line x1={plotLeft} x2={plotRight} y1={plotBottom} y2={plotBottom} stroke="#64748b" />
+      <text x={14} y={(plotTop + plotBottom) / 2} textAnchor="middle" fontSize="12" fill="#334155" transform={`rotate(-90, 14, ${(plotTop + plotBottom) / 2})`}>{axisLabel}</text>
+    </svg>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useState, useCallback } from 'react';
+import type { AnalysisSettings, EffectMeasure, SampleSizeAssumptions, TestSidedness } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+import { InputControl } from './InputControl';
+import { exposedRiskFromEffect, calculateSampleSizePlan, calculatePowerForSampleSize } from '../statistics';
+
+interface SampleSizePlannerPageProps {
+  onBack: () => void;
+  language: Language;
+  analysisSettings: AnalysisSettings;
+}
+
+interface PlannerInputs {
+  controlRisk: string;
+  effectMeasure: EffectMeasure;
+  effectValue: string;
+  alpha: string;
+  power: string;
+  allocationRatio: string;
+  sidedness: TestSidedness;
+  continuityCorrection: boolean;
+  dropout: string;
+}
+
+interface PlannerResults {
+  assumptions: SampleSizeAssumptions;
+  control: number;
+  exposed: number;
+  controlEnrolled: number;
+  exposedEnrolled: number;
+  curve: { total: number; power: number }[];
+}
+
+const selectClassName = `w-full pl-3 pr-10 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                         transition duration-150 ease-in-out`;
+
+const effectMeasures: EffectMeasure[] = ['rr', 'rd', 'or'];
+
+// Power curve chart geometry
+const chartWidth = 560;
+const chartHeight = 260;
+const margin = { top: 16, right: 16, bottom: 44, left: 52 };
+const plotWidth = chartWidth - margin.left - margin.right;
+const plotHeight = chartHeight - margin.top - margin.bottom;
+
+export const SampleSizePlannerPage: React.FC<SampleSizePlannerPageProps> = ({ onBack, language, analysisSettings }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+
+  const [inputs, setInputs] = useState<PlannerInputs>({
+    controlRisk: '',
+    effectMeasure: 'rr',
+    effectValue: '',
+    alpha: String(analysisSettings.alpha),
+    power: '0.8',
+    allocationRatio: '1',
+    sidedness: analysisSettings.sidedness,
+    continuityCorrection: false,
+    dropout: '0',
+  });
+  const [results, setResults] = useState<PlannerResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setInputs(prev => ({ ...prev, [name]: value }));
+  }, []);
+
+  const handleCalculate = useCallback(() => {
+    setError(null);
+    setResults(null);
+
+    const controlRisk = parseFloat(inputs.controlRisk);
+    const effectValue = parseFloat(inputs.effectValue);
+    const alpha = parseFloat(inputs.alpha);
+    const power = parseFloat(inputs.power);
+    const allocationRatio = parseFloat(inputs.allocationRatio);
+    const dropout = parseFloat(inputs.dropout);
+
+    if (isNaN(controlRisk) || controlRisk <= 0 || controlRisk >= 1) {
+      setError(T.plannerErrorControlRisk);
+      return;
+    }
+    const exposedRisk = exposedRiskFromEffect(controlRisk, inputs.effectMeasure, effectValue);
+    if (isNaN(effectValue) || isNaN(exposedRisk) || exposedRisk <= 0 || exposedRisk >= 1 || exposedRisk === controlRisk) {
+      setError(T.plannerErrorEffect);
+      return;
+    }
+    if (isNaN(alpha) || alpha <= 0 || alpha >= 0.5) {
+      setError(T.plannerErrorAlpha);
+      return;
+    }
+    if (isNaN(power) || power <= alpha || power >= 1) {
+      setError(T.plannerErrorPower);
+      return;
+    }
+    if (isNaN(allocationRatio) || allocationRatio <= 0) {
+      setError(T.plannerErrorAllocation);
+      return;
+    }
+    if (isNaN(dropout) || dropout < 0 || dropout >= 100) {
+      setError(T.plannerErrorDropout);
+      return;
+    }
+
+    const assumptions: SampleSizeAssumptions = {
+      controlRisk,
+      exposedRisk,
+      alpha,
+      power,
+      allocationRatio,
+      sidedness: inputs.sidedness,
+      continuityCorrection: inputs.continuityCorrection,
+    };
+    const plan = calculateSampleSizePlan(assumptions);
+    if (!plan) {
+      setError(T.plannerErrorEffect);
+      return;
+    }
+
+    const retention = 1 - dropout / 100;
+    // The curve spans twice the required size so the point where power plateaus is visible
+    const maxControl = Math.max(4, plan.control * 2);
+    const steps = 60;
+    const curve = Array.from({ length: steps + 1 }, (_, i) => {
+      const nControl = Math.max(1, (maxControl * i) / steps);
+      return { total: nControl * (1 + allocationRatio), power: calculatePowerForSampleSize(assumptions, nControl) };
+    });
+
+    setResults({
+      assumptions,
+      control: plan.control,
+      exposed: plan.exposed,
+      controlEnrolled: Math.ceil(plan.control / retention),
+      exposedEnrolled: Math.ceil(plan.exposed / retention),
+      curve,
+    });
+  }, [inputs, T]);
+
+  const Footer = () => (
+      <footer className="bg-slate-100 border-t border-slate-200 mt-8">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 text-center text-xs text-slate-500">
+            <p><strong>{T.footerDisclaimer.split(':')[0]}:</strong> {T.footerDisclaimer.split(':')[1]}</p>
+            <p className="mt-2">Created by Vitalii Usenko © 2025</p>
+        </div>
+      </footer>
+  );
+
+  const renderPowerCurve = (planned: PlannerResults) => {
+    const maxTotal = planned.curve[planned.curve.length - 1].total;
+    const x = (total: number) => margin.left + (total / maxTotal) * plotWidth;
+    const y = (power: number) => margin.top + (1 - power) * plotHeight;
+    const path = planned.curve.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.total).toFixed(1)},${y(point.power).toFixed(1)}`).join(' ');
+    const requiredTotal = planned.control + planned.exposed;
+    const xTicks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(maxTotal * f));
+
+    return (
+      <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" role="img" aria-label={T.plannerPowerCurveTitle}>
+        {[0, 0.2, 0.4, 0.6, 0.8, 1].map(tick => (
+          <g key={tick}>
+            <line x1={margin.left} x2={margin.left + plotWidth} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+            <text x={margin.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#64748b">{`${tick * 100}%`}</text>
+          </g>
+        ))}
+        {xTicks.map(tick => (
+          <text key={tick} x={x(tick)} y={margin.top + plotHeight + 16} textAnchor="middle" fontSize="11" fill="#64748b">{tick}</text>
+        ))}
+        <line x1={margin.left} x2={margin.left + plotWidth} y1={y(planned.assumptions.power)} y2={y(planned.assumptions.power)} stroke="#16a34a" strokeDasharray="4 4" />
+        <line x1={x(requiredTotal)} x2={x(requiredTotal)} y1={margin.top} y2={margin.top + plotHeight} stroke="#16a34a" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" />
+        <circle cx={x(requiredTotal)} cy={y(planned.assumptions.power)} r="4" fill="#16a34a" />
+        <text x={margin.left + plotWidth / 2} y={chartHeight - 6} textAnchor="middle" fontSize="12" fill="#334155">{T.plannerSampleSizeAxis}</text>
+        <text x={14} y={margin.top + plotHeight / 2} textAnchor="middle" fontSize="12" fill="#334155" transform={`rotate(-90 14 ${margin.top + plotHeight / 2})`}>{T.plannerPowerAxis}</text>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 antialiased text-slate-800 font-sans">
+        <main className="flex-grow container mx-auto p-4 sm:p-6 lg:px-8">
+            <div className="max-w-4xl mx-auto">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-800">{T.plannerTitle}</h1>
+                    <p className="text-slate-500 mt-2">{T.plannerSubtitle}</p>
+                </div>
+                <div className="mt-6">
+                    <button
+                        onClick={onBack}
+                        className="w-full sm:w-auto inline-flex justify-center py-2.5 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                    >
+                        {T.backToCalculatorButton}
+                    </button>
+                </div>
+
+                <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="controlRisk" className="block text-sm font-medium text-slate-700">{T.plannerControlRisk}</label>
+                                <Tooltip text={tooltips.plannerControlRisk} />
+                            </div>
+                            <InputControl id="controlRisk" value={inputs.controlRisk} onChange={handleInputChange} placeholder="e.g., 0.20" />
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="effectMeasure" className="block text-sm font-medium text-slate-700">{T.plannerEffectMeasure}</label>
+                                <Tooltip text={tooltips.plannerEffect} />
+                            </div>
+                            <div className="flex gap-2">
+                                <select
+                                    id="effectMeasure"
+                                    value={inputs.effectMeasure}
+                                    onChange={(e) => setInputs(prev => ({ ...prev, effectMeasure: e.target.value as EffectMeasure }))}
+                                    className={selectClassName}
+                                >
+                                    {effectMeasures.map(measure => (
+                                        <option key={measure} value={measure}>{T.plannerEffectOptions[measure]}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="number"
+                                    id="effectValue"
+                                    name="effectValue"
+                                    value={inputs.effectValue}
+                                    onChange={handleInputChange}
+                                    placeholder={inputs.effectMeasure === 'rd' ? 'e.g., -0.05' : 'e.g., 0.75'}
+                                    aria-label={T.plannerEffectValue}
+                                    step="any"
+                                    className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
+                                               focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                                               transition duration-150 ease-in-out"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="alpha" className="block text-sm font-medium text-slate-700">{T.alphaLevel}</label>
+                                <Tooltip text={tooltips.alphaLevel} />
+                            </div>
+                            <InputControl id="alpha" value={inputs.alpha} onChange={handleInputChange} placeholder="e.g., 0.05" />
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="power" className="block text-sm font-medium text-slate-700">{T.plannerPower}</label>
+                                <Tooltip text={tooltips.plannerPower} />
+                            </div>
+                            <InputControl id="power" value={inputs.power} onChange={handleInputChange} placeholder="e.g., 0.80" />
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="allocationRatio" className="block text-sm font-medium text-slate-700">{T.plannerAllocation}</label>
+                                <Tooltip text={tooltips.plannerAllocation} />
+                            </div>
+                            <InputControl id="allocationRatio" value={inputs.allocationRatio} onChange={handleInputChange} placeholder="e.g., 1" />
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="sidedness" className="block text-sm font-medium text-slate-700">{T.testSidedness}</label>
+                                <Tooltip text={tooltips.testSidedness} />
+                            </div>
+                            <select
+                                id="sidedness"
+                                value={inputs.sidedness}
+                                onChange={(e) => setInputs(prev => ({ ...prev, sidedness: e.target.value as TestSidedness }))}
+                                className={selectClassName}
+                            >
+                                <option value="two-sided">{T.sidednessOptions['two-sided']}</option>
+                                <option value="one-sided">{T.sidednessOptions['one-sided']}</option>
+                            </select>
+                        </div>
+                        <div>
+                            <div className="flex items-center mb-1">
+                                <label htmlFor="dropout" className="block text-sm font-medium text-slate-700">{T.plannerDropout}</label>
+                                <Tooltip text={tooltips.plannerDropout} />
+                            </div>
+                            <InputControl id="dropout" value={inputs.dropout} onChange={handleInputChange} placeholder="e.g., 10" />
+                        </div>
+                        <div className="flex items-center sm:mt-6">
+                            <input
+                                type="checkbox"
+                                id="continuityCorrection"
+                                checked={inputs.continuityCorrection}
+                                onChange={(e) => setInputs(prev => ({ ...prev, continuityCorrection: e.target.checked }))}
+                                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            <label htmlFor="continuityCorrection" className="ml-2 block text-sm font-medium text-slate-700">{T.plannerContinuity}</label>
+                            <Tooltip text={tooltips.plannerContinuity} />
+                        </div>
+                    </div>
+
+                    {error && <div className="mt-4 text-red-600 bg-red-100 p-3 rounded-md text-sm">{error}</div>}
+                    <div className="mt-6">
+                        <button type="button" onClick={handleCalculate} className="w-full inline-flex justify-center py-2.5 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                            {T.calculateButton}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="mt-6 bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+                    <h2 className="text-xl font-semibold text-slate-800 mb-4 border-b pb-3">{T.plannerResultsTitle}</h2>
+                    {results ? (
+                        <div className="space-y-6">
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-left text-slate-600">
+                                    <thead className="text-xs text-slate-700 uppercase bg-slate-100">
+                                        <tr>
+                                            <th scope="col" className="px-4 py-2 rounded-l-lg">{T.metricHeader}</th>
+                                            <th scope="col" className="px-4 py-2">{T.plannerBeforeDropout}</th>
+                                            <th scope="col" className="px-4 py-2 rounded-r-lg">{T.plannerAfterDropout}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white">
+                                        <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium">{T.plannerExposedRisk}</th><td colSpan={2} className="px-4 py-3 font-mono">{results.assumptions.exposedRisk.toFixed(4)}</td></tr>
+                                        <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium">{T.plannerPerArmExposed}</th><td className="px-4 py-3 font-mono">{results.exposed}</td><td className="px-4 py-3 font-mono">{results.exposedEnrolled}</td></tr>
+                                        <tr className="border-b border-slate-200"><th scope="row" className="px-4 py-3 font-medium">{T.plannerPerArmControl}</th><td className="px-4 py-3 font-mono">{results.control}</td><td className="px-4 py-3 font-mono">{results.controlEnrolled}</td></tr>
+                                        <tr className="border-b border-slate-200 font-semibold text-blue-700"><th scope="row" className="px-4 py-3">{T.total}</th><td className="px-4 py-3 font-mono">{results.exposed + results.control}</td><td className="px-4 py-3 font-mono">{results.exposedEnrolled + results.controlEnrolled}</td></tr>
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div>
+                                <h3 className="font-semibold text-slate-700 mb-2">{T.plannerPowerCurveTitle}</h3>
+                                {renderPowerCurve(results)}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-slate-500 text-sm">{T.plannerPlaceholder}</p>
+                    )}
+                </div>
+            </div>
+        </main>
+        <Footer />
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import type { Inputs, LabelledTable } from '../types';
+import { translations, getTooltips, type Language } from '../i18n';
+import { Tooltip } from './Tooltip';
+
+interface TableListInputProps {
+  // 'strata' for a stratified analysis, 'studies' for a meta-analysis; only the wording differs
+  kind: 'strata' | 'studies';
+  tables: LabelledTable[];
+  onTablesChange: (tables: LabelledTable[]) => void;
+  language: Language;
+}
+
+const cells: (keyof Inputs)[] = ['a', 'b', 'c', 'd'];
+
+export const createEmptyTable = (): LabelledTable => ({ label: '', inputs: { a: '', b: '', c: '', d: '' } });
+
+export const TableListInput: React.FC<TableListInputProps> = ({ kind, tables, onTablesChange, language }) => {
+  const T = translations[language];
+  const tooltips = getTooltips(language);
+  const text = kind === 'strata'
+    ? { title: T.strataTitle, description: T.strataDescription, name: T.stratumName, defaultName: T.stratumDefaultName, add: T.addStratum, tooltip: tooltips.stratifiedAnalysis }
+    : { title: T.studiesTitle, description: T.studiesDescription, name: T.studyName, defaultName: T.studyDefaultName, add: T.addStudy, tooltip: tooltips.metaAnalysis };
+
+  const cellTooltips: Record<keyof Inputs, string> = {
+    a: tooltips.positiveOutcomeA,
+    b: tooltips.negativeOutcomeB,
+    c: tooltips.positiveOutcomeC,
+    d: tooltips.negativeOutcomeD,
+  };
+
+  const updateTable = (index: number, table: LabelledTable) => {
+    onTablesChange(tables.map((t, i) => (i === index ? table : t)));
+  };
+
+  const removeTable = (index: number) => {
+    onTablesChange(tables.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-slate-50">
+      <div className="flex items-center mb-2">
+        <h3 className="font-semibold text-lg text-slate-700">{text.title}</h3>
+        <Tooltip text={text.tooltip} />
+      </div>
+      <p className="text-sm text-slate-600 mb-4">{text.description}</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 bg-slate-100">
+            <tr>
+              <th scope="col" className="px-2 py-2 rounded-l-lg">{text.name}</th>
+              {cells.map(cell => (
+                <th key={cell} scope="col" className="px-2 py-2">
+                  <div className="flex items-center"><span>{cell}</span><Tooltip text={cellTooltips[cell]} /></div>
+                </th>
+              ))}
+              <th scope="col" className="px-2 py-2 rounded-r-lg"><span className="sr-only">{T.removeTable}</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tables.map((table, index) => (
+              <tr key={index} className="border-b border-slate-200">
+                <td className="px-2 py-2">
+                  <input
+                    type="text"
+                    aria-label={text.name}
+                    value={table.label}
+                    onChange={(e) => updateTable(index, { ...table, label: e.target.value })}
+                    placeholder={text.defaultName(index + 1)}
+                    className="w-full min-w-[7rem] px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400
+                               focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </td>
+                {cells.map(cell => (
+                  <td key={cell} className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      aria-label={`${text.defaultName(index + 1)}: ${cell}`}
+                      value={table.inputs[cell]}
+                      onChange={(e) => updateTable(index, { ...table, inputs: { ...table.inputs, [cell]: e.target.value } })}
+                      className="w-full min-w-[4.5rem] px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </td>
+                ))}
+                <td className="px-2 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeTable(index)}
+                    disabled={tables.length <= 2}
+                    className="text-sm font-medium text-red-600 hover:text-red-800 disabled:text-slate-300 disabled:cursor-not-allowed"
+                  >
+                    {T.removeTable}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        type="button"
+        onClick={() => onTablesChange([...tables, createEmptyTable()])}
+        className="mt-4 inline-flex items-center px-3 py-1.5 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+      >
+        {text.add}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+// One record of a delimited file, with the line it starts on so errors can point at the file
+export interface DelimitedRecord {
+  line: number;
+  cells: string[];
+}
+
+// Tab-separated when the header has tabs; semicolons are accepted for spreadsheets that use a decimal comma
+const detectDelimiter = (headerLine: string) => {
+  if (headerLine.includes('\t')) return '\t';
+  return headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+};
+
+// Splits delimited text into records, honouring double-quoted cells with embedded delimiters, quotes and line breaks.
+// Blank lines are skipped.
+const parseDelimited = (text: string, delimiter: string): DelimitedRecord[] => {
+  const records: DelimitedRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+  return records;
+};
+
+// Reads a CSV or TSV file as exported by spreadsheets; the first record is the header
+export const parseDelimitedText = (text: string): DelimitedRecord[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  return parseDelimited(content, detectDelimiter(content.split(/\r?\n/, 1)[0]));
+};
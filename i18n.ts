@@ -1,6 +1,8 @@
 
+import type { RiskDifferenceCiMethod, RelativeRiskCiMethod, OddsRatioCiMethod } from './types';
+
 export type Language = 'en' | 'uk' | 'ru';
-export type StudyDesign = 'rct' | 'non-rct' | 'cohort-prospective' | 'cohort-retrospective' | 'case-control';
+export type StudyDesign = 'rct' | 'non-rct' | 'cohort-prospective' | 'cohort-retrospective' | 'case-control' | 'matched-case-control' | 'diagnostic-accuracy';
 export type StudyGoal = 'desirable' | 'undesirable';
 
 export const languageName: Record<Language, string> = {
@@ -9,27 +11,40 @@ export const languageName: Record<Language, string> = {
     ru: 'Russian'
 };
 
+// Locale used to format dates and times for each interface language
+export const dateLocales: Record<Language, string> = {
+    en: 'en-GB',
+    uk: 'uk-UA',
+    ru: 'ru-RU'
+};
+
 export const studyDesignLabels: Record<Language, Record<StudyDesign, string>> = {
     en: {
         'rct': 'Randomized Controlled Trial (RCT)',
         'non-rct': 'Non-Randomized Controlled Trial',
         'cohort-prospective': 'Prospective Cohort Study',
         'cohort-retrospective': 'Retrospective Cohort Study',
-        'case-control': 'Case-Control Study'
+        'case-control': 'Case-Control Study',
+        'matched-case-control': 'Matched Case-Control Study (1:1 pairs)',
+        'diagnostic-accuracy': 'Diagnostic Accuracy Study'
     },
     uk: {
         'rct': 'Рандомізоване контрольоване дослідження (РКД)',
         'non-rct': 'Нерандомізоване контрольоване дослідження',
         'cohort-prospective': 'Проспективне когортне дослідження',
         'cohort-retrospective': 'Ретроспективне когортне дослідження',
-        'case-control': 'Дослідження випадок-контроль'
+        'case-control': 'Дослідження випадок-контроль',
+        'matched-case-control': 'Парне дослідження випадок-контроль (пари 1:1)',
+        'diagnostic-accuracy': 'Дослідження діагностичної точності'
     },
     ru: {
         'rct': 'Рандомизированное контролируемое исследование (РКИ)',
         'non-rct': 'Нерандомизированное контролируемое исследование',
         'cohort-prospective': 'Проспективное когортное исследование',
         'cohort-retrospective': 'Ретроспективное когортное исследование',
-        'case-control': 'Исследование случай-контроль'
+        'case-control': 'Исследование случай-контроль',
+        'matched-case-control': 'Парное исследование случай-контроль (пары 1:1)',
+        'diagnostic-accuracy': 'Исследование диагностической точности'
     }
 };
 
@@ -48,12 +63,176 @@ export const studyGoalLabels: Record<Language, Record<StudyGoal, string>> = {
     }
 };
 
+export const ciMethodLabels: Record<Language, {
+    riskDifference: Record<RiskDifferenceCiMethod, string>;
+    relativeRisk: Record<RelativeRiskCiMethod, string>;
+    oddsRatio: Record<OddsRatioCiMethod, string>;
+}> = {
+    en: {
+        riskDifference: {
+            'wald': 'Wald',
+            'newcombe': 'Newcombe hybrid score (Wilson)',
+            'miettinen-nurminen': 'Miettinen–Nurminen score'
+        },
+        relativeRisk: {
+            'wald': 'Wald (log scale)',
+            'koopman': 'Koopman score'
+        },
+        oddsRatio: {
+            'wald': 'Wald (log scale, Woolf)',
+            'exact': 'Exact conditional (Cornfield)'
+        }
+    },
+    uk: {
+        riskDifference: {
+            'wald': 'Вальда',
+            'newcombe': 'Гібридний метод Ньюкомба (Вілсона)',
+            'miettinen-nurminen': 'Скоровий метод Міеттінена–Нурмінена'
+        },
+        relativeRisk: {
+            'wald': 'Вальда (логарифмічна шкала)',
+            'koopman': 'Скоровий метод Купмана'
+        },
+        oddsRatio: {
+            'wald': 'Вальда (логарифмічна шкала, Вулф)',
+            'exact': 'Точний умовний (Корнфілд)'
+        }
+    },
+    ru: {
+        riskDifference: {
+            'wald': 'Вальда',
+            'newcombe': 'Гибридный метод Ньюкомба (Уилсона)',
+            'miettinen-nurminen': 'Скоровый метод Миеттинена–Нурминена'
+        },
+        relativeRisk: {
+            'wald': 'Вальда (логарифмическая шкала)',
+            'koopman': 'Скоровый метод Купмана'
+        },
+        oddsRatio: {
+            'wald': 'Вальда (логарифмическая шкала, Вулф)',
+            'exact': 'Точный условный (Корнфилд)'
+        }
+    }
+};
+
 export const translations: Record<Language, any> = {
     en: {
         // App.tsx
         headerTitle: "Health Outcomes Navigator",
         headerSubtitle: "Epidemiological 2x2 Contingency Table Analysis",
         howToUseButton: "How to Use This Tool",
+        plannerButton: "Sample Size Planner",
+        libraryButton: "Saved Analyses",
+        libraryTitle: "Saved Analyses",
+        librarySubtitle: "Keep named analyses with their results and AI text, and reopen them later.",
+        librarySaveTitle: "Save Current Analysis",
+        libraryNameLabel: "Analysis name",
+        librarySaveButton: "Save",
+        libraryNothingToSave: "Calculate results on the calculator page to save them here.",
+        librarySaved: (name: string) => `Saved "${name}".`,
+        libraryDeleted: (name: string) => `Deleted "${name}".`,
+        libraryDeleteConfirm: (name: string) => `Delete "${name}" from the library? This cannot be undone.`,
+        libraryDuplicateName: (name: string) => `${name} (copy)`,
+        librarySearchPlaceholder: "Search by name, design or analysis type",
+        libraryExportButton: "Export Library",
+        libraryImportButton: "Import Library",
+        libraryImported: (count: number) => `Imported ${count} analyses.`,
+        libraryImportError: "This file is not an exported analysis library.",
+        libraryStorageError: "The library could not be saved in this browser. Storage may be full or disabled.",
+        libraryStorageNote: "Analyses are stored only in this browser. Export the library to back it up or move it to another device.",
+        libraryEmpty: "No saved analyses yet.",
+        libraryNoMatches: "No saved analyses match your search.",
+        librarySavedAt: (date: string) => `Saved ${date}`,
+        libraryHasAiText: "includes AI text",
+        libraryOpenButton: "Open",
+        libraryDuplicateButton: "Duplicate",
+        libraryDeleteButton: "Delete",
+        comparisonButton: "Compare Analyses",
+        comparisonTitle: "Compare Analyses",
+        comparisonSubtitle: "Put two or more analyses side by side and test whether their effect estimates differ.",
+        comparisonSelectTitle: "Analyses to Compare",
+        comparisonSelectHint: "Select at least two. The first one selected is the reference the others are compared with. Save analyses in the library to compare them here.",
+        comparisonNothingAvailable: "There is nothing to compare yet. Calculate results or save analyses in the library first.",
+        comparisonCurrentAnalysis: "Current analysis (unsaved)",
+        comparisonReference: "Reference",
+        comparisonMakeReference: "Use as reference",
+        comparisonMetric: "Metric",
+        comparisonEstimateSource: "Estimate used",
+        comparisonParticipants: "Participants",
+        comparisonHighlightNote: "Highlighted estimates differ significantly from the reference (test of interaction), or have an NNT where the reference has an NNH and vice versa. Pooled estimates are used for meta-analyses and Mantel–Haenszel adjusted estimates for stratified analyses.",
+        comparisonTestsTitle: "Difference from the Reference",
+        comparisonRatioOfRelativeRisks: "Ratio of relative risks",
+        comparisonRatioOfOddsRatios: "Ratio of odds ratios",
+        comparisonDifferenceOfRiskDifferences: "Difference in risk differences",
+        comparisonVersus: (analysis: string, reference: string) => `${analysis} vs ${reference}`,
+        comparisonEstimate: "Estimate",
+        comparisonPValue: "P-value",
+        comparisonTestNote: "Each standard error is recovered from the confidence interval, which is exact for Wald intervals and approximate for score or exact ones. The test assumes the analyses come from independent samples.",
+        comparisonAiTitle: "AI Comparative Interpretation",
+        comparisonAiButton: "Generate Comparison",
+        comparisonAiLoading: "Generating...",
+        comparisonAiError: "The comparative interpretation could not be generated. Please try again.",
+        batchButton: "Batch",
+        batchTitle: "Batch Analysis",
+        batchSubtitle: "Import many 2x2 tables from a CSV or TSV file, check each row, compare the results in one table and export them together.",
+        batchFileTitle: "Data File",
+        batchFormatHint: "The first line must name the columns label, a, b, c and d. The optional design and goal columns override the defaults below for that row and accept either the key or the label shown in the calculator. Diagnostic accuracy and matched case-control tables are not supported.",
+        batchChooseFile: "Choose File",
+        batchDefaultDesign: "Default study design",
+        batchDefaultGoal: "Default study goal",
+        batchGoalPlaceholder: "-- Please select a goal --",
+        batchSummary: (ok: number, errors: number) => `${ok} ${ok === 1 ? 'table' : 'tables'} calculated, ${errors} with errors.`,
+        batchLine: "Line",
+        batchLabel: "Label",
+        batchFisher: "Fisher's exact",
+        batchStatus: "Status",
+        batchOk: "OK",
+        batchTableNote: (ciLabel: string) => `Estimates are shown with their ${ciLabel}. Click a column heading to sort; rows without a value are listed last.`,
+        batchAiColumn: "AI interpretation",
+        batchAiHint: "AI text is generated only for the rows you tick, one request per row.",
+        batchAiRequest: "Include",
+        batchAiGenerate: (count: number) => `Generate AI Text (${count})`,
+        batchAiProgress: (done: number, total: number) => `Generating ${done} of ${total}...`,
+        batchAiShow: "Show text",
+        batchAiError: "The interpretation could not be generated.",
+        batchErrorEmptyFile: "The file contains no data rows.",
+        batchErrorMissingColumns: (columns: string) => `The header is missing the required columns: ${columns}.`,
+        batchErrorCount: (column: string, value: string) => `Cell ${column} must be a whole number, not "${value}".`,
+        batchErrorDesign: (value: string) => `Unknown study design "${value}".`,
+        batchErrorUnsupportedDesign: (design: string) => `The batch import does not support the "${design}" design; analyse such tables on the calculator page.`,
+        batchErrorGoal: (value: string) => `Unknown study goal "${value}".`,
+        batchDefaultLabel: (line: number) => `Line ${line}`,
+        individualTitle: "Import Individual-Level Data",
+        individualDescription: "Build the table from a CSV or TSV file with one row per participant. Choose the exposure and outcome columns, decide which values count as exposed and with the outcome, and optionally stratify by a third column.",
+        individualChooseFile: "Choose File",
+        individualErrorFile: "The file needs a header row and at least one data row.",
+        individualFileSummary: (fileName: string, rows: number, columns: number) => `${fileName}: ${rows} rows, ${columns} columns.`,
+        individualUnnamedColumn: (position: number) => `Column ${position}`,
+        individualExposureColumn: "Exposure column",
+        individualOutcomeColumn: "Outcome column",
+        individualStratumColumn: "Stratification column (optional)",
+        individualColumnPlaceholder: "-- Select a column --",
+        individualNoStratum: "None",
+        individualValuesTitle: (column: string) => `Values of ${column}`,
+        individualValueHeader: "Value",
+        individualCountHeader: "Rows",
+        individualRoleHeader: "Counts as",
+        individualRoles: {
+            exposure: { positive: "Exposed", negative: "Not exposed" },
+            outcome: { positive: "With outcome", negative: "Without outcome" }
+        },
+        individualRoleUnmapped: "Unmapped (excluded)",
+        individualMoreValues: (count: number) => `${count} more values are not listed and stay unmapped.`,
+        individualPreviewTitle: "Tallied Table",
+        individualRowsUsed: (used: number, total: number) => `${used} of ${total} rows used.`,
+        individualStrataCount: (count: number) => `${count} strata.`,
+        individualMissingValues: (column: string, count: number) => `${count} rows with a missing ${column} value.`,
+        individualUnmappedValues: (column: string, values: string) => `Unmapped ${column} values: ${values}.`,
+        individualApplyButton: "Use These Counts",
+        individualProvenanceTitle: "Data source",
+        individualProvenanceSource: (fileName: string, used: number, total: number) => `Tallied from ${fileName}; ${used} of ${total} rows used.`,
+        individualProvenanceVariable: (role: string, column: string, values: string) => `${role}: ${column} = ${values}.`,
+        individualProvenanceStrata: (column: string, count: number) => `Stratified by ${column} (${count} strata).`,
         setupAnalysisTitle: "Set Up Your Analysis",
         step1Title: "1. Define Your Study's Goal",
         step1Description: "What kind of outcome are you analyzing? This choice is crucial for correct terminology and AI interpretation.",
@@ -65,10 +244,10 @@ export const translations: Record<Language, any> = {
         studyDesignPlaceholder: "-- Please select a design --",
         step3Title: "3. Select AI Model",
         step3Description: "Choose a model to balance speed and analytical depth for your reports.",
-        geminiFlash: "Gemini 2.5 Flash",
-        geminiFlashDesc: "(Faster, for general use)",
-        geminiPro: "Gemini 2.5 Pro",
-        geminiProDesc: "(Advanced, for deeper analysis)",
+        aiProviderLabel: "Provider",
+        aiProviderNames: { gemini: "Google Gemini", 'openai-compatible': "OpenAI-compatible server", mock: "Offline mock (for testing)", invalid: "Not configured" },
+        aiModelsLoading: "Loading the available models...",
+        aiModelsError: "The available models could not be loaded from the AI provider.",
         step4Title: "4. Exposed Group",
         total: "Total",
         withOutcomeA: "With Outcome (a)",
@@ -76,6 +255,18 @@ export const translations: Record<Language, any> = {
         step5Title: "5. Control Group (Unexposed)",
         withOutcomeC: "With Outcome (c)",
         withoutOutcomeD: "Without Outcome (d)",
+        settingsTitle: "Advanced Statistical Settings (optional)",
+        settingsDescription: "Choose the significance level, confidence level and how confidence intervals are calculated. The defaults reproduce the classic two-sided α = 0.05 analysis with 95% Wald intervals; score and exact methods are more accurate for small samples and risks close to 0 or 1.",
+        ciMethodRiskDifference: "Risk difference CI",
+        ciMethodRelativeRisk: "Relative risk CI",
+        ciMethodOddsRatio: "Odds ratio CI",
+        alphaLevel: "Significance level (α)",
+        testSidedness: "Test sidedness",
+        sidednessOptions: {
+            'two-sided': "Two-sided",
+            'one-sided': "One-sided"
+        },
+        confidenceLevel: "Confidence level",
         errorStudyGoal: "Please define your study's goal before calculating.",
         errorStudyDesign: "Please select your study design before calculating.",
         errorInvalidNumber: (key: string) => `Please enter a valid non-negative number for '${key}'.`,
@@ -98,11 +289,218 @@ export const translations: Record<Language, any> = {
         absRiskControl: "Absolute Risk (Control)",
         assocMeasuresHeader: "Measures of Association",
         relativeRisk: "Relative risk",
-        ci95: "95% CI",
+        ciLabel: (level: string) => `${level}% CI`,
         zStatistic: "Z-statistic",
         significanceLevel: "Significance level",
         notCalculable: "Not Calculable",
         oddsRatio: "Odds ratio",
+        ciMethod: "Method",
+        conditionalMleOr: "Conditional MLE odds ratio",
+        strataTitle: "4. Stratum Tables",
+        strataDescription: "For each stratum, enter the exposed group with (a) and without (b) the outcome and the control group with (c) and without (d) the outcome. Crude results are calculated from the pooled table.",
+        stratumName: "Stratum",
+        stratumDefaultName: (index: number) => `Stratum ${index}`,
+        addStratum: "+ Add stratum",
+        removeTable: "Remove",
+        errorStrataCount: "A stratified analysis needs at least two strata.",
+        errorTableCellInvalid: (label: string, key: string) => `Please enter a valid non-negative number for '${key}' in ${label}.`,
+        stratifiedHeader: "Stratified Analysis (Mantel–Haenszel)",
+        mhRelativeRisk: "Adjusted Relative Risk (MH)",
+        mhOddsRatio: "Adjusted Odds Ratio (MH)",
+        mhRiskDifference: "Adjusted Risk Difference (MH)",
+        crudeEstimate: "Crude",
+        mantelHaenszelEstimate: "Mantel–Haenszel adjusted",
+        crudeVsAdjusted: "Change from Crude to Adjusted",
+        mantelHaenszelTest: "Mantel–Haenszel Chi-square",
+        breslowDayTest: "Breslow–Day Homogeneity Test",
+        taroneTest: "Breslow–Day Test (Tarone-corrected)",
+        confoundingWarning: "The adjusted estimate differs from the crude estimate by more than 10%, which suggests confounding by the stratification variable. Report the adjusted estimate.",
+        effectModificationWarning: "The homogeneity test is significant: the odds ratio differs across strata, which suggests effect modification. Report the stratum-specific estimates rather than a single pooled estimate.",
+        analysisModeTitle: "Analysis Type",
+        analysisModeOptions: { single: "Single 2x2 table", stratified: "Stratified analysis", meta: "Meta-analysis", incidenceRate: "Incidence rates (person-time)" },
+        analysisModeExamples: { single: "(one study)", stratified: "(one study split by e.g. age band or site)", meta: "(several studies of the same exposure and outcome)", incidenceRate: "(events over person-years of follow-up)" },
+        studiesTitle: "4. Study Tables",
+        studiesDescription: "For each study, enter the exposed group with (a) and without (b) the outcome and the control group with (c) and without (d) the outcome. The studies are pooled, not summed into one table.",
+        studyName: "Study",
+        studyDefaultName: (index: number) => `Study ${index}`,
+        addStudy: "+ Add study",
+        errorStudiesCount: "A meta-analysis needs at least two studies.",
+        metaNotEnoughStudies: "At least two studies must carry information about the outcome to pool them.",
+        metaPooledHeader: (measure: string) => `Pooled ${measure}`,
+        metaFixedInverseVariance: "Fixed Effect (Inverse Variance)",
+        metaFixedMantelHaenszel: "Fixed Effect (Mantel–Haenszel)",
+        metaRandomEffects: "Random Effects (DerSimonian–Laird)",
+        metaHeterogeneityHeader: "Heterogeneity",
+        metaCochranQ: "Cochran's Q",
+        metaHeterogeneityWarning: "I² is above 50%, which indicates substantial heterogeneity between studies. Prefer the random-effects estimate and look for clinical or methodological differences that could explain it.",
+        forestPlotTitle: "Forest Plot",
+        forestPlotNote: "Squares show study estimates sized by random-effects weight, with horizontal lines for their confidence intervals; diamonds show the pooled estimates. Weights are shown on the right.",
+        metaFixedEffectShort: "Fixed effect (IV)",
+        metaRandomEffectsShort: "Random effects (DL)",
+        metaStudyExcluded: "Not estimable (excluded)",
+        personTimeTitle: "Person-Time Data",
+        personTimeDescription: "For each group, enter the number of events and the total follow-up time contributed by all participants (e.g., 100 people followed for 2 years contribute 200 person-years).",
+        personTimeUnitLabel: "Unit of person-time",
+        personTimeUnits: { years: "person-years", months: "person-months", days: "person-days" },
+        eventsLabel: "Events",
+        personTimeLabel: (unit: string) => `Person-time (${unit})`,
+        errorEventsInvalid: "Please enter the number of events in each group as a whole number of 0 or more.",
+        errorPersonTimeInvalid: "Please enter a person-time greater than 0 for each group.",
+        incidenceRatesHeader: (unit: string) => `Incidence Rates (per 1,000 ${unit})`,
+        rateExposed: "Incidence Rate (Exposed)",
+        rateControl: "Incidence Rate (Control)",
+        rateRatio: "Incidence Rate Ratio (IRR)",
+        rateRatioExactTest: "Exact Test (two-sided)",
+        rateRatioMidP: "Exact Test Mid-P",
+        rateDifference: (unit: string) => `Rate Difference (per 1,000 ${unit})`,
+        nntPersonTime: (value: string, unit: string) => `${value} ${unit}`,
+        diagnosticGrid: {
+            step4Title: "4. Test Positive",
+            step5Title: "5. Test Negative",
+            a: "Disease Present (a, true positives)",
+            b: "Disease Absent (b, false positives)",
+            c: "Disease Present (c, false negatives)",
+            d: "Disease Absent (d, true negatives)",
+        },
+        diagnosticTestCharacteristicsHeader: "Test Characteristics",
+        sensitivity: "Sensitivity",
+        specificity: "Specificity",
+        youdenIndex: "Youden's Index (J)",
+        likelihoodRatiosHeader: "Likelihood Ratios",
+        lrPositive: "Positive Likelihood Ratio (LR+)",
+        lrNegative: "Negative Likelihood Ratio (LR−)",
+        diagnosticOddsRatio: "Diagnostic Odds Ratio (DOR)",
+        predictiveValuesHeader: (prevalence: string) => `Predictive Values at ${prevalence}% Prevalence`,
+        ppv: "Positive Predictive Value (PPV)",
+        npv: "Negative Predictive Value (NPV)",
+        targetPrevalenceLabel: "Prevalence in your setting (%)",
+        targetPrevalenceNote: "Leave blank to use the prevalence in the study sample. Predictive values for another prevalence are recalculated from the likelihood ratios.",
+        matchedPairsGrid: {
+            step4Title: "4. Pairs with an Exposed Case",
+            step5Title: "5. Pairs with an Unexposed Case",
+            a: "Control Exposed (a)",
+            b: "Control Unexposed (b)",
+            c: "Control Exposed (c)",
+            d: "Control Unexposed (d)",
+        },
+        matchedPairsHeader: "Matched Pairs",
+        totalPairs: "Number of Pairs",
+        discordantPairs: "Discordant Pairs",
+        conditionalOddsRatio: "Conditional (Matched) Odds Ratio",
+        pairedRiskDifference: "Difference in Proportion Exposed (Cases − Controls)",
+        mcnemarTest: "McNemar's Test",
+        mcnemarExact: "McNemar's Exact Test (two-sided)",
+        mcnemarExactMidP: "McNemar's Exact Test Mid-P",
+        mcnemarChiSquare: "McNemar's Chi-square",
+        mcnemarCorrected: "McNemar's Chi-square (continuity-corrected)",
+        attributableFractionsHeader: "Attributable Fractions",
+        preventedFractionsHeader: "Prevented Fractions",
+        attributableFractionExposed: "Attributable Fraction among the Exposed (AFe)",
+        preventedFractionExposed: "Prevented Fraction among the Exposed (PFe)",
+        populationAttributableFraction: "Population Attributable Fraction (Levin)",
+        populationPreventedFraction: "Population Prevented Fraction (PFp)",
+        caseBasedAttributableFraction: "Population Attributable Fraction (Miettinen, case-based)",
+        fractionBasedOn: (measure: string) => `Based on the ${measure}`,
+        exposurePrevalenceUsed: (value: string, source: 'input' | 'sample') => `Exposure prevalence ${value}% (${source === 'input' ? 'entered' : 'from the sample'})`,
+        exposurePrevalenceLabel: "Exposure Prevalence in the Population (%)",
+        exposurePrevalenceNote: "Leave blank to use the exposure prevalence observed in the study (in the controls for a case-control study).",
+        bayesianTitle: "Bayesian Analysis",
+        bayesianDescription: "Combines a prior belief about each group's risk with the data to give the probability that the exposure actually helps or harms, which p-values cannot provide.",
+        priorLabel: "Prior",
+        priorPresets: {
+            uniform: "Uniform (non-informative)",
+            skeptical: "Skeptical (no effect)",
+            enthusiastic: "Enthusiastic (expects benefit)",
+            custom: "Custom",
+        },
+        rdThresholdLabel: "Meaningful Risk Difference (percentage points)",
+        rrThresholdLabel: "Meaningful Relative Risk (ratio ≥ 1)",
+        priorParameter: (group: string, parameter: string) => `${group}: prior ${parameter}`,
+        priorsAndPosteriorsHeader: "Prior → Posterior Risk",
+        credibleIntervalLabel: (level: string) => `${level}% Credible Interval`,
+        posteriorMedian: "Posterior Median",
+        probabilityOfBenefit: "Probability of Any Benefit",
+        probabilityOfHarm: "Probability of Any Harm",
+        probabilityBenefitBeyond: (threshold: string) => `Probability of Benefit beyond ${threshold}`,
+        probabilityHarmBeyond: (threshold: string) => `Probability of Harm beyond ${threshold}`,
+        posteriorDensityTitle: (measure: string) => `Posterior Distribution: ${measure}`,
+        logScale: "log scale",
+        bayesianSamplingNote: "Summaries are based on 20,000 draws from the posterior distributions (fixed random seed, so results are reproducible). The shaded area is the credible interval; dashed orange lines mark the meaningful thresholds.",
+        errorPriorInvalid: "Enter prior parameters greater than 0 for both groups.",
+        groupNames: { exposed: "Exposed group", control: "Control group" },
+        fragilityIndex: "Fragility Index",
+        reverseFragilityIndex: "Reverse Fragility Index",
+        fragilityDetail: (group: 'exposed' | 'control', quotient: string) => `Outcomes changed in the ${group} group · Fragility quotient ${quotient}`,
+        fragilityNotReachable: "Not reachable by changing outcomes in one group",
+        confoundingSensitivityHeader: "Sensitivity to Confounding",
+        eValuePoint: (measure: string) => `E-value (${measure})`,
+        eValueLimit: "E-value for the CI Limit Closest to 1",
+        eValueAdjusted: "Mantel–Haenszel adjusted",
+        chartsHeader: "Charts",
+        effectEstimateChartTitle: (ci: string) => `Effect Estimates with ${ci}`,
+        riskBarChartTitle: (ci: string) => `Absolute Risk by Group with ${ci}`,
+        ratioAxisLabel: "Ratio",
+        absoluteRiskAxisLabel: "Absolute risk",
+        exportSvg: "Download SVG",
+        exportPng: "Download PNG",
+        exportPngError: "The chart could not be converted to PNG. Try downloading it as SVG instead.",
+        iconArrayTitle: (total: number) => `What This Means for ${total} People`,
+        iconArrayDescription: "Each icon is one person. The two groups are drawn with the same number of people, so the difference in coloured icons is the difference in risk.",
+        iconArrayScaleLabel: "People per group",
+        iconArrayGroupCaption: (group: string, events: number, total: number) => `${group}: ${events} of ${total} had the outcome`,
+        iconArrayMore: (count: number, total: number) => `${count} more out of every ${total} people in the exposed group had the outcome.`,
+        iconArrayFewer: (count: number, total: number) => `${count} fewer out of every ${total} people in the exposed group had the outcome.`,
+        iconArrayNoDifference: "At this scale, the two groups have the same number of people with the outcome.",
+        iconArrayNnt: (count: number) => `On average, about ${count} people need to be exposed for one more person to benefit (NNT).`,
+        iconArrayNnh: (count: number) => `On average, for about every ${count} people exposed, one more person is harmed (NNH).`,
+        iconArrayLegendOutcome: "Had the outcome",
+        iconArrayLegendExtra: "Extra cases in the exposed group",
+        iconArrayLegendAvoided: "Cases avoided in the exposed group",
+        iconArrayLegendNone: "Did not have the outcome",
+        iconArrayRoundingNote: "Icons are rounded to whole people, so the picture can differ slightly from the exact risks in the results table.",
+        printButton: "Print",
+        printReportButton: "Printable Report",
+        copyLinkButton: "Copy link",
+        linkCopied: "Link copied",
+        errorShareLinkInvalid: "The shared link is damaged or incomplete, so the analysis could not be restored.",
+        errorShareLinkVersion: "The shared link was created by a newer version of this calculator and cannot be opened here.",
+        errorCopyLink: "The link could not be copied. Please copy it from the address bar instead.",
+        printReportTitle: "Risk Analysis Report",
+        printReportGenerated: (date: string) => `Generated ${date}`,
+        printReportSetup: "Study Setup",
+        printReportNoAiText: "No AI interpretation or summary was generated for these results. Generate them from the results panel to include them in the report.",
+        savePdfButton: "Print / Save as PDF",
+        savePdfHint: "Choose “Save as PDF” as the printer in your browser's print dialog. The report is created in the browser, so this works offline.",
+        exportButton: "Export ▾",
+        exportFormats: { csv: "CSV (spreadsheet)", json: "JSON (full data)", markdown: "Markdown table" },
+        exportAnalysisSection: "Analysis",
+        exportInputSection: "Input Data",
+        exportLanguage: "Language",
+        exportSection: "Section",
+        exportValue: "Value",
+        exportLower: "lower",
+        exportUpper: "upper",
+        exportPValue: "P-value",
+        exportNote: "Note",
+        eValueApproximations: {
+            'none': "",
+            'rare-outcome': "OR taken as RR (rare outcome)",
+            'common-outcome': "RR ≈ √OR (common outcome)",
+        },
+        significanceTestsHeader: "Tests of Significance",
+        fisherExactTwoSided: "Fisher's exact test (two-sided)",
+        fisherExactMidP: "Fisher's exact test (mid-p)",
+        pearsonChiSquare: "Pearson chi-square",
+        yatesChiSquare: "Chi-square with Yates' correction",
+        likelihoodRatioG: "Likelihood-ratio G test",
+        expectedCounts: "Expected cell counts",
+        recommendedTest: "Recommended test",
+        recommendedTestOptions: {
+            fisher: "Fisher's exact test",
+            yates: "Chi-square with Yates' correction",
+            pearson: "Pearson chi-square"
+        },
+        smallExpectedWarning: "At least one expected cell count is below 5. The chi-square approximations (Pearson, Yates, G) are unreliable for this table; use Fisher's exact test.",
         impactMeasuresHeader: "Measures of Impact",
         riskDifference: "Risk Difference",
         nntHeader: "NNT / NNH",
@@ -114,6 +512,10 @@ export const translations: Record<Language, any> = {
         type1Error: "Type I Error Rate (α)",
         statPower: "Statistical Power (Post-Hoc)",
         type2Error: "Type II Error Rate (β)",
+        exposureInControls: "Exposure Prevalence in Controls",
+        controlsPerCase: "Controls per Case",
+        caseControlSampleSize: "Required Sample for 80% Power",
+        casesAndControls: (cases: number, controls: number) => `${cases} cases + ${controls} controls`,
         resultsPlaceholderTitle: "Results will be displayed here after calculation.",
         resultsPlaceholderDesc: "Select a study goal and design, then enter values to begin.",
         footerDisclaimer: "Disclaimer: This tool is for educational and informational purposes only and does not constitute medical advice. Consult with a qualified healthcare professional for medical guidance.",
@@ -181,6 +583,38 @@ export const translations: Record<Language, any> = {
         aiFullReportTitle: "AI Full Report",
         aiFullReportSubtitle: "A detailed technical analysis of your results for healthcare professionals.",
         interpretingResults: "AI is interpreting results...",
+
+        // SampleSizePlannerPage.tsx
+        plannerTitle: "Sample Size & Power Planner",
+        plannerSubtitle: "Plan a prospective two-group study: how many participants are needed to detect the effect you expect?",
+        plannerControlRisk: "Expected risk in the control group",
+        plannerEffectMeasure: "Target effect",
+        plannerEffectValue: "Target effect size",
+        plannerEffectOptions: {
+            rr: "Relative risk (RR)",
+            rd: "Risk difference (RD)",
+            or: "Odds ratio (OR)"
+        },
+        plannerPower: "Desired power (1 − β)",
+        plannerAllocation: "Allocation ratio (exposed : control)",
+        plannerContinuity: "Apply continuity correction",
+        plannerDropout: "Expected dropout (%)",
+        plannerErrorControlRisk: "Please enter a control-group risk strictly between 0 and 1 (e.g., 0.20).",
+        plannerErrorEffect: "Please enter a target effect that gives an exposed-group risk strictly between 0 and 1 and different from the control risk.",
+        plannerErrorAlpha: "Please enter a significance level between 0 and 0.5 (e.g., 0.05).",
+        plannerErrorPower: "Please enter a power greater than the significance level and below 1 (e.g., 0.80).",
+        plannerErrorAllocation: "Please enter a positive allocation ratio (e.g., 1 for equal groups, 2 for twice as many exposed).",
+        plannerErrorDropout: "Please enter an expected dropout between 0 and 99%.",
+        plannerResultsTitle: "Required Sample Size",
+        plannerExposedRisk: "Implied risk in the exposed group",
+        plannerPerArmExposed: "Exposed group",
+        plannerPerArmControl: "Control group",
+        plannerBeforeDropout: "Analysable",
+        plannerAfterDropout: "To enrol (with dropout)",
+        plannerPowerCurveTitle: "Power vs. total sample size",
+        plannerPowerAxis: "Power",
+        plannerSampleSizeAxis: "Total sample size (N)",
+        plannerPlaceholder: "Enter your planning assumptions and click Calculate to see the required sample size.",
         
         // AI Prompt Headers
         narrativeHeaders: {
@@ -201,6 +635,118 @@ export const translations: Record<Language, any> = {
         headerTitle: "Навігатор Результатів Здоров'я",
         headerSubtitle: "Аналіз епідеміологічної таблиці 2x2",
         howToUseButton: "Як користуватися",
+        plannerButton: "Планувальник вибірки",
+        libraryButton: "Збережені аналізи",
+        libraryTitle: "Збережені аналізи",
+        librarySubtitle: "Зберігайте іменовані аналізи разом із результатами та текстом ШІ і відкривайте їх пізніше.",
+        librarySaveTitle: "Зберегти поточний аналіз",
+        libraryNameLabel: "Назва аналізу",
+        librarySaveButton: "Зберегти",
+        libraryNothingToSave: "Розрахуйте результати на сторінці калькулятора, щоб зберегти їх тут.",
+        librarySaved: (name: string) => `Збережено «${name}».`,
+        libraryDeleted: (name: string) => `Видалено «${name}».`,
+        libraryDeleteConfirm: (name: string) => `Видалити «${name}» з бібліотеки? Цю дію неможливо скасувати.`,
+        libraryDuplicateName: (name: string) => `${name} (копія)`,
+        librarySearchPlaceholder: "Пошук за назвою, дизайном або типом аналізу",
+        libraryExportButton: "Експортувати бібліотеку",
+        libraryImportButton: "Імпортувати бібліотеку",
+        libraryImported: (count: number) => `Імпортовано аналізів: ${count}.`,
+        libraryImportError: "Цей файл не є експортованою бібліотекою аналізів.",
+        libraryStorageError: "Не вдалося зберегти бібліотеку в цьому браузері. Сховище може бути заповнене або вимкнене.",
+        libraryStorageNote: "Аналізи зберігаються лише в цьому браузері. Експортуйте бібліотеку, щоб створити резервну копію або перенести її на інший пристрій.",
+        libraryEmpty: "Збережених аналізів ще немає.",
+        libraryNoMatches: "Немає збережених аналізів, що відповідають пошуку.",
+        librarySavedAt: (date: string) => `Збережено ${date}`,
+        libraryHasAiText: "містить текст ШІ",
+        libraryOpenButton: "Відкрити",
+        libraryDuplicateButton: "Дублювати",
+        libraryDeleteButton: "Видалити",
+        comparisonButton: "Порівняти аналізи",
+        comparisonTitle: "Порівняння аналізів",
+        comparisonSubtitle: "Розмістіть два або більше аналізів поруч і перевірте, чи відрізняються їхні оцінки ефекту.",
+        comparisonSelectTitle: "Аналізи для порівняння",
+        comparisonSelectHint: "Виберіть щонайменше два. Перший вибраний аналіз є еталонним, з ним порівнюються інші. Збережіть аналізи в бібліотеці, щоб порівнювати їх тут.",
+        comparisonNothingAvailable: "Поки що нічого порівнювати. Спочатку розрахуйте результати або збережіть аналізи в бібліотеці.",
+        comparisonCurrentAnalysis: "Поточний аналіз (не збережений)",
+        comparisonReference: "Еталон",
+        comparisonMakeReference: "Зробити еталоном",
+        comparisonMetric: "Показник",
+        comparisonEstimateSource: "Використана оцінка",
+        comparisonParticipants: "Учасники",
+        comparisonHighlightNote: "Виділені оцінки статистично значущо відрізняються від еталонної (тест взаємодії) або мають ЧПЛ там, де еталон має ЧПШ, і навпаки. Для метааналізів використовуються об'єднані оцінки, для стратифікованих аналізів — скориговані за Мантелем–Гензелем.",
+        comparisonTestsTitle: "Відмінність від еталона",
+        comparisonRatioOfRelativeRisks: "Відношення відносних ризиків",
+        comparisonRatioOfOddsRatios: "Відношення відношень шансів",
+        comparisonDifferenceOfRiskDifferences: "Різниця різниць ризиків",
+        comparisonVersus: (analysis: string, reference: string) => `${analysis} порівняно з ${reference}`,
+        comparisonEstimate: "Оцінка",
+        comparisonPValue: "P-значення",
+        comparisonTestNote: "Кожна стандартна похибка відновлюється з довірчого інтервалу, що точно для інтервалів Вальда і наближено для скорових або точних. Тест припускає, що аналізи отримані з незалежних вибірок.",
+        comparisonAiTitle: "Порівняльна інтерпретація ШІ",
+        comparisonAiButton: "Створити порівняння",
+        comparisonAiLoading: "Створення...",
+        comparisonAiError: "Не вдалося створити порівняльну інтерпретацію. Будь ласка, спробуйте ще раз.",
+        batchButton: "Пакет",
+        batchTitle: "Пакетний аналіз",
+        batchSubtitle: "Імпортуйте багато таблиць 2x2 з файлу CSV або TSV, перевірте кожен рядок, порівняйте результати в одній таблиці та експортуйте їх разом.",
+        batchFileTitle: "Файл даних",
+        batchFormatHint: "Перший рядок має містити назви стовпців label, a, b, c і d. Необов'язкові стовпці design і goal замінюють для цього рядка типові значення нижче і приймають як ключ, так і назву, показану в калькуляторі. Таблиці досліджень діагностичної точності та парних досліджень випадок-контроль не підтримуються.",
+        batchChooseFile: "Вибрати файл",
+        batchDefaultDesign: "Типовий дизайн дослідження",
+        batchDefaultGoal: "Типова мета дослідження",
+        batchGoalPlaceholder: "-- Будь ласка, оберіть мету --",
+        batchSummary: (ok: number, errors: number) => `Розраховано таблиць: ${ok}, з помилками: ${errors}.`,
+        batchLine: "Рядок",
+        batchLabel: "Назва",
+        batchFisher: "Точний тест Фішера",
+        batchStatus: "Стан",
+        batchOk: "OK",
+        batchTableNote: (ciLabel: string) => `Оцінки наведено з ${ciLabel}. Натисніть заголовок стовпця, щоб відсортувати; рядки без значення показано останніми.`,
+        batchAiColumn: "Інтерпретація ШІ",
+        batchAiHint: "Текст ШІ створюється лише для позначених рядків, по одному запиту на рядок.",
+        batchAiRequest: "Включити",
+        batchAiGenerate: (count: number) => `Створити текст ШІ (${count})`,
+        batchAiProgress: (done: number, total: number) => `Створення ${done} з ${total}...`,
+        batchAiShow: "Показати текст",
+        batchAiError: "Не вдалося створити інтерпретацію.",
+        batchErrorEmptyFile: "Файл не містить рядків даних.",
+        batchErrorMissingColumns: (columns: string) => `У заголовку бракує обов'язкових стовпців: ${columns}.`,
+        batchErrorCount: (column: string, value: string) => `Клітинка ${column} має бути цілим числом, а не "${value}".`,
+        batchErrorDesign: (value: string) => `Невідомий дизайн дослідження "${value}".`,
+        batchErrorUnsupportedDesign: (design: string) => `Пакетний імпорт не підтримує дизайн "${design}"; аналізуйте такі таблиці на сторінці калькулятора.`,
+        batchErrorGoal: (value: string) => `Невідома мета дослідження "${value}".`,
+        batchDefaultLabel: (line: number) => `Рядок ${line}`,
+        individualTitle: "Імпорт індивідуальних даних",
+        individualDescription: "Побудуйте таблицю з файлу CSV або TSV, де кожен рядок — це один учасник. Оберіть стовпці експозиції та наслідку, визначте, які значення означають наявність експозиції та наслідку, і за бажанням стратифікуйте за третім стовпцем.",
+        individualChooseFile: "Вибрати файл",
+        individualErrorFile: "Файл має містити рядок заголовка і щонайменше один рядок даних.",
+        individualFileSummary: (fileName: string, rows: number, columns: number) => `${fileName}: рядків — ${rows}, стовпців — ${columns}.`,
+        individualUnnamedColumn: (position: number) => `Стовпець ${position}`,
+        individualExposureColumn: "Стовпець експозиції",
+        individualOutcomeColumn: "Стовпець наслідку",
+        individualStratumColumn: "Стовпець стратифікації (необов'язково)",
+        individualColumnPlaceholder: "-- Оберіть стовпець --",
+        individualNoStratum: "Немає",
+        individualValuesTitle: (column: string) => `Значення стовпця ${column}`,
+        individualValueHeader: "Значення",
+        individualCountHeader: "Рядки",
+        individualRoleHeader: "Вважати як",
+        individualRoles: {
+            exposure: { positive: "З експозицією", negative: "Без експозиції" },
+            outcome: { positive: "З наслідком", negative: "Без наслідку" }
+        },
+        individualRoleUnmapped: "Не зіставлено (виключити)",
+        individualMoreValues: (count: number) => `Ще ${count} значень не показано, вони залишаються незіставленими.`,
+        individualPreviewTitle: "Підсумкова таблиця",
+        individualRowsUsed: (used: number, total: number) => `Використано рядків: ${used} з ${total}.`,
+        individualStrataCount: (count: number) => `Страт: ${count}.`,
+        individualMissingValues: (column: string, count: number) => `Рядків із відсутнім значенням ${column}: ${count}.`,
+        individualUnmappedValues: (column: string, values: string) => `Незіставлені значення ${column}: ${values}.`,
+        individualApplyButton: "Використати ці частоти",
+        individualProvenanceTitle: "Джерело даних",
+        individualProvenanceSource: (fileName: string, used: number, total: number) => `Підраховано з файлу ${fileName}; використано рядків: ${used} з ${total}.`,
+        individualProvenanceVariable: (role: string, column: string, values: string) => `${role}: ${column} = ${values}.`,
+        individualProvenanceStrata: (column: string, count: number) => `Стратифіковано за ${column} (страт: ${count}).`,
         setupAnalysisTitle: "Налаштуйте ваш аналіз",
         step1Title: "1. Визначте мету дослідження",
         step1Description: "Який результат ви аналізуєте? Цей вибір є ключовим для правильної термінології та інтерпретації ШІ.",
@@ -212,10 +758,10 @@ export const translations: Record<Language, any> = {
         studyDesignPlaceholder: "-- Будь ласка, оберіть дизайн --",
         step3Title: "3. Оберіть модель ШІ",
         step3Description: "Оберіть модель для балансу між швидкістю та глибиною аналізу ваших звітів.",
-        geminiFlash: "Gemini 2.5 Flash",
-        geminiFlashDesc: "(Швидше, для загального використання)",
-        geminiPro: "Gemini 2.5 Pro",
-        geminiProDesc: "(Просунута, для глибшого аналізу)",
+        aiProviderLabel: "Постачальник",
+        aiProviderNames: { gemini: "Google Gemini", 'openai-compatible': "Сервер, сумісний з OpenAI", mock: "Офлайн-імітація (для тестування)", invalid: "Не налаштовано" },
+        aiModelsLoading: "Завантаження доступних моделей...",
+        aiModelsError: "Не вдалося завантажити доступні моделі від постачальника ШІ.",
         step4Title: "4. Група під впливом (Exposed)",
         total: "Всього",
         withOutcomeA: "З результатом (a)",
@@ -223,6 +769,18 @@ export const translations: Record<Language, any> = {
         step5Title: "5. Контрольна група (Unexposed)",
         withOutcomeC: "З результатом (c)",
         withoutOutcomeD: "Без результату (d)",
+        settingsTitle: "Розширені статистичні налаштування (необов'язково)",
+        settingsDescription: "Оберіть рівень значущості, довірчий рівень і спосіб розрахунку довірчих інтервалів. За замовчуванням використовується класичний двобічний аналіз з α = 0,05 і 95% інтервалами Вальда; скорові та точні методи точніші для малих вибірок і ризиків, близьких до 0 або 1.",
+        ciMethodRiskDifference: "ДІ різниці ризиків",
+        ciMethodRelativeRisk: "ДІ відносного ризику",
+        ciMethodOddsRatio: "ДІ відношення шансів",
+        alphaLevel: "Рівень значущості (α)",
+        testSidedness: "Сторонність тесту",
+        sidednessOptions: {
+            'two-sided': "Двобічний",
+            'one-sided': "Однобічний"
+        },
+        confidenceLevel: "Довірчий рівень",
         errorStudyGoal: "Будь ласка, визначте мету дослідження перед розрахунком.",
         errorStudyDesign: "Будь ласка, оберіть дизайн дослідження перед розрахунком.",
         errorInvalidNumber: (key: string) => `Будь ласка, введіть дійсне невід'ємне число для '${key}'.`,
@@ -245,11 +803,218 @@ export const translations: Record<Language, any> = {
         absRiskControl: "Абсолютний ризик (Control)",
         assocMeasuresHeader: "Показники асоціації",
         relativeRisk: "Відносний ризик",
-        ci95: "95% ДІ",
+        ciLabel: (level: string) => `${level}% ДІ`,
         zStatistic: "Z-статистика",
         significanceLevel: "Рівень значущості",
         notCalculable: "Неможливо розрахувати",
         oddsRatio: "Відношення шансів",
+        ciMethod: "Метод",
+        conditionalMleOr: "Умовна ОМП-оцінка відношення шансів",
+        strataTitle: "4. Таблиці страт",
+        strataDescription: "Для кожної страти введіть групу під впливом з результатом (a) і без нього (b) та контрольну групу з результатом (c) і без нього (d). Грубі результати розраховуються за об'єднаною таблицею.",
+        stratumName: "Страта",
+        stratumDefaultName: (index: number) => `Страта ${index}`,
+        addStratum: "+ Додати страту",
+        removeTable: "Видалити",
+        errorStrataCount: "Для стратифікованого аналізу потрібні щонайменше дві страти.",
+        errorTableCellInvalid: (label: string, key: string) => `Будь ласка, введіть дійсне невід'ємне число для '${key}' у ${label}.`,
+        stratifiedHeader: "Стратифікований аналіз (Мантель–Гензель)",
+        mhRelativeRisk: "Скоригований відносний ризик (МГ)",
+        mhOddsRatio: "Скориговане відношення шансів (МГ)",
+        mhRiskDifference: "Скоригована різниця ризиків (МГ)",
+        crudeEstimate: "Груба оцінка",
+        mantelHaenszelEstimate: "Скоригована за Мантелем–Гензелем",
+        crudeVsAdjusted: "Зміна від грубої до скоригованої оцінки",
+        mantelHaenszelTest: "Хі-квадрат Мантеля–Гензеля",
+        breslowDayTest: "Тест однорідності Бреслоу–Дея",
+        taroneTest: "Тест Бреслоу–Дея (з поправкою Тароне)",
+        confoundingWarning: "Скоригована оцінка відрізняється від грубої більш ніж на 10%, що вказує на конфаундинг з боку змінної стратифікації. Наводьте скориговану оцінку.",
+        effectModificationWarning: "Тест однорідності значущий: відношення шансів відрізняється між стратами, що вказує на модифікацію ефекту. Наводьте оцінки для окремих страт замість єдиної об'єднаної оцінки.",
+        analysisModeTitle: "Тип аналізу",
+        analysisModeOptions: { single: "Одна таблиця 2x2", stratified: "Стратифікований аналіз", meta: "Метааналіз", incidenceRate: "Показники захворюваності (людино-час)" },
+        analysisModeExamples: { single: "(одне дослідження)", stratified: "(одне дослідження, розділене, напр., за віковою групою або центром)", meta: "(кілька досліджень одного впливу та результату)", incidenceRate: "(випадки за людино-роки спостереження)" },
+        studiesTitle: "4. Таблиці досліджень",
+        studiesDescription: "Для кожного дослідження введіть групу під впливом з результатом (a) і без нього (b) та контрольну групу з результатом (c) і без нього (d). Дослідження об'єднуються статистично, а не підсумовуються в одну таблицю.",
+        studyName: "Дослідження",
+        studyDefaultName: (index: number) => `Дослідження ${index}`,
+        addStudy: "+ Додати дослідження",
+        errorStudiesCount: "Для метааналізу потрібні щонайменше два дослідження.",
+        metaNotEnoughStudies: "Щоб об'єднати дослідження, щонайменше два з них мають містити інформацію про результат.",
+        metaPooledHeader: (measure: string) => `Об'єднаний показник: ${measure}`,
+        metaFixedInverseVariance: "Фіксований ефект (обернена дисперсія)",
+        metaFixedMantelHaenszel: "Фіксований ефект (Мантель–Гензель)",
+        metaRandomEffects: "Випадкові ефекти (ДерСімоніан–Лерд)",
+        metaHeterogeneityHeader: "Неоднорідність",
+        metaCochranQ: "Q Кохрана",
+        metaHeterogeneityWarning: "I² перевищує 50%, що вказує на суттєву неоднорідність між дослідженнями. Віддавайте перевагу оцінці випадкових ефектів і шукайте клінічні або методологічні відмінності, які могли б її пояснити.",
+        forestPlotTitle: "Форест-графік",
+        forestPlotNote: "Квадрати показують оцінки досліджень (розмір відповідає вазі у моделі випадкових ефектів), горизонтальні лінії — їхні довірчі інтервали; ромби — об'єднані оцінки. Ваги наведено праворуч.",
+        metaFixedEffectShort: "Фіксований ефект (ОД)",
+        metaRandomEffectsShort: "Випадкові ефекти (ДЛ)",
+        metaStudyExcluded: "Неможливо оцінити (виключено)",
+        personTimeTitle: "Дані людино-часу",
+        personTimeDescription: "Для кожної групи введіть кількість випадків і загальний час спостереження всіх учасників (напр., 100 осіб, за якими спостерігали 2 роки, дають 200 людино-років).",
+        personTimeUnitLabel: "Одиниця людино-часу",
+        personTimeUnits: { years: "людино-років", months: "людино-місяців", days: "людино-днів" },
+        eventsLabel: "Випадки",
+        personTimeLabel: (unit: string) => `Людино-час (${unit})`,
+        errorEventsInvalid: "Будь ласка, введіть кількість випадків у кожній групі як ціле число, не менше 0.",
+        errorPersonTimeInvalid: "Будь ласка, введіть людино-час більше 0 для кожної групи.",
+        incidenceRatesHeader: (unit: string) => `Показники захворюваності (на 1000 ${unit})`,
+        rateExposed: "Показник захворюваності (Exposed)",
+        rateControl: "Показник захворюваності (Control)",
+        rateRatio: "Відношення показників захворюваності (IRR)",
+        rateRatioExactTest: "Точний тест (двобічний)",
+        rateRatioMidP: "Точний тест, mid-P",
+        rateDifference: (unit: string) => `Різниця показників (на 1000 ${unit})`,
+        nntPersonTime: (value: string, unit: string) => `${value} ${unit}`,
+        diagnosticGrid: {
+            step4Title: "4. Позитивний результат тесту",
+            step5Title: "5. Негативний результат тесту",
+            a: "Захворювання є (a, істинно позитивні)",
+            b: "Захворювання немає (b, хибно позитивні)",
+            c: "Захворювання є (c, хибно негативні)",
+            d: "Захворювання немає (d, істинно негативні)",
+        },
+        diagnosticTestCharacteristicsHeader: "Характеристики тесту",
+        sensitivity: "Чутливість",
+        specificity: "Специфічність",
+        youdenIndex: "Індекс Юдена (J)",
+        likelihoodRatiosHeader: "Відношення правдоподібності",
+        lrPositive: "Відношення правдоподібності позитивного результату (LR+)",
+        lrNegative: "Відношення правдоподібності негативного результату (LR−)",
+        diagnosticOddsRatio: "Діагностичне відношення шансів (DOR)",
+        predictiveValuesHeader: (prevalence: string) => `Прогностична цінність за поширеності ${prevalence}%`,
+        ppv: "Прогностична цінність позитивного результату (PPV)",
+        npv: "Прогностична цінність негативного результату (NPV)",
+        targetPrevalenceLabel: "Поширеність у вашій практиці (%)",
+        targetPrevalenceNote: "Залиште порожнім, щоб використати поширеність у вибірці дослідження. Прогностичну цінність для іншої поширеності перераховано з відношень правдоподібності.",
+        matchedPairsGrid: {
+            step4Title: "4. Пари, де випадок зазнав впливу",
+            step5Title: "5. Пари, де випадок не зазнав впливу",
+            a: "Контроль зазнав впливу (a)",
+            b: "Контроль не зазнав впливу (b)",
+            c: "Контроль зазнав впливу (c)",
+            d: "Контроль не зазнав впливу (d)",
+        },
+        matchedPairsHeader: "Відповідні пари",
+        totalPairs: "Кількість пар",
+        discordantPairs: "Розбіжні пари",
+        conditionalOddsRatio: "Умовне (парне) відношення шансів",
+        pairedRiskDifference: "Різниця часток під впливом (випадки − контролі)",
+        mcnemarTest: "Тест Мак-Немара",
+        mcnemarExact: "Точний тест Мак-Немара (двобічний)",
+        mcnemarExactMidP: "Точний тест Мак-Немара, mid-P",
+        mcnemarChiSquare: "Хі-квадрат Мак-Немара",
+        mcnemarCorrected: "Хі-квадрат Мак-Немара (з поправкою на неперервність)",
+        attributableFractionsHeader: "Атрибутивні частки",
+        preventedFractionsHeader: "Запобіжені частки",
+        attributableFractionExposed: "Атрибутивна частка серед тих, хто зазнав впливу (AFe)",
+        preventedFractionExposed: "Запобіжена частка серед тих, хто зазнав впливу (PFe)",
+        populationAttributableFraction: "Популяційна атрибутивна частка (Левін)",
+        populationPreventedFraction: "Популяційна запобіжена частка (PFp)",
+        caseBasedAttributableFraction: "Популяційна атрибутивна частка (Міеттінен, за випадками)",
+        fractionBasedOn: (measure: string) => `На основі показника «${measure}»`,
+        exposurePrevalenceUsed: (value: string, source: 'input' | 'sample') => `Поширеність впливу ${value}% (${source === 'input' ? 'введено' : 'з вибірки'})`,
+        exposurePrevalenceLabel: "Поширеність впливу в популяції (%)",
+        exposurePrevalenceNote: "Залиште порожнім, щоб використати поширеність впливу, що спостерігалася в дослідженні (серед контролів у дослідженні випадок-контроль).",
+        bayesianTitle: "Баєсівський аналіз",
+        bayesianDescription: "Поєднує апріорне уявлення про ризик у кожній групі з даними, щоб отримати ймовірність того, що вплив справді допомагає або шкодить, чого p-значення дати не можуть.",
+        priorLabel: "Апріорний розподіл",
+        priorPresets: {
+            uniform: "Рівномірний (неінформативний)",
+            skeptical: "Скептичний (без ефекту)",
+            enthusiastic: "Ентузіастичний (очікує користі)",
+            custom: "Власний",
+        },
+        rdThresholdLabel: "Значуща різниця ризиків (процентні пункти)",
+        rrThresholdLabel: "Значущий відносний ризик (відношення ≥ 1)",
+        priorParameter: (group: string, parameter: string) => `${group}: апріорне ${parameter}`,
+        priorsAndPosteriorsHeader: "Апріорний → апостеріорний ризик",
+        credibleIntervalLabel: (level: string) => `${level}% інтервал вірогідності`,
+        posteriorMedian: "Апостеріорна медіана",
+        probabilityOfBenefit: "Імовірність будь-якої користі",
+        probabilityOfHarm: "Імовірність будь-якої шкоди",
+        probabilityBenefitBeyond: (threshold: string) => `Імовірність користі понад ${threshold}`,
+        probabilityHarmBeyond: (threshold: string) => `Імовірність шкоди понад ${threshold}`,
+        posteriorDensityTitle: (measure: string) => `Апостеріорний розподіл: ${measure}`,
+        logScale: "логарифмічна шкала",
+        bayesianSamplingNote: "Підсумки ґрунтуються на 20 000 вибірках з апостеріорних розподілів (фіксоване початкове значення генератора, тому результати відтворювані). Затінена ділянка — інтервал вірогідності; пунктирні помаранчеві лінії позначають значущі пороги.",
+        errorPriorInvalid: "Введіть параметри апріорного розподілу, більші за 0, для обох груп.",
+        groupNames: { exposed: "Група під впливом", control: "Контрольна група" },
+        fragilityIndex: "Індекс крихкості",
+        reverseFragilityIndex: "Зворотний індекс крихкості",
+        fragilityDetail: (group: 'exposed' | 'control', quotient: string) => `Зміни результатів ${group === 'exposed' ? 'у групі під впливом' : 'у контрольній групі'} · Коефіцієнт крихкості ${quotient}`,
+        fragilityNotReachable: "Недосяжний зміною результатів в одній групі",
+        confoundingSensitivityHeader: "Чутливість до змішування",
+        eValuePoint: (measure: string) => `E-значення (${measure})`,
+        eValueLimit: "E-значення для межі ДІ, найближчої до 1",
+        eValueAdjusted: "скориговане за Мантелем–Гензелем",
+        chartsHeader: "Графіки",
+        effectEstimateChartTitle: (ci: string) => `Оцінки ефекту з ${ci}`,
+        riskBarChartTitle: (ci: string) => `Абсолютний ризик за групами з ${ci}`,
+        ratioAxisLabel: "Відношення",
+        absoluteRiskAxisLabel: "Абсолютний ризик",
+        exportSvg: "Завантажити SVG",
+        exportPng: "Завантажити PNG",
+        exportPngError: "Не вдалося перетворити графік на PNG. Спробуйте завантажити його як SVG.",
+        iconArrayTitle: (total: number) => `Що це означає для ${total} людей`,
+        iconArrayDescription: "Кожна піктограма — одна людина. Обидві групи зображено з однаковою кількістю людей, тож різниця в кольорових піктограмах — це різниця ризиків.",
+        iconArrayScaleLabel: "Людей у групі",
+        iconArrayGroupCaption: (group: string, events: number, total: number) => `${group}: результат у ${events} з ${total}`,
+        iconArrayMore: (count: number, total: number) => `У групі під впливом результат мали на ${count} більше з кожних ${total} людей.`,
+        iconArrayFewer: (count: number, total: number) => `У групі під впливом результат мали на ${count} менше з кожних ${total} людей.`,
+        iconArrayNoDifference: "У цьому масштабі кількість людей із результатом в обох групах однакова.",
+        iconArrayNnt: (count: number) => `У середньому приблизно ${count} людей мають зазнати впливу, щоб ще одна людина отримала користь (ЧПЛ).`,
+        iconArrayNnh: (count: number) => `У середньому приблизно на кожних ${count} людей, що зазнали впливу, ще одній людині завдано шкоди (ЧПШ).`,
+        iconArrayLegendOutcome: "Мали результат",
+        iconArrayLegendExtra: "Додаткові випадки у групі під впливом",
+        iconArrayLegendAvoided: "Відвернені випадки у групі під впливом",
+        iconArrayLegendNone: "Не мали результату",
+        iconArrayRoundingNote: "Піктограми округлено до цілих людей, тому зображення може трохи відрізнятися від точних ризиків у таблиці результатів.",
+        printButton: "Друкувати",
+        printReportButton: "Звіт для друку",
+        copyLinkButton: "Скопіювати посилання",
+        linkCopied: "Посилання скопійовано",
+        errorShareLinkInvalid: "Посилання пошкоджене або неповне, тому аналіз не вдалося відновити.",
+        errorShareLinkVersion: "Посилання створене новішою версією калькулятора і не може бути відкрите тут.",
+        errorCopyLink: "Не вдалося скопіювати посилання. Будь ласка, скопіюйте його з адресного рядка.",
+        printReportTitle: "Звіт з аналізу ризиків",
+        printReportGenerated: (date: string) => `Створено ${date}`,
+        printReportSetup: "Параметри дослідження",
+        printReportNoAiText: "Для цих результатів не створено інтерпретацію чи звіт ШІ. Створіть їх на панелі результатів, щоб додати до звіту.",
+        savePdfButton: "Друк / Зберегти як PDF",
+        savePdfHint: "У діалозі друку браузера оберіть принтер «Зберегти як PDF». Звіт створюється в браузері, тому це працює без інтернету.",
+        exportButton: "Експорт ▾",
+        exportFormats: { csv: "CSV (таблиця)", json: "JSON (усі дані)", markdown: "Таблиця Markdown" },
+        exportAnalysisSection: "Аналіз",
+        exportInputSection: "Вхідні дані",
+        exportLanguage: "Мова",
+        exportSection: "Розділ",
+        exportValue: "Значення",
+        exportLower: "нижня межа",
+        exportUpper: "верхня межа",
+        exportPValue: "P-значення",
+        exportNote: "Примітка",
+        eValueApproximations: {
+            'none': "",
+            'rare-outcome': "ВШ прийнято за ВР (рідкісний результат)",
+            'common-outcome': "ВР ≈ √ВШ (поширений результат)",
+        },
+        significanceTestsHeader: "Тести значущості",
+        fisherExactTwoSided: "Точний тест Фішера (двобічний)",
+        fisherExactMidP: "Точний тест Фішера (mid-p)",
+        pearsonChiSquare: "Хі-квадрат Пірсона",
+        yatesChiSquare: "Хі-квадрат з поправкою Єйтса",
+        likelihoodRatioG: "G-тест відношення правдоподібності",
+        expectedCounts: "Очікувані частоти",
+        recommendedTest: "Рекомендований тест",
+        recommendedTestOptions: {
+            fisher: "Точний тест Фішера",
+            yates: "Хі-квадрат з поправкою Єйтса",
+            pearson: "Хі-квадрат Пірсона"
+        },
+        smallExpectedWarning: "Щонайменше одна очікувана частота менша за 5. Наближення хі-квадрат (Пірсона, Єйтса, G) для цієї таблиці ненадійні; використовуйте точний тест Фішера.",
         impactMeasuresHeader: "Показники впливу",
         riskDifference: "Різниця ризиків",
         nntHeader: "ЧПЛ / ЧПШ",
@@ -261,6 +1026,10 @@ export const translations: Record<Language, any> = {
         type1Error: "Помилка I роду (α)",
         statPower: "Статистична потужність (Post-Hoc)",
         type2Error: "Помилка II роду (β)",
+        exposureInControls: "Поширеність впливу серед контролів",
+        controlsPerCase: "Контролів на випадок",
+        caseControlSampleSize: "Необхідна вибірка для потужності 80%",
+        casesAndControls: (cases: number, controls: number) => `${cases} випадків + ${controls} контролів`,
         resultsPlaceholderTitle: "Результати будуть відображені тут після розрахунку.",
         resultsPlaceholderDesc: "Оберіть мету та дизайн дослідження, потім введіть значення, щоб почати.",
         footerDisclaimer: "Відмова від відповідальності: Цей інструмент призначений лише для освітніх та інформаційних цілей і не є медичною консультацією. Завжди консультуйтеся з кваліфікованим медичним працівником щодо медичних питань.",
@@ -326,6 +1095,37 @@ export const translations: Record<Language, any> = {
         aiFullReportTitle: "Повний звіт від ШІ",
         aiFullReportSubtitle: "Детальний технічний аналіз ваших результатів для медичних працівників.",
         interpretingResults: "ШІ інтерпретує результати...",
+
+        plannerTitle: "Планування розміру вибірки та потужності",
+        plannerSubtitle: "Сплануйте проспективне дослідження з двома групами: скільки учасників потрібно, щоб виявити очікуваний ефект?",
+        plannerControlRisk: "Очікуваний ризик у контрольній групі",
+        plannerEffectMeasure: "Цільовий ефект",
+        plannerEffectValue: "Цільовий розмір ефекту",
+        plannerEffectOptions: {
+            rr: "Відносний ризик (ВР)",
+            rd: "Різниця ризиків (РР)",
+            or: "Відношення шансів (ВШ)"
+        },
+        plannerPower: "Бажана потужність (1 − β)",
+        plannerAllocation: "Співвідношення груп (exposed : control)",
+        plannerContinuity: "Застосувати поправку на неперервність",
+        plannerDropout: "Очікуваний відсів (%)",
+        plannerErrorControlRisk: "Будь ласка, введіть ризик у контрольній групі строго між 0 та 1 (напр., 0,20).",
+        plannerErrorEffect: "Будь ласка, введіть цільовий ефект, що дає ризик у групі під впливом строго між 0 та 1 і відмінний від контрольного ризику.",
+        plannerErrorAlpha: "Будь ласка, введіть рівень значущості між 0 та 0,5 (напр., 0,05).",
+        plannerErrorPower: "Будь ласка, введіть потужність, більшу за рівень значущості та меншу за 1 (напр., 0,80).",
+        plannerErrorAllocation: "Будь ласка, введіть додатне співвідношення груп (напр., 1 для рівних груп, 2 для вдвічі більшої групи під впливом).",
+        plannerErrorDropout: "Будь ласка, введіть очікуваний відсів від 0 до 99%.",
+        plannerResultsTitle: "Необхідний розмір вибірки",
+        plannerExposedRisk: "Відповідний ризик у групі під впливом",
+        plannerPerArmExposed: "Група під впливом",
+        plannerPerArmControl: "Контрольна група",
+        plannerBeforeDropout: "Для аналізу",
+        plannerAfterDropout: "Для включення (з відсівом)",
+        plannerPowerCurveTitle: "Потужність залежно від загального розміру вибірки",
+        plannerPowerAxis: "Потужність",
+        plannerSampleSizeAxis: "Загальний розмір вибірки (N)",
+        plannerPlaceholder: "Введіть припущення для планування та натисніть «Розрахувати», щоб побачити необхідний розмір вибірки.",
         
         narrativeHeaders: {
             overview: "1. Огляд дослідження",
@@ -345,6 +1145,118 @@ export const translations: Record<Language, any> = {
         headerTitle: "Навигатор Результатов Здоровья",
         headerSubtitle: "Анализ эпидемиологической таблицы 2x2",
         howToUseButton: "Как пользоваться",
+        plannerButton: "Планировщик выборки",
+        libraryButton: "Сохранённые анализы",
+        libraryTitle: "Сохранённые анализы",
+        librarySubtitle: "Сохраняйте именованные анализы вместе с результатами и текстом ИИ и открывайте их позже.",
+        librarySaveTitle: "Сохранить текущий анализ",
+        libraryNameLabel: "Название анализа",
+        librarySaveButton: "Сохранить",
+        libraryNothingToSave: "Рассчитайте результаты на странице калькулятора, чтобы сохранить их здесь.",
+        librarySaved: (name: string) => `Сохранено «${name}».`,
+        libraryDeleted: (name: string) => `Удалено «${name}».`,
+        libraryDeleteConfirm: (name: string) => `Удалить «${name}» из библиотеки? Это действие нельзя отменить.`,
+        libraryDuplicateName: (name: string) => `${name} (копия)`,
+        librarySearchPlaceholder: "Поиск по названию, дизайну или типу анализа",
+        libraryExportButton: "Экспортировать библиотеку",
+        libraryImportButton: "Импортировать библиотеку",
+        libraryImported: (count: number) => `Импортировано анализов: ${count}.`,
+        libraryImportError: "Этот файл не является экспортированной библиотекой анализов.",
+        libraryStorageError: "Не удалось сохранить библиотеку в этом браузере. Хранилище может быть заполнено или отключено.",
+        libraryStorageNote: "Анализы хранятся только в этом браузере. Экспортируйте библиотеку, чтобы создать резервную копию или перенести её на другое устройство.",
+        libraryEmpty: "Сохранённых анализов пока нет.",
+        libraryNoMatches: "Нет сохранённых анализов, соответствующих поиску.",
+        librarySavedAt: (date: string) => `Сохранено ${date}`,
+        libraryHasAiText: "содержит текст ИИ",
+        libraryOpenButton: "Открыть",
+        libraryDuplicateButton: "Дублировать",
+        libraryDeleteButton: "Удалить",
+        comparisonButton: "Сравнить анализы",
+        comparisonTitle: "Сравнение анализов",
+        comparisonSubtitle: "Разместите два или более анализов рядом и проверьте, различаются ли их оценки эффекта.",
+        comparisonSelectTitle: "Анализы для сравнения",
+        comparisonSelectHint: "Выберите не менее двух. Первый выбранный анализ является эталонным, с ним сравниваются остальные. Сохраните анализы в библиотеке, чтобы сравнивать их здесь.",
+        comparisonNothingAvailable: "Пока нечего сравнивать. Сначала рассчитайте результаты или сохраните анализы в библиотеке.",
+        comparisonCurrentAnalysis: "Текущий анализ (не сохранён)",
+        comparisonReference: "Эталон",
+        comparisonMakeReference: "Сделать эталоном",
+        comparisonMetric: "Показатель",
+        comparisonEstimateSource: "Используемая оценка",
+        comparisonParticipants: "Участники",
+        comparisonHighlightNote: "Выделенные оценки статистически значимо отличаются от эталонной (тест взаимодействия) или имеют ЧБНЛ там, где у эталона ЧБНВ, и наоборот. Для метаанализов используются объединённые оценки, для стратифицированных анализов — скорректированные по Мантелю–Хензелю.",
+        comparisonTestsTitle: "Отличие от эталона",
+        comparisonRatioOfRelativeRisks: "Отношение относительных рисков",
+        comparisonRatioOfOddsRatios: "Отношение отношений шансов",
+        comparisonDifferenceOfRiskDifferences: "Разность разностей рисков",
+        comparisonVersus: (analysis: string, reference: string) => `${analysis} по сравнению с ${reference}`,
+        comparisonEstimate: "Оценка",
+        comparisonPValue: "P-значение",
+        comparisonTestNote: "Каждая стандартная ошибка восстанавливается из доверительного интервала, что точно для интервалов Вальда и приближённо для скоровых или точных. Тест предполагает, что анализы получены из независимых выборок.",
+        comparisonAiTitle: "Сравнительная интерпретация ИИ",
+        comparisonAiButton: "Создать сравнение",
+        comparisonAiLoading: "Создание...",
+        comparisonAiError: "Не удалось создать сравнительную интерпретацию. Пожалуйста, попробуйте ещё раз.",
+        batchButton: "Пакет",
+        batchTitle: "Пакетный анализ",
+        batchSubtitle: "Импортируйте много таблиц 2x2 из файла CSV или TSV, проверьте каждую строку, сравните результаты в одной таблице и экспортируйте их вместе.",
+        batchFileTitle: "Файл данных",
+        batchFormatHint: "Первая строка должна содержать названия столбцов label, a, b, c и d. Необязательные столбцы design и goal заменяют для этой строки значения по умолчанию ниже и принимают как ключ, так и название, показанное в калькуляторе. Таблицы исследований диагностической точности и парных исследований случай-контроль не поддерживаются.",
+        batchChooseFile: "Выбрать файл",
+        batchDefaultDesign: "Дизайн исследования по умолчанию",
+        batchDefaultGoal: "Цель исследования по умолчанию",
+        batchGoalPlaceholder: "-- Пожалуйста, выберите цель --",
+        batchSummary: (ok: number, errors: number) => `Рассчитано таблиц: ${ok}, с ошибками: ${errors}.`,
+        batchLine: "Строка",
+        batchLabel: "Название",
+        batchFisher: "Точный тест Фишера",
+        batchStatus: "Статус",
+        batchOk: "OK",
+        batchTableNote: (ciLabel: string) => `Оценки приведены с ${ciLabel}. Нажмите заголовок столбца, чтобы отсортировать; строки без значения показаны последними.`,
+        batchAiColumn: "Интерпретация ИИ",
+        batchAiHint: "Текст ИИ создаётся только для отмеченных строк, по одному запросу на строку.",
+        batchAiRequest: "Включить",
+        batchAiGenerate: (count: number) => `Создать текст ИИ (${count})`,
+        batchAiProgress: (done: number, total: number) => `Создание ${done} из ${total}...`,
+        batchAiShow: "Показать текст",
+        batchAiError: "Не удалось создать интерпретацию.",
+        batchErrorEmptyFile: "Файл не содержит строк данных.",
+        batchErrorMissingColumns: (columns: string) => `В заголовке не хватает обязательных столбцов: ${columns}.`,
+        batchErrorCount: (column: string, value: string) => `Ячейка ${column} должна быть целым числом, а не "${value}".`,
+        batchErrorDesign: (value: string) => `Неизвестный дизайн исследования "${value}".`,
+        batchErrorUnsupportedDesign: (design: string) => `Пакетный импорт не поддерживает дизайн "${design}"; анализируйте такие таблицы на странице калькулятора.`,
+        batchErrorGoal: (value: string) => `Неизвестная цель исследования "${value}".`,
+        batchDefaultLabel: (line: number) => `Строка ${line}`,
+        individualTitle: "Импорт индивидуальных данных",
+        individualDescription: "Постройте таблицу из файла CSV или TSV, где каждая строка — это один участник. Выберите столбцы экспозиции и исхода, определите, какие значения означают наличие экспозиции и исхода, и при желании стратифицируйте по третьему столбцу.",
+        individualChooseFile: "Выбрать файл",
+        individualErrorFile: "Файл должен содержать строку заголовка и хотя бы одну строку данных.",
+        individualFileSummary: (fileName: string, rows: number, columns: number) => `${fileName}: строк — ${rows}, столбцов — ${columns}.`,
+        individualUnnamedColumn: (position: number) => `Столбец ${position}`,
+        individualExposureColumn: "Столбец экспозиции",
+        individualOutcomeColumn: "Столбец исхода",
+        individualStratumColumn: "Столбец стратификации (необязательно)",
+        individualColumnPlaceholder: "-- Выберите столбец --",
+        individualNoStratum: "Нет",
+        individualValuesTitle: (column: string) => `Значения столбца ${column}`,
+        individualValueHeader: "Значение",
+        individualCountHeader: "Строки",
+        individualRoleHeader: "Считать как",
+        individualRoles: {
+            exposure: { positive: "С экспозицией", negative: "Без экспозиции" },
+            outcome: { positive: "С исходом", negative: "Без исхода" }
+        },
+        individualRoleUnmapped: "Не сопоставлено (исключить)",
+        individualMoreValues: (count: number) => `Ещё ${count} значений не показано, они остаются несопоставленными.`,
+        individualPreviewTitle: "Итоговая таблица",
+        individualRowsUsed: (used: number, total: number) => `Использовано строк: ${used} из ${total}.`,
+        individualStrataCount: (count: number) => `Страт: ${count}.`,
+        individualMissingValues: (column: string, count: number) => `Строк с отсутствующим значением ${column}: ${count}.`,
+        individualUnmappedValues: (column: string, values: string) => `Несопоставленные значения ${column}: ${values}.`,
+        individualApplyButton: "Использовать эти частоты",
+        individualProvenanceTitle: "Источник данных",
+        individualProvenanceSource: (fileName: string, used: number, total: number) => `Подсчитано из файла ${fileName}; использовано строк: ${used} из ${total}.`,
+        individualProvenanceVariable: (role: string, column: string, values: string) => `${role}: ${column} = ${values}.`,
+        individualProvenanceStrata: (column: string, count: number) => `Стратифицировано по ${column} (страт: ${count}).`,
         setupAnalysisTitle: "Настройте ваш анализ",
         step1Title: "1. Определите цель исследования",
         step1Description: "Какой исход вы анализируете? Этот выбор имеет решающее значение для правильной терминологии и интерпретации ИИ.",
@@ -356,10 +1268,10 @@ export const translations: Record<Language, any> = {
         studyDesignPlaceholder: "-- Пожалуйста, выберите дизайн --",
         step3Title: "3. Выберите модель ИИ",
         step3Description: "Выберите модель для баланса между скоростью и глубиной анализа ваших отчетов.",
-        geminiFlash: "Gemini 2.5 Flash",
-        geminiFlashDesc: "(Быстрее, для общего использования)",
-        geminiPro: "Gemini 2.5 Pro",
-        geminiProDesc: "(Продвинутая, для более глубокого анализа)",
+        aiProviderLabel: "Поставщик",
+        aiProviderNames: { gemini: "Google Gemini", 'openai-compatible': "Сервер, совместимый с OpenAI", mock: "Офлайн-имитация (для тестирования)", invalid: "Не настроен" },
+        aiModelsLoading: "Загрузка доступных моделей...",
+        aiModelsError: "Не удалось загрузить доступные модели от поставщика ИИ.",
         step4Title: "4. Группа воздействия (Exposed)",
         total: "Всего",
         withOutcomeA: "С исходом (a)",
@@ -367,6 +1279,18 @@ export const translations: Record<Language, any> = {
         step5Title: "5. Контрольная группа (Unexposed)",
         withOutcomeC: "С исходом (c)",
         withoutOutcomeD: "Без исхода (d)",
+        settingsTitle: "Расширенные статистические настройки (необязательно)",
+        settingsDescription: "Выберите уровень значимости, доверительный уровень и способ расчёта доверительных интервалов. По умолчанию используется классический двусторонний анализ с α = 0,05 и 95% интервалами Вальда; скоровые и точные методы точнее для малых выборок и рисков, близких к 0 или 1.",
+        ciMethodRiskDifference: "ДИ разности рисков",
+        ciMethodRelativeRisk: "ДИ относительного риска",
+        ciMethodOddsRatio: "ДИ отношения шансов",
+        alphaLevel: "Уровень значимости (α)",
+        testSidedness: "Сторонность теста",
+        sidednessOptions: {
+            'two-sided': "Двусторонний",
+            'one-sided': "Односторонний"
+        },
+        confidenceLevel: "Доверительный уровень",
         errorStudyGoal: "Пожалуйста, определите цель исследования перед расчетом.",
         errorStudyDesign: "Пожалуйста, выберите дизайн исследования перед расчетом.",
         errorInvalidNumber: (key: string) => `Пожалуйста, введите действительное неотрицательное число для '${key}'.`,
@@ -389,11 +1313,218 @@ export const translations: Record<Language, any> = {
         absRiskControl: "Абсолютный риск (Control)",
         assocMeasuresHeader: "Меры ассоциации",
         relativeRisk: "Относительный риск",
-        ci95: "95% ДИ",
+        ciLabel: (level: string) => `${level}% ДИ`,
         zStatistic: "Z-статистика",
         significanceLevel: "Уровень значимости",
         notCalculable: "Невозможно рассчитать",
         oddsRatio: "Отношение шансов",
+        ciMethod: "Метод",
+        conditionalMleOr: "Условная ОМП-оценка отношения шансов",
+        strataTitle: "4. Таблицы страт",
+        strataDescription: "Для каждой страты введите группу воздействия с исходом (a) и без него (b) и контрольную группу с исходом (c) и без него (d). Грубые результаты рассчитываются по объединённой таблице.",
+        stratumName: "Страта",
+        stratumDefaultName: (index: number) => `Страта ${index}`,
+        addStratum: "+ Добавить страту",
+        removeTable: "Удалить",
+        errorStrataCount: "Для стратифицированного анализа нужны как минимум две страты.",
+        errorTableCellInvalid: (label: string, key: string) => `Пожалуйста, введите действительное неотрицательное число для '${key}' в ${label}.`,
+        stratifiedHeader: "Стратифицированный анализ (Мантель–Хензель)",
+        mhRelativeRisk: "Скорректированный относительный риск (МХ)",
+        mhOddsRatio: "Скорректированное отношение шансов (МХ)",
+        mhRiskDifference: "Скорректированная разница рисков (МХ)",
+        crudeEstimate: "Грубая оценка",
+        mantelHaenszelEstimate: "Скорректированная по Мантелю–Хензелю",
+        crudeVsAdjusted: "Изменение от грубой к скорректированной оценке",
+        mantelHaenszelTest: "Хи-квадрат Мантеля–Хензеля",
+        breslowDayTest: "Тест однородности Бреслоу–Дэя",
+        taroneTest: "Тест Бреслоу–Дэя (с поправкой Тароне)",
+        confoundingWarning: "Скорректированная оценка отличается от грубой более чем на 10%, что указывает на конфаундинг со стороны переменной стратификации. Приводите скорректированную оценку.",
+        effectModificationWarning: "Тест однородности значим: отношение шансов различается между стратами, что указывает на модификацию эффекта. Приводите оценки для отдельных страт вместо единой объединённой оценки.",
+        analysisModeTitle: "Тип анализа",
+        analysisModeOptions: { single: "Одна таблица 2x2", stratified: "Стратифицированный анализ", meta: "Метаанализ", incidenceRate: "Показатели заболеваемости (человеко-время)" },
+        analysisModeExamples: { single: "(одно исследование)", stratified: "(одно исследование, разделённое, напр., по возрастной группе или центру)", meta: "(несколько исследований одного воздействия и исхода)", incidenceRate: "(случаи за человеко-годы наблюдения)" },
+        studiesTitle: "4. Таблицы исследований",
+        studiesDescription: "Для каждого исследования введите группу воздействия с исходом (a) и без него (b) и контрольную группу с исходом (c) и без него (d). Исследования объединяются статистически, а не суммируются в одну таблицу.",
+        studyName: "Исследование",
+        studyDefaultName: (index: number) => `Исследование ${index}`,
+        addStudy: "+ Добавить исследование",
+        errorStudiesCount: "Для метаанализа нужны как минимум два исследования.",
+        metaNotEnoughStudies: "Чтобы объединить исследования, как минимум два из них должны содержать информацию об исходе.",
+        metaPooledHeader: (measure: string) => `Объединённый показатель: ${measure}`,
+        metaFixedInverseVariance: "Фиксированный эффект (обратная дисперсия)",
+        metaFixedMantelHaenszel: "Фиксированный эффект (Мантель–Хензель)",
+        metaRandomEffects: "Случайные эффекты (ДерСимониан–Лэрд)",
+        metaHeterogeneityHeader: "Неоднородность",
+        metaCochranQ: "Q Кохрана",
+        metaHeterogeneityWarning: "I² превышает 50%, что указывает на существенную неоднородность между исследованиями. Отдавайте предпочтение оценке случайных эффектов и ищите клинические или методологические различия, которые могли бы её объяснить.",
+        forestPlotTitle: "Форест-график",
+        forestPlotNote: "Квадраты показывают оценки исследований (размер соответствует весу в модели случайных эффектов), горизонтальные линии — их доверительные интервалы; ромбы — объединённые оценки. Веса указаны справа.",
+        metaFixedEffectShort: "Фиксированный эффект (ОД)",
+        metaRandomEffectsShort: "Случайные эффекты (ДЛ)",
+        metaStudyExcluded: "Невозможно оценить (исключено)",
+        personTimeTitle: "Данные человеко-времени",
+        personTimeDescription: "Для каждой группы введите число случаев и общее время наблюдения всех участников (напр., 100 человек, за которыми наблюдали 2 года, дают 200 человеко-лет).",
+        personTimeUnitLabel: "Единица человеко-времени",
+        personTimeUnits: { years: "человеко-лет", months: "человеко-месяцев", days: "человеко-дней" },
+        eventsLabel: "Случаи",
+        personTimeLabel: (unit: string) => `Человеко-время (${unit})`,
+        errorEventsInvalid: "Пожалуйста, введите число случаев в каждой группе как целое число не меньше 0.",
+        errorPersonTimeInvalid: "Пожалуйста, введите человеко-время больше 0 для каждой группы.",
+        incidenceRatesHeader: (unit: string) => `Показатели заболеваемости (на 1000 ${unit})`,
+        rateExposed: "Показатель заболеваемости (Exposed)",
+        rateControl: "Показатель заболеваемости (Control)",
+        rateRatio: "Отношение показателей заболеваемости (IRR)",
+        rateRatioExactTest: "Точный тест (двусторонний)",
+        rateRatioMidP: "Точный тест, mid-P",
+        rateDifference: (unit: string) => `Разница показателей (на 1000 ${unit})`,
+        nntPersonTime: (value: string, unit: string) => `${value} ${unit}`,
+        diagnosticGrid: {
+            step4Title: "4. Положительный результат теста",
+            step5Title: "5. Отрицательный результат теста",
+            a: "Заболевание есть (a, истинно положительные)",
+            b: "Заболевания нет (b, ложноположительные)",
+            c: "Заболевание есть (c, ложноотрицательные)",
+            d: "Заболевания нет (d, истинно отрицательные)",
+        },
+        diagnosticTestCharacteristicsHeader: "Характеристики теста",
+        sensitivity: "Чувствительность",
+        specificity: "Специфичность",
+        youdenIndex: "Индекс Юдена (J)",
+        likelihoodRatiosHeader: "Отношения правдоподобия",
+        lrPositive: "Отношение правдоподобия положительного результата (LR+)",
+        lrNegative: "Отношение правдоподобия отрицательного результата (LR−)",
+        diagnosticOddsRatio: "Диагностическое отношение шансов (DOR)",
+        predictiveValuesHeader: (prevalence: string) => `Прогностическая ценность при распространённости ${prevalence}%`,
+        ppv: "Прогностическая ценность положительного результата (PPV)",
+        npv: "Прогностическая ценность отрицательного результата (NPV)",
+        targetPrevalenceLabel: "Распространённость в вашей практике (%)",
+        targetPrevalenceNote: "Оставьте пустым, чтобы использовать распространённость в выборке исследования. Прогностическая ценность для другой распространённости пересчитывается из отношений правдоподобия.",
+        matchedPairsGrid: {
+            step4Title: "4. Пары, где случай подвергся воздействию",
+            step5Title: "5. Пары, где случай не подвергся воздействию",
+            a: "Контроль подвергся воздействию (a)",
+            b: "Контроль не подвергся воздействию (b)",
+            c: "Контроль подвергся воздействию (c)",
+            d: "Контроль не подвергся воздействию (d)",
+        },
+        matchedPairsHeader: "Сопоставленные пары",
+        totalPairs: "Число пар",
+        discordantPairs: "Несогласованные пары",
+        conditionalOddsRatio: "Условное (парное) отношение шансов",
+        pairedRiskDifference: "Разница долей подвергшихся воздействию (случаи − контроли)",
+        mcnemarTest: "Тест Мак-Немара",
+        mcnemarExact: "Точный тест Мак-Немара (двусторонний)",
+        mcnemarExactMidP: "Точный тест Мак-Немара, mid-P",
+        mcnemarChiSquare: "Хи-квадрат Мак-Немара",
+        mcnemarCorrected: "Хи-квадрат Мак-Немара (с поправкой на непрерывность)",
+        attributableFractionsHeader: "Атрибутивные доли",
+        preventedFractionsHeader: "Предотвращённые доли",
+        attributableFractionExposed: "Атрибутивная доля среди подвергшихся воздействию (AFe)",
+        preventedFractionExposed: "Предотвращённая доля среди подвергшихся воздействию (PFe)",
+        populationAttributableFraction: "Популяционная атрибутивная доля (Левин)",
+        populationPreventedFraction: "Популяционная предотвращённая доля (PFp)",
+        caseBasedAttributableFraction: "Популяционная атрибутивная доля (Миеттинен, по случаям)",
+        fractionBasedOn: (measure: string) => `На основе показателя «${measure}»`,
+        exposurePrevalenceUsed: (value: string, source: 'input' | 'sample') => `Распространённость воздействия ${value}% (${source === 'input' ? 'введено' : 'из выборки'})`,
+        exposurePrevalenceLabel: "Распространённость воздействия в популяции (%)",
+        exposurePrevalenceNote: "Оставьте пустым, чтобы использовать распространённость воздействия, наблюдавшуюся в исследовании (среди контролей в исследовании случай-контроль).",
+        bayesianTitle: "Байесовский анализ",
+        bayesianDescription: "Объединяет априорное представление о риске в каждой группе с данными, чтобы получить вероятность того, что воздействие действительно помогает или вредит, чего p-значения дать не могут.",
+        priorLabel: "Априорное распределение",
+        priorPresets: {
+            uniform: "Равномерное (неинформативное)",
+            skeptical: "Скептическое (без эффекта)",
+            enthusiastic: "Оптимистическое (ожидает пользы)",
+            custom: "Собственное",
+        },
+        rdThresholdLabel: "Значимая разница рисков (процентные пункты)",
+        rrThresholdLabel: "Значимый относительный риск (отношение ≥ 1)",
+        priorParameter: (group: string, parameter: string) => `${group}: априорное ${parameter}`,
+        priorsAndPosteriorsHeader: "Априорный → апостериорный риск",
+        credibleIntervalLabel: (level: string) => `${level}% интервал достоверности`,
+        posteriorMedian: "Апостериорная медиана",
+        probabilityOfBenefit: "Вероятность любой пользы",
+        probabilityOfHarm: "Вероятность любого вреда",
+        probabilityBenefitBeyond: (threshold: string) => `Вероятность пользы сверх ${threshold}`,
+        probabilityHarmBeyond: (threshold: string) => `Вероятность вреда сверх ${threshold}`,
+        posteriorDensityTitle: (measure: string) => `Апостериорное распределение: ${measure}`,
+        logScale: "логарифмическая шкала",
+        bayesianSamplingNote: "Итоги основаны на 20 000 выборках из апостериорных распределений (фиксированное начальное значение генератора, поэтому результаты воспроизводимы). Затенённая область — интервал достоверности; пунктирные оранжевые линии отмечают значимые пороги.",
+        errorPriorInvalid: "Введите параметры априорного распределения больше 0 для обеих групп.",
+        groupNames: { exposed: "Группа воздействия", control: "Контрольная группа" },
+        fragilityIndex: "Индекс хрупкости",
+        reverseFragilityIndex: "Обратный индекс хрупкости",
+        fragilityDetail: (group: 'exposed' | 'control', quotient: string) => `Изменения исходов ${group === 'exposed' ? 'в группе воздействия' : 'в контрольной группе'} · Коэффициент хрупкости ${quotient}`,
+        fragilityNotReachable: "Недостижим изменением исходов в одной группе",
+        confoundingSensitivityHeader: "Чувствительность к смешиванию",
+        eValuePoint: (measure: string) => `E-значение (${measure})`,
+        eValueLimit: "E-значение для границы ДИ, ближайшей к 1",
+        eValueAdjusted: "скорректированное по Мантелю–Хензелю",
+        chartsHeader: "Графики",
+        effectEstimateChartTitle: (ci: string) => `Оценки эффекта с ${ci}`,
+        riskBarChartTitle: (ci: string) => `Абсолютный риск по группам с ${ci}`,
+        ratioAxisLabel: "Отношение",
+        absoluteRiskAxisLabel: "Абсолютный риск",
+        exportSvg: "Скачать SVG",
+        exportPng: "Скачать PNG",
+        exportPngError: "Не удалось преобразовать график в PNG. Попробуйте скачать его как SVG.",
+        iconArrayTitle: (total: number) => `Что это значит для ${total} человек`,
+        iconArrayDescription: "Каждая пиктограмма — один человек. Обе группы изображены с одинаковым числом людей, поэтому разница в цветных пиктограммах — это разница рисков.",
+        iconArrayScaleLabel: "Человек в группе",
+        iconArrayGroupCaption: (group: string, events: number, total: number) => `${group}: исход у ${events} из ${total}`,
+        iconArrayMore: (count: number, total: number) => `В группе воздействия исход был у ${count} человек больше из каждых ${total}.`,
+        iconArrayFewer: (count: number, total: number) => `В группе воздействия исход был у ${count} человек меньше из каждых ${total}.`,
+        iconArrayNoDifference: "В этом масштабе число людей с исходом в обеих группах одинаково.",
+        iconArrayNnt: (count: number) => `В среднем примерно ${count} человек должны подвергнуться воздействию, чтобы ещё один человек получил пользу (ЧБНЛ).`,
+        iconArrayNnh: (count: number) => `В среднем примерно на каждых ${count} человек, подвергшихся воздействию, ещё одному причиняется вред (ЧБНВ).`,
+        iconArrayLegendOutcome: "Был исход",
+        iconArrayLegendExtra: "Дополнительные случаи в группе воздействия",
+        iconArrayLegendAvoided: "Предотвращённые случаи в группе воздействия",
+        iconArrayLegendNone: "Не было исхода",
+        iconArrayRoundingNote: "Пиктограммы округлены до целых людей, поэтому изображение может немного отличаться от точных рисков в таблице результатов.",
+        printButton: "Печать",
+        printReportButton: "Отчет для печати",
+        copyLinkButton: "Скопировать ссылку",
+        linkCopied: "Ссылка скопирована",
+        errorShareLinkInvalid: "Ссылка повреждена или неполна, поэтому анализ не удалось восстановить.",
+        errorShareLinkVersion: "Ссылка создана более новой версией калькулятора и не может быть открыта здесь.",
+        errorCopyLink: "Не удалось скопировать ссылку. Пожалуйста, скопируйте ее из адресной строки.",
+        printReportTitle: "Отчет по анализу рисков",
+        printReportGenerated: (date: string) => `Создан ${date}`,
+        printReportSetup: "Параметры исследования",
+        printReportNoAiText: "Для этих результатов не создана интерпретация или отчет ИИ. Создайте их на панели результатов, чтобы добавить в отчет.",
+        savePdfButton: "Печать / Сохранить как PDF",
+        savePdfHint: "В диалоге печати браузера выберите принтер «Сохранить как PDF». Отчет создается в браузере, поэтому это работает без интернета.",
+        exportButton: "Экспорт ▾",
+        exportFormats: { csv: "CSV (таблица)", json: "JSON (все данные)", markdown: "Таблица Markdown" },
+        exportAnalysisSection: "Анализ",
+        exportInputSection: "Входные данные",
+        exportLanguage: "Язык",
+        exportSection: "Раздел",
+        exportValue: "Значение",
+        exportLower: "нижняя граница",
+        exportUpper: "верхняя граница",
+        exportPValue: "P-значение",
+        exportNote: "Примечание",
+        eValueApproximations: {
+            'none': "",
+            'rare-outcome': "ОШ принято за ОР (редкий исход)",
+            'common-outcome': "ОР ≈ √ОШ (частый исход)",
+        },
+        significanceTestsHeader: "Тесты значимости",
+        fisherExactTwoSided: "Точный тест Фишера (двусторонний)",
+        fisherExactMidP: "Точный тест Фишера (mid-p)",
+        pearsonChiSquare: "Хи-квадрат Пирсона",
+        yatesChiSquare: "Хи-квадрат с поправкой Йейтса",
+        likelihoodRatioG: "G-тест отношения правдоподобия",
+        expectedCounts: "Ожидаемые частоты",
+        recommendedTest: "Рекомендуемый тест",
+        recommendedTestOptions: {
+            fisher: "Точный тест Фишера",
+            yates: "Хи-квадрат с поправкой Йейтса",
+            pearson: "Хи-квадрат Пирсона"
+        },
+        smallExpectedWarning: "Как минимум одна ожидаемая частота меньше 5. Приближения хи-квадрат (Пирсона, Йейтса, G) для этой таблицы ненадёжны; используйте точный тест Фишера.",
         impactMeasuresHeader: "Меры воздействия",
         riskDifference: "Разница рисков",
         nntHeader: "ЧБНЛ / ЧБНВ",
@@ -405,6 +1536,10 @@ export const translations: Record<Language, any> = {
         type1Error: "Ошибка I рода (α)",
         statPower: "Статистическая мощность (Post-Hoc)",
         type2Error: "Ошибка II рода (β)",
+        exposureInControls: "Распространённость воздействия среди контролей",
+        controlsPerCase: "Контролей на случай",
+        caseControlSampleSize: "Необходимая выборка для мощности 80%",
+        casesAndControls: (cases: number, controls: number) => `${cases} случаев + ${controls} контролей`,
         resultsPlaceholderTitle: "Результаты будут отображены здесь после расчета.",
         resultsPlaceholderDesc: "Выберите цель и дизайн исследования, затем введите значения, чтобы начать.",
         footerDisclaimer: "Отказ от ответственности: Этот инструмент предназначен только для образовательных и информационных целей и не является медицинской консультацией. Всегда консультируйтесь с квалифицированным медицинским работником по медицинским вопросам.",
@@ -470,6 +1605,37 @@ export const translations: Record<Language, any> = {
         aiFullReportTitle: "Полный отчет от ИИ",
         aiFullReportSubtitle: "Подробный технический анализ ваших результатов для медицинских работников.",
         interpretingResults: "ИИ интерпретирует результаты...",
+
+        plannerTitle: "Планирование размера выборки и мощности",
+        plannerSubtitle: "Спланируйте проспективное исследование с двумя группами: сколько участников нужно, чтобы выявить ожидаемый эффект?",
+        plannerControlRisk: "Ожидаемый риск в контрольной группе",
+        plannerEffectMeasure: "Целевой эффект",
+        plannerEffectValue: "Целевой размер эффекта",
+        plannerEffectOptions: {
+            rr: "Относительный риск (ОР)",
+            rd: "Разность рисков (РР)",
+            or: "Отношение шансов (ОШ)"
+        },
+        plannerPower: "Желаемая мощность (1 − β)",
+        plannerAllocation: "Соотношение групп (exposed : control)",
+        plannerContinuity: "Применить поправку на непрерывность",
+        plannerDropout: "Ожидаемый отсев (%)",
+        plannerErrorControlRisk: "Пожалуйста, введите риск в контрольной группе строго между 0 и 1 (напр., 0,20).",
+        plannerErrorEffect: "Пожалуйста, введите целевой эффект, дающий риск в группе воздействия строго между 0 и 1 и отличный от контрольного риска.",
+        plannerErrorAlpha: "Пожалуйста, введите уровень значимости между 0 и 0,5 (напр., 0,05).",
+        plannerErrorPower: "Пожалуйста, введите мощность больше уровня значимости и меньше 1 (напр., 0,80).",
+        plannerErrorAllocation: "Пожалуйста, введите положительное соотношение групп (напр., 1 для равных групп, 2 для вдвое большей группы воздействия).",
+        plannerErrorDropout: "Пожалуйста, введите ожидаемый отсев от 0 до 99%.",
+        plannerResultsTitle: "Необходимый размер выборки",
+        plannerExposedRisk: "Соответствующий риск в группе воздействия",
+        plannerPerArmExposed: "Группа воздействия",
+        plannerPerArmControl: "Контрольная группа",
+        plannerBeforeDropout: "Для анализа",
+        plannerAfterDropout: "Для включения (с отсевом)",
+        plannerPowerCurveTitle: "Мощность в зависимости от общего размера выборки",
+        plannerPowerAxis: "Мощность",
+        plannerSampleSizeAxis: "Общий размер выборки (N)",
+        plannerPlaceholder: "Введите допущения для планирования и нажмите «Рассчитать», чтобы увидеть необходимый размер выборки.",
         
         narrativeHeaders: {
             overview: "1. Обзор исследования",
@@ -498,8 +1664,22 @@ export const getTooltips = (lang: Language) => {
         cohortProspective: "Prospective Cohort Study: A group (cohort) is followed forward in time to observe who develops an outcome, comparing those exposed to a factor with those not exposed.",
         cohortRetrospective: "Retrospective Cohort Study: Uses existing data to look back in time, identifying a cohort and tracing outcomes.",
         caseControl: "Case-Control Study: Starts with individuals who have an outcome (cases) and a group without it (controls), then looks back in time to compare past exposures.",
+        matchedCaseControl: "Matched Case-Control Study: Each case is paired with one control who is similar on factors such as age and sex. The data are entered as pairs, classified by the exposure of the case and of its control.",
+        diagnosticAccuracy: "Diagnostic Accuracy Study: A test is applied to people with and without a disease, and its results are compared with their true disease status as established by a reference standard.",
       },
-      aiModelSelection: "Choose the AI model for generating reports. 'Flash' is faster and ideal for general summaries. 'Pro' is more powerful, providing deeper, more nuanced analysis, but may take longer to respond.",
+      aiModelSelection: "Choose the AI model for generating reports. The list shows the models offered by the AI provider this installation is configured to use. With Gemini, 'Flash' is faster and ideal for general summaries. 'Pro' is more powerful, providing deeper, more nuanced analysis, but may take longer to respond.",
+      ciMethodRiskDifference: "Wald: RD ± z·SE; simple but can fall outside [−1, 1] and undercovers with small samples or extreme risks. Newcombe: combines the Wilson score intervals of each group's risk; well-behaved in small samples. Miettinen–Nurminen: inverts a score test using restricted maximum-likelihood risks; among the most accurate intervals available.",
+      ciMethodRelativeRisk: "Wald: calculated on the log scale with 0.5 added to zero cells. Koopman: inverts a score (chi-square) test using restricted maximum-likelihood risks; remains valid when one group has no events.",
+      ciMethodOddsRatio: "Wald (Woolf): calculated on the log scale with 0.5 added to zero cells. Exact conditional (Cornfield): inverts Fisher's exact test using the noncentral hypergeometric distribution, and reports the conditional maximum-likelihood estimate of the OR alongside it.",
+      alphaLevel: "The threshold for statistical significance and the Type I error rate used in power and sample-size calculations. 0.05 is conventional; stricter levels such as 0.01 reduce false positives at the cost of power.",
+      testSidedness: "A two-sided test looks for an effect in either direction. A one-sided test (e.g., α = 0.025 in non-inferiority or superiority protocols) only looks in one direction; a one-sided α is equivalent to comparing the two-sided p-value against 2α.",
+      confidenceLevel: "The coverage of all confidence intervals (RD, RR, OR, NNT). A 95% interval corresponds to a two-sided α of 0.05; 90% intervals are common in equivalence testing, and 99% intervals give more conservative ranges.",
+      plannerControlRisk: "The proportion of the control (unexposed) group expected to experience the outcome, e.g., from previous studies or registry data. Enter it as a proportion (0.20 = 20%).",
+      plannerEffect: "The smallest effect worth detecting, expressed as a relative risk, a risk difference (exposed minus control) or an odds ratio. Together with the control risk it determines the expected risk in the exposed group.",
+      plannerPower: "The probability of detecting the target effect if it truly exists. 80% is the usual minimum; 90% is common in confirmatory trials.",
+      plannerAllocation: "How many exposed participants are enrolled for each control participant. 1 means equal groups; unequal allocation requires a larger total sample for the same power.",
+      plannerContinuity: "Applies the Fleiss–Tytun–Ury continuity correction, which gives a more conservative (larger) sample size that matches analysis with Yates-corrected chi-square or Fisher's exact test.",
+      plannerDropout: "The percentage of enrolled participants expected to be lost to follow-up. The required sample is inflated by 1 / (1 − dropout) so that enough participants remain for analysis.",
       contingencyTableInputs: "The 2x2 contingency table is the foundation for calculating risk. It cross-classifies individuals based on their exposure status and the presence or absence of a health outcome.",
       exposedGroup: "The group of individuals in a study who have been exposed to a potential risk factor (e.g., a new drug, a specific behavior, an environmental factor).",
       positiveOutcomeA: "Enter the number of individuals in the Exposed Group WITH the outcome of interest (e.g., the number who developed the disease).",
@@ -520,6 +1700,119 @@ export const getTooltips = (lang: Language) => {
       or95CI: "The 95% Confidence Interval for the Odds Ratio. If this range does not include 1.0, the result is statistically significant at the p<0.05 level.",
       orZStat: "The Z-statistic tests the null hypothesis that the Odds Ratio is 1 (i.e., no association).",
       orSignificance: "The p-value associated with the Z-statistic for the Odds Ratio.",
+      conditionalMle: "The conditional maximum-likelihood estimate of the odds ratio, based on the noncentral hypergeometric distribution with all margins fixed. It is the point estimate that matches the exact conditional CI and is less biased than the sample OR in small tables.",
+      stratifiedAnalysis: "Stratified analysis splits the data by a third variable (e.g., age band or site) and analyses a 2x2 table within each stratum. Comparing the pooled Mantel–Haenszel estimate with the crude estimate shows whether that variable confounds the association, and the homogeneity test shows whether the effect differs between strata (effect modification).",
+      stratumEstimates: "The RR, OR and RD calculated separately within each stratum. Similar values across strata support pooling them into one adjusted estimate; clearly different values suggest effect modification.",
+      mhAdjusted: "The Mantel–Haenszel estimate pools the stratum-specific results into one summary that is adjusted for the stratification variable. The CI uses the Robins–Breslow–Greenland (OR) or Greenland–Robins (RR, RD) variance. The crude value is the estimate from the pooled table, ignoring the strata.",
+      crudeVsAdjusted: "The percentage change from the crude to the Mantel–Haenszel adjusted estimate (RR, or OR for case-control studies). A change of more than 10% is a common rule of thumb for meaningful confounding.",
+      mantelHaenszelTest: "The Cochran–Mantel–Haenszel test of the null hypothesis that there is no association between exposure and outcome in any stratum, after adjusting for the stratification variable.",
+      breslowDayTest: "Tests whether the odds ratio is the same in all strata. A small p-value indicates effect modification (heterogeneity), in which case a single pooled estimate may be misleading. The test has low power with few or small strata.",
+      taroneTest: "Tarone's correction to the Breslow–Day test, which makes the statistic valid when the common odds ratio is estimated by the Mantel–Haenszel method. It is the version used to flag effect modification.",
+      analysisMode: "Choose how your data are organised. A single 2x2 table analyses one study. A stratified analysis splits one study by a third variable and adjusts for it. A meta-analysis statistically pools the results of several separate studies.",
+      metaAnalysis: "A meta-analysis combines the effect estimates of several studies, weighting each by its precision, to obtain one pooled estimate. The studies' tables are never simply added together, since that can distort the result (Simpson's paradox).",
+      metaFixedInverseVariance: "Assumes all studies estimate one common true effect and weights each by the inverse of its variance, so larger, more precise studies count more.",
+      metaFixedMantelHaenszel: "A fixed-effect method that pools the 2x2 tables directly. It copes better with small studies and sparse data than the inverse-variance method. Its p-value comes from the Cochran–Mantel–Haenszel test.",
+      metaRandomEffects: "Assumes the true effect varies between studies and adds the estimated between-study variance (τ²) to each study's variance. The CI is wider than the fixed-effect CI when heterogeneity is present, and smaller studies get relatively more weight.",
+      metaHeterogeneity: "Heterogeneity is variation in the true effects between studies beyond what chance would explain. It can arise from differences in populations, interventions, outcomes or study quality.",
+      metaCochranQ: "Tests the null hypothesis that all studies share the same true effect. The test has low power with few studies, so a non-significant Q does not rule out heterogeneity.",
+      metaISquared: "The percentage of the total variation across studies that is due to heterogeneity rather than chance. Roughly, 25% is low, 50% moderate and 75% high heterogeneity.",
+      metaTauSquared: "The estimated variance of the true effects across studies (on the log scale for RR and OR), estimated with the DerSimonian–Laird method. It is 0 when no heterogeneity beyond chance is detected.",
+      forestPlot: "Each row shows one study's estimate and confidence interval; the vertical line marks no effect. Diamonds at the bottom show the pooled fixed- and random-effects estimates, with their width showing the confidence interval. Intervals beyond the plotted range are clipped.",
+      incidenceRateMode: "Use person-time data when participants were followed for different lengths of time. Each group's incidence rate is its number of events divided by the total follow-up time, and the groups are compared by the ratio and difference of their rates.",
+      personTimeEvents: "The number of new outcome events observed in the group during follow-up.",
+      personTime: "The sum of the follow-up time of every participant in the group, counted until the event, the end of the study or loss to follow-up.",
+      incidenceRate: "The number of events per unit of follow-up time, shown per 1,000 units of person-time. The observed events and person-time are shown in brackets.",
+      rateRatio: "The incidence rate in the exposed group divided by the rate in the control group. An IRR of 1 means no difference; above 1, events occur more often in the exposed group.",
+      rateRatioCI: "An exact interval: conditional on the total number of events, the share of events in the exposed group follows a binomial distribution, and the interval is found by inverting two one-sided binomial tests. It stays valid with few events.",
+      rateRatioExactTest: "An exact binomial test of the null hypothesis that both groups have the same rate, conditional on the total number of events. It is valid however few events were observed.",
+      rateRatioMidP: "The exact test's mid-p value counts the probability of the observed split of events only by half, making it less conservative than the exact p-value.",
+      rateDifference: "The incidence rate in the exposed group minus the rate in the control group: the number of additional (or prevented) events per 1,000 units of person-time.",
+      rateDifferenceCI: "A Wald interval based on the Poisson variance of each rate (events divided by the squared person-time). It can be inaccurate when there are few events.",
+      rateDifferenceTest: "A z-test of the rate difference, using the pooled rate of both groups to estimate its standard error under the null hypothesis of equal rates.",
+      nntPersonTime: "The reciprocal of the rate difference, expressed as person-time rather than people: the amount of exposure after which one additional event is prevented (NNT) or caused (NNH). For example, 500 person-years could mean 500 people each exposed for one year.",
+      diagnosticGrid: {
+        step4: "Everyone whose result on the test being evaluated was positive.",
+        step5: "Everyone whose result on the test being evaluated was negative.",
+        a: "Enter the number of people who tested positive and have the disease according to the reference standard (true positives).",
+        b: "Enter the number of people who tested positive but do not have the disease according to the reference standard (false positives).",
+        c: "Enter the number of people who tested negative but have the disease according to the reference standard (false negatives).",
+        d: "Enter the number of people who tested negative and do not have the disease according to the reference standard (true negatives).",
+      },
+      diagnosticTestCharacteristics: "Sensitivity and specificity describe the test itself and do not depend on how common the disease is. Intervals are Wilson score intervals.",
+      sensitivity: "The proportion of people with the disease who test positive: a/(a+c). A highly sensitive test rarely misses the disease, so a negative result helps to rule it out.",
+      specificity: "The proportion of people without the disease who test negative: d/(b+d). A highly specific test rarely gives false alarms, so a positive result helps to rule the disease in.",
+      youdenIndex: "Sensitivity + specificity − 1. Ranges from 0 (a test no better than chance) to 1 (a perfect test). Its interval is Newcombe's interval for the difference between the true- and false-positive rates.",
+      likelihoodRatios: "Likelihood ratios tell how much a test result changes the odds of disease: post-test odds = pre-test odds × LR. They do not depend on prevalence. Intervals are calculated on the log scale, adding 0.5 to every cell if any cell is 0.",
+      lrPositive: "Sensitivity / (1 − specificity): how much more likely a positive result is in people with the disease than without it. Values above 10 strongly rule the disease in.",
+      lrNegative: "(1 − sensitivity) / specificity: how much less likely a negative result is in people with the disease than without it. Values below 0.1 strongly rule the disease out.",
+      diagnosticOddsRatio: "LR+ / LR−, or (a·d)/(b·c): the odds of a positive test in people with the disease relative to those without. A single summary of discrimination; 1 means the test does not discriminate.",
+      predictiveValues: "Predictive values give the probability that a test result is correct for an individual. They depend strongly on prevalence, so the values below only apply to populations with the prevalence shown.",
+      adjustedPredictiveValues: "Predictive values recalculated for the prevalence you entered, using Bayes' theorem with the likelihood ratios. Their intervals are carried over from the intervals of the likelihood ratios.",
+      ppv: "The probability that a person who tests positive really has the disease: a/(a+b) in the study sample. It falls as the disease becomes rarer.",
+      npv: "The probability that a person who tests negative really does not have the disease: d/(c+d) in the study sample. It rises as the disease becomes rarer.",
+      targetPrevalence: "The proportion of people who have the disease in the population where you would use the test, e.g. low in general screening and higher in a specialist clinic. Enter it to see the predictive values for that setting.",
+      matchedPairsGrid: {
+        step4: "Matched pairs in which the case was exposed. Count pairs, not individuals.",
+        step5: "Matched pairs in which the case was not exposed. Count pairs, not individuals.",
+        a: "Enter the number of pairs in which both the case and its control were exposed (concordant pairs).",
+        b: "Enter the number of pairs in which the case was exposed but its control was not (discordant pairs).",
+        c: "Enter the number of pairs in which the control was exposed but the case was not (discordant pairs).",
+        d: "Enter the number of pairs in which neither the case nor its control was exposed (concordant pairs).",
+      },
+      matchedPairs: "In a matched design the unit of analysis is the pair. Analysing the same people as an unmatched 2x2 table ignores the matching and generally biases the odds ratio towards 1.",
+      discordantPairs: "Pairs in which the case and its control differ in exposure (b + c). Only these pairs carry information about the association; concordant pairs (a and d) do not.",
+      conditionalOddsRatio: "b / c: the number of pairs in which only the case was exposed divided by the number in which only the control was exposed. This is the maximum-likelihood estimate of the OR that accounts for the matching.",
+      conditionalOddsRatioCI: "An exact interval: given the number of discordant pairs, b follows a binomial distribution, and the interval is found by inverting two one-sided binomial tests.",
+      pairedRiskDifference: "(b − c) / number of pairs: the proportion of cases who were exposed minus the proportion of controls who were exposed, taking the pairing into account.",
+      pairedRiskDifferenceCI: "A Wald interval using the variance for two dependent (paired) proportions.",
+      mcnemarTest: "McNemar's test asks whether the two kinds of discordant pairs (b and c) are equally common, which is what would be expected if exposure were not associated with the outcome.",
+      mcnemarExact: "An exact binomial test of b against b + c with probability 1/2. Preferred when there are few discordant pairs (fewer than about 25).",
+      mcnemarExactMidP: "The exact test's mid-p value counts the probability of the observed split only by half, making it less conservative than the exact p-value.",
+      mcnemarChiSquare: "(b − c)² / (b + c), compared with a chi-square distribution with 1 degree of freedom. A large-sample approximation to the exact test.",
+      mcnemarCorrected: "(|b − c| − 1)² / (b + c): Edwards' continuity-corrected version, which is closer to the exact test but more conservative.",
+      attributableFractions: "How much of the outcome is due to a harmful exposure (ratio above 1). These figures assume the association is causal and not explained by confounding or bias.",
+      preventedFractions: "How much of the outcome is avoided thanks to a protective exposure (ratio below 1). These figures assume the association is causal and not explained by confounding or bias.",
+      attributableFractionExposed: "(RR − 1) / RR: the proportion of outcomes among exposed people that is due to the exposure. In a case-control study the OR is used in place of the RR. The CI comes from the limits of the RR (or OR).",
+      preventedFractionExposed: "1 − RR: the proportion of the outcomes that exposed people would otherwise have had which the exposure prevented. In a case-control study the OR is used in place of the RR. The CI comes from the limits of the RR (or OR).",
+      populationAttributableFraction: "Levin's formula, p(RR − 1) / (1 + p(RR − 1)), where p is the exposure prevalence in the population: the proportion of all outcomes in the population that would not occur without the exposure. The CI treats p as known.",
+      populationPreventedFraction: "p(1 − RR), where p is the exposure prevalence in the population: the proportion of all potential outcomes in the population that the exposure prevents. The CI treats p as known.",
+      caseBasedAttributableFraction: "Miettinen's formula, pc(OR − 1) / OR, where pc is the proportion of cases who were exposed. It needs no outside estimate of the exposure prevalence and is valid when the OR approximates the RR. The CI uses Greenland and Drescher's log-scale variance.",
+      exposurePrevalence: "The proportion of the target population who are exposed, used by the population-level fractions. By default the study's own value is used: all participants in a cohort or trial, or the controls in a case-control study. In a trial this reflects the allocation ratio rather than the population, so entering a real-world value is recommended.",
+      bayesianPrior: "The prior describes what is believed about each group's risk before seeing the data, as a beta distribution. With enough data the choice matters little; with small studies it can matter a lot, so compare several priors.",
+      priorPresets: {
+        uniform: "Beta(1, 1) for both groups: every risk from 0 to 1 is equally plausible. The results are driven almost entirely by the data.",
+        skeptical: "Both risks are centred on the pooled risk (no difference between groups), each with the weight of half its group's sample size. Favourable results must overcome this doubt.",
+        enthusiastic: "Like the skeptical prior, but the exposed group's prior is shifted by the meaningful risk difference in the direction of benefit.",
+        custom: "Enter your own beta parameters. α − 1 and β − 1 can be read roughly as prior events and non-events; e.g. Beta(3, 27) is like having seen 2 events in 28 people.",
+      },
+      rdThreshold: "The smallest absolute risk difference, in percentage points, that would matter clinically. Used for the probabilities of meaningful benefit or harm and to shift the enthusiastic prior.",
+      rrThreshold: "The smallest relative change that would matter clinically, as a ratio of 1 or more (e.g. 1.25). Benefit or harm beyond it means an RR beyond 1.25 or below 1/1.25 = 0.80, depending on the direction.",
+      betaPosterior: "Each group's risk has a beta prior; adding the observed events to α and the non-events to β gives its posterior distribution.",
+      posteriorRiskDifference: "The posterior distribution of the risk in the exposed group minus the risk in the control group.",
+      posteriorRelativeRisk: "The posterior distribution of the risk in the exposed group divided by the risk in the control group.",
+      posteriorMedian: "The middle of the posterior distribution: the effect is equally likely to be above or below this value.",
+      credibleInterval: "Given the prior and the data, the effect lies within this interval with the stated probability. Unlike a confidence interval, it can be read directly as a probability statement about the effect.",
+      probabilityOfBenefit: "The posterior probability that the exposure is beneficial at all: a lower risk for an undesirable outcome, or a higher one for a desirable outcome.",
+      probabilityOfHarm: "The posterior probability that the exposure is harmful at all.",
+      probabilityBeyondThreshold: "The posterior probability that the effect is not just in this direction but larger than the clinically meaningful threshold.",
+      posteriorDensity: "The curve shows how plausible each value of the effect is after seeing the data. The grey line marks no effect, the shaded area the credible interval and the dashed orange lines the meaningful thresholds.",
+      fragilityIndex: "The smallest number of patients in the group with the lower event rate whose outcome would have to change from non-event to event for the result to lose statistical significance (Fisher's exact test at the chosen α). A small index, especially one smaller than the number of patients lost to follow-up, means the result is fragile. The fragility quotient divides the index by the total sample size.",
+      reverseFragilityIndex: "The smallest number of patients in one group whose outcome would have to change for a non-significant result to become significant (Fisher's exact test at the chosen α). A small index means the 'no difference' conclusion is fragile. The fragility quotient divides the index by the total sample size.",
+      confoundingSensitivity: "Observational studies can be biased by confounders that were not measured. E-values (VanderWeele and Ding) quantify how strong such a confounder would have to be to explain away the observed association.",
+      eValuePoint: "The minimum risk ratio that an unmeasured confounder would need with both the exposure and the outcome, beyond the measured factors, to fully explain away the point estimate. Larger values mean the result is harder to explain by confounding. An OR is first converted to the risk ratio scale: taken as is when the outcome is rare (below about 15%, assumed for case-control studies), or square-rooted when it is common. An incidence rate ratio is used as a risk ratio.",
+      eValueLimit: "The same for the confidence limit closest to 1: how strong confounding would have to be for the confidence interval to include 1. It equals 1 when the interval already includes 1.",
+      charts: "The effect estimate chart shows each ratio measure (RR, OR) on a log scale around 1 and the risk difference on a linear scale around 0; the dashed line marks no effect, and an interval that crosses it is not statistically significant. The bar chart shows the absolute risk in each group with Wilson score confidence intervals, for the pooled table and each stratum. Both charts can be downloaded as SVG or PNG.",
+      iconArray: "An icon array shows the absolute risks as people out of 100 (or 1000, when the risks are small). Shaded icons in the exposed group mark the extra cases; outlined icons mark the cases avoided compared with the control group. Green means the difference favours the exposure, red that it does not, as in the NNT/NNH. Counts are rounded to whole people.",
+      comparisonTests: "Tests whether each analysis's estimate differs from the reference estimate more than chance would explain (Altman and Bland test of interaction). Ratios are compared as a ratio of ratios, where 1 means no difference; risk differences are subtracted, where 0 means no difference. Overlapping confidence intervals do not by themselves show that two estimates are similar.",
+      individualData: "Each participant row is counted once, in the cell given by its mapped exposure and outcome values. Rows are left out when either value is missing (an empty cell, NA, N/A, NaN, null or \".\"), when a value is unmapped, or when the stratification column is chosen and its value is missing. Check the excluded rows before analysing: many missing values can bias the estimates.",
+      significanceTests: "Hypothesis tests of whether the exposure and outcome are associated. Exact tests do not rely on large-sample approximations and remain valid when counts are small or some cells are zero.",
+      fisherExact: "Fisher's exact test computes the p-value directly from the hypergeometric distribution of all tables with the same row and column totals. Unlike the Z-test, it is valid for small samples and sparse tables (e.g., rare adverse events, pilot trials).",
+      fisherMidP: "The mid-p value counts the probability of the observed table only by half. It is less conservative than the standard Fisher p-value while keeping close to the nominal Type I error rate, and is often recommended for small studies.",
+      pearsonChiSquare: "Pearson's chi-square test compares the observed cell counts with those expected if exposure and outcome were independent. It is accurate when all expected counts are at least 5 (ideally 10 or more).",
+      yatesChiSquare: "Yates' continuity correction subtracts 0.5 from each |observed − expected| difference before squaring. It makes the chi-square test more conservative for moderately sized tables, but can be overly cautious.",
+      likelihoodRatioG: "The likelihood-ratio (G) test compares observed and expected counts on a logarithmic scale: G = 2·Σ O·ln(O/E). It is asymptotically equivalent to Pearson's chi-square and has the same sample-size requirements.",
+      expectedCounts: "The cell counts expected under the null hypothesis of no association, calculated as (row total × column total) / grand total. Chi-square tests are only trustworthy when none of these is below 5.",
+      recommendedTest: "The test best suited to this table given its expected counts: Fisher's exact test if any expected count is below 5, the Yates-corrected chi-square if the smallest is below 10, and Pearson's chi-square otherwise.",
       measuresOfImpact: "Metrics that describe the public health impact of an exposure. The terminology (e.g., 'Risk Reduction' vs 'Risk Increase') is dynamically determined by your selected 'Study Goal' and the calculated results.",
       riskDifference: "The absolute difference in risk between the exposed and control groups. RD = [a/(a+b)] - [c/(c+d)]. A value of 0 indicates no difference.",
       rd95CI: "The 95% Confidence Interval for the Risk Difference. If the interval does not include 0, the result is statistically significant.",
@@ -530,6 +1823,9 @@ export const getTooltips = (lang: Language) => {
       analysisReliability: "This section assesses the reliability of the study's conclusions by examining its statistical power and the probability of errors.",
       type1Error: "Type I Error Rate (α): The probability of finding a statistically significant effect when one does not truly exist (a 'false positive'). This is typically set at 5% (p < 0.05).",
       statisticalPower: "Statistical Power (1-β): The probability that a study will detect an effect that is actually present. A power of 80% or higher is conventionally considered adequate. Low power means the study was too small to reliably detect an effect.",
+      exposureInControls: "The proportion of controls who were exposed (b / (b + d)). In a case-control study this stands in for the baseline exposure prevalence and, together with the odds ratio, determines the expected exposure prevalence among cases used in the power calculation.",
+      controlsPerCase: "The number of controls enrolled for each case in this study. Recruiting more controls per case increases power, but gains are small beyond about 4 controls per case.",
+      caseControlSampleSize: "The number of cases and controls a study would need to detect the observed odds ratio with 80% power at the selected significance level, keeping the same exposure prevalence in controls and the same number of controls per case.",
       type2Error: "Type II Error Rate (β): The probability of failing to detect an effect that is truly present (a 'false negative'). It is the inverse of Statistical Power (β = 1 - Power)."
     },
     uk: {
@@ -541,8 +1837,22 @@ export const getTooltips = (lang: Language) => {
         cohortProspective: "Проспективне когортне дослідження: Групу (когорту) спостерігають у часі, щоб побачити, у кого розвивається результат, порівнюючи тих, хто зазнав впливу фактора, з тими, хто не зазнав.",
         cohortRetrospective: "Ретроспективне когортне дослідження: Використовує існуючі дані для погляду назад у часі, ідентифікуючи когорту та відстежуючи результати.",
         caseControl: "Дослідження випадок-контроль: Починається з осіб, які мають результат (випадки), та групи без нього (контролі), а потім дивиться назад у часі, щоб порівняти минулі впливи.",
+        matchedCaseControl: "Парне дослідження випадок-контроль: Кожному випадку підбирають один контроль, подібний за такими факторами, як вік і стать. Дані вводяться як пари, класифіковані за впливом на випадок і на його контроль.",
+        diagnosticAccuracy: "Дослідження діагностичної точності: Тест застосовують до осіб із захворюванням і без нього, а його результати порівнюють з їхнім справжнім станом, встановленим за еталонним методом.",
       },
-      aiModelSelection: "Оберіть модель ШІ для генерації звітів. 'Flash' швидший та ідеально підходить для загальних оглядів. 'Pro' є більш потужним, надаючи глибший, більш нюансований аналіз, але може потребувати більше часу на відповідь.",
+      aiModelSelection: "Оберіть модель ШІ для генерації звітів. У списку наведено моделі, які пропонує постачальник ШІ, налаштований для цієї інсталяції. Для Gemini: 'Flash' швидший та ідеально підходить для загальних оглядів. 'Pro' є більш потужним, надаючи глибший, більш нюансований аналіз, але може потребувати більше часу на відповідь.",
+      ciMethodRiskDifference: "Вальда: РР ± z·SE; простий, але може виходити за межі [−1, 1] і недостатньо покриває справжнє значення при малих вибірках або крайніх ризиках. Ньюкомба: поєднує скорові інтервали Вілсона для ризику кожної групи; добре працює на малих вибірках. Міеттінена–Нурмінена: обертає скоровий тест з обмеженими оцінками максимальної правдоподібності; один з найточніших доступних інтервалів.",
+      ciMethodRelativeRisk: "Вальда: розраховується в логарифмічній шкалі з додаванням 0,5 до нульових клітинок. Купмана: обертає скоровий (хі-квадрат) тест з обмеженими оцінками максимальної правдоподібності; залишається валідним, коли в одній з груп немає подій.",
+      ciMethodOddsRatio: "Вальда (Вулф): розраховується в логарифмічній шкалі з додаванням 0,5 до нульових клітинок. Точний умовний (Корнфілд): обертає точний тест Фішера з використанням нецентрального гіпергеометричного розподілу та додатково наводить умовну оцінку максимальної правдоподібності ВШ.",
+      alphaLevel: "Поріг статистичної значущості та рівень помилки I роду, що використовується в розрахунках потужності та розміру вибірки. Традиційно 0,05; суворіші рівні, як-от 0,01, зменшують кількість хибнопозитивних результатів ціною потужності.",
+      testSidedness: "Двобічний тест шукає ефект в обох напрямках. Однобічний тест (напр., α = 0,025 у протоколах не меншої ефективності чи переваги) шукає ефект лише в одному напрямку; однобічне α еквівалентне порівнянню двобічного p-значення з 2α.",
+      confidenceLevel: "Покриття всіх довірчих інтервалів (РР, ВР, ВШ, ЧПЛ). 95% інтервал відповідає двобічному α = 0,05; 90% інтервали поширені в тестуванні еквівалентності, а 99% інтервали дають консервативніші діапазони.",
+      plannerControlRisk: "Частка контрольної групи (без впливу), у якої очікується результат, напр., за даними попередніх досліджень або реєстрів. Введіть як частку (0,20 = 20%).",
+      plannerEffect: "Найменший ефект, який варто виявити, виражений як відносний ризик, різниця ризиків (група під впливом мінус контроль) або відношення шансів. Разом з контрольним ризиком він визначає очікуваний ризик у групі під впливом.",
+      plannerPower: "Ймовірність виявити цільовий ефект, якщо він справді існує. 80% — звичний мінімум; 90% поширені в підтверджувальних дослідженнях.",
+      plannerAllocation: "Скільки учасників під впливом включається на кожного учасника контрольної групи. 1 означає рівні групи; нерівний розподіл потребує більшої загальної вибірки для тієї ж потужності.",
+      plannerContinuity: "Застосовує поправку на неперервність Фляйса–Титуна–Ьюрі, яка дає консервативніший (більший) розмір вибірки, що відповідає аналізу за допомогою хі-квадрат з поправкою Єйтса або точного тесту Фішера.",
+      plannerDropout: "Відсоток включених учасників, яких очікується втратити під час спостереження. Необхідна вибірка збільшується в 1 / (1 − відсів) разів, щоб для аналізу залишилося достатньо учасників.",
       contingencyTableInputs: "Таблиця 2x2 є основою для розрахунку ризику. Вона перехресно класифікує осіб за статусом впливу та наявністю чи відсутністю результату для здоров'я.",
       exposedGroup: "Група осіб у дослідженні, які зазнали впливу потенційного фактора ризику (напр., нового препарату, певної поведінки, фактора навколишнього середовища).",
       positiveOutcomeA: "Введіть кількість осіб у групі під впливом З результатом, що цікавить (напр., кількість тих, хто захворів).",
@@ -563,6 +1873,119 @@ export const getTooltips = (lang: Language) => {
       or95CI: "95% довірчий інтервал для відношення шансів. Якщо цей діапазон не включає 1.0, результат є статистично значущим на рівні p<0.05.",
       orZStat: "Z-статистика перевіряє нульову гіпотезу про те, що відношення шансів дорівнює 1 (тобто немає асоціації).",
       orSignificance: "P-значення, пов'язане з Z-статистикою для відношення шансів.",
+      conditionalMle: "Умовна оцінка максимальної правдоподібності відношення шансів, заснована на нецентральному гіпергеометричному розподілі за фіксованих сум рядків і стовпців. Це точкова оцінка, що відповідає точному умовному ДІ, і вона менш зміщена, ніж вибіркове ВШ у малих таблицях.",
+      stratifiedAnalysis: "Стратифікований аналіз розділяє дані за третьою змінною (напр., віковою групою або центром) і аналізує таблицю 2x2 у кожній страті. Порівняння об'єднаної оцінки Мантеля–Гензеля з грубою оцінкою показує, чи є ця змінна конфаундером, а тест однорідності — чи відрізняється ефект між стратами (модифікація ефекту).",
+      stratumEstimates: "ВР, ВШ і РР, розраховані окремо в кожній страті. Схожі значення в стратах підтримують їх об'єднання в одну скориговану оцінку; явно різні значення вказують на модифікацію ефекту.",
+      mhAdjusted: "Оцінка Мантеля–Гензеля об'єднує результати страт в одну зведену оцінку, скориговану на змінну стратифікації. ДІ використовує дисперсію Робінса–Бреслоу–Гренланда (ВШ) або Гренланда–Робінса (ВР, РР). Груба оцінка — це оцінка за об'єднаною таблицею без урахування страт.",
+      crudeVsAdjusted: "Відсоткова зміна від грубої до скоригованої оцінки Мантеля–Гензеля (ВР або ВШ для досліджень «випадок-контроль»). Зміна понад 10% — поширене емпіричне правило для суттєвого конфаундингу.",
+      mantelHaenszelTest: "Тест Кохрана–Мантеля–Гензеля нульової гіпотези про відсутність зв'язку між впливом і результатом у жодній страті після коригування на змінну стратифікації.",
+      breslowDayTest: "Перевіряє, чи однакове відношення шансів у всіх стратах. Мале p-значення вказує на модифікацію ефекту (неоднорідність), і тоді єдина об'єднана оцінка може вводити в оману. Тест має низьку потужність за малої кількості або малого розміру страт.",
+      taroneTest: "Поправка Тароне до тесту Бреслоу–Дея, яка робить статистику коректною, коли спільне відношення шансів оцінюється методом Мантеля–Гензеля. Саме ця версія використовується для виявлення модифікації ефекту.",
+      analysisMode: "Оберіть, як організовано ваші дані. Одна таблиця 2x2 аналізує одне дослідження. Стратифікований аналіз розділяє одне дослідження за третьою змінною і коригує на неї. Метааналіз статистично об'єднує результати кількох окремих досліджень.",
+      metaAnalysis: "Метааналіз поєднує оцінки ефекту кількох досліджень, зважуючи кожну за її точністю, щоб отримати одну об'єднану оцінку. Таблиці досліджень ніколи не підсумовуються напряму, оскільки це може спотворити результат (парадокс Сімпсона).",
+      metaFixedInverseVariance: "Припускає, що всі дослідження оцінюють один спільний істинний ефект, і зважує кожне оберненою величиною його дисперсії, тож більші й точніші дослідження мають більшу вагу.",
+      metaFixedMantelHaenszel: "Метод фіксованого ефекту, який об'єднує таблиці 2x2 безпосередньо. Він краще за метод оберненої дисперсії працює з малими дослідженнями та розрідженими даними. Його p-значення отримано з тесту Кохрана–Мантеля–Гензеля.",
+      metaRandomEffects: "Припускає, що істинний ефект відрізняється між дослідженнями, і додає оцінену міждослідницьку дисперсію (τ²) до дисперсії кожного дослідження. За наявності неоднорідності ДІ ширший, ніж у моделі фіксованого ефекту, а менші дослідження отримують відносно більшу вагу.",
+      metaHeterogeneity: "Неоднорідність — це відмінність істинних ефектів між дослідженнями, більша, ніж можна пояснити випадковістю. Вона може виникати через відмінності в популяціях, втручаннях, результатах або якості досліджень.",
+      metaCochranQ: "Перевіряє нульову гіпотезу про те, що всі дослідження мають однаковий істинний ефект. За малої кількості досліджень тест має низьку потужність, тому незначущий Q не виключає неоднорідності.",
+      metaISquared: "Відсоток загальної варіації між дослідженнями, зумовлений неоднорідністю, а не випадковістю. Орієнтовно 25% — низька, 50% — помірна, 75% — висока неоднорідність.",
+      metaTauSquared: "Оцінена дисперсія істинних ефектів між дослідженнями (у логарифмічній шкалі для ВР і ВШ), розрахована методом ДерСімоніана–Лерда. Дорівнює 0, якщо неоднорідності понад випадкову не виявлено.",
+      forestPlot: "Кожен рядок показує оцінку одного дослідження та її довірчий інтервал; вертикальна лінія позначає відсутність ефекту. Ромби внизу показують об'єднані оцінки фіксованих і випадкових ефектів, їхня ширина — довірчий інтервал. Інтервали за межами шкали обрізано.",
+      incidenceRateMode: "Використовуйте дані людино-часу, коли учасників спостерігали протягом різного часу. Показник захворюваності кожної групи — це кількість випадків, поділена на загальний час спостереження, а групи порівнюються за відношенням і різницею їхніх показників.",
+      personTimeEvents: "Кількість нових випадків результату, що спостерігалися в групі під час спостереження.",
+      personTime: "Сума часу спостереження кожного учасника групи — до настання випадку, завершення дослідження або вибуття зі спостереження.",
+      incidenceRate: "Кількість випадків на одиницю часу спостереження, показана на 1000 одиниць людино-часу. У дужках наведено спостережувані випадки та людино-час.",
+      rateRatio: "Показник захворюваності в групі під впливом, поділений на показник у контрольній групі. IRR, що дорівнює 1, означає відсутність різниці; понад 1 — випадки частіше виникають у групі під впливом.",
+      rateRatioCI: "Точний інтервал: за умови фіксованої загальної кількості випадків частка випадків у групі під впливом має біноміальний розподіл, а інтервал знаходять оберненням двох однобічних біноміальних тестів. Він залишається коректним за малої кількості випадків.",
+      rateRatioExactTest: "Точний біноміальний тест нульової гіпотези про однакові показники в обох групах за умови фіксованої загальної кількості випадків. Він коректний за будь-якої кількості випадків.",
+      rateRatioMidP: "Mid-p значення точного тесту враховує ймовірність спостережуваного розподілу випадків лише наполовину, тому є менш консервативним за точне p-значення.",
+      rateDifference: "Показник захворюваності в групі під впливом мінус показник у контрольній групі: кількість додаткових (або відвернених) випадків на 1000 одиниць людино-часу.",
+      rateDifferenceCI: "Інтервал Вальда на основі пуассонівської дисперсії кожного показника (кількість випадків, поділена на квадрат людино-часу). За малої кількості випадків може бути неточним.",
+      rateDifferenceTest: "z-тест різниці показників, що використовує об'єднаний показник обох груп для оцінки стандартної похибки за нульової гіпотези про рівні показники.",
+      nntPersonTime: "Обернена величина різниці показників, виражена в людино-часі, а не в людях: обсяг впливу, після якого відвертається (ЧПЛ) або спричиняється (ЧПШ) один додатковий випадок. Напр., 500 людино-років можуть означати 500 осіб, кожна з яких зазнавала впливу протягом одного року.",
+      diagnosticGrid: {
+        step4: "Усі особи, у яких результат тесту, що оцінюється, був позитивним.",
+        step5: "Усі особи, у яких результат тесту, що оцінюється, був негативним.",
+        a: "Введіть кількість осіб з позитивним тестом, які мають захворювання за еталонним методом (істинно позитивні).",
+        b: "Введіть кількість осіб з позитивним тестом, які не мають захворювання за еталонним методом (хибно позитивні).",
+        c: "Введіть кількість осіб з негативним тестом, які мають захворювання за еталонним методом (хибно негативні).",
+        d: "Введіть кількість осіб з негативним тестом, які не мають захворювання за еталонним методом (істинно негативні).",
+      },
+      diagnosticTestCharacteristics: "Чутливість і специфічність описують сам тест і не залежать від поширеності захворювання. Інтервали — інтервали Вілсона.",
+      sensitivity: "Частка осіб із захворюванням, у яких тест позитивний: a/(a+c). Високочутливий тест рідко пропускає захворювання, тому негативний результат допомагає його виключити.",
+      specificity: "Частка осіб без захворювання, у яких тест негативний: d/(b+d). Високоспецифічний тест рідко дає хибні тривоги, тому позитивний результат допомагає підтвердити захворювання.",
+      youdenIndex: "Чутливість + специфічність − 1. Від 0 (тест не кращий за випадковість) до 1 (ідеальний тест). Інтервал — інтервал Ньюкомба для різниці часток істинно та хибно позитивних результатів.",
+      likelihoodRatios: "Відношення правдоподібності показують, наскільки результат тесту змінює шанси захворювання: післятестові шанси = дотестові шанси × LR. Вони не залежать від поширеності. Інтервали розраховано в логарифмічній шкалі з додаванням 0,5 до кожної клітинки, якщо будь-яка клітинка дорівнює 0.",
+      lrPositive: "Чутливість / (1 − специфічність): у скільки разів позитивний результат імовірніший в осіб із захворюванням, ніж без нього. Значення понад 10 переконливо підтверджують захворювання.",
+      lrNegative: "(1 − чутливість) / специфічність: у скільки разів негативний результат менш імовірний в осіб із захворюванням, ніж без нього. Значення менше 0,1 переконливо виключають захворювання.",
+      diagnosticOddsRatio: "LR+ / LR−, або (a·d)/(b·c): шанси позитивного тесту в осіб із захворюванням порівняно з особами без нього. Єдиний підсумковий показник розрізнювальної здатності; 1 означає, що тест не розрізняє.",
+      predictiveValues: "Прогностична цінність — це ймовірність того, що результат тесту правильний для конкретної особи. Вона сильно залежить від поширеності, тому наведені значення стосуються лише популяцій із зазначеною поширеністю.",
+      adjustedPredictiveValues: "Прогностична цінність, перерахована для введеної вами поширеності за теоремою Баєса з відношень правдоподібності. Інтервали перенесено з інтервалів відношень правдоподібності.",
+      ppv: "Імовірність того, що особа з позитивним тестом справді має захворювання: a/(a+b) у вибірці дослідження. Зменшується, коли захворювання рідшає.",
+      npv: "Імовірність того, що особа з негативним тестом справді не має захворювання: d/(c+d) у вибірці дослідження. Зростає, коли захворювання рідшає.",
+      targetPrevalence: "Частка осіб із захворюванням у популяції, де ви застосовуватимете тест, напр., низька при загальному скринінгу та вища у спеціалізованій клініці. Введіть її, щоб побачити прогностичну цінність для цих умов.",
+      matchedPairsGrid: {
+        step4: "Відповідні пари, у яких випадок зазнав впливу. Рахуйте пари, а не осіб.",
+        step5: "Відповідні пари, у яких випадок не зазнав впливу. Рахуйте пари, а не осіб.",
+        a: "Введіть кількість пар, у яких і випадок, і його контроль зазнали впливу (збіжні пари).",
+        b: "Введіть кількість пар, у яких випадок зазнав впливу, а його контроль — ні (розбіжні пари).",
+        c: "Введіть кількість пар, у яких контроль зазнав впливу, а випадок — ні (розбіжні пари).",
+        d: "Введіть кількість пар, у яких ні випадок, ні його контроль не зазнали впливу (збіжні пари).",
+      },
+      matchedPairs: "У парному дизайні одиницею аналізу є пара. Аналіз тих самих осіб як непарної таблиці 2x2 ігнорує підбір і зазвичай зміщує відношення шансів до 1.",
+      discordantPairs: "Пари, у яких випадок і його контроль відрізняються за впливом (b + c). Лише ці пари несуть інформацію про зв'язок; збіжні пари (a і d) — ні.",
+      conditionalOddsRatio: "b / c: кількість пар, у яких впливу зазнав лише випадок, поділена на кількість пар, у яких впливу зазнав лише контроль. Це оцінка максимальної правдоподібності ВШ, що враховує підбір.",
+      conditionalOddsRatioCI: "Точний інтервал: за фіксованої кількості розбіжних пар b має біноміальний розподіл, а інтервал знаходять оберненням двох однобічних біноміальних тестів.",
+      pairedRiskDifference: "(b − c) / кількість пар: частка випадків, що зазнали впливу, мінус частка контролів, що зазнали впливу, з урахуванням парності.",
+      pairedRiskDifferenceCI: "Інтервал Вальда з дисперсією для двох залежних (парних) часток.",
+      mcnemarTest: "Тест Мак-Немара перевіряє, чи однаково часто трапляються обидва типи розбіжних пар (b і c), як і слід очікувати, якщо вплив не пов'язаний з результатом.",
+      mcnemarExact: "Точний біноміальний тест b серед b + c з імовірністю 1/2. Бажаний, коли розбіжних пар мало (менше приблизно 25).",
+      mcnemarExactMidP: "Mid-p значення точного тесту враховує ймовірність спостережуваного розподілу лише наполовину, тому є менш консервативним за точне p-значення.",
+      mcnemarChiSquare: "(b − c)² / (b + c), порівняне з розподілом хі-квадрат з 1 ступенем свободи. Наближення точного тесту для великих вибірок.",
+      mcnemarCorrected: "(|b − c| − 1)² / (b + c): версія з поправкою Едвардса на неперервність, ближча до точного тесту, але консервативніша.",
+      attributableFractions: "Яка частина результату зумовлена шкідливим впливом (відношення більше 1). Ці показники припускають, що зв'язок причинний і не пояснюється змішуванням чи упередженням.",
+      preventedFractions: "Якій частині результату запобігає захисний вплив (відношення менше 1). Ці показники припускають, що зв'язок причинний і не пояснюється змішуванням чи упередженням.",
+      attributableFractionExposed: "(ВР − 1) / ВР: частка результатів серед осіб, які зазнали впливу, зумовлена впливом. У дослідженні випадок-контроль замість ВР використовується ВШ. ДІ отримано з меж ВР (або ВШ).",
+      preventedFractionExposed: "1 − ВР: частка результатів, які інакше мали б особи, що зазнали впливу, і яким вплив запобіг. У дослідженні випадок-контроль замість ВР використовується ВШ. ДІ отримано з меж ВР (або ВШ).",
+      populationAttributableFraction: "Формула Левіна, p(ВР − 1) / (1 + p(ВР − 1)), де p — поширеність впливу в популяції: частка всіх результатів у популяції, які не виникли б без впливу. ДІ вважає p відомим.",
+      populationPreventedFraction: "p(1 − ВР), де p — поширеність впливу в популяції: частка всіх можливих результатів у популяції, яким запобігає вплив. ДІ вважає p відомим.",
+      caseBasedAttributableFraction: "Формула Міеттінена, pc(ВШ − 1) / ВШ, де pc — частка випадків, які зазнали впливу. Вона не потребує зовнішньої оцінки поширеності впливу і справедлива, коли ВШ наближає ВР. ДІ використовує логарифмічну дисперсію Гренланда і Дрешера.",
+      exposurePrevalence: "Частка цільової популяції, що зазнає впливу; використовується популяційними частками. За замовчуванням береться значення з дослідження: усі учасники когорти чи випробування або контролі в дослідженні випадок-контроль. У випробуванні воно відображає співвідношення розподілу, а не популяцію, тому рекомендується ввести реальне значення.",
+      bayesianPrior: "Апріорний розподіл описує, що вважається відомим про ризик у кожній групі до отримання даних, у вигляді бета-розподілу. За великої кількості даних вибір мало важить; у малих дослідженнях він може важити багато, тому порівняйте кілька апріорних розподілів.",
+      priorPresets: {
+        uniform: "Beta(1, 1) для обох груп: кожен ризик від 0 до 1 однаково правдоподібний. Результати визначаються майже повністю даними.",
+        skeptical: "Обидва ризики зосереджені навколо об'єднаного ризику (різниці між групами немає), кожен з вагою половини розміру своєї групи. Сприятливі результати мають подолати цей сумнів.",
+        enthusiastic: "Як скептичний, але апріорний розподіл групи під впливом зміщено на значущу різницю ризиків у напрямку користі.",
+        custom: "Введіть власні параметри бета-розподілу. α − 1 і β − 1 можна приблизно тлумачити як апріорні події та їх відсутність; напр., Beta(3, 27) — наче спостерігалося 2 події у 28 осіб.",
+      },
+      rdThreshold: "Найменша абсолютна різниця ризиків у процентних пунктах, яка має клінічне значення. Використовується для ймовірностей значущої користі чи шкоди та для зміщення ентузіастичного апріорного розподілу.",
+      rrThreshold: "Найменша відносна зміна, що має клінічне значення, як відношення 1 або більше (напр., 1.25). Користь чи шкода понад нього означає ВР понад 1.25 або нижче 1/1.25 = 0.80, залежно від напрямку.",
+      betaPosterior: "Ризик кожної групи має апріорний бета-розподіл; додавання спостережених подій до α і їх відсутності до β дає апостеріорний розподіл.",
+      posteriorRiskDifference: "Апостеріорний розподіл ризику в групі під впливом мінус ризик у контрольній групі.",
+      posteriorRelativeRisk: "Апостеріорний розподіл ризику в групі під впливом, поділеного на ризик у контрольній групі.",
+      posteriorMedian: "Середина апостеріорного розподілу: ефект однаково ймовірно більший або менший за це значення.",
+      credibleInterval: "З урахуванням апріорного розподілу і даних ефект лежить у цьому інтервалі із зазначеною ймовірністю. На відміну від довірчого інтервалу, його можна прямо тлумачити як імовірнісне твердження про ефект.",
+      probabilityOfBenefit: "Апостеріорна ймовірність того, що вплив узагалі корисний: нижчий ризик небажаного результату або вищий — бажаного.",
+      probabilityOfHarm: "Апостеріорна ймовірність того, що вплив узагалі шкідливий.",
+      probabilityBeyondThreshold: "Апостеріорна ймовірність того, що ефект не лише має цей напрямок, а й перевищує клінічно значущий поріг.",
+      posteriorDensity: "Крива показує, наскільки правдоподібне кожне значення ефекту після отримання даних. Сіра лінія позначає відсутність ефекту, затінена ділянка — інтервал вірогідності, пунктирні помаранчеві лінії — значущі пороги.",
+      fragilityIndex: "Найменша кількість пацієнтів у групі з нижчою частотою подій, у яких результат мав би змінитися з відсутності події на подію, щоб результат втратив статистичну значущість (точний тест Фішера за обраного α). Малий індекс, особливо менший за кількість пацієнтів, втрачених для спостереження, означає, що результат крихкий. Коефіцієнт крихкості — це індекс, поділений на загальний розмір вибірки.",
+      reverseFragilityIndex: "Найменша кількість пацієнтів в одній групі, у яких результат мав би змінитися, щоб незначущий результат став значущим (точний тест Фішера за обраного α). Малий індекс означає, що висновок про відсутність різниці крихкий. Коефіцієнт крихкості — це індекс, поділений на загальний розмір вибірки.",
+      confoundingSensitivity: "Обсерваційні дослідження можуть бути зміщені незмірюваними змішувальними факторами. E-значення (ВандерВіле і Дін) показують, наскільки сильним мав би бути такий фактор, щоб повністю пояснити спостережуваний зв'язок.",
+      eValuePoint: "Мінімальне відношення ризиків, яке незмірюваний змішувальний фактор мав би мати і з впливом, і з результатом, понад виміряні фактори, щоб повністю пояснити точкову оцінку. Більші значення означають, що результат важче пояснити змішуванням. ВШ спершу переводиться на шкалу відношення ризиків: береться як є, якщо результат рідкісний (менше приблизно 15%, що припускається для досліджень випадок-контроль), або добувається квадратний корінь, якщо поширений. Відношення показників захворюваності використовується як відношення ризиків.",
+      eValueLimit: "Те саме для межі довірчого інтервалу, найближчої до 1: наскільки сильним мало б бути змішування, щоб ДІ включав 1. Дорівнює 1, якщо інтервал уже включає 1.",
+      charts: "Графік оцінок ефекту показує кожну міру відношення (ВР, ВШ) у логарифмічній шкалі навколо 1, а різницю ризиків — у лінійній шкалі навколо 0; пунктирна лінія позначає відсутність ефекту, і інтервал, що її перетинає, не є статистично значущим. Стовпчикова діаграма показує абсолютний ризик у кожній групі з довірчими інтервалами Вілсона — для об'єднаної таблиці та кожної страти. Обидва графіки можна завантажити у форматі SVG або PNG.",
+      iconArray: "Піктограмна діаграма показує абсолютні ризики як кількість людей зі 100 (або з 1000, якщо ризики малі). Зафарбовані піктограми в групі під впливом позначають додаткові випадки, обведені — випадки, відвернені порівняно з контрольною групою. Зелений колір означає, що різниця на користь впливу, червоний — що ні, як у ЧПЛ/ЧПШ. Кількості округлено до цілих людей.",
+      comparisonTests: "Перевіряє, чи відрізняється оцінка кожного аналізу від еталонної більше, ніж можна пояснити випадковістю (тест взаємодії Альтмана і Бленда). Відношення порівнюються як відношення відношень, де 1 означає відсутність відмінності; різниці ризиків віднімаються, де 0 означає відсутність відмінності. Перекриття довірчих інтервалів саме по собі не доводить, що оцінки подібні.",
+      individualData: "Кожен рядок учасника враховується один раз — у клітинці, що визначається зіставленими значеннями експозиції та наслідку. Рядки пропускаються, якщо одне зі значень відсутнє (порожня клітинка, NA, N/A, NaN, null або \".\"), якщо значення не зіставлене або якщо обрано стовпець стратифікації і його значення відсутнє. Перевірте виключені рядки перед аналізом: велика кількість пропусків може зміщувати оцінки.",
+      significanceTests: "Статистичні тести на наявність асоціації між впливом та результатом. Точні тести не спираються на наближення для великих вибірок і залишаються валідними при малих кількостях або нульових клітинках.",
+      fisherExact: "Точний тест Фішера обчислює p-значення безпосередньо з гіпергеометричного розподілу всіх таблиць з тими самими сумами рядків і стовпців. На відміну від Z-тесту, він валідний для малих вибірок і розріджених таблиць (напр., рідкісні побічні явища, пілотні дослідження).",
+      fisherMidP: "Mid-p значення враховує ймовірність спостережуваної таблиці лише наполовину. Воно менш консервативне, ніж стандартне p-значення Фішера, але зберігає рівень помилки I роду близьким до номінального, тому його часто рекомендують для невеликих досліджень.",
+      pearsonChiSquare: "Тест хі-квадрат Пірсона порівнює спостережувані частоти в клітинках з очікуваними за умови незалежності впливу та результату. Він точний, коли всі очікувані частоти не менші за 5 (в ідеалі 10 і більше).",
+      yatesChiSquare: "Поправка Єйтса на неперервність віднімає 0,5 від кожної різниці |спостережувана − очікувана| перед піднесенням до квадрата. Вона робить тест хі-квадрат консервативнішим для таблиць середнього розміру, але може бути надмірно обережною.",
+      likelihoodRatioG: "Тест відношення правдоподібності (G) порівнює спостережувані та очікувані частоти в логарифмічній шкалі: G = 2·Σ O·ln(O/E). Асимптотично він еквівалентний хі-квадрат Пірсона і має ті самі вимоги до розміру вибірки.",
+      expectedCounts: "Частоти в клітинках, очікувані за нульової гіпотези про відсутність асоціації: (сума рядка × сума стовпця) / загальна сума. Тестам хі-квадрат можна довіряти лише тоді, коли жодна з них не менша за 5.",
+      recommendedTest: "Тест, що найкраще підходить для цієї таблиці з огляду на очікувані частоти: точний тест Фішера, якщо будь-яка очікувана частота менша за 5, хі-квадрат з поправкою Єйтса, якщо найменша менша за 10, і хі-квадрат Пірсона в інших випадках.",
       measuresOfImpact: "Метрики, що описують вплив експозиції на громадське здоров'я. Термінологія (напр., 'Зниження ризику' проти 'Збільшення ризику') динамічно визначається обраною вами 'Метою дослідження' та розрахованими результатами.",
       riskDifference: "Абсолютна різниця в ризику між групою під впливом та контрольною групою. РР = [a/(a+b)] - [c/(c+d)]. Значення 0 вказує на відсутність різниці.",
       rd95CI: "95% довірчий інтервал для різниці ризиків. Якщо інтервал не включає 0, результат є статистично значущим.",
@@ -573,6 +1996,9 @@ export const getTooltips = (lang: Language) => {
       analysisReliability: "Цей розділ оцінює надійність висновків дослідження шляхом вивчення його статистичної потужності та ймовірності помилок.",
       type1Error: "Помилка I роду (α): Ймовірність знаходження статистично значущого ефекту, коли його насправді не існує ('хибнопозитивний' результат). Зазвичай встановлюється на рівні 5% (p < 0.05).",
       statisticalPower: "Статистична потужність (1-β): Ймовірність того, що дослідження виявить ефект, який насправді присутній. Потужність 80% або вище традиційно вважається адекватною. Низька потужність означає, що дослідження було занадто малим, щоб надійно виявити ефект.",
+      exposureInControls: "Частка контролів, які зазнали впливу (b / (b + d)). У дослідженні «випадок-контроль» вона замінює базову поширеність впливу і разом із відношенням шансів визначає очікувану поширеність впливу серед випадків, що використовується для розрахунку потужності.",
+      controlsPerCase: "Кількість контролів, включених на кожен випадок у цьому дослідженні. Залучення більшої кількості контролів на випадок підвищує потужність, але понад приблизно 4 контролі на випадок виграш невеликий.",
+      caseControlSampleSize: "Кількість випадків і контролів, необхідна для виявлення спостережуваного відношення шансів з потужністю 80% на обраному рівні значущості за тієї ж поширеності впливу серед контролів і тієї ж кількості контролів на випадок.",
       type2Error: "Помилка II роду (β): Ймовірність не виявити ефект, який насправді присутній ('хибнонегативний' результат). Це обернена величина до статистичної потужності (β = 1 - Потужність)."
     },
     ru: {
@@ -584,8 +2010,22 @@ export const getTooltips = (lang: Language) => {
         cohortProspective: "Проспективное когортное исследование: Группу (когорту) наблюдают во времени, чтобы увидеть, у кого развивается исход, сравнивая тех, кто подвергся воздействию фактора, с теми, кто не подвергся.",
         cohortRetrospective: "Ретроспективное когортное исследование: Использует существующие данные для взгляда назад во времени, идентифицируя когорту и отслеживая исходы.",
         caseControl: "Исследование случай-контроль: Начинается с лиц, у которых есть исход (случаи), и группы без него (контроли), а затем смотрит назад во времени, чтобы сравнить прошлые воздействия.",
+        matchedCaseControl: "Парное исследование случай-контроль: Каждому случаю подбирают один контроль, сходный по таким факторам, как возраст и пол. Данные вводятся как пары, классифицированные по воздействию на случай и на его контроль.",
+        diagnosticAccuracy: "Исследование диагностической точности: Тест применяют к лицам с заболеванием и без него, а его результаты сравнивают с их истинным статусом, установленным эталонным методом.",
       },
-      aiModelSelection: "Выберите модель ИИ для генерации отчетов. 'Flash' быстрее и идеально подходит для общих обзоров. 'Pro' более мощный, предоставляя более глубокий, более нюансированный анализ, но может потребовать больше времени на ответ.",
+      aiModelSelection: "Выберите модель ИИ для генерации отчетов. В списке приведены модели, которые предлагает поставщик ИИ, настроенный для этой установки. Для Gemini: 'Flash' быстрее и идеально подходит для общих обзоров. 'Pro' более мощный, предоставляя более глубокий, более нюансированный анализ, но может потребовать больше времени на ответ.",
+      ciMethodRiskDifference: "Вальда: РР ± z·SE; простой, но может выходить за пределы [−1, 1] и недостаточно покрывает истинное значение при малых выборках или крайних рисках. Ньюкомба: объединяет скоровые интервалы Уилсона для риска каждой группы; хорошо работает на малых выборках. Миеттинена–Нурминена: обращает скоровый тест с ограниченными оценками максимального правдоподобия; один из самых точных доступных интервалов.",
+      ciMethodRelativeRisk: "Вальда: рассчитывается в логарифмической шкале с добавлением 0,5 к нулевым ячейкам. Купмана: обращает скоровый (хи-квадрат) тест с ограниченными оценками максимального правдоподобия; остаётся валидным, когда в одной из групп нет событий.",
+      ciMethodOddsRatio: "Вальда (Вулф): рассчитывается в логарифмической шкале с добавлением 0,5 к нулевым ячейкам. Точный условный (Корнфилд): обращает точный тест Фишера с использованием нецентрального гипергеометрического распределения и дополнительно приводит условную оценку максимального правдоподобия ОШ.",
+      alphaLevel: "Порог статистической значимости и уровень ошибки I рода, используемый в расчётах мощности и размера выборки. Традиционно 0,05; более строгие уровни, например 0,01, уменьшают число ложноположительных результатов ценой мощности.",
+      testSidedness: "Двусторонний тест ищет эффект в обоих направлениях. Односторонний тест (напр., α = 0,025 в протоколах не меньшей эффективности или превосходства) ищет эффект только в одном направлении; одностороннее α эквивалентно сравнению двустороннего p-значения с 2α.",
+      confidenceLevel: "Покрытие всех доверительных интервалов (РР, ОР, ОШ, ЧБНЛ). 95% интервал соответствует двустороннему α = 0,05; 90% интервалы распространены в тестировании эквивалентности, а 99% интервалы дают более консервативные диапазоны.",
+      plannerControlRisk: "Доля контрольной группы (без воздействия), у которой ожидается исход, напр., по данным предыдущих исследований или регистров. Введите как долю (0,20 = 20%).",
+      plannerEffect: "Наименьший эффект, который стоит выявить, выраженный как относительный риск, разность рисков (группа воздействия минус контроль) или отношение шансов. Вместе с контрольным риском он определяет ожидаемый риск в группе воздействия.",
+      plannerPower: "Вероятность выявить целевой эффект, если он действительно существует. 80% — обычный минимум; 90% распространены в подтверждающих исследованиях.",
+      plannerAllocation: "Сколько участников с воздействием включается на каждого участника контрольной группы. 1 означает равные группы; неравное распределение требует большей общей выборки для той же мощности.",
+      plannerContinuity: "Применяет поправку на непрерывность Флейса–Титуна–Юри, которая даёт более консервативный (больший) размер выборки, соответствующий анализу с помощью хи-квадрат с поправкой Йейтса или точного теста Фишера.",
+      plannerDropout: "Процент включённых участников, которых ожидается потерять в ходе наблюдения. Необходимая выборка увеличивается в 1 / (1 − отсев) раз, чтобы для анализа осталось достаточно участников.",
       contingencyTableInputs: "Таблица 2x2 является основой для расчета риска. Она перекрестно классифицирует лиц по статусу воздействия и наличию или отсутствию исхода для здоровья.",
       exposedGroup: "Группа лиц в исследовании, подвергшихся воздействию потенциального фактора риска (напр., нового препарата, определенного поведения, фактора окружающей среды).",
       positiveOutcomeA: "Введите количество лиц в группе воздействия С интересующим исходом (напр., количество заболевших).",
@@ -606,6 +2046,119 @@ export const getTooltips = (lang: Language) => {
       or95CI: "95% доверительный интервал для отношения шансов. Если этот диапазон не включает 1.0, результат является статистически значимым на уровне p<0.05.",
       orZStat: "Z-статистика проверяет нулевую гипотезу о том, что отношение шансов равно 1 (то есть нет ассоциации).",
       orSignificance: "P-значение, связанное с Z-статистикой для отношения шансов.",
+      conditionalMle: "Условная оценка максимального правдоподобия отношения шансов, основанная на нецентральном гипергеометрическом распределении при фиксированных суммах строк и столбцов. Это точечная оценка, соответствующая точному условному ДИ, и она менее смещена, чем выборочное ОШ в малых таблицах.",
+      stratifiedAnalysis: "Стратифицированный анализ разделяет данные по третьей переменной (напр., возрастной группе или центру) и анализирует таблицу 2x2 в каждой страте. Сравнение объединённой оценки Мантеля–Хензеля с грубой оценкой показывает, является ли эта переменная конфаундером, а тест однородности — различается ли эффект между стратами (модификация эффекта).",
+      stratumEstimates: "ОР, ОШ и РР, рассчитанные отдельно в каждой страте. Похожие значения в стратах поддерживают их объединение в одну скорректированную оценку; явно различающиеся значения указывают на модификацию эффекта.",
+      mhAdjusted: "Оценка Мантеля–Хензеля объединяет результаты страт в одну сводную оценку, скорректированную на переменную стратификации. ДИ использует дисперсию Робинса–Бреслоу–Гренланда (ОШ) или Гренланда–Робинса (ОР, РР). Грубая оценка — это оценка по объединённой таблице без учёта страт.",
+      crudeVsAdjusted: "Процентное изменение от грубой к скорректированной оценке Мантеля–Хензеля (ОР или ОШ для исследований «случай-контроль»). Изменение более 10% — распространённое эмпирическое правило для существенного конфаундинга.",
+      mantelHaenszelTest: "Тест Кохрана–Мантеля–Хензеля нулевой гипотезы об отсутствии связи между воздействием и исходом ни в одной страте после корректировки на переменную стратификации.",
+      breslowDayTest: "Проверяет, одинаково ли отношение шансов во всех стратах. Малое p-значение указывает на модификацию эффекта (неоднородность), и тогда единая объединённая оценка может вводить в заблуждение. Тест имеет низкую мощность при малом числе или малом размере страт.",
+      taroneTest: "Поправка Тароне к тесту Бреслоу–Дэя, которая делает статистику корректной, когда общее отношение шансов оценивается методом Мантеля–Хензеля. Именно эта версия используется для выявления модификации эффекта.",
+      analysisMode: "Выберите, как организованы ваши данные. Одна таблица 2x2 анализирует одно исследование. Стратифицированный анализ разделяет одно исследование по третьей переменной и корректирует на неё. Метаанализ статистически объединяет результаты нескольких отдельных исследований.",
+      metaAnalysis: "Метаанализ объединяет оценки эффекта нескольких исследований, взвешивая каждую по её точности, чтобы получить одну объединённую оценку. Таблицы исследований никогда не суммируются напрямую, так как это может исказить результат (парадокс Симпсона).",
+      metaFixedInverseVariance: "Предполагает, что все исследования оценивают один общий истинный эффект, и взвешивает каждое обратной величиной его дисперсии, поэтому более крупные и точные исследования имеют больший вес.",
+      metaFixedMantelHaenszel: "Метод фиксированного эффекта, который объединяет таблицы 2x2 напрямую. Он лучше метода обратной дисперсии работает с малыми исследованиями и разреженными данными. Его p-значение получено из теста Кохрана–Мантеля–Хензеля.",
+      metaRandomEffects: "Предполагает, что истинный эффект различается между исследованиями, и добавляет оценённую межисследовательскую дисперсию (τ²) к дисперсии каждого исследования. При наличии неоднородности ДИ шире, чем в модели фиксированного эффекта, а меньшие исследования получают относительно больший вес.",
+      metaHeterogeneity: "Неоднородность — это различие истинных эффектов между исследованиями, большее, чем можно объяснить случайностью. Она может возникать из-за различий в популяциях, вмешательствах, исходах или качестве исследований.",
+      metaCochranQ: "Проверяет нулевую гипотезу о том, что все исследования имеют одинаковый истинный эффект. При малом числе исследований тест имеет низкую мощность, поэтому незначимый Q не исключает неоднородности.",
+      metaISquared: "Процент общей вариации между исследованиями, обусловленный неоднородностью, а не случайностью. Ориентировочно 25% — низкая, 50% — умеренная, 75% — высокая неоднородность.",
+      metaTauSquared: "Оценённая дисперсия истинных эффектов между исследованиями (в логарифмической шкале для ОР и ОШ), рассчитанная методом ДерСимониана–Лэрда. Равна 0, если неоднородность сверх случайной не выявлена.",
+      forestPlot: "Каждая строка показывает оценку одного исследования и её доверительный интервал; вертикальная линия обозначает отсутствие эффекта. Ромбы внизу показывают объединённые оценки фиксированных и случайных эффектов, их ширина — доверительный интервал. Интервалы за пределами шкалы обрезаны.",
+      incidenceRateMode: "Используйте данные человеко-времени, когда участников наблюдали в течение разного времени. Показатель заболеваемости каждой группы — это число случаев, делённое на общее время наблюдения, а группы сравниваются по отношению и разнице их показателей.",
+      personTimeEvents: "Число новых случаев исхода, наблюдавшихся в группе за время наблюдения.",
+      personTime: "Сумма времени наблюдения каждого участника группы — до наступления случая, окончания исследования или выбытия из-под наблюдения.",
+      incidenceRate: "Число случаев на единицу времени наблюдения, показанное на 1000 единиц человеко-времени. В скобках указаны наблюдаемые случаи и человеко-время.",
+      rateRatio: "Показатель заболеваемости в группе воздействия, делённый на показатель в контрольной группе. IRR, равное 1, означает отсутствие различий; больше 1 — случаи чаще возникают в группе воздействия.",
+      rateRatioCI: "Точный интервал: при фиксированном общем числе случаев доля случаев в группе воздействия имеет биномиальное распределение, а интервал находят обращением двух односторонних биномиальных тестов. Он остаётся корректным при малом числе случаев.",
+      rateRatioExactTest: "Точный биномиальный тест нулевой гипотезы об одинаковых показателях в обеих группах при фиксированном общем числе случаев. Он корректен при любом числе случаев.",
+      rateRatioMidP: "Mid-p значение точного теста учитывает вероятность наблюдаемого распределения случаев лишь наполовину, поэтому оно менее консервативно, чем точное p-значение.",
+      rateDifference: "Показатель заболеваемости в группе воздействия минус показатель в контрольной группе: число дополнительных (или предотвращённых) случаев на 1000 единиц человеко-времени.",
+      rateDifferenceCI: "Интервал Вальда на основе пуассоновской дисперсии каждого показателя (число случаев, делённое на квадрат человеко-времени). При малом числе случаев может быть неточным.",
+      rateDifferenceTest: "z-тест разницы показателей, использующий объединённый показатель обеих групп для оценки стандартной ошибки при нулевой гипотезе о равных показателях.",
+      nntPersonTime: "Обратная величина разницы показателей, выраженная в человеко-времени, а не в людях: объём воздействия, после которого предотвращается (ЧБНЛ) или вызывается (ЧБНВ) один дополнительный случай. Напр., 500 человеко-лет могут означать 500 человек, каждый из которых подвергался воздействию в течение одного года.",
+      diagnosticGrid: {
+        step4: "Все лица, у которых результат оцениваемого теста был положительным.",
+        step5: "Все лица, у которых результат оцениваемого теста был отрицательным.",
+        a: "Введите число лиц с положительным тестом, у которых есть заболевание по эталонному методу (истинно положительные).",
+        b: "Введите число лиц с положительным тестом, у которых нет заболевания по эталонному методу (ложноположительные).",
+        c: "Введите число лиц с отрицательным тестом, у которых есть заболевание по эталонному методу (ложноотрицательные).",
+        d: "Введите число лиц с отрицательным тестом, у которых нет заболевания по эталонному методу (истинно отрицательные).",
+      },
+      diagnosticTestCharacteristics: "Чувствительность и специфичность описывают сам тест и не зависят от распространённости заболевания. Интервалы — интервалы Вилсона.",
+      sensitivity: "Доля лиц с заболеванием, у которых тест положительный: a/(a+c). Высокочувствительный тест редко пропускает заболевание, поэтому отрицательный результат помогает его исключить.",
+      specificity: "Доля лиц без заболевания, у которых тест отрицательный: d/(b+d). Высокоспецифичный тест редко даёт ложные тревоги, поэтому положительный результат помогает подтвердить заболевание.",
+      youdenIndex: "Чувствительность + специфичность − 1. От 0 (тест не лучше случайности) до 1 (идеальный тест). Интервал — интервал Ньюкомба для разницы долей истинно и ложноположительных результатов.",
+      likelihoodRatios: "Отношения правдоподобия показывают, насколько результат теста меняет шансы заболевания: послетестовые шансы = дотестовые шансы × LR. Они не зависят от распространённости. Интервалы рассчитаны в логарифмической шкале с добавлением 0,5 к каждой ячейке, если какая-либо ячейка равна 0.",
+      lrPositive: "Чувствительность / (1 − специфичность): во сколько раз положительный результат вероятнее у лиц с заболеванием, чем без него. Значения выше 10 убедительно подтверждают заболевание.",
+      lrNegative: "(1 − чувствительность) / специфичность: во сколько раз отрицательный результат менее вероятен у лиц с заболеванием, чем без него. Значения ниже 0,1 убедительно исключают заболевание.",
+      diagnosticOddsRatio: "LR+ / LR−, или (a·d)/(b·c): шансы положительного теста у лиц с заболеванием по сравнению с лицами без него. Единый итоговый показатель различающей способности; 1 означает, что тест не различает.",
+      predictiveValues: "Прогностическая ценность — это вероятность того, что результат теста верен для конкретного человека. Она сильно зависит от распространённости, поэтому приведённые значения относятся только к популяциям с указанной распространённостью.",
+      adjustedPredictiveValues: "Прогностическая ценность, пересчитанная для введённой вами распространённости по теореме Байеса из отношений правдоподобия. Интервалы перенесены из интервалов отношений правдоподобия.",
+      ppv: "Вероятность того, что человек с положительным тестом действительно болен: a/(a+b) в выборке исследования. Снижается по мере того, как заболевание становится реже.",
+      npv: "Вероятность того, что человек с отрицательным тестом действительно здоров: d/(c+d) в выборке исследования. Растёт по мере того, как заболевание становится реже.",
+      targetPrevalence: "Доля лиц с заболеванием в популяции, где вы будете применять тест, напр., низкая при общем скрининге и выше в специализированной клинике. Введите её, чтобы увидеть прогностическую ценность для этих условий.",
+      matchedPairsGrid: {
+        step4: "Сопоставленные пары, в которых случай подвергся воздействию. Считайте пары, а не людей.",
+        step5: "Сопоставленные пары, в которых случай не подвергся воздействию. Считайте пары, а не людей.",
+        a: "Введите число пар, в которых и случай, и его контроль подверглись воздействию (согласованные пары).",
+        b: "Введите число пар, в которых случай подвергся воздействию, а его контроль — нет (несогласованные пары).",
+        c: "Введите число пар, в которых контроль подвергся воздействию, а случай — нет (несогласованные пары).",
+        d: "Введите число пар, в которых ни случай, ни его контроль не подверглись воздействию (согласованные пары).",
+      },
+      matchedPairs: "В парном дизайне единицей анализа является пара. Анализ тех же людей как несопоставленной таблицы 2x2 игнорирует подбор и обычно смещает отношение шансов к 1.",
+      discordantPairs: "Пары, в которых случай и его контроль различаются по воздействию (b + c). Только эти пары несут информацию о связи; согласованные пары (a и d) — нет.",
+      conditionalOddsRatio: "b / c: число пар, в которых воздействию подвергся только случай, делённое на число пар, в которых воздействию подвергся только контроль. Это оценка максимального правдоподобия ОШ, учитывающая подбор.",
+      conditionalOddsRatioCI: "Точный интервал: при фиксированном числе несогласованных пар b имеет биномиальное распределение, а интервал находят обращением двух односторонних биномиальных тестов.",
+      pairedRiskDifference: "(b − c) / число пар: доля случаев, подвергшихся воздействию, минус доля контролей, подвергшихся воздействию, с учётом парности.",
+      pairedRiskDifferenceCI: "Интервал Вальда с дисперсией для двух зависимых (парных) долей.",
+      mcnemarTest: "Тест Мак-Немара проверяет, одинаково ли часто встречаются оба типа несогласованных пар (b и c), как и следует ожидать, если воздействие не связано с исходом.",
+      mcnemarExact: "Точный биномиальный тест b среди b + c с вероятностью 1/2. Предпочтителен, когда несогласованных пар мало (менее примерно 25).",
+      mcnemarExactMidP: "Mid-p значение точного теста учитывает вероятность наблюдаемого распределения лишь наполовину, поэтому оно менее консервативно, чем точное p-значение.",
+      mcnemarChiSquare: "(b − c)² / (b + c), сравниваемое с распределением хи-квадрат с 1 степенью свободы. Приближение точного теста для больших выборок.",
+      mcnemarCorrected: "(|b − c| − 1)² / (b + c): версия с поправкой Эдвардса на непрерывность, более близкая к точному тесту, но более консервативная.",
+      attributableFractions: "Какая часть исхода обусловлена вредным воздействием (отношение больше 1). Эти показатели предполагают, что связь причинная и не объясняется смешиванием или систематической ошибкой.",
+      preventedFractions: "Какая часть исхода предотвращается защитным воздействием (отношение меньше 1). Эти показатели предполагают, что связь причинная и не объясняется смешиванием или систематической ошибкой.",
+      attributableFractionExposed: "(ОР − 1) / ОР: доля исходов среди подвергшихся воздействию, обусловленная воздействием. В исследовании случай-контроль вместо ОР используется ОШ. ДИ получен из границ ОР (или ОШ).",
+      preventedFractionExposed: "1 − ОР: доля исходов, которые иначе были бы у подвергшихся воздействию и которые воздействие предотвратило. В исследовании случай-контроль вместо ОР используется ОШ. ДИ получен из границ ОР (или ОШ).",
+      populationAttributableFraction: "Формула Левина, p(ОР − 1) / (1 + p(ОР − 1)), где p — распространённость воздействия в популяции: доля всех исходов в популяции, которые не возникли бы без воздействия. ДИ считает p известным.",
+      populationPreventedFraction: "p(1 − ОР), где p — распространённость воздействия в популяции: доля всех возможных исходов в популяции, которые предотвращает воздействие. ДИ считает p известным.",
+      caseBasedAttributableFraction: "Формула Миеттинена, pc(ОШ − 1) / ОШ, где pc — доля случаев, подвергшихся воздействию. Она не требует внешней оценки распространённости воздействия и справедлива, когда ОШ приближает ОР. ДИ использует логарифмическую дисперсию Гренланда и Дрешера.",
+      exposurePrevalence: "Доля целевой популяции, подвергающаяся воздействию; используется популяционными долями. По умолчанию берётся значение из исследования: все участники когорты или испытания либо контроли в исследовании случай-контроль. В испытании оно отражает соотношение распределения, а не популяцию, поэтому рекомендуется ввести реальное значение.",
+      bayesianPrior: "Априорное распределение описывает, что считается известным о риске в каждой группе до получения данных, в виде бета-распределения. При большом объёме данных выбор мало влияет; в малых исследованиях он может влиять сильно, поэтому сравните несколько априорных распределений.",
+      priorPresets: {
+        uniform: "Beta(1, 1) для обеих групп: любой риск от 0 до 1 одинаково правдоподобен. Результаты определяются почти полностью данными.",
+        skeptical: "Оба риска сосредоточены вокруг объединённого риска (различия между группами нет), каждый с весом половины размера своей группы. Благоприятным результатам приходится преодолевать это сомнение.",
+        enthusiastic: "Как скептическое, но априорное распределение группы воздействия смещено на значимую разницу рисков в сторону пользы.",
+        custom: "Введите собственные параметры бета-распределения. α − 1 и β − 1 можно приблизительно понимать как априорные события и их отсутствие; напр., Beta(3, 27) — как если бы наблюдалось 2 события у 28 человек.",
+      },
+      rdThreshold: "Наименьшая абсолютная разница рисков в процентных пунктах, имеющая клиническое значение. Используется для вероятностей значимой пользы или вреда и для смещения оптимистического априорного распределения.",
+      rrThreshold: "Наименьшее относительное изменение, имеющее клиническое значение, как отношение 1 или больше (напр., 1.25). Польза или вред сверх него означает ОР выше 1.25 или ниже 1/1.25 = 0.80, в зависимости от направления.",
+      betaPosterior: "Риск каждой группы имеет априорное бета-распределение; добавление наблюдаемых событий к α и их отсутствия к β даёт апостериорное распределение.",
+      posteriorRiskDifference: "Апостериорное распределение риска в группе воздействия минус риск в контрольной группе.",
+      posteriorRelativeRisk: "Апостериорное распределение риска в группе воздействия, делённого на риск в контрольной группе.",
+      posteriorMedian: "Середина апостериорного распределения: эффект одинаково вероятно больше или меньше этого значения.",
+      credibleInterval: "С учётом априорного распределения и данных эффект лежит в этом интервале с указанной вероятностью. В отличие от доверительного интервала, его можно прямо понимать как вероятностное утверждение об эффекте.",
+      probabilityOfBenefit: "Апостериорная вероятность того, что воздействие вообще полезно: более низкий риск нежелательного исхода или более высокий — желательного.",
+      probabilityOfHarm: "Апостериорная вероятность того, что воздействие вообще вредно.",
+      probabilityBeyondThreshold: "Апостериорная вероятность того, что эффект не только имеет это направление, но и превышает клинически значимый порог.",
+      posteriorDensity: "Кривая показывает, насколько правдоподобно каждое значение эффекта после получения данных. Серая линия отмечает отсутствие эффекта, затенённая область — интервал достоверности, пунктирные оранжевые линии — значимые пороги.",
+      fragilityIndex: "Наименьшее число пациентов в группе с более низкой частотой событий, у которых исход должен был бы измениться с отсутствия события на событие, чтобы результат утратил статистическую значимость (точный тест Фишера при выбранном α). Малый индекс, особенно меньший числа пациентов, выбывших из наблюдения, означает, что результат хрупок. Коэффициент хрупкости — это индекс, делённый на общий размер выборки.",
+      reverseFragilityIndex: "Наименьшее число пациентов в одной группе, у которых исход должен был бы измениться, чтобы незначимый результат стал значимым (точный тест Фишера при выбранном α). Малый индекс означает, что вывод об отсутствии различий хрупок. Коэффициент хрупкости — это индекс, делённый на общий размер выборки.",
+      confoundingSensitivity: "Наблюдательные исследования могут быть смещены неизмеренными смешивающими факторами. E-значения (ВандерВиле и Дин) показывают, насколько сильным должен быть такой фактор, чтобы полностью объяснить наблюдаемую связь.",
+      eValuePoint: "Минимальное отношение рисков, которое неизмеренный смешивающий фактор должен иметь и с воздействием, и с исходом, сверх измеренных факторов, чтобы полностью объяснить точечную оценку. Большие значения означают, что результат труднее объяснить смешиванием. ОШ сначала переводится на шкалу отношения рисков: берётся как есть, если исход редкий (менее примерно 15%, что предполагается для исследований случай-контроль), или извлекается квадратный корень, если частый. Отношение показателей заболеваемости используется как отношение рисков.",
+      eValueLimit: "То же для границы доверительного интервала, ближайшей к 1: насколько сильным должно быть смешивание, чтобы ДИ включал 1. Равно 1, если интервал уже включает 1.",
+      charts: "График оценок эффекта показывает каждую меру отношения (ОР, ОШ) в логарифмической шкале вокруг 1, а разницу рисков — в линейной шкале вокруг 0; пунктирная линия обозначает отсутствие эффекта, и интервал, пересекающий её, не является статистически значимым. Столбчатая диаграмма показывает абсолютный риск в каждой группе с доверительными интервалами Вилсона — для объединённой таблицы и каждой страты. Оба графика можно скачать в формате SVG или PNG.",
+      iconArray: "Пиктограммная диаграмма показывает абсолютные риски как число людей из 100 (или из 1000, если риски малы). Закрашенные пиктограммы в группе воздействия обозначают дополнительные случаи, обведённые — случаи, предотвращённые по сравнению с контрольной группой. Зелёный цвет означает, что разница в пользу воздействия, красный — что нет, как в ЧБНЛ/ЧБНВ. Количества округлены до целых людей.",
+      comparisonTests: "Проверяет, отличается ли оценка каждого анализа от эталонной больше, чем можно объяснить случайностью (тест взаимодействия Альтмана и Бленда). Отношения сравниваются как отношение отношений, где 1 означает отсутствие различия; разности рисков вычитаются, где 0 означает отсутствие различия. Перекрытие доверительных интервалов само по себе не доказывает, что оценки схожи.",
+      individualData: "Каждая строка участника учитывается один раз — в ячейке, которую определяют сопоставленные значения экспозиции и исхода. Строки пропускаются, если одно из значений отсутствует (пустая ячейка, NA, N/A, NaN, null или \".\"), если значение не сопоставлено или если выбран столбец стратификации и его значение отсутствует. Проверьте исключённые строки перед анализом: большое число пропусков может смещать оценки.",
+      significanceTests: "Статистические тесты на наличие ассоциации между воздействием и исходом. Точные тесты не опираются на приближения для больших выборок и остаются валидными при малых численностях или нулевых ячейках.",
+      fisherExact: "Точный тест Фишера вычисляет p-значение непосредственно из гипергеометрического распределения всех таблиц с теми же суммами строк и столбцов. В отличие от Z-теста, он валиден для малых выборок и разреженных таблиц (напр., редкие нежелательные явления, пилотные исследования).",
+      fisherMidP: "Mid-p значение учитывает вероятность наблюдаемой таблицы лишь наполовину. Оно менее консервативно, чем стандартное p-значение Фишера, но сохраняет уровень ошибки I рода близким к номинальному, поэтому его часто рекомендуют для небольших исследований.",
+      pearsonChiSquare: "Тест хи-квадрат Пирсона сравнивает наблюдаемые частоты в ячейках с ожидаемыми при условии независимости воздействия и исхода. Он точен, когда все ожидаемые частоты не меньше 5 (в идеале 10 и более).",
+      yatesChiSquare: "Поправка Йейтса на непрерывность вычитает 0,5 из каждой разности |наблюдаемая − ожидаемая| перед возведением в квадрат. Она делает тест хи-квадрат более консервативным для таблиц среднего размера, но может быть излишне осторожной.",
+      likelihoodRatioG: "Тест отношения правдоподобия (G) сравнивает наблюдаемые и ожидаемые частоты в логарифмической шкале: G = 2·Σ O·ln(O/E). Асимптотически он эквивалентен хи-квадрат Пирсона и имеет те же требования к размеру выборки.",
+      expectedCounts: "Частоты в ячейках, ожидаемые при нулевой гипотезе об отсутствии ассоциации: (сумма строки × сумма столбца) / общая сумма. Тестам хи-квадрат можно доверять, только если ни одна из них не меньше 5.",
+      recommendedTest: "Тест, наиболее подходящий для этой таблицы с учётом ожидаемых частот: точный тест Фишера, если любая ожидаемая частота меньше 5, хи-квадрат с поправкой Йейтса, если наименьшая меньше 10, и хи-квадрат Пирсона в остальных случаях.",
       measuresOfImpact: "Метрики, описывающие влияние воздействия на общественное здоровье. Терминология (напр., 'Снижение риска' против 'Увеличение риска') динамически определяется выбранной вами 'Целью исследования' и рассчитанными результатами.",
       riskDifference: "Абсолютная разница в риске между группой воздействия и контрольной группой. РР = [a/(a+b)] - [c/(c+d)]. Значение 0 указывает на отсутствие разницы.",
       rd95CI: "95% доверительный интервал для разницы рисков. Если интервал не включает 0, результат является статистически значимым.",
@@ -616,6 +2169,9 @@ export const getTooltips = (lang: Language) => {
       analysisReliability: "Этот раздел оценивает надежность выводов исследования путем изучения его статистической мощности и вероятности ошибок.",
       type1Error: "Ошибка I рода (α): Вероятность обнаружения статистически значимого эффекта, когда его на самом деле не существует ('ложноположительный' результат). Обычно устанавливается на уровне 5% (p < 0.05).",
       statisticalPower: "Статистическая мощность (1-β): Вероятность того, что исследование обнаружит эффект, который на самом деле присутствует. Мощность 80% или выше традиционно считается адекватной. Низкая мощность означает, что исследование было слишком малым, чтобы надежно обнаружить эффект.",
+      exposureInControls: "Доля контролей, подвергшихся воздействию (b / (b + d)). В исследовании «случай-контроль» она заменяет базовую распространённость воздействия и вместе с отношением шансов определяет ожидаемую распространённость воздействия среди случаев, используемую для расчёта мощности.",
+      controlsPerCase: "Количество контролей, включённых на каждый случай в этом исследовании. Привлечение большего числа контролей на случай повышает мощность, но свыше примерно 4 контролей на случай выигрыш невелик.",
+      caseControlSampleSize: "Количество случаев и контролей, необходимое для выявления наблюдаемого отношения шансов с мощностью 80% на выбранном уровне значимости при той же распространённости воздействия среди контролей и том же количестве контролей на случай.",
       type2Error: "Ошибка II рода (β): Вероятность не обнаружить эффект, который на самом деле присутствует ('ложноотрицательный' результат). Это обратная величина к статистической мощности (β = 1 - Мощность)."
     }
   };
@@ -0,0 +1,163 @@
+import type { Inputs, LabelledTable, TableCounts } from './types';
+import { translations, type Language } from './i18n';
+import { parseDelimitedText, type DelimitedRecord } from './delimitedText';
+
+// A file with one row per participant and arbitrary columns
+export interface IndividualDataFile {
+  fileName: string;
+  columns: string[];
+  records: DelimitedRecord[];
+}
+
+// How a value of a mapped column is counted: as exposed / with the outcome, as the opposite, or not at all
+export type ValueRole = 'positive' | 'negative' | 'unmapped';
+
+export interface VariableMapping {
+  column: number;
+  // Keyed by the trimmed cell value; values without an entry are unmapped
+  roles: Record<string, ValueRole>;
+}
+
+export interface IndividualDataMapping {
+  exposure: VariableMapping;
+  outcome: VariableMapping;
+  stratumColumn: number | null;
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface Tabulation {
+  counts: TableCounts;
+  // One table per stratum value, empty when no stratification column is chosen
+  strata: { label: string; counts: TableCounts }[];
+  totalRows: number;
+  usedRows: number;
+  // Rows can be excluded for several reasons at once, so these are not additive
+  missing: { exposure: number; outcome: number; stratum: number };
+  unmapped: { exposure: ValueCount[]; outcome: ValueCount[] };
+}
+
+const missingValues = ['', 'na', 'n/a', 'nan', 'null', '.'];
+const positiveValues = ['1', 'yes', 'y', 'true', 't', '+', 'exposed', 'case', 'positive', 'так', 'да'];
+const negativeValues = ['0', 'no', 'n', 'false', 'f', '-', 'unexposed', 'control', 'negative', 'ні', 'нет'];
+
+export const isMissingValue = (value: string) => missingValues.includes(value.trim().toLocaleLowerCase());
+
+// A starting mapping for common codings (1/0, yes/no, true/false); anything else has to be mapped by the user
+export const guessValueRole = (value: string): ValueRole => {
+  const normalized = value.trim().toLocaleLowerCase();
+  if (positiveValues.includes(normalized)) return 'positive';
+  if (negativeValues.includes(normalized)) return 'negative';
+  return 'unmapped';
+};
+
+// Null when the file has no header or no data rows
+export const readIndividualDataFile = (fileName: string, text: string): IndividualDataFile | null => {
+  const [header, ...records] = parseDelimitedText(text);
+  if (!header || records.length === 0) return null;
+  return { fileName, columns: header.cells.map(cell => cell.trim()), records };
+};
+
+const cellValue = (record: DelimitedRecord, column: number) => (record.cells[column] ?? '').trim();
+
+// The distinct non-missing values of a column, most frequent first
+export const columnValues = (file: IndividualDataFile, column: number): ValueCount[] => {
+  const counts = new Map<string, number>();
+  for (const record of file.records) {
+    const value = cellValue(record, column);
+    if (!isMissingValue(value)) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((first, second) => second.count - first.count || first.value.localeCompare(second.value, undefined, { numeric: true }));
+};
+
+export const defaultVariableMapping = (file: IndividualDataFile, column: number): VariableMapping => ({
+  column,
+  roles: Object.fromEntries(columnValues(file, column).map(({ value }) => [value, guessValueRole(value)])),
+});
+
+const emptyCounts = (): TableCounts => ({ a: 0, b: 0, c: 0, d: 0 });
+
+const toValueCounts = (counts: Map<string, number>): ValueCount[] =>
+  [...counts.entries()].map(([value, count]) => ({ value, count })).sort((first, second) => second.count - first.count);
+
+// Cross-tabulates exposure against outcome. A row is used only when both values are mapped and, if stratifying, the stratum is present.
+export const tabulate = (file: IndividualDataFile, mapping: IndividualDataMapping): Tabulation => {
+  const counts = emptyCounts();
+  const strata = new Map<string, TableCounts>();
+  const missing = { exposure: 0, outcome: 0, stratum: 0 };
+  const unmappedExposure = new Map<string, number>();
+  const unmappedOutcome = new Map<string, number>();
+  let usedRows = 0;
+
+  for (const record of file.records) {
+    const exposure = cellValue(record, mapping.exposure.column);
+    const outcome = cellValue(record, mapping.outcome.column);
+    const stratum = mapping.stratumColumn === null ? null : cellValue(record, mapping.stratumColumn);
+    const exposureRole = isMissingValue(exposure) ? null : mapping.exposure.roles[exposure] ?? 'unmapped';
+    const outcomeRole = isMissingValue(outcome) ? null : mapping.outcome.roles[outcome] ?? 'unmapped';
+
+    if (exposureRole === null) missing.exposure++;
+    else if (exposureRole === 'unmapped') unmappedExposure.set(exposure, (unmappedExposure.get(exposure) ?? 0) + 1);
+    if (outcomeRole === null) missing.outcome++;
+    else if (outcomeRole === 'unmapped') unmappedOutcome.set(outcome, (unmappedOutcome.get(outcome) ?? 0) + 1);
+    if (stratum !== null && isMissingValue(stratum)) missing.stratum++;
+
+    const isUsable = (exposureRole === 'positive' || exposureRole === 'negative')
+      && (outcomeRole === 'positive' || outcomeRole === 'negative')
+      && (stratum === null || !isMissingValue(stratum));
+    if (!isUsable) continue;
+
+    const cell: keyof TableCounts = exposureRole === 'positive'
+      ? (outcomeRole === 'positive' ? 'a' : 'b')
+      : (outcomeRole === 'positive' ? 'c' : 'd');
+    counts[cell]++;
+    if (stratum !== null) {
+      const stratumCounts = strata.get(stratum) ?? emptyCounts();
+      stratumCounts[cell]++;
+      strata.set(stratum, stratumCounts);
+    }
+    usedRows++;
+  }
+
+  return {
+    counts,
+    strata: [...strata.entries()]
+      .sort(([first], [second]) => first.localeCompare(second, undefined, { numeric: true }))
+      .map(([label, stratumCounts]) => ({ label, counts: stratumCounts })),
+    totalRows: file.records.length,
+    usedRows,
+    missing,
+    unmapped: { exposure: toValueCounts(unmappedExposure), outcome: toValueCounts(unmappedOutcome) },
+  };
+};
+
+const toInputs = ({ a, b, c, d }: TableCounts): Inputs => ({ a: String(a), b: String(b), c: String(c), d: String(d) });
+
+// The calculator's inputs built from a tabulation, with a note on where the counts came from
+export const individualDataInputs = (
+  file: IndividualDataFile,
+  mapping: IndividualDataMapping,
+  tabulation: Tabulation,
+  language: Language
+): { inputs: Inputs; strata: LabelledTable[]; provenance: string } => {
+  const T = translations[language];
+  const valuesWithRole = ({ roles }: VariableMapping) =>
+    Object.keys(roles).filter(value => roles[value] === 'positive').join(', ');
+  const provenance = [
+    T.individualProvenanceSource(file.fileName, tabulation.usedRows, tabulation.totalRows),
+    T.individualProvenanceVariable(T.individualRoles.exposure.positive, file.columns[mapping.exposure.column], valuesWithRole(mapping.exposure)),
+    T.individualProvenanceVariable(T.individualRoles.outcome.positive, file.columns[mapping.outcome.column], valuesWithRole(mapping.outcome)),
+    mapping.stratumColumn === null ? null : T.individualProvenanceStrata(file.columns[mapping.stratumColumn], tabulation.strata.length),
+  ].filter(Boolean).join(' ');
+
+  return {
+    inputs: toInputs(tabulation.counts),
+    strata: tabulation.strata.map(stratum => ({ label: stratum.label, inputs: toInputs(stratum.counts) })),
+    provenance,
+  };
+};
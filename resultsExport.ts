@@ -0,0 +1,394 @@
+import type { Results, Inputs, LabelledTable, PersonTimeInputs, AnalysisMode, TableCounts, IntervalEstimate } from './types';
+import { translations, studyDesignLabels, languageName, ciMethodLabels, type Language, type StudyDesign, type StudyGoal } from './i18n';
+import { formatConfidenceLevel } from './statistics';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// Everything needed to reproduce an analysis: the results and what they were calculated from
+export interface ResultsExport {
+  results: Results;
+  analysisMode: AnalysisMode;
+  inputs: Inputs | LabelledTable[] | PersonTimeInputs;
+  studyDesign: StudyDesign | null;
+  studyGoal: StudyGoal | null;
+  language: Language;
+  // Where the counts came from when they were tallied from an individual-level data file
+  dataSource: string | null;
+}
+
+// One metric per row; the value is text for settings, counts and descriptive entries
+interface ExportRow {
+  section: string;
+  metric: string;
+  value: number | string | null;
+  lower?: number | null;
+  upper?: number | null;
+  pValue?: string | null;
+  note?: string;
+}
+
+// Incidence rates are reported per 1,000 units of person-time, as in the results table
+const rateScale = 1000;
+
+// All estimates are written with the same number of decimals; counts are passed as text so they stay whole
+export const formatNumber = (value: number | string | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (Number.isNaN(value)) return '';
+  if (!Number.isFinite(value)) return value > 0 ? 'Inf' : '-Inf';
+  return value.toFixed(4);
+};
+
+type Translations = (typeof translations)[Language];
+
+const formatCounts = (counts: TableCounts) => `a = ${counts.a}, b = ${counts.b}, c = ${counts.c}, d = ${counts.d}`;
+
+const interval = (estimate: IntervalEstimate) => ({ value: estimate.value, lower: estimate.lower, upper: estimate.upper });
+
+// The NNT interval is undefined when the difference's interval spans zero; it is then given as text, as in the results table
+const nntRow = (section: string, T: Translations, nnt: { value: number; type: 'Benefit' | 'Harm'; lower: number | string; upper: number | string }, difference: IntervalEstimate): ExportRow => {
+  const metric = nnt.type === 'Benefit' ? T.nntBenefit : T.nntHarm;
+  if (difference.lower < 0 && difference.upper > 0) {
+    const benefit = formatNumber(Math.abs(1 / difference.lower));
+    const harm = formatNumber(1 / difference.upper);
+    return { section, metric, value: nnt.value, note: `${benefit} (${T.nntCIbenefit}) to ${harm} (${T.nntCIharm})` };
+  }
+  const [lower, upper] = [Math.abs(Number(nnt.lower)), Math.abs(Number(nnt.upper))].sort((x, y) => x - y);
+  return { section, metric, value: nnt.value, lower, upper };
+};
+
+const analysisRows = (data: ResultsExport, T: Translations): ExportRow[] => {
+  const { results, analysisMode, studyDesign, studyGoal, language } = data;
+  const settings = results.analysisSettings;
+  const section = T.exportAnalysisSection;
+  return [
+    { section, metric: T.resultsGoal, value: studyGoal ? (studyGoal === 'desirable' ? T.resultsGoalDesirable : T.resultsGoalUndesirable) : null },
+    { section, metric: T.resultsDesign, value: studyDesign ? studyDesignLabels[language][studyDesign] : null },
+    { section, metric: T.analysisModeTitle, value: T.analysisModeOptions[analysisMode] },
+    { section, metric: T.exportLanguage, value: languageName[language] },
+    { section, metric: T.confidenceLevel, value: `${formatConfidenceLevel(settings.confidenceLevel)}%` },
+    { section, metric: T.alphaLevel, value: settings.alpha },
+    { section, metric: T.testSidedness, value: T.sidednessOptions[settings.sidedness] },
+    { section, metric: T.ciMethodRiskDifference, value: ciMethodLabels[language].riskDifference[settings.ciMethods.riskDifference] },
+    { section, metric: T.ciMethodRelativeRisk, value: ciMethodLabels[language].relativeRisk[settings.ciMethods.relativeRisk] },
+    { section, metric: T.ciMethodOddsRatio, value: ciMethodLabels[language].oddsRatio[settings.ciMethods.oddsRatio] },
+  ];
+};
+
+const inputRows = (results: Results, dataSource: string | null, T: Translations): ExportRow[] => {
+  const section = T.exportInputSection;
+  const rows: ExportRow[] = dataSource ? [{ section, metric: T.individualProvenanceTitle, value: dataSource }] : [];
+  const counts = results.counts ?? results.matchedPairs?.counts ?? results.diagnosticAccuracy?.counts ?? null;
+  if (counts) {
+    (['a', 'b', 'c', 'd'] as const).forEach(cell => rows.push({ section, metric: cell, value: String(counts[cell]) }));
+  }
+  results.stratified?.strata.forEach(stratum => rows.push({ section, metric: stratum.label, value: null, note: formatCounts(stratum.counts) }));
+  results.metaAnalysis?.studyLabels.forEach((label, index) => rows.push({ section, metric: label, value: null, note: formatCounts(results.metaAnalysis!.studyCounts[index]) }));
+  if (results.incidenceRate) {
+    const { counts: personTime, timeUnit } = results.incidenceRate;
+    const unit = T.personTimeUnits[timeUnit];
+    rows.push(
+      { section, metric: `${T.groupNames.exposed}: ${T.eventsLabel}`, value: String(personTime.eventsExposed) },
+      { section, metric: `${T.groupNames.exposed}: ${T.personTimeLabel(unit)}`, value: personTime.personTimeExposed },
+      { section, metric: `${T.groupNames.control}: ${T.eventsLabel}`, value: String(personTime.eventsControl) },
+      { section, metric: `${T.groupNames.control}: ${T.personTimeLabel(unit)}`, value: personTime.personTimeControl },
+    );
+  }
+  return rows;
+};
+
+const tableRows = (results: Results, T: Translations, language: Language): ExportRow[] => {
+  const rows: ExportRow[] = [];
+
+  if (results.absoluteRiskExposed || results.absoluteRiskControl) {
+    const section = T.incidenceHeader;
+    if (results.absoluteRiskExposed) rows.push({ section, metric: T.absRiskExposed, value: results.absoluteRiskExposed.value });
+    if (results.absoluteRiskControl) rows.push({ section, metric: T.absRiskControl, value: results.absoluteRiskControl.value });
+  }
+
+  {
+    const section = T.assocMeasuresHeader;
+    const { relativeRisk, oddsRatio, riskDifference } = results;
+    if (relativeRisk) rows.push({ section, metric: T.relativeRisk, ...interval(relativeRisk), pValue: relativeRisk.pValue, note: `${T.ciMethod}: ${ciMethodLabels[language].relativeRisk[relativeRisk.ciMethod]}` });
+    if (oddsRatio) {
+      rows.push({ section, metric: T.oddsRatio, ...interval(oddsRatio), pValue: oddsRatio.pValue, note: `${T.ciMethod}: ${ciMethodLabels[language].oddsRatio[oddsRatio.ciMethod]}` });
+      if (oddsRatio.conditionalMle !== null) rows.push({ section, metric: T.conditionalMleOr, value: oddsRatio.conditionalMle });
+    }
+    if (riskDifference) rows.push({ section, metric: T.riskDifference, ...interval(riskDifference), note: `${T.ciMethod}: ${ciMethodLabels[language].riskDifference[riskDifference.ciMethod]}` });
+  }
+
+  {
+    const section = T.significanceTestsHeader;
+    if (results.fisherExact) {
+      rows.push({ section, metric: T.fisherExactTwoSided, value: null, pValue: results.fisherExact.pValue });
+      rows.push({ section, metric: T.fisherExactMidP, value: null, pValue: results.fisherExact.midPValue });
+    }
+    if (results.fragility) {
+      const { fragility } = results;
+      const note = fragility.index === null
+        ? T.fragilityNotReachable
+        : fragility.group && fragility.quotient !== null
+          ? T.fragilityDetail(fragility.group, fragility.quotient.toFixed(4))
+          : undefined;
+      rows.push({ section, metric: fragility.type === 'fragility' ? T.fragilityIndex : T.reverseFragilityIndex, value: fragility.index === null ? null : String(fragility.index), note });
+    }
+    if (results.chiSquare) {
+      const { chiSquare } = results;
+      rows.push(
+        { section, metric: T.pearsonChiSquare, value: chiSquare.pearson.statistic, pValue: chiSquare.pearson.pValue },
+        { section, metric: T.yatesChiSquare, value: chiSquare.yates.statistic, pValue: chiSquare.yates.pValue },
+        { section, metric: T.likelihoodRatioG, value: chiSquare.likelihoodRatio.statistic, pValue: chiSquare.likelihoodRatio.pValue },
+        { section, metric: T.recommendedTest, value: T.recommendedTestOptions[chiSquare.recommendedTest] },
+      );
+    }
+  }
+
+  if (results.stratified) {
+    const section = T.stratifiedHeader;
+    const { strata, adjusted, mantelHaenszelTest, homogeneity, confounding } = results.stratified;
+    strata.forEach(stratum => {
+      if (stratum.relativeRisk !== null) rows.push({ section, metric: `${stratum.label}: ${T.relativeRisk}`, value: stratum.relativeRisk });
+      if (stratum.oddsRatio !== null) rows.push({ section, metric: `${stratum.label}: ${T.oddsRatio}`, value: stratum.oddsRatio });
+      if (stratum.riskDifference !== null) rows.push({ section, metric: `${stratum.label}: ${T.riskDifference}`, value: stratum.riskDifference });
+    });
+    if (adjusted.relativeRisk) rows.push({ section, metric: T.mhRelativeRisk, ...interval(adjusted.relativeRisk) });
+    if (adjusted.oddsRatio) rows.push({ section, metric: T.mhOddsRatio, ...interval(adjusted.oddsRatio) });
+    if (adjusted.riskDifference) rows.push({ section, metric: T.mhRiskDifference, ...interval(adjusted.riskDifference) });
+    if (confounding) rows.push({ section, metric: T.crudeVsAdjusted, value: confounding.percentChange / 100, note: `${T.crudeEstimate}: ${formatNumber(confounding.crude)}` });
+    if (mantelHaenszelTest) rows.push({ section, metric: T.mantelHaenszelTest, value: mantelHaenszelTest.statistic, pValue: mantelHaenszelTest.pValue });
+    if (homogeneity) {
+      rows.push(
+        { section, metric: T.breslowDayTest, value: homogeneity.breslowDay.statistic, pValue: homogeneity.breslowDay.pValue, note: `df = ${homogeneity.df}` },
+        { section, metric: T.taroneTest, value: homogeneity.tarone.statistic, pValue: homogeneity.tarone.pValue, note: `df = ${homogeneity.df}` },
+      );
+    }
+  }
+
+  if (results.impactMeasures || results.nnt) {
+    const section = T.impactMeasuresHeader;
+    if (results.impactMeasures) {
+      rows.push({ section, metric: results.impactMeasures.absolute.label, value: results.impactMeasures.absolute.value });
+      rows.push({ section, metric: results.impactMeasures.relative.label, value: results.impactMeasures.relative.value });
+    }
+    if (results.nnt && results.riskDifference) rows.push(nntRow(section, T, results.nnt, results.riskDifference));
+  }
+
+  if (results.attributableFractions) {
+    const fractions = results.attributableFractions;
+    const isAttributable = fractions.type === 'attributable';
+    const section = isAttributable ? T.attributableFractionsHeader : T.preventedFractionsHeader;
+    const note = T.fractionBasedOn(fractions.measure === 'oddsRatio' ? T.oddsRatio : T.relativeRisk);
+    rows.push(
+      { section, metric: isAttributable ? T.attributableFractionExposed : T.preventedFractionExposed, ...interval(fractions.exposed), note },
+      { section, metric: isAttributable ? T.populationAttributableFraction : T.populationPreventedFraction, ...interval(fractions.population), note: T.exposurePrevalenceUsed((fractions.exposurePrevalence * 100).toFixed(1), fractions.exposurePrevalenceSource) },
+    );
+    if (fractions.caseBased) rows.push({ section, metric: T.caseBasedAttributableFraction, ...interval(fractions.caseBased) });
+  }
+
+  if (results.eValues) {
+    const section = T.confoundingSensitivityHeader;
+    results.eValues.forEach(entry => {
+      const note = [entry.isAdjusted ? T.eValueAdjusted : null, entry.approximation !== 'none' ? T.eValueApproximations[entry.approximation] : null].filter(Boolean).join('; ');
+      rows.push(
+        { section, metric: T.eValuePoint(T[entry.measure]), value: entry.point, note: note || undefined },
+        { section, metric: T.eValueLimit, value: entry.confidenceLimit },
+      );
+    });
+  }
+
+  if (results.type1Error || results.power || results.type2Error || results.caseControlPower) {
+    const section = T.reliabilityHeader;
+    if (results.type1Error) rows.push({ section, metric: T.type1Error, value: results.type1Error.value });
+    if (results.power) rows.push({ section, metric: T.statPower, value: results.power.value });
+    if (results.type2Error) rows.push({ section, metric: T.type2Error, value: results.type2Error.value });
+    if (results.caseControlPower) {
+      const { caseControlPower } = results;
+      rows.push(
+        { section, metric: T.exposureInControls, value: caseControlPower.exposureInControls },
+        { section, metric: T.controlsPerCase, value: caseControlPower.controlsPerCase },
+        { section, metric: T.caseControlSampleSize, value: T.casesAndControls(caseControlPower.requiredCases, caseControlPower.requiredControls) },
+      );
+    }
+  }
+
+  if (results.metaAnalysis) {
+    const { metaAnalysis } = results;
+    const measures = [
+      { label: T.relativeRisk, result: metaAnalysis.relativeRisk },
+      { label: T.oddsRatio, result: metaAnalysis.oddsRatio },
+      { label: T.riskDifference, result: metaAnalysis.riskDifference },
+    ];
+    measures.forEach(({ label, result }) => {
+      if (!result) return;
+      const section = `${T.metaPooledHeader}: ${label}`;
+      result.studies.forEach((study, index) => {
+        const metric = metaAnalysis.studyLabels[index];
+        rows.push(study
+          ? { section, metric, ...interval(study), note: `${T.metaFixedEffectShort} ${(study.weightFixed * 100).toFixed(1)}%; ${T.metaRandomEffectsShort} ${(study.weightRandom * 100).toFixed(1)}%` }
+          : { section, metric, value: null, note: T.metaStudyExcluded });
+      });
+      rows.push({ section, metric: T.metaFixedInverseVariance, ...interval(result.fixedInverseVariance), pValue: result.fixedInverseVariance.pValue });
+      if (result.fixedMantelHaenszel) rows.push({ section, metric: T.metaFixedMantelHaenszel, ...interval(result.fixedMantelHaenszel), pValue: result.fixedMantelHaenszel.pValue });
+      rows.push({ section, metric: T.metaRandomEffects, ...interval(result.randomEffects), pValue: result.randomEffects.pValue });
+      rows.push(
+        { section, metric: T.metaCochranQ, value: result.heterogeneity.q, pValue: result.heterogeneity.pValue, note: `df = ${result.heterogeneity.df}` },
+        { section, metric: 'I²', value: result.heterogeneity.iSquared },
+        { section, metric: 'τ²', value: result.heterogeneity.tauSquared },
+      );
+    });
+  }
+
+  if (results.incidenceRate) {
+    const { rateExposed, rateControl, rateRatio, rateDifference, nnt, timeUnit } = results.incidenceRate;
+    const unit = T.personTimeUnits[timeUnit];
+    const ratesSection = T.incidenceRatesHeader(unit);
+    rows.push(
+      { section: ratesSection, metric: T.rateExposed, value: rateExposed * rateScale },
+      { section: ratesSection, metric: T.rateControl, value: rateControl * rateScale },
+    );
+    if (rateRatio) {
+      rows.push(
+        { section: T.assocMeasuresHeader, metric: T.rateRatio, ...interval(rateRatio), pValue: rateRatio.pValue },
+        { section: T.assocMeasuresHeader, metric: T.rateRatioMidP, value: null, pValue: rateRatio.midPValue },
+      );
+    }
+    if (rateDifference) {
+      rows.push({ section: T.impactMeasuresHeader, metric: T.rateDifference(unit), value: rateDifference.value * rateScale, lower: rateDifference.lower * rateScale, upper: rateDifference.upper * rateScale, pValue: rateDifference.pValue });
+      if (nnt) {
+        const row = nntRow(T.impactMeasuresHeader, T, nnt, rateDifference);
+        rows.push({ ...row, note: [unit, row.note].filter(Boolean).join('; ') });
+      }
+    }
+  }
+
+  if (results.diagnosticAccuracy) {
+    const accuracy = results.diagnosticAccuracy;
+    const characteristics = [
+      [T.sensitivity, accuracy.sensitivity],
+      [T.specificity, accuracy.specificity],
+      [T.youdenIndex, accuracy.youden],
+    ] as const;
+    characteristics.forEach(([metric, estimate]) => estimate && rows.push({ section: T.diagnosticTestCharacteristicsHeader, metric, ...interval(estimate) }));
+    const ratios = [
+      [T.lrPositive, accuracy.lrPositive],
+      [T.lrNegative, accuracy.lrNegative],
+      [T.diagnosticOddsRatio, accuracy.diagnosticOddsRatio],
+    ] as const;
+    ratios.forEach(([metric, estimate]) => estimate && rows.push({ section: T.likelihoodRatiosHeader, metric, ...interval(estimate) }));
+    const studySection = T.predictiveValuesHeader((accuracy.studyPrevalence * 100).toFixed(1));
+    if (accuracy.ppv) rows.push({ section: studySection, metric: T.ppv, ...interval(accuracy.ppv) });
+    if (accuracy.npv) rows.push({ section: studySection, metric: T.npv, ...interval(accuracy.npv) });
+    if (accuracy.adjustedPredictiveValues && accuracy.targetPrevalence !== null) {
+      const targetSection = T.predictiveValuesHeader((accuracy.targetPrevalence * 100).toFixed(1));
+      rows.push(
+        { section: targetSection, metric: T.ppv, ...interval(accuracy.adjustedPredictiveValues.ppv) },
+        { section: targetSection, metric: T.npv, ...interval(accuracy.adjustedPredictiveValues.npv) },
+      );
+    }
+  }
+
+  if (results.matchedPairs) {
+    const pairs = results.matchedPairs;
+    rows.push(
+      { section: T.matchedPairsHeader, metric: T.totalPairs, value: String(pairs.pairs) },
+      { section: T.matchedPairsHeader, metric: T.discordantPairs, value: String(pairs.discordantPairs) },
+    );
+    if (pairs.conditionalOddsRatio) rows.push({ section: T.assocMeasuresHeader, metric: T.conditionalOddsRatio, ...interval(pairs.conditionalOddsRatio) });
+    if (pairs.riskDifference) rows.push({ section: T.assocMeasuresHeader, metric: T.pairedRiskDifference, ...interval(pairs.riskDifference) });
+    if (pairs.mcnemar) {
+      const section = T.significanceTestsHeader;
+      rows.push(
+        { section, metric: T.mcnemarChiSquare, value: pairs.mcnemar.chiSquare.statistic, pValue: pairs.mcnemar.chiSquare.pValue },
+        { section, metric: T.mcnemarCorrected, value: pairs.mcnemar.correctedChiSquare.statistic, pValue: pairs.mcnemar.correctedChiSquare.pValue },
+        { section, metric: T.mcnemarExact, value: null, pValue: pairs.mcnemar.exact.pValue },
+        { section, metric: T.mcnemarExactMidP, value: null, pValue: pairs.mcnemar.exact.midPValue },
+      );
+    }
+  }
+
+  return rows;
+};
+
+const buildRows = (data: ResultsExport): ExportRow[] => {
+  const T = translations[data.language];
+  return [...analysisRows(data, T), ...inputRows(data.results, data.dataSource, T), ...tableRows(data.results, T, data.language)];
+};
+
+const columnHeaders = (data: ResultsExport) => {
+  const T = translations[data.language];
+  const ciLabel = T.ciLabel(formatConfidenceLevel(data.results.analysisSettings.confidenceLevel));
+  return [T.exportSection, T.metricHeader, T.exportValue, `${ciLabel} ${T.exportLower}`, `${ciLabel} ${T.exportUpper}`, T.exportPValue, T.exportNote];
+};
+
+const rowCells = (row: ExportRow) => [row.section, row.metric, formatNumber(row.value), formatNumber(row.lower), formatNumber(row.upper), row.pValue ?? '', row.note ?? ''];
+
+// Spreadsheets may run a cell starting with =, +, -, @, a tab or a carriage return as a formula, so such text (e.g. an imported label) is prefixed
+// with an apostrophe; plain numbers such as a negative risk difference are left as they are
+const neutralizeFormula = (cell: string) => (/^[=+\-@\t\r]/.test(cell) && !/^[+-]?\d+(\.\d+)?$/.test(cell) ? `'${cell}` : cell);
+
+export const escapeCsv = (cell: string) => {
+  const safe = neutralizeFormula(cell);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const resultsToCsv = (data: ResultsExport): string =>
+  [columnHeaders(data), ...buildRows(data).map(rowCells)].map(cells => cells.map(escapeCsv).join(',')).join('\r\n');
+
+export interface ResultsTableSection {
+  title: string;
+  // Formatted cells, in the order of the headers
+  rows: string[][];
+}
+
+// The rows grouped into one table per section, without the section column; shared by the Markdown export and the printable report
+export const resultsTableSections = (data: ResultsExport): { headers: string[]; sections: ResultsTableSection[] } => {
+  const rows = buildRows(data);
+  const titles = [...new Set(rows.map(row => row.section))];
+  return {
+    headers: columnHeaders(data).slice(1),
+    sections: titles.map(title => ({ title, rows: rows.filter(row => row.section === title).map(row => rowCells(row).slice(1)) })),
+  };
+};
+
+export const resultsToMarkdown = (data: ResultsExport): string => {
+  const T = translations[data.language];
+  const { headers, sections } = resultsTableSections(data);
+  const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|');
+  const tables = sections.map(section => [
+    `## ${section.title}`,
+    '',
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...section.rows.map(cells => `| ${cells.map(escapeCell).join(' | ')} |`),
+  ].join('\n'));
+  return [`# ${T.resultsTitle}`, ...tables].join('\n\n') + '\n';
+};
+
+// JSON has no Infinity or NaN, which unbounded intervals and empty cells produce, so they are written as tagged strings
+// rather than the null JSON.stringify would silently put in their place
+export const replaceNonFinite = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isFinite(value) ? { $number: String(value) } : value;
+
+export const resultsToJson = (data: ResultsExport): string => JSON.stringify(data, replaceNonFinite, 2);
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download only after click() returns, so the URL must outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const exportFormats: Record<ExportFormat, { extension: string; type: string; build: (data: ResultsExport) => string }> = {
+  json: { extension: 'json', type: 'application/json', build: resultsToJson },
+  // The byte order mark makes spreadsheet programs read the Cyrillic labels as UTF-8
+  csv: { extension: 'csv', type: 'text/csv;charset=utf-8', build: data => `\uFEFF${resultsToCsv(data)}` },
+  markdown: { extension: 'md', type: 'text/markdown;charset=utf-8', build: resultsToMarkdown },
+};
+
+export const downloadResults = (data: ResultsExport, format: ExportFormat) => {
+  const { extension, type, build } = exportFormats[format];
+  downloadBlob(new Blob([build(data)], { type }), `results.${extension}`);
+};
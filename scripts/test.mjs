@@ -0,0 +1,12 @@
+// Runs every *.test.ts file in the project root with node:test. Vite's module runner compiles the TypeScript and
+// resolves the extensionless imports the same way as the app build, so no separate test toolchain is needed.
+import { readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const testFiles = readdirSync(root).filter(file => file.endsWith('.test.ts')).sort();
+
+for (const file of testFiles) {
+  await runnerImport(`/${file}`, { root, configFile: false, logLevel: 'error' });
+}
@@ -0,0 +1,114 @@
+import type { AiModel, AnalysisMode, AnalysisSettings, Inputs, LabelledTable, PersonTimeInputs } from './types';
+import { ciMethodLabels, languageName, studyDesignLabels, studyGoalLabels, type Language, type StudyDesign, type StudyGoal } from './i18n';
+
+// The state needed to repeat an analysis; results and AI text are recalculated from it rather than shared
+export interface SharedAnalysis {
+  inputs: Inputs;
+  studyGoal: StudyGoal | null;
+  studyDesign: StudyDesign | null;
+  aiModel: AiModel;
+  language: Language;
+  analysisSettings: AnalysisSettings;
+  analysisMode: AnalysisMode;
+  strata: LabelledTable[];
+  studies: LabelledTable[];
+  personTimeInputs: PersonTimeInputs;
+  targetPrevalence: string;
+  exposurePrevalence: string;
+}
+
+export type ShareLinkResult = { analysis: SharedAnalysis } | { error: 'invalid' | 'unsupported-version' };
+
+// Bump the version whenever the payload's shape changes, and add a migration from the previous version
+// so that links shared (and analyses saved) before the change keep working
+const shareLinkVersion = 1;
+const migrations: Record<number, (payload: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const hashKey = 'analysis';
+
+const analysisModes: AnalysisMode[] = ['single', 'stratified', 'meta', 'incidenceRate'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => isString(value) && (options as readonly string[]).includes(value);
+const isNumberIn = (value: unknown, min: number, max: number): value is number => typeof value === 'number' && value > min && value < max;
+
+const isInputs = (value: unknown): value is Inputs => isRecord(value) && (['a', 'b', 'c', 'd'] as const).every(key => isString(value[key]));
+
+const isTableList = (value: unknown): value is LabelledTable[] =>
+  Array.isArray(value) && value.every(table => isRecord(table) && isString(table.label) && isInputs(table.inputs));
+
+const isPersonTimeInputs = (value: unknown): value is PersonTimeInputs =>
+  isRecord(value)
+  && (['eventsExposed', 'personTimeExposed', 'eventsControl', 'personTimeControl'] as const).every(key => isString(value[key]))
+  && isOneOf(value.timeUnit, ['years', 'months', 'days'] as const);
+
+const isAnalysisSettings = (value: unknown): value is AnalysisSettings => {
+  if (!isRecord(value) || !isRecord(value.ciMethods)) return false;
+  const { ciMethods } = value;
+  return isNumberIn(value.alpha, 0, 1)
+    && isNumberIn(value.confidenceLevel, 0, 1)
+    && isOneOf(value.sidedness, ['two-sided', 'one-sided'] as const)
+    && isOneOf(ciMethods.riskDifference, Object.keys(ciMethodLabels.en.riskDifference))
+    && isOneOf(ciMethods.relativeRisk, Object.keys(ciMethodLabels.en.relativeRisk))
+    && isOneOf(ciMethods.oddsRatio, Object.keys(ciMethodLabels.en.oddsRatio));
+};
+
+const isSharedAnalysis = (value: Record<string, unknown>): value is Record<string, unknown> & SharedAnalysis =>
+  isInputs(value.inputs)
+  && (value.studyGoal === null || isOneOf(value.studyGoal, Object.keys(studyGoalLabels.en) as StudyGoal[]))
+  && (value.studyDesign === null || isOneOf(value.studyDesign, Object.keys(studyDesignLabels.en) as StudyDesign[]))
+  && isString(value.aiModel)
+  && isOneOf(value.language, Object.keys(languageName) as Language[])
+  && isAnalysisSettings(value.analysisSettings)
+  && isOneOf(value.analysisMode, analysisModes)
+  && isTableList(value.strata)
+  && isTableList(value.studies)
+  && isPersonTimeInputs(value.personTimeInputs)
+  && isString(value.targetPrevalence)
+  && isString(value.exposurePrevalence);
+
+// Base64url of the UTF-8 JSON, so stratum and study labels in any script survive the URL
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const versionAnalysis = (analysis: SharedAnalysis) => ({ v: shareLinkVersion, ...analysis });
+
+// Validates a versioned payload, migrating it from an older version first
+export const parseVersionedAnalysis = (payload: unknown): ShareLinkResult => {
+  if (!isRecord(payload) || typeof payload.v !== 'number' || !Number.isInteger(payload.v) || payload.v < 1) return { error: 'invalid' };
+  if (payload.v > shareLinkVersion) return { error: 'unsupported-version' };
+
+  let migrated = payload;
+  for (let version = payload.v; version < shareLinkVersion; version++) {
+    migrated = migrations[version](migrated);
+  }
+  if (!isSharedAnalysis(migrated)) return { error: 'invalid' };
+
+  const { v: _version, ...analysis } = migrated;
+  return { analysis: analysis as SharedAnalysis };
+};
+
+export const encodeShareLink = (analysis: SharedAnalysis): string =>
+  `${hashKey}=${toBase64Url(JSON.stringify(versionAnalysis(analysis)))}`;
+
+// null when the hash holds no shared analysis
+export const readShareLink = (hash: string): ShareLinkResult | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(hashKey);
+  if (!encoded) return null;
+
+  try {
+    return parseVersionedAnalysis(JSON.parse(fromBase64Url(encoded)));
+  } catch {
+    return { error: 'invalid' };
+  }
+};
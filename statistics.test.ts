@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  normalCDF, zForConfidence, fisherExactTest, exactConditionalOddsRatio, newcombeRiskDifferenceCI,
+  miettinenNurminenRiskDifferenceCI, koopmanRelativeRiskCI, eValue, compareIndependentEstimates,
+} from './statistics';
+
+// Reference values are from the published examples named in each test, rounded as printed there
+const assertClose = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+
+test('normal distribution', () => {
+  assertClose(normalCDF(1.959964), 0.975, 1e-6);
+  assertClose(zForConfidence(0.95), 1.959964, 1e-5);
+  assertClose(zForConfidence(0.99), 2.575829, 1e-5);
+});
+
+// Agresti, Categorical Data Analysis: the dieting table, also R's fisher.test(matrix(c(1, 11, 9, 3), 2))
+test("Fisher's exact test and the conditional MLE odds ratio", () => {
+  assertClose(fisherExactTest(1, 9, 11, 3).pValue, 0.002759, 1e-6);
+  const oddsRatio = exactConditionalOddsRatio(1, 9, 11, 3, 0.05);
+  assertClose(oddsRatio.estimate, 0.03720, 1e-5);
+  assertClose(oddsRatio.lower, 0.000636, 1e-6);
+  assertClose(oddsRatio.upper, 0.4259, 1e-4);
+});
+
+// Newcombe (1998), Statistics in Medicine 17:873, example 56/70 vs 48/80
+test('risk difference intervals', () => {
+  const z = zForConfidence(0.95);
+  const newcombe = newcombeRiskDifferenceCI(56, 70, 48, 80, z);
+  assertClose(newcombe.lower, 0.0524, 1e-4);
+  assertClose(newcombe.upper, 0.3339, 1e-4);
+  const miettinenNurminen = miettinenNurminenRiskDifferenceCI(56, 70, 48, 80, z);
+  assertClose(miettinenNurminen.lower, 0.0528, 1e-4);
+  assertClose(miettinenNurminen.upper, 0.3382, 1e-4);
+});
+
+// Koopman (1984), Biometrics 40:513, example 36/40 vs 16/80
+test('Koopman score interval for the relative risk', () => {
+  const interval = koopmanRelativeRiskCI(36, 40, 16, 80, zForConfidence(0.95));
+  assertClose(interval.lower, 2.940, 1e-3);
+  assertClose(interval.upper, 7.152, 1e-3);
+});
+
+// VanderWeele and Ding (2017), Annals of Internal Medicine 167:268
+test('E-value', () => {
+  assertClose(eValue(3.9), 7.26, 1e-2);
+  assert.equal(eValue(1), 1);
+  assertClose(eValue(1 / 3.9), eValue(3.9), 1e-12);
+});
+
+test('comparison of independent estimates', () => {
+  const estimate = { value: 2, lower: 1, upper: 4, confidenceLevel: 0.95 };
+  const same = compareIndependentEstimates(estimate, estimate, 'ratio', 0.95, 0.05, 'two-sided');
+  assert.ok(same);
+  assertClose(same.value, 1, 1e-12);
+  assert.equal(same.isSignificant, false);
+
+  // A two-sided p-value between alpha and 2·alpha is significant only for a one-sided test
+  const first = { value: 0.45, lower: 0.25, upper: 0.65, confidenceLevel: 0.95 };
+  const second = { value: 0.2, lower: 0.0, upper: 0.4, confidenceLevel: 0.95 };
+  const twoSided = compareIndependentEstimates(first, second, 'difference', 0.95, 0.05, 'two-sided');
+  const oneSided = compareIndependentEstimates(first, second, 'difference', 0.95, 0.05, 'one-sided');
+  assert.ok(twoSided && oneSided);
+  assertClose(twoSided.value, 0.25, 1e-12);
+  assert.equal(twoSided.isSignificant, false);
+  assert.equal(oneSided.isSignificant, true);
+});
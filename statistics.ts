@@ -0,0 +1,1096 @@
+import type { TestSidedness, EffectMeasure, SampleSizeAssumptions, TableCounts, IntervalEstimate, BetaDistribution, BenefitDirection } from './types';
+
+// Standard Normal cumulative distribution function using Abramowitz and Stegun approximation for erf
+export const normalCDF = (x: number): number => {
+    // Constants for the approximation
+    const p = 0.3275911;
+    const a1 = 0.254829592;
+    const a2 = -0.284496736;
+    const a3 = 1.421413741;
+    const a4 = -1.453152027;
+    const a5 = 1.061405429;
+
+    // The relationship is CDF(x) = 0.5 * (1 + erf(x / sqrt(2)))
+    const z = x / Math.sqrt(2);
+    const sign = z >= 0 ? 1 : -1;
+    const t = 1.0 / (1.0 + p * Math.abs(z));
+    const erf = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
+    const cdf = 0.5 * (1.0 + sign * erf);
+
+    return cdf;
+};
+
+// Inverse of the standard normal CDF (quantile function) using Acklam's rational approximation,
+// accurate to about 1e-9 across the whole (0, 1) range
+export const inverseNormalCDF = (p: number): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+    const pLow = 0.02425;
+
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+               ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+                ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+           (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Critical value of the standard normal distribution for a confidence interval at the given level
+export const zForConfidence = (confidenceLevel: number): number => {
+    return inverseNormalCDF(1 - (1 - confidenceLevel) / 2);
+};
+
+// Critical value of the standard normal distribution for a hypothesis test at significance level alpha
+export const zForAlpha = (alpha: number, sidedness: TestSidedness): number => {
+    return inverseNormalCDF(sidedness === 'two-sided' ? 1 - alpha / 2 : 1 - alpha);
+};
+
+// Formats a confidence level (e.g. 0.95) as a percentage label without trailing zeros (e.g. "95")
+export const formatConfidenceLevel = (confidenceLevel: number): string => {
+    return String(Number((confidenceLevel * 100).toFixed(1)));
+};
+
+// Formats a p-value for display, flooring very small values at <0.0001
+export const formatPValue = (p: number): string => {
+  return p < 0.0001 ? '<0.0001' : p.toFixed(4);
+};
+
+// Calculates a two-tailed p-value from a Z-statistic using the corrected normalCDF
+export const calculatePValueFromZ = (z: number): string => {
+  const absZ = Math.abs(z);
+  const p = 2 * (1 - normalCDF(absZ));
+  return formatPValue(p);
+};
+
+// Converts a target effect (RR, RD or OR) and the control-group risk into the implied exposed-group risk
+export const exposedRiskFromEffect = (controlRisk: number, measure: EffectMeasure, effect: number): number => {
+    if (measure === 'rr') return controlRisk * effect;
+    if (measure === 'rd') return controlRisk + effect;
+    return (effect * controlRisk) / (1 - controlRisk + effect * controlRisk);
+};
+
+// Required number of control participants for comparing two proportions (Fleiss), with
+// allocationRatio exposed participants per control and an optional Fleiss–Tytun–Ury continuity correction.
+// The result is not rounded so callers can derive both arms before rounding each up.
+const requiredControlSampleSize = (assumptions: SampleSizeAssumptions): number | null => {
+    const { controlRisk: p2, exposedRisk: p1, alpha, power, allocationRatio: k, sidedness, continuityCorrection } = assumptions;
+    const delta = Math.abs(p1 - p2);
+    if (delta === 0 || isNaN(delta) || k <= 0) return null;
+
+    const z_alpha = zForAlpha(alpha, sidedness);
+    const z_beta = inverseNormalCDF(power);
+    const p_pooled = (k * p1 + p2) / (k + 1);
+
+    const term1 = z_alpha * Math.sqrt(p_pooled * (1 - p_pooled) * (1 + 1 / k));
+    const term2 = z_beta * Math.sqrt(p1 * (1 - p1) / k + p2 * (1 - p2));
+    const n = Math.pow(term1 + term2, 2) / (delta * delta);
+
+    if (!continuityCorrection) return n;
+    return (n / 4) * Math.pow(1 + Math.sqrt(1 + (2 * (k + 1)) / (k * n * delta)), 2);
+};
+
+// Required sample size in each arm, each rounded up to a whole participant
+export const calculateSampleSizePlan = (assumptions: SampleSizeAssumptions): { control: number; exposed: number } | null => {
+    const nControl = requiredControlSampleSize(assumptions);
+    if (nControl === null) return null;
+    return {
+        control: Math.ceil(nControl),
+        exposed: Math.ceil(nControl * assumptions.allocationRatio),
+    };
+};
+
+// Power of the two-proportion test when the control arm has nControl participants; the inverse
+// of the sample-size formula above, used to draw power curves
+export const calculatePowerForSampleSize = (assumptions: SampleSizeAssumptions, nControl: number): number => {
+    const { controlRisk: p2, exposedRisk: p1, alpha, allocationRatio: k, sidedness, continuityCorrection } = assumptions;
+    const z_alpha = zForAlpha(alpha, sidedness);
+    const p_pooled = (k * p1 + p2) / (k + 1);
+    // The continuity correction effectively shrinks the detectable difference by (k + 1) / (2·k·n)
+    const delta = Math.abs(p1 - p2) - (continuityCorrection ? (k + 1) / (2 * k * nControl) : 0);
+    if (delta <= 0) return 0;
+
+    const z_beta = (delta * Math.sqrt(nControl) - z_alpha * Math.sqrt(p_pooled * (1 - p_pooled) * (1 + 1 / k)))
+        / Math.sqrt(p1 * (1 - p1) / k + p2 * (1 - p2));
+    return normalCDF(z_beta);
+};
+
+// Calculates the required sample size per group to achieve the target power (80% by default)
+// for a test at significance level alpha, assuming equal allocation
+export const calculateRequiredSampleSize = (p1: number, p2: number, alpha: number, sidedness: TestSidedness, powerTarget = 0.80): number | null => {
+    if (p1 === p2 || isNaN(p1) || isNaN(p2)) return null;
+
+    const plan = calculateSampleSizePlan({
+        controlRisk: p2,
+        exposedRisk: p1,
+        alpha,
+        power: powerTarget,
+        allocationRatio: 1,
+        sidedness,
+        continuityCorrection: false,
+    });
+    return plan ? plan.control : null;
+};
+
+// A case-control study compares exposure prevalence between cases and controls, so the two-proportion
+// formulas above apply with the controls as the reference group and the exposure prevalence in cases
+// implied by the odds ratio.
+const caseControlAssumptions = (exposureInControls: number, oddsRatio: number, casesPerControl: number, alpha: number, sidedness: TestSidedness, power: number): SampleSizeAssumptions => ({
+    controlRisk: exposureInControls,
+    exposedRisk: exposedRiskFromEffect(exposureInControls, 'or', oddsRatio),
+    alpha,
+    power,
+    allocationRatio: casesPerControl,
+    sidedness,
+    continuityCorrection: false,
+});
+
+// Power to detect the given odds ratio with nCases cases and nControls controls
+export const calculateCaseControlPower = (exposureInControls: number, oddsRatio: number, nCases: number, nControls: number, alpha: number, sidedness: TestSidedness): number => {
+    const assumptions = caseControlAssumptions(exposureInControls, oddsRatio, nCases / nControls, alpha, sidedness, 0);
+    return calculatePowerForSampleSize(assumptions, nControls);
+};
+
+// Number of cases and controls needed to detect the given odds ratio with the target power (80% by default),
+// keeping controlsPerCase controls for every case
+export const calculateCaseControlSampleSize = (exposureInControls: number, oddsRatio: number, controlsPerCase: number, alpha: number, sidedness: TestSidedness, powerTarget = 0.80): { cases: number; controls: number } | null => {
+    if (oddsRatio === 1 || !isFinite(oddsRatio) || controlsPerCase <= 0) return null;
+
+    const assumptions = caseControlAssumptions(exposureInControls, oddsRatio, 1 / controlsPerCase, alpha, sidedness, powerTarget);
+    const plan = calculateSampleSizePlan(assumptions);
+    return plan ? { cases: plan.exposed, controls: plan.control } : null;
+};
+
+// Log-factorials are cached so repeated exact tests on the same table size stay cheap
+const logFactorialCache: number[] = [0];
+
+const logFactorial = (n: number): number => {
+    for (let i = logFactorialCache.length; i <= n; i++) {
+        logFactorialCache[i] = logFactorialCache[i - 1] + Math.log(i);
+    }
+    return logFactorialCache[n];
+};
+
+// Hypergeometric probability of observing x in cell 'a' given the fixed table margins
+const hypergeometricProbability = (x: number, row1: number, row2: number, col1: number): number => {
+    const n = row1 + row2;
+    return Math.exp(
+        logFactorial(row1) + logFactorial(row2) + logFactorial(col1) + logFactorial(n - col1)
+        - logFactorial(n) - logFactorial(x) - logFactorial(row1 - x)
+        - logFactorial(col1 - x) - logFactorial(row2 - col1 + x)
+    );
+};
+
+// Fisher's exact test for a 2x2 table. The two-sided p-value sums the probabilities of all
+// tables at least as unlikely as the observed one; the mid-p value counts the observed
+// table's own probability (and any ties) only by half, which reduces the test's conservatism.
+export const fisherExactTest = (a: number, b: number, c: number, d: number): { pValue: number; midPValue: number } => {
+    const row1 = a + b;
+    const row2 = c + d;
+    const col1 = a + c;
+    const minX = Math.max(0, col1 - row2);
+    const maxX = Math.min(row1, col1);
+
+    const observed = hypergeometricProbability(a, row1, row2, col1);
+    // Relative tolerance so floating-point noise doesn't exclude tables tied with the observed one
+    const tolerance = observed * 1e-7;
+
+    let lessLikely = 0;
+    let tied = 0;
+    for (let x = minX; x <= maxX; x++) {
+        const prob = hypergeometricProbability(x, row1, row2, col1);
+        if (prob < observed - tolerance) {
+            lessLikely += prob;
+        } else if (prob <= observed + tolerance) {
+            tied += prob;
+        }
+    }
+
+    return {
+        pValue: Math.min(1, lessLikely + tied),
+        midPValue: Math.min(1, lessLikely + 0.5 * tied),
+    };
+};
+
+// Calculates the upper-tail p-value of a chi-square statistic with 1 degree of freedom,
+// using the identity that a 1-df chi-square is the square of a standard normal variable
+export const calculatePValueFromChiSquare = (chiSquare: number): string => {
+  const p = 2 * (1 - normalCDF(Math.sqrt(Math.max(0, chiSquare))));
+  return formatPValue(p);
+};
+
+// Pearson, Yates-corrected and likelihood-ratio (G) chi-square statistics for a 2x2 table,
+// together with the expected cell counts under independence. Returns null when a margin is
+// empty, since the expected counts (and therefore all three statistics) are undefined.
+export const chiSquareTests = (a: number, b: number, c: number, d: number) => {
+    const n = a + b + c + d;
+    const row1 = a + b;
+    const row2 = c + d;
+    const col1 = a + c;
+    const col2 = b + d;
+    if (row1 === 0 || row2 === 0 || col1 === 0 || col2 === 0) return null;
+
+    const expected = {
+        a: row1 * col1 / n,
+        b: row1 * col2 / n,
+        c: row2 * col1 / n,
+        d: row2 * col2 / n,
+    };
+    const cells: [number, number][] = [[a, expected.a], [b, expected.b], [c, expected.c], [d, expected.d]];
+
+    const pearson = cells.reduce((sum, [o, e]) => sum + Math.pow(o - e, 2) / e, 0);
+    // Yates' correction shrinks each |O - E| by 0.5, but never past zero
+    const yates = cells.reduce((sum, [o, e]) => sum + Math.pow(Math.max(0, Math.abs(o - e) - 0.5), 2) / e, 0);
+    // Empty cells contribute nothing to G, since x·ln(x) → 0 as x → 0
+    const likelihoodRatio = 2 * cells.reduce((sum, [o, e]) => sum + (o > 0 ? o * Math.log(o / e) : 0), 0);
+
+    return { expected, pearson, yates, likelihoodRatio: Math.max(0, likelihoodRatio) };
+};
+
+// Finds the root of a monotone function on [lo, hi] by bisection. The caller guarantees a sign change.
+const bisect = (f: (x: number) => number, lo: number, hi: number, iterations = 200): number => {
+    let fLo = f(lo);
+    for (let i = 0; i < iterations; i++) {
+        const mid = (lo + hi) / 2;
+        const fMid = f(mid);
+        if (fMid === 0) return mid;
+        if ((fMid < 0) === (fLo < 0)) {
+            lo = mid;
+            fLo = fMid;
+        } else {
+            hi = mid;
+        }
+    }
+    return (lo + hi) / 2;
+};
+
+// Wilson score interval for a single proportion x/n
+export const wilsonInterval = (x: number, n: number, z: number): { lower: number; upper: number } => {
+    const p = x / n;
+    const z2 = z * z;
+    const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+    const halfWidth = (z / (1 + z2 / n)) * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n));
+    return { lower: Math.max(0, center - halfWidth), upper: Math.min(1, center + halfWidth) };
+};
+
+// Newcombe's hybrid score interval for a risk difference (method 10), combining the Wilson
+// intervals of the two proportions
+export const newcombeRiskDifferenceCI = (x1: number, n1: number, x2: number, n2: number, z: number): { lower: number; upper: number } => {
+    const p1 = x1 / n1;
+    const p2 = x2 / n2;
+    const rd = p1 - p2;
+    const w1 = wilsonInterval(x1, n1, z);
+    const w2 = wilsonInterval(x2, n2, z);
+    return {
+        lower: rd - Math.sqrt(Math.pow(p1 - w1.lower, 2) + Math.pow(w2.upper - p2, 2)),
+        upper: rd + Math.sqrt(Math.pow(w1.upper - p1, 2) + Math.pow(p2 - w2.lower, 2)),
+    };
+};
+
+// Restricted maximum-likelihood estimates of both risks under the constraint p1 - p2 = delta,
+// using the closed-form cubic solution of Farrington and Manning
+const restrictedRisksForDifference = (x1: number, n1: number, x2: number, n2: number, delta: number): [number, number] => {
+    const theta = n2 / n1;
+    const a = 1 + theta;
+    const b = -(1 + theta + x1 / n1 + theta * (x2 / n2) + delta * (theta + 2));
+    const c = delta * delta + delta * (2 * (x1 / n1) + theta + 1) + x1 / n1 + theta * (x2 / n2);
+    const d = -(x1 / n1) * delta * (1 + delta);
+
+    const v = Math.pow(b, 3) / (27 * Math.pow(a, 3)) - (b * c) / (6 * a * a) + d / (2 * a);
+    const uMagnitude = Math.sqrt(Math.max(0, (b * b) / (9 * a * a) - c / (3 * a)));
+    const u = (v >= 0 ? 1 : -1) * uMagnitude;
+    const cosArgument = u === 0 ? 0 : Math.max(-1, Math.min(1, v / Math.pow(u, 3)));
+    const w = (Math.PI + Math.acos(cosArgument)) / 3;
+
+    const p1 = Math.min(1, Math.max(0, 2 * u * Math.cos(w) - b / (3 * a)));
+    const p2 = Math.min(1, Math.max(0, p1 - delta));
+    return [p1, p2];
+};
+
+// Miettinen–Nurminen score interval for a risk difference: the set of differences not rejected by
+// the variance-corrected score test
+export const miettinenNurminenRiskDifferenceCI = (x1: number, n1: number, x2: number, n2: number, z: number): { lower: number; upper: number } => {
+    const rd = x1 / n1 - x2 / n2;
+    const total = n1 + n2;
+    const scoreStatistic = (delta: number): number => {
+        const [p1, p2] = restrictedRisksForDifference(x1, n1, x2, n2, delta);
+        const variance = (p1 * (1 - p1) / n1 + p2 * (1 - p2) / n2) * total / (total - 1);
+        if (variance <= 0) return rd === delta ? -z * z : Infinity;
+        return Math.pow(rd - delta, 2) / variance - z * z;
+    };
+
+    const edge = 1 - 1e-10;
+    const lower = rd <= -edge || scoreStatistic(-edge) <= 0 ? -1 : bisect(scoreStatistic, -edge, rd);
+    const upper = rd >= edge || scoreStatistic(edge) <= 0 ? 1 : bisect(scoreStatistic, rd, edge);
+    return { lower, upper };
+};
+
+// Koopman's score interval for a risk ratio: the set of ratios whose restricted-MLE chi-square
+// statistic does not exceed the critical value
+export const koopmanRelativeRiskCI = (x1: number, n1: number, x2: number, n2: number, z: number): { lower: number; upper: number } => {
+    const total = n1 + n2;
+    const chiSquareAt = (logPhi: number): number => {
+        const phi = Math.exp(logPhi);
+        // p2 solves φN·p2² − (φ(n1 + x2) + x1 + n2)·p2 + (x1 + x2) = 0; the smaller root is the admissible one
+        const qa = phi * total;
+        const qb = -(phi * (n1 + x2) + x1 + n2);
+        const qc = x1 + x2;
+        const p2 = (-qb - Math.sqrt(Math.max(0, qb * qb - 4 * qa * qc))) / (2 * qa);
+        const p1 = phi * p2;
+        const term1 = p1 > 0 && p1 < 1 ? Math.pow(x1 - n1 * p1, 2) / (n1 * p1 * (1 - p1)) : (x1 === n1 * p1 ? 0 : Infinity);
+        const term2 = p2 > 0 && p2 < 1 ? Math.pow(x2 - n2 * p2, 2) / (n2 * p2 * (1 - p2)) : (x2 === n2 * p2 ? 0 : Infinity);
+        return term1 + term2 - z * z;
+    };
+
+    // Work on the log scale; the search range covers ratios from about 1e-13 to 1e13
+    const limit = 30;
+    const rr = (x1 / n1) / (x2 / n2);
+    const estimate = x1 === 0 ? -limit : x2 === 0 ? limit : Math.log(rr);
+    const lower = x1 === 0 || chiSquareAt(-limit) <= 0 ? 0 : Math.exp(bisect(chiSquareAt, -limit, estimate));
+    const upper = x2 === 0 || chiSquareAt(limit) <= 0 ? Infinity : Math.exp(bisect(chiSquareAt, estimate, limit));
+    return { lower, upper };
+};
+
+// Probabilities of each possible value of cell 'a' under Fisher's noncentral hypergeometric
+// distribution with odds ratio exp(logPsi), given the table margins
+const noncentralHypergeometric = (row1: number, row2: number, col1: number, logPsi: number): { support: number[]; probabilities: number[] } => {
+    const minX = Math.max(0, col1 - row2);
+    const maxX = Math.min(row1, col1);
+    const support: number[] = [];
+    const logWeights: number[] = [];
+    for (let x = minX; x <= maxX; x++) {
+        support.push(x);
+        logWeights.push(
+            logFactorial(row1) - logFactorial(x) - logFactorial(row1 - x)
+            + logFactorial(row2) - logFactorial(col1 - x) - logFactorial(row2 - col1 + x)
+            + x * logPsi
+        );
+    }
+    const maxLog = Math.max(...logWeights);
+    const weights = logWeights.map(w => Math.exp(w - maxLog));
+    const sum = weights.reduce((acc, w) => acc + w, 0);
+    return { support, probabilities: weights.map(w => w / sum) };
+};
+
+// Exact conditional (Cornfield) confidence interval and conditional maximum-likelihood estimate of
+// the odds ratio, obtained by inverting two one-sided tests on the noncentral hypergeometric distribution
+export const exactConditionalOddsRatio = (a: number, b: number, c: number, d: number, alpha: number): { estimate: number; lower: number; upper: number } => {
+    const row1 = a + b;
+    const row2 = c + d;
+    const col1 = a + c;
+    const minX = Math.max(0, col1 - row2);
+    const maxX = Math.min(row1, col1);
+    const limit = 50;
+
+    const distributionAt = (logPsi: number) => noncentralHypergeometric(row1, row2, col1, logPsi);
+    const mean = (logPsi: number) => {
+        const { support, probabilities } = distributionAt(logPsi);
+        return support.reduce((acc, x, i) => acc + x * probabilities[i], 0);
+    };
+    const upperTail = (logPsi: number) => {
+        const { support, probabilities } = distributionAt(logPsi);
+        return support.reduce((acc, x, i) => acc + (x >= a ? probabilities[i] : 0), 0);
+    };
+    const lowerTail = (logPsi: number) => {
+        const { support, probabilities } = distributionAt(logPsi);
+        return support.reduce((acc, x, i) => acc + (x <= a ? probabilities[i] : 0), 0);
+    };
+
+    const estimate = a === minX ? 0 : a === maxX ? Infinity : Math.exp(bisect(logPsi => mean(logPsi) - a, -limit, limit));
+    const lower = a === minX ? 0 : Math.exp(bisect(logPsi => upperTail(logPsi) - alpha / 2, -limit, limit));
+    const upper = a === maxX ? Infinity : Math.exp(bisect(logPsi => lowerTail(logPsi) - alpha / 2, -limit, limit));
+    return { estimate, lower, upper };
+};
+
+// Natural logarithm of the gamma function (Lanczos approximation, g = 7)
+const logGamma = (x: number): number => {
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+        -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    x -= 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) sum += coefficients[i] / (x + i);
+    const t = x + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Regularized upper incomplete gamma function Q(s, x), using the series expansion below s + 1
+// and a Lentz continued fraction above it
+const regularizedGammaQ = (s: number, x: number): number => {
+    if (x <= 0) return 1;
+    const logPrefix = s * Math.log(x) - x - logGamma(s);
+    if (x < s + 1) {
+        let term = 1 / s;
+        let sum = term;
+        for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+            term *= x / (s + n);
+            sum += term;
+        }
+        return Math.max(0, 1 - sum * Math.exp(logPrefix));
+    }
+    const tiny = 1e-300;
+    let b = x + 1 - s;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - s);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-15) break;
+    }
+    return Math.min(1, h * Math.exp(logPrefix));
+};
+
+// Upper-tail probability of a chi-square statistic with any number of degrees of freedom
+export const chiSquareUpperTail = (chiSquare: number, df: number): number => {
+    if (df <= 0) return NaN;
+    return regularizedGammaQ(df / 2, Math.max(0, chiSquare) / 2);
+};
+
+// Mantel–Haenszel pooled OR, RR and RD across strata of 2x2 tables, with the Robins–Breslow–Greenland
+// variance for ln(OR), the Greenland–Robins variance for ln(RR) and RD, and the (uncorrected)
+// Cochran–Mantel–Haenszel chi-square test of no association. Strata missing an exposure group contribute
+// nothing; an estimate is null when no stratum carries information about it.
+export const mantelHaenszelAnalysis = (tables: TableCounts[], z: number) => {
+    let orNumerator = 0, orDenominator = 0;
+    let pr = 0, psQr = 0, qs = 0;
+    let rrNumerator = 0, rrDenominator = 0, rrVariance = 0;
+    let rdWeight = 0, rdSum = 0, rdVariance = 0;
+    let observed = 0, expected = 0, cmhVariance = 0;
+
+    for (const { a, b, c, d } of tables) {
+        const n1 = a + b;
+        const n0 = c + d;
+        const n = n1 + n0;
+        if (n1 === 0 || n0 === 0) continue;
+        const m1 = a + c;
+        const m0 = b + d;
+
+        const r = a * d / n;
+        const s = b * c / n;
+        const p = (a + d) / n;
+        const q = (b + c) / n;
+        orNumerator += r;
+        orDenominator += s;
+        pr += p * r;
+        psQr += p * s + q * r;
+        qs += q * s;
+
+        rrNumerator += a * n0 / n;
+        rrDenominator += c * n1 / n;
+        rrVariance += (n1 * n0 * m1 / (n * n)) - (a * c / n);
+
+        const w = n1 * n0 / n;
+        rdWeight += w;
+        rdSum += w * (a / n1 - c / n0);
+        rdVariance += (a * b * Math.pow(n0, 3) + c * d * Math.pow(n1, 3)) / (n1 * n0 * n * n);
+
+        if (n > 1) {
+            observed += a;
+            expected += n1 * m1 / n;
+            cmhVariance += n1 * n0 * m1 * m0 / (n * n * (n - 1));
+        }
+    }
+
+    const ratioInterval = (value: number, variance: number) => {
+        const se = Math.sqrt(variance);
+        return { value, lower: Math.exp(Math.log(value) - z * se), upper: Math.exp(Math.log(value) + z * se) };
+    };
+
+    const oddsRatio = orNumerator > 0 && orDenominator > 0
+        ? ratioInterval(orNumerator / orDenominator,
+            pr / (2 * orNumerator * orNumerator) + psQr / (2 * orNumerator * orDenominator) + qs / (2 * orDenominator * orDenominator))
+        : null;
+    const relativeRisk = rrNumerator > 0 && rrDenominator > 0
+        ? ratioInterval(rrNumerator / rrDenominator, rrVariance / (rrNumerator * rrDenominator))
+        : null;
+
+    let riskDifference = null;
+    if (rdWeight > 0) {
+        const value = rdSum / rdWeight;
+        const se = Math.sqrt(rdVariance) / rdWeight;
+        riskDifference = { value, lower: value - z * se, upper: value + z * se };
+    }
+
+    const chiSquare = cmhVariance > 0 ? Math.pow(observed - expected, 2) / cmhVariance : null;
+
+    return { oddsRatio, relativeRisk, riskDifference, chiSquare };
+};
+
+// Breslow–Day test of homogeneity of the odds ratio across strata, with Tarone's correction. Each
+// stratum's observed 'a' is compared with the count expected if every stratum shared the common
+// (Mantel–Haenszel) odds ratio. Strata with an empty margin carry no information and are skipped.
+export const breslowDayTest = (tables: TableCounts[], commonOddsRatio: number) => {
+    let breslowDay = 0;
+    let sumDeviation = 0;
+    let sumVariance = 0;
+    let informativeStrata = 0;
+
+    for (const { a, b, c, d } of tables) {
+        const n1 = a + b;
+        const n0 = c + d;
+        const m1 = a + c;
+        if (n1 === 0 || n0 === 0 || m1 === 0 || b + d === 0) continue;
+
+        // The expected count A solves A·D / (B·C) = OR with all four cells kept within the margins
+        const minA = Math.max(0, m1 - n0);
+        const maxA = Math.min(n1, m1);
+        const fittedOddsRatio = (x: number) => x * (n0 - m1 + x) - commonOddsRatio * (n1 - x) * (m1 - x);
+        const expectedA = bisect(fittedOddsRatio, minA, maxA);
+        const cells = [expectedA, n1 - expectedA, m1 - expectedA, n0 - m1 + expectedA];
+        if (cells.some(cell => cell <= 0)) continue;
+
+        const variance = 1 / cells.reduce((sum, cell) => sum + 1 / cell, 0);
+        breslowDay += Math.pow(a - expectedA, 2) / variance;
+        sumDeviation += a - expectedA;
+        sumVariance += variance;
+        informativeStrata++;
+    }
+
+    if (informativeStrata < 2) return null;
+    return {
+        breslowDay,
+        tarone: Math.max(0, breslowDay - (sumDeviation * sumDeviation) / sumVariance),
+        df: informativeStrata - 1,
+    };
+};
+
+// Effect estimate of a single study on the analysis scale (log scale for RR and OR) with its variance.
+// Tables with a zero cell get 0.5 added to every cell. Returns null for studies that carry no information
+// about the measure: an empty exposure group, or (for RR and OR) no events or no non-events in either group.
+const studyEffect = (counts: TableCounts, measure: EffectMeasure): { estimate: number; variance: number } | null => {
+    if (counts.a + counts.b === 0 || counts.c + counts.d === 0) return null;
+    if (measure !== 'rd' && (counts.a + counts.c === 0 || counts.b + counts.d === 0)) return null;
+
+    const correction = [counts.a, counts.b, counts.c, counts.d].some(cell => cell === 0) ? 0.5 : 0;
+    const a = counts.a + correction;
+    const b = counts.b + correction;
+    const c = counts.c + correction;
+    const d = counts.d + correction;
+    const n1 = a + b;
+    const n0 = c + d;
+
+    if (measure === 'rr') {
+        return { estimate: Math.log((a / n1) / (c / n0)), variance: 1 / a - 1 / n1 + 1 / c - 1 / n0 };
+    }
+    if (measure === 'or') {
+        return { estimate: Math.log((a * d) / (b * c)), variance: 1 / a + 1 / b + 1 / c + 1 / d };
+    }
+    return { estimate: a / n1 - c / n0, variance: (a * b) / Math.pow(n1, 3) + (c * d) / Math.pow(n0, 3) };
+};
+
+// Inverse-variance fixed-effect and DerSimonian–Laird random-effects meta-analysis of one measure across
+// several 2x2 tables, with Cochran's Q, I² and τ². Estimates are returned on the natural scale; studies that
+// carry no information about the measure are kept in place as null. Returns null with fewer than two
+// informative studies.
+export const metaAnalysis = (tables: TableCounts[], measure: EffectMeasure, z: number) => {
+    const effects = tables.map(counts => studyEffect(counts, measure));
+    const included = effects.filter((effect): effect is { estimate: number; variance: number } => effect !== null);
+    if (included.length < 2) return null;
+
+    const toNaturalScale = (x: number) => (measure === 'rd' ? x : Math.exp(x));
+    const pooled = (estimate: number, se: number) => ({
+        value: toNaturalScale(estimate),
+        lower: toNaturalScale(estimate - z * se),
+        upper: toNaturalScale(estimate + z * se),
+        pValue: 2 * (1 - normalCDF(Math.abs(estimate / se))),
+    });
+
+    const fixedWeights = included.map(effect => 1 / effect.variance);
+    const sumFixed = fixedWeights.reduce((sum, w) => sum + w, 0);
+    const fixedEstimate = included.reduce((sum, effect, i) => sum + fixedWeights[i] * effect.estimate, 0) / sumFixed;
+
+    const q = included.reduce((sum, effect, i) => sum + fixedWeights[i] * Math.pow(effect.estimate - fixedEstimate, 2), 0);
+    const df = included.length - 1;
+    const sumSquaredFixed = fixedWeights.reduce((sum, w) => sum + w * w, 0);
+    const tauSquared = Math.max(0, (q - df) / (sumFixed - sumSquaredFixed / sumFixed));
+
+    const randomWeights = included.map(effect => 1 / (effect.variance + tauSquared));
+    const sumRandom = randomWeights.reduce((sum, w) => sum + w, 0);
+    const randomEstimate = included.reduce((sum, effect, i) => sum + randomWeights[i] * effect.estimate, 0) / sumRandom;
+
+    let includedIndex = 0;
+    const studies = effects.map(effect => {
+        if (!effect) return null;
+        const i = includedIndex++;
+        const se = Math.sqrt(effect.variance);
+        return {
+            value: toNaturalScale(effect.estimate),
+            lower: toNaturalScale(effect.estimate - z * se),
+            upper: toNaturalScale(effect.estimate + z * se),
+            weightFixed: fixedWeights[i] / sumFixed,
+            weightRandom: randomWeights[i] / sumRandom,
+        };
+    });
+
+    return {
+        studies,
+        fixedInverseVariance: pooled(fixedEstimate, Math.sqrt(1 / sumFixed)),
+        randomEffects: pooled(randomEstimate, Math.sqrt(1 / sumRandom)),
+        heterogeneity: {
+            q,
+            df,
+            pValue: chiSquareUpperTail(q, df),
+            iSquared: q > df ? (q - df) / q : 0,
+            tauSquared,
+        },
+    };
+};
+
+// Binomial probabilities of x = 0..n exposed events out of n, where the exposed group's share of the
+// events has log-odds eta. Computed on the log scale so extreme eta stays finite.
+const binomialProbabilities = (n: number, eta: number): number[] => {
+    const logP = -Math.log1p(Math.exp(-eta));
+    const logQ = -Math.log1p(Math.exp(eta));
+    const probabilities: number[] = [];
+    for (let x = 0; x <= n; x++) {
+        probabilities.push(Math.exp(logFactorial(n) - logFactorial(x) - logFactorial(n - x) + x * logP + (n - x) * logQ));
+    }
+    return probabilities;
+};
+
+// Exact inference on a ratio θ when x1 of n = x1 + x2 counts fall in the first group and, conditional on n,
+// x1 is binomial with log-odds log(θ) + offset. The interval inverts two one-sided tests; the p-value for θ = 1
+// sums the probabilities of all outcomes at least as unlikely as the observed one (with a mid-p variant).
+// Requires x2 > 0, so that the upper limit is finite.
+const exactConditionalBinomialRatio = (x1: number, x2: number, offset: number, alpha: number) => {
+    const n = x1 + x2;
+    const limit = 50;
+    const upperTail = (logRatio: number) => binomialProbabilities(n, logRatio + offset).slice(x1).reduce((sum, p) => sum + p, 0);
+    const lowerTail = (logRatio: number) => binomialProbabilities(n, logRatio + offset).slice(0, x1 + 1).reduce((sum, p) => sum + p, 0);
+
+    const nullProbabilities = binomialProbabilities(n, offset);
+    const observed = nullProbabilities[x1];
+    // Relative tolerance so floating-point noise doesn't exclude outcomes tied with the observed one
+    const tolerance = observed * 1e-7;
+    const lessLikely = nullProbabilities.reduce((sum, p) => sum + (p < observed - tolerance ? p : 0), 0);
+    const tied = nullProbabilities.reduce((sum, p) => sum + (Math.abs(p - observed) <= tolerance ? p : 0), 0);
+
+    return {
+        lower: x1 === 0 ? 0 : Math.exp(bisect(logRatio => upperTail(logRatio) - alpha / 2, -limit, limit)),
+        upper: Math.exp(bisect(logRatio => lowerTail(logRatio) - alpha / 2, -limit, limit)),
+        pValue: Math.min(1, lessLikely + tied),
+        midPValue: Math.min(1, lessLikely + 0.5 * tied),
+    };
+};
+
+// Incidence rate ratio and rate difference for events counted over person-time. Conditional on the total
+// number of events, the exposed events are binomial with log-odds log(IRR) + log(T1/T0), which gives the
+// IRR an exact interval and p-value. The rate difference uses the Poisson variance of each rate.
+// The IRR is null without control events, the rate difference without any events.
+export const incidenceRateAnalysis = (eventsExposed: number, personTimeExposed: number, eventsControl: number, personTimeControl: number, z: number, alpha: number) => {
+    const rateExposed = eventsExposed / personTimeExposed;
+    const rateControl = eventsControl / personTimeControl;
+    const n = eventsExposed + eventsControl;
+
+    const rateRatio = eventsControl > 0
+        ? { value: rateExposed / rateControl, ...exactConditionalBinomialRatio(eventsExposed, eventsControl, Math.log(personTimeExposed / personTimeControl), alpha) }
+        : null;
+
+    let rateDifference = null;
+    if (n > 0) {
+        const difference = rateExposed - rateControl;
+        const se = Math.sqrt(eventsExposed / Math.pow(personTimeExposed, 2) + eventsControl / Math.pow(personTimeControl, 2));
+        // The test statistic uses the pooled rate, i.e. the variance under the null hypothesis of equal rates
+        const pooledRate = n / (personTimeExposed + personTimeControl);
+        const zStat = difference / Math.sqrt(pooledRate * (1 / personTimeExposed + 1 / personTimeControl));
+        rateDifference = {
+            value: difference,
+            lower: difference - z * se,
+            upper: difference + z * se,
+            zStat,
+        };
+    }
+
+    return { rateExposed, rateControl, rateRatio, rateDifference };
+};
+
+// Accuracy of a diagnostic test from a 2x2 table of test result (rows) by disease status (columns):
+// a = true positives, b = false positives, c = false negatives, d = true negatives. Proportions get Wilson
+// intervals and Youden's index (sensitivity minus the false-positive rate) Newcombe's interval built from them.
+// Likelihood ratios and the diagnostic OR use log-scale intervals, adding 0.5 to every cell if any cell is 0.
+export const diagnosticAccuracy = (a: number, b: number, c: number, d: number, z: number) => {
+    const proportion = (x: number, n: number) => (n > 0 ? { value: x / n, ...wilsonInterval(x, n, z) } : null);
+    const logInterval = (value: number, se: number) => ({ value, lower: Math.exp(Math.log(value) - z * se), upper: Math.exp(Math.log(value) + z * se) });
+
+    const diseased = a + c;
+    const healthy = b + d;
+    const hasZeroCell = a === 0 || b === 0 || c === 0 || d === 0;
+    const [ca, cb, cc, cd] = hasZeroCell ? [a + 0.5, b + 0.5, c + 0.5, d + 0.5] : [a, b, c, d];
+    const hasBothGroups = diseased > 0 && healthy > 0;
+
+    return {
+        sensitivity: proportion(a, diseased),
+        specificity: proportion(d, healthy),
+        ppv: proportion(a, a + b),
+        npv: proportion(d, c + d),
+        lrPositive: hasBothGroups
+            ? logInterval((ca / (ca + cc)) / (cb / (cb + cd)), Math.sqrt(1 / ca - 1 / (ca + cc) + 1 / cb - 1 / (cb + cd)))
+            : null,
+        lrNegative: hasBothGroups
+            ? logInterval((cc / (ca + cc)) / (cd / (cb + cd)), Math.sqrt(1 / cc - 1 / (ca + cc) + 1 / cd - 1 / (cb + cd)))
+            : null,
+        diagnosticOddsRatio: hasBothGroups
+            ? logInterval((ca * cd) / (cb * cc), Math.sqrt(1 / ca + 1 / cb + 1 / cc + 1 / cd))
+            : null,
+        youden: hasBothGroups
+            ? { value: a / diseased - b / healthy, ...newcombeRiskDifferenceCI(a, diseased, b, healthy, z) }
+            : null,
+        prevalence: diseased / (diseased + healthy),
+    };
+};
+
+// Predictive values at another prevalence by Bayes' theorem (post-test odds = pre-test odds × LR). The
+// predictive values are monotone in the likelihood ratios, so the LR confidence limits carry over.
+export const predictiveValuesAtPrevalence = (
+    prevalence: number,
+    lrPositive: { value: number; lower: number; upper: number },
+    lrNegative: { value: number; lower: number; upper: number },
+) => {
+    const preTestOdds = prevalence / (1 - prevalence);
+    const ppv = (lr: number) => (preTestOdds * lr) / (1 + preTestOdds * lr);
+    const npv = (lr: number) => 1 / (1 + preTestOdds * lr);
+    return {
+        ppv: { value: ppv(lrPositive.value), lower: ppv(lrPositive.lower), upper: ppv(lrPositive.upper) },
+        npv: { value: npv(lrNegative.value), lower: npv(lrNegative.upper), upper: npv(lrNegative.lower) },
+    };
+};
+
+// Analysis of matched pairs, tabulated as pairs rather than individuals: a = both members exposed,
+// b = only the case exposed, c = only the control exposed, d = neither exposed. Only the discordant pairs
+// carry information: the conditional OR is b/c with an exact interval (b is binomial given b + c), and
+// McNemar's test compares b with c. The paired difference in exposure proportions uses the Wald variance
+// for dependent proportions.
+export const matchedPairsAnalysis = (a: number, b: number, c: number, d: number, z: number, alpha: number) => {
+    const pairs = a + b + c + d;
+    const discordant = b + c;
+
+    const conditionalOddsRatio = c > 0 ? { value: b / c, ...exactConditionalBinomialRatio(b, c, 0, alpha) } : null;
+
+    let mcnemar = null;
+    if (discordant > 0) {
+        const exact = exactConditionalBinomialRatio(b, c, 0, alpha);
+        mcnemar = {
+            chiSquare: Math.pow(b - c, 2) / discordant,
+            // Edwards' continuity correction, never past zero
+            correctedChiSquare: Math.pow(Math.max(0, Math.abs(b - c) - 1), 2) / discordant,
+            exactPValue: exact.pValue,
+            exactMidPValue: exact.midPValue,
+        };
+    }
+
+    let riskDifference = null;
+    if (pairs > 0) {
+        const difference = (b - c) / pairs;
+        const se = Math.sqrt(Math.max(0, discordant - Math.pow(b - c, 2) / pairs)) / pairs;
+        riskDifference = { value: difference, lower: Math.max(-1, difference - z * se), upper: Math.min(1, difference + z * se) };
+    }
+
+    return { pairs, discordant, conditionalOddsRatio, mcnemar, riskDifference };
+};
+
+// Fractions of the outcome due to the exposure, from a ratio measure (the RR, or the OR standing in for it in a
+// case-control study) and its confidence limits; every fraction is monotone in the ratio, so the limits carry over.
+// A harmful exposure (ratio ≥ 1) gets the attributable fraction among the exposed, 1 − 1/R, and Levin's population
+// attributable fraction, 1 − 1/(1 + p(R − 1)). A protective one gets the prevented fractions 1 − R and p(1 − R).
+// The exposure prevalence p is treated as known.
+export const attributableFractions = (ratio: IntervalEstimate, exposurePrevalence: number) => {
+    const p = exposurePrevalence;
+    if (ratio.value >= 1) {
+        const exposed = (r: number) => 1 - 1 / r;
+        const population = (r: number) => 1 - 1 / (1 + p * (r - 1));
+        return {
+            type: 'attributable' as const,
+            exposed: { value: exposed(ratio.value), lower: exposed(ratio.lower), upper: exposed(ratio.upper) },
+            population: { value: population(ratio.value), lower: population(ratio.lower), upper: population(ratio.upper) },
+        };
+    }
+    return {
+        type: 'prevented' as const,
+        exposed: { value: 1 - ratio.value, lower: 1 - ratio.upper, upper: 1 - ratio.lower },
+        population: { value: p * (1 - ratio.value), lower: p * (1 - ratio.upper), upper: p * (1 - ratio.lower) },
+    };
+};
+
+// Miettinen's case-based population attributable fraction for a case-control study, pc(OR − 1)/OR with pc the
+// proportion of cases exposed. It equals 1 − (c/(a + c)) / (d/(b + d)), so the interval comes from the log of
+// that ratio of unexposed proportions (Greenland and Drescher).
+export const caseBasedAttributableFraction = (a: number, b: number, c: number, d: number, z: number): IntervalEstimate | null => {
+    if (c === 0 || d === 0) return null;
+    const ratio = (c / (a + c)) / (d / (b + d));
+    const se = Math.sqrt(a / (c * (a + c)) + b / (d * (b + d)));
+    return { value: 1 - ratio, lower: 1 - ratio * Math.exp(z * se), upper: 1 - ratio * Math.exp(-z * se) };
+};
+
+// Small seeded generator (mulberry32), so a Bayesian analysis gives the same draws every time it is run
+const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Gamma(shape, 1) draw by Marsaglia and Tsang's method; shapes below 1 are boosted by a uniform power
+const sampleGamma = (shape: number, random: () => number): number => {
+    if (shape < 1) {
+        return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            // Box–Muller standard normal draw
+            x = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = 1 - random();
+        if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+    }
+};
+
+const sampleBeta = (distribution: BetaDistribution, random: () => number): number => {
+    const x = sampleGamma(distribution.alpha, random);
+    const y = sampleGamma(distribution.beta, random);
+    return x / (x + y);
+};
+
+// Beta priors for the preset choices. Uniform is Beta(1, 1) for both risks. The skeptical prior centres both risks
+// on the pooled risk (no effect), each carrying the weight of half its own group; the enthusiastic prior does the
+// same but moves the exposed group's prior mean by the clinically meaningful risk difference towards benefit.
+export const presetBetaPriors = (
+    preset: 'uniform' | 'skeptical' | 'enthusiastic',
+    counts: TableCounts,
+    riskDifferenceThreshold: number,
+    benefitDirection: BenefitDirection,
+): { exposed: BetaDistribution; control: BetaDistribution } => {
+    if (preset === 'uniform') {
+        return { exposed: { alpha: 1, beta: 1 }, control: { alpha: 1, beta: 1 } };
+    }
+    const { a, b, c, d } = counts;
+    const clampMean = (p: number) => Math.min(0.99, Math.max(0.01, p));
+    const withMean = (mean: number, groupSize: number) => {
+        const weight = Math.max(2, groupSize / 2);
+        return { alpha: mean * weight, beta: (1 - mean) * weight };
+    };
+    const pooledRisk = clampMean((a + c) / (a + b + c + d));
+    const shift = preset === 'enthusiastic' ? (benefitDirection === 'decrease' ? -riskDifferenceThreshold : riskDifferenceThreshold) : 0;
+    return {
+        exposed: withMean(clampMean(pooledRisk + shift), a + b),
+        control: withMean(pooledRisk, c + d),
+    };
+};
+
+// Bayesian comparison of two risks with independent beta priors. The posteriors are conjugate, Beta(α + events,
+// β + non-events); the risk difference and relative risk are summarised from paired posterior draws: median,
+// equal-tailed credible interval, a kernel density estimate for plotting (the RR's on the log scale), and the
+// probabilities of benefit or harm, overall and beyond the clinically meaningful thresholds. The RR threshold
+// is a ratio above 1, applied as RR beyond it or below its reciprocal.
+export const bayesianRiskComparison = (
+    counts: TableCounts,
+    priors: { exposed: BetaDistribution; control: BetaDistribution },
+    options: {
+        credibleLevel: number;
+        riskDifferenceThreshold: number;
+        relativeRiskThreshold: number;
+        benefitDirection: BenefitDirection;
+        draws?: number;
+        seed?: number;
+    },
+) => {
+    const { credibleLevel, riskDifferenceThreshold, relativeRiskThreshold, benefitDirection, draws = 20000, seed = 20240601 } = options;
+    const posteriorExposed = { alpha: priors.exposed.alpha + counts.a, beta: priors.exposed.beta + counts.b };
+    const posteriorControl = { alpha: priors.control.alpha + counts.c, beta: priors.control.beta + counts.d };
+
+    const random = seededRandom(seed);
+    const riskDifferences = new Float64Array(draws);
+    const logRelativeRisks = new Float64Array(draws);
+    for (let i = 0; i < draws; i++) {
+        const riskExposed = sampleBeta(posteriorExposed, random);
+        const riskControl = sampleBeta(posteriorControl, random);
+        riskDifferences[i] = riskExposed - riskControl;
+        logRelativeRisks[i] = Math.log(riskExposed) - Math.log(riskControl);
+    }
+
+    const tail = (1 - credibleLevel) / 2;
+    const summarize = (values: Float64Array, benefitCut: number, harmCut: number, nullValue: number) => {
+        const finite = values.filter(v => Number.isFinite(v)).sort();
+        const n = finite.length;
+        const quantile = (q: number) => {
+            const position = q * (n - 1);
+            const low = Math.floor(position);
+            const high = Math.min(n - 1, low + 1);
+            return finite[low] + (finite[high] - finite[low]) * (position - low);
+        };
+        const share = (predicate: (v: number) => boolean) => finite.reduce((count, v) => count + (predicate(v) ? 1 : 0), 0) / n;
+        const isBenefit = (v: number, cut: number) => (benefitDirection === 'decrease' ? v < cut : v > cut);
+        const isHarm = (v: number, cut: number) => (benefitDirection === 'decrease' ? v > cut : v < cut);
+
+        // Gaussian kernel density over the central 99% of the draws, with Silverman's bandwidth
+        const gridMin = quantile(0.005);
+        const gridMax = quantile(0.995);
+        const mean = finite.reduce((sum, v) => sum + v, 0) / n;
+        const sd = Math.sqrt(finite.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (n - 1));
+        const iqr = quantile(0.75) - quantile(0.25);
+        const bandwidth = 0.9 * Math.max(Math.min(sd, iqr / 1.34), 1e-9) * Math.pow(n, -0.2);
+        const gridPoints = 80;
+        const density = Array.from({ length: gridPoints }, (_, i) => {
+            const x = gridMin + (gridMax - gridMin) * i / (gridPoints - 1);
+            let sum = 0;
+            for (let j = 0; j < n; j++) {
+                const u = (x - finite[j]) / bandwidth;
+                if (u > -5 && u < 5) sum += Math.exp(-0.5 * u * u);
+            }
+            return { x, y: sum / (n * bandwidth * Math.sqrt(2 * Math.PI)) };
+        });
+
+        return {
+            median: quantile(0.5),
+            lower: quantile(tail),
+            upper: quantile(1 - tail),
+            density,
+            probabilityBenefit: share(v => isBenefit(v, nullValue)),
+            probabilityHarm: share(v => isHarm(v, nullValue)),
+            probabilityBenefitBeyondThreshold: share(v => isBenefit(v, benefitCut)),
+            probabilityHarmBeyondThreshold: share(v => isHarm(v, harmCut)),
+        };
+    };
+
+    const rdBenefitCut = benefitDirection === 'decrease' ? -riskDifferenceThreshold : riskDifferenceThreshold;
+    const logRrThreshold = Math.log(relativeRiskThreshold);
+    const rrBenefitCut = benefitDirection === 'decrease' ? -logRrThreshold : logRrThreshold;
+    const riskDifference = summarize(riskDifferences, rdBenefitCut, -rdBenefitCut, 0);
+    const logRelativeRisk = summarize(logRelativeRisks, rrBenefitCut, -rrBenefitCut, 0);
+
+    return {
+        posteriorExposed,
+        posteriorControl,
+        riskDifference,
+        // Back-transformed from the log scale; the density stays per unit of log RR
+        relativeRisk: {
+            ...logRelativeRisk,
+            median: Math.exp(logRelativeRisk.median),
+            lower: Math.exp(logRelativeRisk.lower),
+            upper: Math.exp(logRelativeRisk.upper),
+            density: logRelativeRisk.density.map(point => ({ x: Math.exp(point.x), y: point.y })),
+        },
+    };
+};
+
+// Fragility index (Walsh et al.) of a significant result: the fewest patients in the group with the lower event
+// rate whose outcome would have to change from non-event to event, group sizes fixed, for Fisher's exact test to
+// lose significance at alpha. For a non-significant result the reverse fragility index counts the changes needed
+// to reach significance, widening the difference in whichever group takes the fewest changes. The index is null
+// when no number of changes in the group crosses the threshold.
+export const fragilityIndex = (a: number, b: number, c: number, d: number, alpha: number) => {
+    const n1 = a + b;
+    const n2 = c + d;
+    if (n1 === 0 || n2 === 0) return null;
+
+    const isSignificant = (x1: number, x2: number) => fisherExactTest(x1, n1 - x1, x2, n2 - x2).pValue < alpha;
+    const significant = isSignificant(a, c);
+    const changesInGroup = (group: 'exposed' | 'control', step: 1 | -1) => {
+        let x1 = a;
+        let x2 = c;
+        for (let changes = 1; ; changes++) {
+            if (group === 'exposed') x1 += step; else x2 += step;
+            if (x1 < 0 || x1 > n1 || x2 < 0 || x2 > n2) return null;
+            if (isSignificant(x1, x2) !== significant) return { group, index: changes };
+        }
+    };
+
+    const exposedHigher = a / n1 > c / n2;
+    const candidates = significant
+        ? [exposedHigher ? changesInGroup('control', 1) : changesInGroup('exposed', 1)]
+        : exposedHigher
+            ? [changesInGroup('exposed', 1), changesInGroup('control', -1)]
+            : [changesInGroup('exposed', -1), changesInGroup('control', 1)];
+    const best = candidates.reduce<{ group: 'exposed' | 'control'; index: number } | null>((min, candidate) => (candidate && (!min || candidate.index < min.index) ? candidate : min), null);
+
+    return {
+        type: significant ? 'fragility' as const : 'reverse' as const,
+        index: best ? best.index : null,
+        group: best ? best.group : null,
+        // Fragility quotient: the index relative to the total sample size
+        quotient: best ? best.index / (n1 + n2) : null,
+    };
+};
+
+// E-value (VanderWeele and Ding): the minimum strength of association, on the risk ratio scale, that an unmeasured
+// confounder would need with both the exposure and the outcome to fully explain away an observed risk ratio
+export const eValue = (riskRatio: number): number => {
+    const rr = riskRatio < 1 ? 1 / riskRatio : riskRatio;
+    return rr + Math.sqrt(rr * (rr - 1));
+};
+
+// E-values for an estimate and for its confidence limit closest to the null (1 when the interval includes the null).
+// An odds ratio is first put on the risk ratio scale: taken as is when the outcome is rare (under about 15%), and
+// square-rooted when it is common.
+export const eValueAnalysis = (estimate: IntervalEstimate, approximation: 'none' | 'rare-outcome' | 'common-outcome') => {
+    const toRiskRatio = (v: number) => (approximation === 'common-outcome' ? Math.sqrt(v) : v);
+    const riskRatio = { value: toRiskRatio(estimate.value), lower: toRiskRatio(estimate.lower), upper: toRiskRatio(estimate.upper) };
+    const closestLimit = riskRatio.lower > 1 ? riskRatio.lower : riskRatio.upper < 1 ? riskRatio.upper : 1;
+    return { riskRatio, point: eValue(riskRatio.value), confidenceLimit: eValue(closestLimit) };
+};
+
+// Altman and Bland test of interaction: compares estimates from two independent analyses, recovering each standard
+// error from its confidence interval. Ratios are compared on the log scale, giving a ratio of ratios; differences
+// are subtracted directly. The recovered errors are exact for Wald intervals and approximate for score or exact ones.
+// The p-value is two-sided; as elsewhere, a one-sided test at alpha compares it with 2·alpha.
+export const compareIndependentEstimates = (
+    first: IntervalEstimate & { confidenceLevel: number },
+    second: IntervalEstimate & { confidenceLevel: number },
+    scale: 'ratio' | 'difference',
+    confidenceLevel: number,
+    alpha: number,
+    sidedness: TestSidedness
+) => {
+    const toScale = scale === 'ratio' ? Math.log : (v: number) => v;
+    const fromScale = scale === 'ratio' ? Math.exp : (v: number) => v;
+    const standardError = (estimate: typeof first) =>
+        (toScale(estimate.upper) - toScale(estimate.lower)) / (2 * zForConfidence(estimate.confidenceLevel));
+    const se1 = standardError(first);
+    const se2 = standardError(second);
+    const difference = toScale(first.value) - toScale(second.value);
+    if (!isFinite(difference) || !isFinite(se1) || !isFinite(se2) || se1 <= 0 || se2 <= 0) return null;
+
+    const se = Math.sqrt(se1 * se1 + se2 * se2);
+    const z = zForConfidence(confidenceLevel);
+    const zStat = difference / se;
+    const pValue = 2 * (1 - normalCDF(Math.abs(zStat)));
+    return {
+        value: fromScale(difference),
+        lower: fromScale(difference - z * se),
+        upper: fromScale(difference + z * se),
+        zStat,
+        pValue: calculatePValueFromZ(zStat),
+        isSignificant: pValue < (sidedness === 'one-sided' ? 2 * alpha : alpha),
+    };
+};
@@ -5,18 +5,237 @@ export interface Inputs {
   d: string;
 }
 
+export interface TableCounts {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+// A labelled 2x2 table: one stratum of a stratified analysis or one study of a meta-analysis
+export interface LabelledTable {
+  label: string;
+  inputs: Inputs;
+}
+
+export type AnalysisMode = 'single' | 'stratified' | 'meta' | 'incidenceRate';
+
+// Identifier of a model offered by the active AI provider (see aiProviders.ts)
+export type AiModel = string;
+
+export type PersonTimeUnit = 'years' | 'months' | 'days';
+
+// Events and person-time per group, for cohort data reported as incidence rates
+export interface PersonTimeInputs {
+  eventsExposed: string;
+  personTimeExposed: string;
+  eventsControl: string;
+  personTimeControl: string;
+  timeUnit: PersonTimeUnit;
+}
+
+export type RiskDifferenceCiMethod = 'wald' | 'newcombe' | 'miettinen-nurminen';
+export type RelativeRiskCiMethod = 'wald' | 'koopman';
+export type OddsRatioCiMethod = 'wald' | 'exact';
+export type TestSidedness = 'two-sided' | 'one-sided';
+
+export type EffectMeasure = 'rr' | 'rd' | 'or';
+
+export interface SampleSizeAssumptions {
+  controlRisk: number;
+  exposedRisk: number;
+  alpha: number;
+  power: number;
+  allocationRatio: number; // exposed participants per control participant
+  sidedness: TestSidedness;
+  continuityCorrection: boolean;
+}
+
+export interface AnalysisSettings {
+  alpha: number;
+  sidedness: TestSidedness;
+  confidenceLevel: number;
+  ciMethods: {
+    riskDifference: RiskDifferenceCiMethod;
+    relativeRisk: RelativeRiskCiMethod;
+    oddsRatio: OddsRatioCiMethod;
+  };
+}
+
+export interface IntervalEstimate {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// Beta(alpha, beta) distribution for a group's risk, used as a prior or posterior in the Bayesian analysis
+export interface BetaDistribution {
+  alpha: number;
+  beta: number;
+}
+
+export type BayesianPriorPreset = 'uniform' | 'skeptical' | 'enthusiastic' | 'custom';
+
+// Whether a lower or a higher risk in the exposed group counts as benefit
+export type BenefitDirection = 'decrease' | 'increase';
+
+export interface PooledEstimate {
+  value: number;
+  lower: number;
+  upper: number;
+  pValue: string;
+}
+
+export interface MetaAnalysisMeasure {
+  // One entry per study, in input order; null when the study carries no information about the measure
+  studies: ({ value: number; lower: number; upper: number; weightFixed: number; weightRandom: number; } | null)[];
+  fixedInverseVariance: PooledEstimate;
+  fixedMantelHaenszel: PooledEstimate | null;
+  randomEffects: PooledEstimate;
+  heterogeneity: { q: number; df: number; pValue: string; iSquared: number; tauSquared: number; };
+}
+
 export interface Results {
+  // The 2x2 table (pooled across strata) the standard results were calculated from
+  counts: TableCounts | null;
   absoluteRiskExposed: { value: number } | null;
   absoluteRiskControl: { value: number } | null;
-  riskDifference: { value: number; lower: number; upper: number; } | null;
-  relativeRisk: { value: number; lower: number; upper: number; pValue: string; zStat: number; } | null;
-  oddsRatio: { value: number; lower: number; upper: number; pValue: string; zStat: number; } | null;
+  riskDifference: { value: number; lower: number; upper: number; ciMethod: RiskDifferenceCiMethod; } | null;
+  relativeRisk: { value: number; lower: number; upper: number; pValue: string; zStat: number; ciMethod: RelativeRiskCiMethod; } | null;
+  oddsRatio: { value: number; lower: number; upper: number; pValue: string; zStat: number; ciMethod: OddsRatioCiMethod; conditionalMle: number | null; } | null;
+  fisherExact: { pValue: string; midPValue: string; } | null;
+  // Fragility index of a significant result, or reverse fragility index of a non-significant one (Fisher's exact test)
+  fragility: {
+    type: 'fragility' | 'reverse';
+    // null when no number of outcome changes crosses the significance threshold
+    index: number | null;
+    group: 'exposed' | 'control' | null;
+    quotient: number | null;
+    // Threshold for the two-sided Fisher p-value: alpha, or 2·alpha when the test is one-sided
+    alpha: number;
+  } | null;
+  chiSquare: {
+    expected: { a: number; b: number; c: number; d: number; };
+    pearson: { statistic: number; pValue: string; };
+    yates: { statistic: number; pValue: string; };
+    likelihoodRatio: { statistic: number; pValue: string; };
+    hasSmallExpected: boolean;
+    recommendedTest: 'fisher' | 'yates' | 'pearson';
+  } | null;
   impactMeasures: {
     absolute: { label: string; value: number; };
     relative: { label: string; value: number; };
   } | null;
   nnt: { value: number; type: 'Benefit' | 'Harm'; lower: number | string; upper: number | string; } | null;
+  // Share of the outcome due to a harmful exposure ('attributable') or avoided by a protective one ('prevented')
+  attributableFractions: {
+    type: 'attributable' | 'prevented';
+    measure: 'relativeRisk' | 'oddsRatio';
+    ratio: IntervalEstimate;
+    // Exposure prevalence in the population: entered by the user, or else the sample's own (all participants,
+    // or the controls in a case-control study)
+    exposurePrevalence: number;
+    exposurePrevalenceSource: 'input' | 'sample';
+    sampleExposurePrevalence: number;
+    exposed: IntervalEstimate;
+    population: IntervalEstimate;
+    // Miettinen's case-based fraction, case-control studies only
+    caseBased: IntervalEstimate | null;
+  } | null;
   power: { value: number } | null;
   type1Error: { value: number } | null;
   type2Error: { value: number } | null;
+  caseControlPower: {
+    exposureInControls: number;
+    controlsPerCase: number;
+    requiredCases: number;
+    requiredControls: number;
+  } | null;
+  stratified: {
+    strata: {
+      label: string;
+      counts: TableCounts;
+      relativeRisk: number | null;
+      oddsRatio: number | null;
+      riskDifference: number | null;
+    }[];
+    adjusted: {
+      relativeRisk: { value: number; lower: number; upper: number; } | null;
+      oddsRatio: { value: number; lower: number; upper: number; } | null;
+      riskDifference: { value: number; lower: number; upper: number; } | null;
+    };
+    mantelHaenszelTest: { statistic: number; pValue: string; } | null;
+    homogeneity: {
+      breslowDay: { statistic: number; pValue: string; };
+      tarone: { statistic: number; pValue: string; };
+      df: number;
+      isHeterogeneous: boolean;
+    } | null;
+    confounding: {
+      measure: 'relativeRisk' | 'oddsRatio';
+      crude: number;
+      adjusted: number;
+      percentChange: number;
+      isConfounded: boolean;
+    } | null;
+  } | null;
+  metaAnalysis: {
+    studyLabels: string[];
+    studyCounts: TableCounts[];
+    relativeRisk: MetaAnalysisMeasure | null;
+    oddsRatio: MetaAnalysisMeasure | null;
+    riskDifference: MetaAnalysisMeasure | null;
+  } | null;
+  incidenceRate: {
+    counts: { eventsExposed: number; personTimeExposed: number; eventsControl: number; personTimeControl: number; };
+    timeUnit: PersonTimeUnit;
+    // Rates and the rate difference are in events per unit of person-time
+    rateExposed: number;
+    rateControl: number;
+    rateRatio: { value: number; lower: number; upper: number; pValue: string; midPValue: string; } | null;
+    rateDifference: { value: number; lower: number; upper: number; zStat: number; pValue: string; } | null;
+    // Person-time of exposure per additional (or prevented) event
+    nnt: { value: number; type: 'Benefit' | 'Harm'; lower: number; upper: number; } | null;
+  } | null;
+  // Diagnostic accuracy studies relabel the table as test result (rows) by disease status (columns)
+  diagnosticAccuracy: {
+    counts: TableCounts;
+    sensitivity: IntervalEstimate | null;
+    specificity: IntervalEstimate | null;
+    ppv: IntervalEstimate | null;
+    npv: IntervalEstimate | null;
+    lrPositive: IntervalEstimate | null;
+    lrNegative: IntervalEstimate | null;
+    diagnosticOddsRatio: IntervalEstimate | null;
+    youden: IntervalEstimate | null;
+    studyPrevalence: number;
+    // Predictive values recalculated for a user-supplied prevalence
+    targetPrevalence: number | null;
+    adjustedPredictiveValues: { ppv: IntervalEstimate; npv: IntervalEstimate; } | null;
+  } | null;
+  // Matched case-control studies tabulate pairs: a/d concordant, b (only the case exposed) and c (only the control exposed) discordant
+  matchedPairs: {
+    counts: TableCounts;
+    pairs: number;
+    discordantPairs: number;
+    conditionalOddsRatio: IntervalEstimate | null;
+    mcnemar: {
+      chiSquare: { statistic: number; pValue: string; };
+      correctedChiSquare: { statistic: number; pValue: string; };
+      exact: { pValue: string; midPValue: string; };
+    } | null;
+    riskDifference: IntervalEstimate | null;
+  } | null;
+  // E-values for unmeasured confounding, non-randomized designs only; from the adjusted estimates when stratified,
+  // the conditional OR for matched pairs and the rate ratio for person-time data
+  eValues: {
+    measure: 'relativeRisk' | 'oddsRatio' | 'conditionalOddsRatio' | 'rateRatio';
+    // How an OR was put on the risk ratio scale: as is for a rare outcome, square-rooted for a common one
+    approximation: 'none' | 'rare-outcome' | 'common-outcome';
+    isAdjusted: boolean;
+    riskRatio: IntervalEstimate;
+    point: number;
+    confidenceLimit: number;
+  }[] | null;
+  analysisSettings: AnalysisSettings;
 }